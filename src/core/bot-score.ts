@@ -0,0 +1,90 @@
+/**
+ * Heuristic bot/spam likelihood from profile data alone: follow ratio
+ * extremes, account age against tweet volume, empty bio, digit-suffixed
+ * usernames and default avatars. No single signal is conclusive; they add
+ * up to a 0-100 score.
+ */
+
+import type { UserProfile } from "./types";
+
+export interface BotScore {
+  score: number; // 0-100
+  signals: string[]; // why, for display
+}
+
+// Accounts at or above this score show up under "Likely bots"
+export const LIKELY_BOT_THRESHOLD = 50;
+
+const NEW_ACCOUNT_DAYS = 30;
+const MAX_TWEETS_PER_DAY = 100;
+
+/**
+ * Score one account. Legacy-verified accounts and profiles without data
+ * (suspended, deactivated, not returned by X) always score 0.
+ */
+export function scoreBotLikelihood(
+  user: UserProfile,
+  now: number = Date.now(),
+): BotScore {
+  if (
+    user.isVerified ||
+    user.status === "suspended" ||
+    user.status === "deactivated" ||
+    user.username.startsWith("[")
+  ) {
+    return { score: 0, signals: [] };
+  }
+
+  const signals: Array<[number, string]> = [];
+
+  if (user.profileImageUrl.includes("default_profile_images")) {
+    signals.push([20, "Default avatar"]);
+  }
+  if (!user.bio.trim()) {
+    signals.push([15, "No bio"]);
+  }
+  if (/\d{4,}$/.test(user.username)) {
+    signals.push([20, "Username ends in digits"]);
+  }
+
+  if (user.followingCount >= 50 && user.followerCount === 0) {
+    signals.push([25, "No followers"]);
+  } else if (
+    user.followingCount >= 500 &&
+    user.followingCount >= user.followerCount * 10
+  ) {
+    signals.push([20, "Follows 10x more accounts than follow it"]);
+  }
+
+  const created = Date.parse(user.createdAt);
+  if (!Number.isNaN(created)) {
+    const ageDays = Math.max(1, (now - created) / 86400000);
+    if (ageDays < NEW_ACCOUNT_DAYS) {
+      signals.push([15, "Account under a month old"]);
+    }
+    const perDay = user.tweetCount / ageDays;
+    if (perDay > MAX_TWEETS_PER_DAY) {
+      signals.push([25, `${Math.round(perDay)} tweets a day`]);
+    } else if (
+      user.tweetCount === 0 &&
+      ageDays > 365 &&
+      user.followingCount >= 100
+    ) {
+      signals.push([15, "Never tweeted in over a year"]);
+    }
+  }
+
+  const score = Math.min(
+    100,
+    signals.reduce((sum, [weight]) => sum + weight, 0),
+  );
+  return { score, signals: signals.map(([, label]) => label) };
+}
+
+export function isLikelyBot(
+  user: UserProfile,
+  threshold: number = LIKELY_BOT_THRESHOLD,
+  now: number = Date.now(),
+): boolean {
+  return scoreBotLikelihood(user, now).score >= threshold;
+}
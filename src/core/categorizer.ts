@@ -1,25 +1,40 @@
 /**
- * Categorizer: Local keyword matching (free) + Claude AI categorization (pro).
+ * Categorizer: Local keyword matching (free) + LLM categorization (pro).
  */
 
+import {
+  classifyUsers,
+  planClassification,
+  type ClassificationCache,
+  type ClassificationEstimate,
+  type ClassificationFailure,
+  type ClassifyOptions,
+} from "./classification";
+import { compileKeywords, type KeywordMatcher } from "./keyword-query";
+import type { LLMConfig } from "./llm";
 import type { UserProfile, SmartList } from "./types";
+import type { UsageByModel } from "./usage";
+
+function keywordMatchers(
+  lists: SmartList[],
+): Array<{ id: number; matches: KeywordMatcher["matches"] }> {
+  return lists
+    .filter((l) => l.type === "keyword" && l.id !== undefined)
+    .map((l) => ({ id: l.id!, matches: compileKeywords(l.keywords).matches }));
+}
 
 /**
- * FREE: Local keyword matching against user bio and display name.
+ * FREE: Local keyword matching against user bio, display name and username.
+ * Keywords are queries (see keyword-query.ts); a list matches when any of
+ * its entries does.
  */
 export function categorizeByKeywords(
   user: UserProfile,
   lists: SmartList[],
 ): number[] {
-  const text = `${user.bio} ${user.displayName} ${user.username}`.toLowerCase();
-  return lists
-    .filter(
-      (l) =>
-        l.type === "keyword" &&
-        l.id !== undefined &&
-        l.keywords.some((k) => text.includes(k.toLowerCase())),
-    )
-    .map((l) => l.id!);
+  return keywordMatchers(lists)
+    .filter((m) => m.matches(user))
+    .map((m) => m.id);
 }
 
 /**
@@ -30,10 +45,10 @@ export function batchCategorizeByKeywords(
   lists: SmartList[],
 ): Map<string, number[]> {
   const result = new Map<string, number[]>();
-  const keywordLists = lists.filter((l) => l.type === "keyword");
+  const matchers = keywordMatchers(lists);
 
   for (const user of users) {
-    const matchedIds = categorizeByKeywords(user, keywordLists);
+    const matchedIds = matchers.filter((m) => m.matches(user)).map((m) => m.id);
     if (matchedIds.length > 0) {
       result.set(user.userId, matchedIds);
     }
@@ -42,48 +57,26 @@ export function batchCategorizeByKeywords(
   return result;
 }
 
-/**
- * PRO: Claude API categorization. Batches users in groups of 50.
- * Runs in background worker context.
- */
-export async function categorizeWithAI(
-  users: UserProfile[],
-  lists: SmartList[],
-  apiKey: string,
-): Promise<Map<string, number[]>> {
-  const result = new Map<string, number[]>();
-  const batchSize = 50;
-
-  const listDescriptions = lists
-    .filter((l) => l.type === "ai" && l.id !== undefined)
+function aiCategorizeOptions(lists: SmartList[]): ClassifyOptions<number> {
+  const aiLists = lists.filter((l) => l.type === "ai" && l.id !== undefined);
+  const listDescriptions = aiLists
     .map((l) => `- "${l.name}" (id: ${l.id}): ${l.description}`)
     .join("\n");
 
-  for (let i = 0; i < users.length; i += batchSize) {
-    const batch = users.slice(i, i + batchSize);
-
-    const userDescriptions = batch
-      .map(
-        (u) =>
-          `- @${u.username} (id: ${u.userId}): "${u.displayName}" - "${u.bio}"`,
-      )
-      .join("\n");
-
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "content-type": "application/json",
-        "x-api-key": apiKey,
-        "anthropic-version": "2023-06-01",
-        "anthropic-dangerous-direct-browser-access": "true",
-      },
-      body: JSON.stringify({
-        model: "claude-haiku-4-5-20251001",
-        max_tokens: 2048,
-        messages: [
-          {
-            role: "user",
-            content: `Categorize these X/Twitter users into the following lists based on their bio and display name. Each user can belong to multiple lists or none.
+  return {
+    targetIds: aiLists.map((l) => l.id!),
+    batchSize: 50,
+    maxTokens: 2048,
+    context: `categorize\n${listDescriptions}`,
+    buildPrompt: (batch) => {
+      const userDescriptions = batch
+        .map(
+          (u) =>
+            `- @${u.username} (id: ${u.userId}): "${u.displayName}" - "${u.bio}"`,
+        )
+        .join("\n");
+
+      return `Categorize these X/Twitter users into the following lists based on their bio and display name. Each user can belong to multiple lists or none.
 
 Lists:
 ${listDescriptions}
@@ -91,36 +84,78 @@ ${listDescriptions}
 Users:
 ${userDescriptions}
 
-Respond with ONLY a JSON object mapping user IDs to arrays of list IDs. Example:
-{"123": [1, 3], "456": [2]}
-
-If a user doesn't match any list, omit them. Be generous with matching - if someone's bio suggests relevance to a list topic, include them.`,
-          },
-        ],
-      }),
-    });
+Record an assignment for every user: userId is the user's id, ids are the matching list IDs (empty if none match). Be generous with matching - if someone's bio suggests relevance to a list topic, include them.`;
+    },
+  };
+}
 
-    if (!response.ok) {
-      console.error("[XSweep] Claude API error:", response.status);
-      continue;
-    }
+/**
+ * Token/cost estimate for categorizeWithAI, net of cached answers.
+ */
+export async function estimateAICategorization(
+  users: UserProfile[],
+  lists: SmartList[],
+  llm: LLMConfig,
+  cache?: ClassificationCache,
+): Promise<ClassificationEstimate> {
+  const options = { ...aiCategorizeOptions(lists), cache };
+  return (await planClassification(users, llm, options)).estimate;
+}
 
-    const data = await response.json();
-    const text = data.content?.[0]?.text || "";
-
-    // Extract JSON from response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        const mapping = JSON.parse(jsonMatch[0]) as Record<string, number[]>;
-        for (const [userId, listIds] of Object.entries(mapping)) {
-          result.set(userId, listIds);
-        }
-      } catch (e) {
-        console.error("[XSweep] Failed to parse AI response:", e);
-      }
+/**
+ * AI list assignments that the cache alone can answer: profiles unchanged
+ * since they were classified against the current list definitions. Sends
+ * no requests. Looked up one list at a time, matching the single-list runs
+ * that fill the cache.
+ */
+export async function cachedAICategorization(
+  users: UserProfile[],
+  lists: SmartList[],
+  llm: LLMConfig,
+  cache: ClassificationCache,
+): Promise<Map<string, number[]>> {
+  const mapping = new Map<string, number[]>();
+  for (const list of lists) {
+    if (list.type !== "ai" || list.id === undefined) continue;
+    const options = { ...aiCategorizeOptions([list]), cache };
+    const { hits } = await planClassification(users, llm, options);
+
+    for (const [userId, listIds] of hits) {
+      if (listIds.length === 0) continue;
+      mapping.set(userId, [...(mapping.get(userId) ?? []), ...listIds]);
     }
   }
+  return mapping;
+}
 
-  return result;
+/**
+ * PRO: AI categorization via the configured LLM provider.
+ * Batches users in groups of 50. Runs in background worker context.
+ * Returns userId → list IDs for matched users, plus the users whose batch
+ * never produced a valid answer. With a cache, unchanged profiles reuse
+ * their previous answer for the same list definitions. `onUsage` sees
+ * every request's billed tokens; the run's totals come back in `usage`.
+ */
+export async function categorizeWithAI(
+  users: UserProfile[],
+  lists: SmartList[],
+  llm: LLMConfig,
+  options: Pick<ClassifyOptions<number>, "cache" | "onUsage"> = {},
+): Promise<{
+  mapping: Map<string, number[]>;
+  failed: ClassificationFailure[];
+  cached: number;
+  usage: UsageByModel;
+}> {
+  const { assignments, failed, cached, usage } = await classifyUsers(
+    users,
+    llm,
+    { ...aiCategorizeOptions(lists), ...options },
+  );
+
+  const mapping = new Map<string, number[]>();
+  for (const [userId, listIds] of assignments) {
+    if (listIds.length > 0) mapping.set(userId, listIds);
+  }
+  return { mapping, failed, cached, usage };
 }
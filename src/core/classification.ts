@@ -0,0 +1,293 @@
+/**
+ * Batched LLM classification shared by the categorizer and the reviewer.
+ * Asks for schema-constrained output, keeps only user IDs from the batch
+ * and target IDs that exist, retries whatever is missing with backoff, and
+ * reports the users that never got a valid answer.
+ * Answers are cached per user, keyed by the classification context (model +
+ * list/taxonomy definition) and a hash of the profile text, so re-runs only
+ * send new or edited profiles.
+ */
+
+import { hashString } from "../utils/hash";
+import { delay } from "../utils/rate-limiter";
+import {
+  completeJSON,
+  estimateCost,
+  estimateTokens,
+  type LLMConfig,
+  type OutputSchema,
+  type TokenUsage,
+} from "./llm";
+import type { ClassificationCacheEntry, UserProfile } from "./types";
+import { addUsage, type UsageByModel } from "./usage";
+
+export type TargetId = string | number;
+
+export interface ClassificationFailure {
+  userId: string;
+  username: string;
+  error: string;
+}
+
+export interface ClassificationResult<T extends TargetId> {
+  assignments: Map<string, T[]>; // userId → target IDs (may be empty)
+  failed: ClassificationFailure[];
+  cached: number; // users answered from the cache
+  usage: UsageByModel; // tokens and cost of the requests sent
+}
+
+export interface ClassificationCache {
+  get(keys: string[]): Promise<ClassificationCacheEntry[]>;
+  put(entries: ClassificationCacheEntry[]): Promise<void>;
+}
+
+export interface ClassifyOptions<T extends TargetId> {
+  targetIds: T[];
+  batchSize: number;
+  maxTokens: number;
+  tier?: "fast" | "smart";
+  maxRetries?: number; // per batch, after the first attempt
+  buildPrompt: (batch: UserProfile[]) => string;
+  // Everything besides the profile that affects the answer (lists, taxonomy)
+  context: string;
+  cache?: ClassificationCache;
+  onUsage?: (usage: TokenUsage) => void | Promise<void>;
+}
+
+export interface ClassificationEstimate {
+  total: number;
+  cached: number;
+  pending: number; // users that will be sent to the model
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null; // USD; null when the model's price is unknown
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+// One `{"userId": "...", "ids": [...]}` entry in the reply
+const OUTPUT_TOKENS_PER_USER = 20;
+
+export function profileHash(user: UserProfile): string {
+  return hashString(`${user.displayName}\n${user.bio}`);
+}
+
+export function contextHash(
+  llm: LLMConfig,
+  tier: "fast" | "smart",
+  context: string,
+): string {
+  return hashString(`${llm.provider}|${llm.models[tier]}|${context}`);
+}
+
+/**
+ * Split users into cache hits (same context, unchanged profile) and users
+ * that still need the model.
+ */
+export async function planClassification<T extends TargetId>(
+  users: UserProfile[],
+  llm: LLMConfig,
+  options: ClassifyOptions<T>,
+): Promise<{
+  hits: Map<string, T[]>;
+  pending: UserProfile[];
+  estimate: ClassificationEstimate;
+}> {
+  const tier = options.tier ?? "fast";
+  const ctx = contextHash(llm, tier, options.context);
+  const hits = new Map<string, T[]>();
+
+  if (options.cache && users.length > 0) {
+    const entries = await options.cache.get(
+      users.map((u) => `${ctx}:${u.userId}`),
+    );
+    const byUser = new Map(entries.map((e) => [e.userId, e]));
+    const valid = new Set(options.targetIds.map(String));
+    for (const user of users) {
+      const entry = byUser.get(user.userId);
+      if (entry && entry.profileHash === profileHash(user)) {
+        hits.set(
+          user.userId,
+          entry.ids.filter((id) => valid.has(String(id))) as T[],
+        );
+      }
+    }
+  }
+
+  const pending = users.filter((u) => !hits.has(u.userId));
+  const schemaTokens = estimateTokens(
+    JSON.stringify(assignmentSchema(options.targetIds).schema),
+  );
+  let inputTokens = 0;
+  let requests = 0;
+  for (let i = 0; i < pending.length; i += options.batchSize) {
+    const batch = pending.slice(i, i + options.batchSize);
+    inputTokens += estimateTokens(options.buildPrompt(batch)) + schemaTokens;
+    requests++;
+  }
+  const outputTokens = pending.length * OUTPUT_TOKENS_PER_USER;
+
+  return {
+    hits,
+    pending,
+    estimate: {
+      total: users.length,
+      cached: hits.size,
+      pending: pending.length,
+      requests,
+      inputTokens,
+      outputTokens,
+      cost: estimateCost(llm, tier, inputTokens, outputTokens),
+    },
+  };
+}
+
+/**
+ * Schema for `{ assignments: [{ userId, ids: [...] }] }`. Target IDs are
+ * an enum so constrained decoders can't invent one.
+ */
+export function assignmentSchema<T extends TargetId>(
+  targetIds: T[],
+): OutputSchema {
+  const numeric = targetIds.every((id) => typeof id === "number");
+  return {
+    name: "record_assignments",
+    description: "Record which targets each account belongs to.",
+    schema: {
+      type: "object",
+      properties: {
+        assignments: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              userId: { type: "string" },
+              ids: {
+                type: "array",
+                items: {
+                  type: numeric ? "integer" : "string",
+                  enum: targetIds,
+                },
+              },
+            },
+            required: ["userId", "ids"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["assignments"],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Validate model output against the batch. Unknown users and unknown target
+ * IDs are dropped; a reply that isn't shaped like the schema throws.
+ */
+export function validateAssignments<T extends TargetId>(
+  output: unknown,
+  batchUserIds: Set<string>,
+  targetIds: T[],
+): Map<string, T[]> {
+  const assignments = (output as { assignments?: unknown })?.assignments;
+  if (!Array.isArray(assignments)) {
+    throw new Error("Response is missing the assignments array");
+  }
+
+  // Models sometimes echo numeric IDs as strings and vice versa
+  const byKey = new Map(targetIds.map((id) => [String(id), id]));
+  const result = new Map<string, T[]>();
+  for (const entry of assignments) {
+    const userId = String((entry as { userId?: unknown })?.userId ?? "");
+    const ids = (entry as { ids?: unknown })?.ids;
+    if (!batchUserIds.has(userId) || !Array.isArray(ids)) continue;
+
+    const valid = ids
+      .map((id) => byKey.get(String(id)))
+      .filter((id): id is T => id !== undefined);
+    result.set(userId, [...new Set([...(result.get(userId) ?? []), ...valid])]);
+  }
+  return result;
+}
+
+/**
+ * Classify users in batches, answering from the cache where possible.
+ * A batch is retried (only for users still missing) with exponential
+ * backoff; users left after the last retry are reported in `failed`
+ * instead of disappearing.
+ */
+export async function classifyUsers<T extends TargetId>(
+  users: UserProfile[],
+  llm: LLMConfig,
+  options: ClassifyOptions<T>,
+): Promise<ClassificationResult<T>> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const tier = options.tier ?? "fast";
+  const ctx = contextHash(llm, tier, options.context);
+  const schema = assignmentSchema(options.targetIds);
+  const { hits, pending: toSend } = await planClassification(
+    users,
+    llm,
+    options,
+  );
+  const assignments = new Map<string, T[]>(hits);
+  const failed: ClassificationFailure[] = [];
+  let usage: UsageByModel = {};
+  const onUsage = async (u: TokenUsage) => {
+    usage = addUsage(usage, llm, u);
+    await options.onUsage?.(u);
+  };
+
+  for (let i = 0; i < toSend.length; i += options.batchSize) {
+    const batch = toSend.slice(i, i + options.batchSize);
+    let pending = batch;
+    let lastError = "";
+
+    for (let attempt = 0; attempt <= maxRetries && pending.length; attempt++) {
+      if (attempt > 0) await delay(2 ** attempt, 2 ** attempt * 1.5);
+      try {
+        const output = await completeJSON(llm, {
+          tier,
+          maxTokens: options.maxTokens,
+          prompt: options.buildPrompt(pending),
+          schema,
+          onUsage,
+        });
+        const batchIds = new Set(pending.map((u) => u.userId));
+        const valid = validateAssignments(output, batchIds, options.targetIds);
+        for (const [userId, ids] of valid) assignments.set(userId, ids);
+        pending = pending.filter((u) => !valid.has(u.userId));
+        lastError = "Missing from the model's response";
+      } catch (e) {
+        lastError = e instanceof Error ? e.message : "Unknown error";
+        console.error("[XSweep] Classification batch error:", lastError);
+      }
+    }
+
+    for (const user of pending) {
+      failed.push({
+        userId: user.userId,
+        username: user.username,
+        error: lastError,
+      });
+    }
+
+    if (options.cache) {
+      const now = new Date().toISOString();
+      await options.cache.put(
+        batch
+          .filter((u) => assignments.has(u.userId))
+          .map((u) => ({
+            key: `${ctx}:${u.userId}`,
+            userId: u.userId,
+            profileHash: profileHash(u),
+            ids: assignments.get(u.userId)!,
+            classifiedAt: now,
+          })),
+      );
+    }
+  }
+
+  return { assignments, failed, cached: hits.size, usage };
+}
@@ -0,0 +1,66 @@
+/**
+ * Incremental rescan planning: decides which accounts actually need
+ * hydrating by diffing fresh ID lists against the stored users.
+ */
+
+import { UNAVAILABLE_USERNAME } from "./scanner";
+import type { UserProfile } from "./types";
+
+export const DEFAULT_RESCAN_MAX_AGE_DAYS = 30;
+
+const STORAGE_KEY = "xsweep_rescan_max_age_days";
+
+export interface IncrementalPlan {
+  newIds: string[]; // followed/following us, never stored
+  staleIds: string[]; // stored, but scannedAt older than the max age
+  removedIds: string[]; // stored as following/follower, now neither
+}
+
+/**
+ * Diff the collected ID sets against stored users.
+ * Accounts an earlier scan recorded as unavailable, stubs from imported
+ * lists and profiles marked stale with an empty scannedAt always count as
+ * stale.
+ */
+export function planIncrementalScan(
+  storedUsers: UserProfile[],
+  followingIds: string[],
+  followerIds: string[],
+  maxAgeDays: number = DEFAULT_RESCAN_MAX_AGE_DAYS,
+  now: number = Date.now(),
+): IncrementalPlan {
+  const current = new Set([...followingIds, ...followerIds].map(String));
+  const stored = new Map(storedUsers.map((u) => [u.userId, u]));
+  const cutoff = now - maxAgeDays * 86400000;
+
+  const newIds: string[] = [];
+  const staleIds: string[] = [];
+  for (const id of current) {
+    const user = stored.get(id);
+    if (!user) {
+      newIds.push(id);
+    } else if (
+      user.isStub ||
+      !user.scannedAt ||
+      user.username === UNAVAILABLE_USERNAME ||
+      new Date(user.scannedAt).getTime() < cutoff
+    ) {
+      staleIds.push(id);
+    }
+  }
+
+  const removedIds = storedUsers
+    .filter((u) => (u.isFollowing || u.isFollower) && !current.has(u.userId))
+    .map((u) => u.userId);
+
+  return { newIds, staleIds, removedIds };
+}
+
+export async function getRescanMaxAgeDays(): Promise<number> {
+  const data = await chrome.storage.local.get(STORAGE_KEY);
+  return data[STORAGE_KEY] ?? DEFAULT_RESCAN_MAX_AGE_DAYS;
+}
+
+export async function setRescanMaxAgeDays(days: number): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: days });
+}
@@ -0,0 +1,300 @@
+/**
+ * Query language for keyword lists. Each entry in SmartList.keywords is a
+ * query; a user belongs to the list when any entry matches.
+ *
+ *   ai                 whole word ("ai" doesn't match "said")
+ *   crypto*            word prefix (crypto, cryptocurrency)
+ *   "machine learning" phrase
+ *   /gpt-?\d/          regular expression (case-insensitive unless flags given)
+ *   bio:founder        one field: bio, name, username, location, url
+ *   a AND b, a b       both
+ *   a OR b             either
+ *   NOT a, -a          exclude
+ *   (a OR b) NOT c     grouping
+ *
+ * Unscoped terms search the bio, display name and username.
+ */
+
+import type { UserProfile } from "./types";
+
+export type QueryField = "bio" | "name" | "username" | "location" | "url";
+
+export type QueryNode =
+  | { kind: "term"; field: QueryField | null; pattern: RegExp }
+  | { kind: "and"; children: QueryNode[] }
+  | { kind: "or"; children: QueryNode[] }
+  | { kind: "not"; child: QueryNode };
+
+export interface KeywordError {
+  keyword: string;
+  error: string;
+}
+
+export interface KeywordMatcher {
+  matches: (user: UserProfile) => boolean;
+  errors: KeywordError[]; // entries that failed to parse; they never match
+}
+
+type Token =
+  | { type: "(" | ")" | "AND" | "OR" | "NOT" }
+  | { type: "term"; field: QueryField | null; pattern: RegExp };
+
+const FIELDS: QueryField[] = ["bio", "name", "username", "location", "url"];
+const FIELD_PREFIX = new RegExp(`^(${FIELDS.join("|")}):`, "i");
+// Letters, digits and underscore count as part of a word
+const BEFORE = "(?<![\\p{L}\\p{N}_])";
+const AFTER = "(?![\\p{L}\\p{N}_])";
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function wordPattern(text: string, prefix: boolean): RegExp {
+  const body = escapeRegex(text).replace(/\s+/g, "\\s+");
+  return new RegExp(`${BEFORE}${body}${prefix ? "" : AFTER}`, "iu");
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const c = query[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    if (c === "(" || c === ")") {
+      tokens.push({ type: c });
+      i++;
+      continue;
+    }
+    if (c === "-" && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ type: "NOT" });
+      i++;
+      continue;
+    }
+
+    let field: QueryField | null = null;
+    const scoped = query.slice(i).match(FIELD_PREFIX);
+    if (scoped) {
+      field = scoped[1].toLowerCase() as QueryField;
+      i += scoped[0].length;
+    }
+
+    const start = query[i];
+    if (start === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end < 0) throw new Error("Unclosed quote");
+      const phrase = query.slice(i + 1, end).trim();
+      if (!phrase) throw new Error("Empty phrase");
+      tokens.push({ type: "term", field, pattern: wordPattern(phrase, false) });
+      i = end + 1;
+      continue;
+    }
+
+    if (start === "/") {
+      let end = i + 1;
+      while (end < query.length && query[end] !== "/") {
+        end += query[end] === "\\" ? 2 : 1;
+      }
+      if (end >= query.length) throw new Error("Unclosed regex");
+      const source = query.slice(i + 1, end);
+      const flags = query.slice(end + 1).match(/^[a-z]*/)![0];
+      i = end + 1 + flags.length;
+      let pattern: RegExp;
+      try {
+        // g and y make test() stateful
+        pattern = new RegExp(source, flags.replace(/[gy]/g, "") || "i");
+      } catch (e) {
+        throw new Error(
+          `Invalid regex /${source}/: ${e instanceof Error ? e.message : e}`,
+        );
+      }
+      tokens.push({ type: "term", field, pattern });
+      continue;
+    }
+
+    let end = i;
+    while (end < query.length && !/[\s()]/.test(query[end])) end++;
+    const word = query.slice(i, end);
+    i = end;
+
+    if (!word) {
+      if (field) throw new Error(`Missing value after "${field}:"`);
+      continue;
+    }
+    if (!field && (word === "AND" || word === "OR" || word === "NOT")) {
+      tokens.push({ type: word });
+      continue;
+    }
+    const prefix = word.length > 1 && word.endsWith("*");
+    tokens.push({
+      type: "term",
+      field,
+      pattern: wordPattern(prefix ? word.slice(0, -1) : word, prefix),
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse one query. Throws with a short description on syntax errors.
+ */
+export function parseQuery(query: string): QueryNode {
+  const tokens = tokenize(query);
+  let pos = 0;
+
+  const peek = () => tokens[pos]?.type;
+
+  function parseOr(): QueryNode {
+    const children = [parseAnd()];
+    while (peek() === "OR") {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: "or", children };
+  }
+
+  function parseAnd(): QueryNode {
+    const children = [parseUnary()];
+    while (true) {
+      const next = peek();
+      if (next === "AND") {
+        pos++;
+      } else if (next !== "term" && next !== "NOT" && next !== "(") {
+        break;
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: "and", children };
+  }
+
+  function parseUnary(): QueryNode {
+    if (peek() === "NOT") {
+      pos++;
+      if (pos >= tokens.length) throw new Error("Missing term after NOT");
+      return { kind: "not", child: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): QueryNode {
+    const token = tokens[pos];
+    if (!token) throw new Error("Query ends too early");
+    if (token.type === "(") {
+      pos++;
+      const node = parseOr();
+      if (peek() !== ")") throw new Error("Missing )");
+      pos++;
+      return node;
+    }
+    if (token.type === "term") {
+      pos++;
+      return { kind: "term", field: token.field, pattern: token.pattern };
+    }
+    throw new Error(`Unexpected ${token.type}`);
+  }
+
+  if (tokens.length === 0) throw new Error("Empty query");
+  const node = parseOr();
+  if (pos < tokens.length) throw new Error(`Unexpected ${tokens[pos].type}`);
+  return node;
+}
+
+function fieldText(user: UserProfile, field: QueryField): string {
+  switch (field) {
+    case "bio":
+      return user.bio;
+    case "name":
+      return user.displayName;
+    case "username":
+      return user.username;
+    case "location":
+      return user.location ?? "";
+    case "url":
+      return user.url ?? "";
+  }
+}
+
+export function matchesQuery(node: QueryNode, user: UserProfile): boolean {
+  switch (node.kind) {
+    case "term":
+      return node.field
+        ? node.pattern.test(fieldText(user, node.field))
+        : [user.bio, user.displayName, user.username].some((text) =>
+            node.pattern.test(text),
+          );
+    case "and":
+      return node.children.every((child) => matchesQuery(child, user));
+    case "or":
+      return node.children.some((child) => matchesQuery(child, user));
+    case "not":
+      return !matchesQuery(node.child, user);
+  }
+}
+
+/**
+ * Compile a list's keyword entries once for matching many users.
+ */
+export function compileKeywords(keywords: string[]): KeywordMatcher {
+  const queries: QueryNode[] = [];
+  const errors: KeywordError[] = [];
+  for (const keyword of keywords) {
+    try {
+      queries.push(parseQuery(keyword));
+    } catch (e) {
+      errors.push({
+        keyword,
+        error: e instanceof Error ? e.message : "Invalid query",
+      });
+    }
+  }
+  return {
+    matches: (user) => queries.some((q) => matchesQuery(q, user)),
+    errors,
+  };
+}
+
+/**
+ * Split the comma-separated keywords field into entries. Commas inside
+ * quotes, regexes and parentheses don't split.
+ */
+export function splitKeywords(input: string): string[] {
+  const entries: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quoted = false;
+  let regex = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (regex) {
+      if (c === "\\") {
+        current += c + (input[i + 1] ?? "");
+        i++;
+        continue;
+      }
+      if (c === "/") regex = false;
+    } else if (quoted) {
+      if (c === '"') quoted = false;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === "/" && /(^|[\s(,:-])$/.test(current)) {
+      regex = true;
+    } else if (c === "(") {
+      depth++;
+    } else if (c === ")") {
+      depth = Math.max(0, depth - 1);
+    } else if (c === "," && depth === 0) {
+      entries.push(current);
+      current = "";
+      continue;
+    }
+    current += c;
+  }
+  entries.push(current);
+
+  return entries.map((e) => e.trim()).filter(Boolean);
+}
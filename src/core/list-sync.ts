@@ -0,0 +1,157 @@
+/**
+ * Two-way membership sync between a smart list and its linked X list.
+ * Both sides are compared with the X members recorded at the last sync:
+ * whatever changed on one side is applied to the other. Without a recorded
+ * sync there is no way to tell an addition from a removal, so every
+ * difference becomes a conflict the user resolves.
+ */
+
+import { bulkWriteListMembers, type ListMemberWrite } from "./list-writer";
+import type { ListSyncState } from "./types";
+
+export interface ListSyncConflict {
+  userId: string;
+  onX: boolean; // member on X only (otherwise member locally only)
+}
+
+export interface ListSyncPlan {
+  addToX: string[];
+  removeFromX: string[];
+  addLocally: string[];
+  removeLocally: string[];
+  conflicts: ListSyncConflict[];
+}
+
+export type ConflictResolution = "merge" | "prefer-local" | "prefer-x";
+
+export interface XListMemberOps {
+  add(userId: string): Promise<void>;
+  remove(userId: string): Promise<void>;
+}
+
+export interface ListSyncResult {
+  added: string[]; // added on X
+  removed: string[]; // removed from X
+  failed: Array<{ userId: string; error: string }>;
+}
+
+/**
+ * Work out what each side needs. `knownUserIds` are the accounts in the
+ * local DB: a synced member that has since been deleted locally isn't
+ * treated as a removal.
+ */
+export function planListSync(
+  localIds: string[],
+  xIds: string[],
+  lastSync: ListSyncState | undefined,
+  knownUserIds: Set<string>,
+): ListSyncPlan {
+  const local = new Set(localIds);
+  const remote = new Set(xIds);
+  const base = new Set(lastSync?.memberIds ?? []);
+  const plan: ListSyncPlan = {
+    addToX: [],
+    removeFromX: [],
+    addLocally: [],
+    removeLocally: [],
+    conflicts: [],
+  };
+
+  for (const userId of local) {
+    if (remote.has(userId)) continue;
+    if (!lastSync) plan.conflicts.push({ userId, onX: false });
+    else if (base.has(userId)) plan.removeLocally.push(userId);
+    else plan.addToX.push(userId);
+  }
+
+  for (const userId of remote) {
+    if (local.has(userId)) continue;
+    if (!lastSync) plan.conflicts.push({ userId, onX: true });
+    else if (!base.has(userId)) plan.addLocally.push(userId);
+    else if (knownUserIds.has(userId)) plan.removeFromX.push(userId);
+  }
+
+  return plan;
+}
+
+/**
+ * Turn conflicts into actions: "merge" keeps members from both sides,
+ * "prefer-local" and "prefer-x" make the other side match.
+ */
+export function resolveConflicts(
+  plan: ListSyncPlan,
+  resolution: ConflictResolution,
+): ListSyncPlan {
+  const resolved: ListSyncPlan = {
+    addToX: [...plan.addToX],
+    removeFromX: [...plan.removeFromX],
+    addLocally: [...plan.addLocally],
+    removeLocally: [...plan.removeLocally],
+    conflicts: [],
+  };
+  for (const { userId, onX } of plan.conflicts) {
+    if (onX) {
+      if (resolution === "prefer-local") resolved.removeFromX.push(userId);
+      else resolved.addLocally.push(userId);
+    } else {
+      if (resolution === "prefer-x") resolved.removeLocally.push(userId);
+      else resolved.addToX.push(userId);
+    }
+  }
+  return resolved;
+}
+
+export function isInSync(plan: ListSyncPlan): boolean {
+  return (
+    plan.addToX.length === 0 &&
+    plan.removeFromX.length === 0 &&
+    plan.addLocally.length === 0 &&
+    plan.removeLocally.length === 0 &&
+    plan.conflicts.length === 0
+  );
+}
+
+/**
+ * Apply the X side of a plan through the paced list writer. Failures are
+ * collected rather than stopping the sync; they, and anything left after
+ * stopListWrites(), are retried on the next one.
+ */
+export async function pushToX(
+  plan: ListSyncPlan,
+  ops: XListMemberOps,
+  onProgress?: (done: number, total: number) => void,
+): Promise<ListSyncResult> {
+  const writes: ListMemberWrite[] = [
+    ...plan.addToX.map((userId) => ({ userId, op: "add" as const })),
+    ...plan.removeFromX.map((userId) => ({ userId, op: "remove" as const })),
+  ];
+  const results = await bulkWriteListMembers(
+    writes,
+    ({ userId, op }) => ops[op](userId),
+    {},
+    onProgress,
+  );
+
+  const result: ListSyncResult = { added: [], removed: [], failed: [] };
+  for (const r of results) {
+    if (!r.success) {
+      result.failed.push({ userId: r.userId, error: r.error! });
+    } else {
+      (r.op === "add" ? result.added : result.removed).push(r.userId);
+    }
+  }
+  return result;
+}
+
+/**
+ * The state to record after a sync: the X members as they are now.
+ */
+export function nextSyncState(
+  xIds: string[],
+  result: ListSyncResult,
+): ListSyncState {
+  const removed = new Set(result.removed);
+  const members = new Set(xIds.filter((id) => !removed.has(id)));
+  for (const id of result.added) members.add(id);
+  return { syncedAt: new Date().toISOString(), memberIds: [...members] };
+}
@@ -0,0 +1,78 @@
+/**
+ * Paced X list membership writes, for saving a review category to X and
+ * for list sync. The API calls run in the content script
+ * (ADD_X_LIST_MEMBER, REMOVE_X_LIST_MEMBER); bulkWriteListMembers paces
+ * them from the side panel like bulkRefollow.
+ */
+
+import { delay } from "../utils/rate-limiter";
+
+export type ListMemberOp = "add" | "remove";
+
+export interface ListMemberWrite {
+  userId: string;
+  op: ListMemberOp;
+}
+
+export interface ListMemberWriteResult extends ListMemberWrite {
+  success: boolean;
+  error?: string;
+}
+
+export type ListMemberWriteFn = (write: ListMemberWrite) => Promise<void>;
+
+let stopped = false;
+
+interface ListWriteConfig {
+  delayMin: number;
+  delayMax: number;
+}
+
+const defaultConfig: ListWriteConfig = {
+  delayMin: 3,
+  delayMax: 8,
+};
+
+type ProgressCallback = (done: number, total: number) => void;
+
+export function stopListWrites(): void {
+  stopped = true;
+}
+
+/**
+ * Apply membership writes one at a time with a randomized delay between
+ * requests. A write that throws is recorded as failed and the rest go on;
+ * after stopListWrites() the remaining writes are left out of the results.
+ */
+export async function bulkWriteListMembers(
+  writes: ListMemberWrite[],
+  write: ListMemberWriteFn,
+  config: Partial<ListWriteConfig> = {},
+  onProgress?: ProgressCallback,
+): Promise<ListMemberWriteResult[]> {
+  const cfg = { ...defaultConfig, ...config };
+  stopped = false;
+  const results: ListMemberWriteResult[] = [];
+
+  for (let i = 0; i < writes.length; i++) {
+    if (stopped) break;
+
+    try {
+      await write(writes[i]);
+      results.push({ ...writes[i], success: true });
+    } catch (e) {
+      results.push({
+        ...writes[i],
+        success: false,
+        error: e instanceof Error ? e.message : "Unknown error",
+      });
+    }
+    onProgress?.(i + 1, writes.length);
+
+    if (i < writes.length - 1 && !stopped) {
+      await delay(cfg.delayMin, cfg.delayMax);
+    }
+  }
+
+  return results;
+}
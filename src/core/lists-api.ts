@@ -5,6 +5,7 @@
 
 import { getHeaders, getMyUserId } from "./auth";
 import { delay } from "../utils/rate-limiter";
+import { scheduledFetch } from "../utils/request-scheduler";
 
 export interface XList {
   id: string;
@@ -12,8 +13,13 @@ export interface XList {
   description: string;
   memberCount: number;
   mode: "public" | "private";
+  owner?: string; // @username, only for lists someone else owns
 }
 
+// X rejects list names and descriptions longer than these
+export const X_LIST_NAME_MAX = 25;
+export const X_LIST_DESCRIPTION_MAX = 100;
+
 export interface XListMember {
   userId: string;
   username: string;
@@ -21,17 +27,38 @@ export interface XListMember {
   profileImageUrl: string;
 }
 
+interface RawXList {
+  id_str: string;
+  name: string;
+  description: string;
+  member_count: number;
+  mode: string;
+  user: { id_str: string; screen_name?: string };
+}
+
+function toXList(l: RawXList, myUserId: string): XList {
+  const list: XList = {
+    id: l.id_str,
+    name: l.name,
+    description: l.description || "",
+    memberCount: l.member_count,
+    mode: l.mode === "private" ? "private" : "public",
+  };
+  if (l.user.id_str !== myUserId) list.owner = l.user.screen_name || "";
+  return list;
+}
+
 /**
- * Fetch all lists owned by the authenticated user.
+ * Fetch lists the authenticated user owns or subscribes to (up to 100).
  */
-export async function fetchMyLists(): Promise<XList[]> {
+export async function fetchLists(): Promise<XList[]> {
   const userId = getMyUserId();
   const params = new URLSearchParams({
     user_id: userId,
     reverse: "true",
   });
 
-  const resp = await fetch(
+  const resp = await scheduledFetch(
     `https://x.com/i/api/1.1/lists/list.json?${params}`,
     { headers: getHeaders(), credentials: "include" },
   );
@@ -40,96 +67,174 @@ export async function fetchMyLists(): Promise<XList[]> {
     throw new Error(`lists/list.json error: ${resp.status}`);
   }
 
-  const data: Array<{
-    id_str: string;
-    name: string;
-    description: string;
-    member_count: number;
-    mode: string;
-    user: { id_str: string };
-  }> = await resp.json();
-
-  // Only return lists we own (not subscribed)
-  return data
-    .filter((l) => l.user.id_str === userId)
-    .map((l) => ({
-      id: l.id_str,
-      name: l.name,
-      description: l.description || "",
-      memberCount: l.member_count,
-      mode: l.mode === "private" ? "private" : "public",
-    }));
+  const data: RawXList[] = await resp.json();
+  return data.map((l) => toXList(l, userId));
 }
 
 /**
- * Fetch members of a specific list.
+ * Fetch all lists owned by the authenticated user.
  */
-export async function fetchListMembers(listId: string): Promise<XListMember[]> {
-  const allMembers: XListMember[] = [];
-  let cursor = "-1";
+export async function fetchMyLists(): Promise<XList[]> {
+  return (await fetchLists()).filter((l) => l.owner === undefined);
+}
 
-  while (true) {
-    const params = new URLSearchParams({
-      list_id: listId,
-      count: "5000",
-      cursor,
-      skip_status: "true",
-      include_entities: "false",
-    });
-
-    const resp = await fetch(
-      `https://x.com/i/api/1.1/lists/members.json?${params}`,
-      { headers: getHeaders(), credentials: "include" },
-    );
-
-    if (resp.status === 429) {
-      await delay(60, 90);
-      continue;
-    }
+/**
+ * Fetch lists the authenticated user subscribes to but doesn't own.
+ */
+export async function fetchSubscribedLists(): Promise<XList[]> {
+  return (await fetchLists()).filter((l) => l.owner !== undefined);
+}
 
-    if (!resp.ok) {
-      throw new Error(`lists/members.json error: ${resp.status}`);
-    }
+/**
+ * Fetch any list we can see by ID: our own, or someone else's public list.
+ */
+export async function fetchListById(listId: string): Promise<XList> {
+  const params = new URLSearchParams({ list_id: listId });
+  const resp = await scheduledFetch(
+    `https://x.com/i/api/1.1/lists/show.json?${params}`,
+    { headers: getHeaders(), credentials: "include" },
+  );
+
+  // X answers 404 for private lists of other users too
+  if (resp.status === 404) {
+    throw new Error("List not found, or it's private");
+  }
+  if (!resp.ok) {
+    throw new Error(`lists/show.json error: ${resp.status}`);
+  }
+
+  return toXList(await resp.json(), getMyUserId());
+}
+
+/**
+ * Extract a list ID from a list URL (x.com/i/lists/123) or a bare ID.
+ * Returns null when the input is neither.
+ */
+export function parseListId(input: string): string | null {
+  const text = input.trim();
+  if (/^\d+$/.test(text)) return text;
+  const match = text.match(/(?:x|twitter)\.com\/i\/lists\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+export interface ListMembersPage {
+  members: XListMember[];
+  nextCursor: string | null; // null on the last page
+}
+
+/**
+ * Fetch one page of list members. 429s wait for the rate-limit reset in the
+ * request scheduler, so a page either arrives or fails with an error.
+ */
+export async function fetchListMembersPage(
+  listId: string,
+  cursor = "-1",
+): Promise<ListMembersPage> {
+  const params = new URLSearchParams({
+    list_id: listId,
+    count: "5000",
+    cursor,
+    skip_status: "true",
+    include_entities: "false",
+  });
+
+  const resp = await scheduledFetch(
+    `https://x.com/i/api/1.1/lists/members.json?${params}`,
+    { headers: getHeaders(), credentials: "include" },
+  );
+
+  if (!resp.ok) {
+    throw new Error(`lists/members.json error: ${resp.status}`);
+  }
+
+  // An unreadable page would otherwise end the import early without notice
+  const data = await resp.json().catch(() => null);
+  if (!data) {
+    throw new Error("lists/members.json returned an empty response");
+  }
+
+  const members: XListMember[] = (data.users || []).map(
+    (u: Record<string, string>) => ({
+      userId: String(u.id_str || u.id),
+      username: u.screen_name || "",
+      displayName: u.name || "",
+      profileImageUrl: u.profile_image_url_https || "",
+    }),
+  );
+  const next = data.next_cursor_str;
+  return { members, nextCursor: next && next !== "0" ? next : null };
+}
 
-    const data = await resp.json();
-    const users = data.users || [];
+/**
+ * Fetch a list's members page by page, handing each page to onPage as it
+ * arrives so large lists never sit in memory whole. Each page carries the
+ * cursor to resume from if a later page fails; pass it back as `cursor`.
+ * A repeated cursor throws like a failed page, so the import can resume.
+ * Returns the number of members fetched.
+ */
+export async function streamListMembers(
+  listId: string,
+  onPage: (page: ListMembersPage, fetched: number) => Promise<void>,
+  cursor = "-1",
+): Promise<number> {
+  const seenCursors = new Set<string>([cursor]);
+  let fetched = 0;
 
-    for (const u of users) {
-      allMembers.push({
-        userId: String(u.id_str || u.id),
-        username: u.screen_name || "",
-        displayName: u.name || "",
-        profileImageUrl: u.profile_image_url_https || "",
-      });
+  while (true) {
+    const page = await fetchListMembersPage(listId, cursor);
+    const next = page.nextCursor;
+    if (next && seenCursors.has(next)) {
+      throw new Error(`lists/members.json repeated cursor ${next}`);
     }
 
-    const nextCursor = data.next_cursor_str;
-    if (!nextCursor || nextCursor === "0") break;
-    cursor = nextCursor;
+    fetched += page.members.length;
+    await onPage(page, fetched);
+
+    if (!next) break;
+    seenCursors.add(next);
+    cursor = next;
 
     await delay(2, 4);
   }
 
+  return fetched;
+}
+
+/**
+ * Fetch all members of a list.
+ */
+export async function fetchListMembers(listId: string): Promise<XListMember[]> {
+  const allMembers: XListMember[] = [];
+  await streamListMembers(listId, async (page) => {
+    allMembers.push(...page.members);
+  });
   return allMembers;
 }
 
 /**
- * Create a new X list.
+ * Create a new X list. Name and description are cut to X's length limits.
  */
 export async function createXList(
   name: string,
   description: string,
   mode: "public" | "private" = "private",
 ): Promise<XList> {
-  const params = new URLSearchParams({ name, description, mode });
-
-  const resp = await fetch("https://x.com/i/api/1.1/lists/create.json", {
-    method: "POST",
-    headers: getHeaders(),
-    credentials: "include",
-    body: params,
+  const params = new URLSearchParams({
+    name: name.slice(0, X_LIST_NAME_MAX),
+    description: description.slice(0, X_LIST_DESCRIPTION_MAX),
+    mode,
   });
 
+  const resp = await scheduledFetch(
+    "https://x.com/i/api/1.1/lists/create.json",
+    {
+      method: "POST",
+      headers: getHeaders(),
+      credentials: "include",
+      body: params,
+    },
+  );
+
   if (!resp.ok) {
     throw new Error(`lists/create.json error: ${resp.status}`);
   }
@@ -153,7 +258,8 @@ export async function addListMember(
 ): Promise<void> {
   const params = new URLSearchParams({ list_id: listId, user_id: userId });
 
-  const resp = await fetch(
+  // Retry once on 429
+  const resp = await scheduledFetch(
     "https://x.com/i/api/1.1/lists/members/create.json",
     {
       method: "POST",
@@ -161,27 +267,36 @@ export async function addListMember(
       credentials: "include",
       body: params,
     },
+    { maxRetries: 1, fallbackWait: [30, 60] },
   );
 
-  if (resp.status === 429) {
-    await delay(30, 60);
-    // Retry once
-    const retry = await fetch(
-      "https://x.com/i/api/1.1/lists/members/create.json",
-      {
-        method: "POST",
-        headers: getHeaders(),
-        credentials: "include",
-        body: params,
-      },
-    );
-    if (!retry.ok) {
-      throw new Error(`lists/members/create.json error: ${retry.status}`);
-    }
-    return;
+  if (!resp.ok) {
+    throw new Error(`lists/members/create.json error: ${resp.status}`);
   }
+}
+
+/**
+ * Remove a member from an X list.
+ */
+export async function removeListMember(
+  listId: string,
+  userId: string,
+): Promise<void> {
+  const params = new URLSearchParams({ list_id: listId, user_id: userId });
+
+  // Retry once on 429
+  const resp = await scheduledFetch(
+    "https://x.com/i/api/1.1/lists/members/destroy.json",
+    {
+      method: "POST",
+      headers: getHeaders(),
+      credentials: "include",
+      body: params,
+    },
+    { maxRetries: 1, fallbackWait: [30, 60] },
+  );
 
   if (!resp.ok) {
-    throw new Error(`lists/members/create.json error: ${resp.status}`);
+    throw new Error(`lists/members/destroy.json error: ${resp.status}`);
   }
 }
@@ -0,0 +1,356 @@
+/**
+ * LLM provider layer for the categorizer and reviewer.
+ * Anthropic, any OpenAI-compatible endpoint, or a local server
+ * (Ollama, llama.cpp) — chosen in Settings and stored in chrome.storage.local.
+ * Each feature asks for a model tier: "fast" for bulk classification,
+ * "smart" for one-off work like taxonomy generation.
+ */
+
+export type LLMProviderKind = "anthropic" | "openai" | "local";
+export type ModelTier = "fast" | "smart";
+
+export interface LLMConfig {
+  provider: LLMProviderKind;
+  apiKey: string;
+  baseUrl: string;
+  models: Record<ModelTier, string>;
+}
+
+export interface OutputSchema {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>; // JSON Schema, object at the top level
+}
+
+export interface TokenUsage {
+  model: string;
+  tier: ModelTier;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionRequest {
+  prompt: string;
+  tier: ModelTier;
+  maxTokens: number;
+  // Ask for output matching this schema (tool use / response_format)
+  schema?: OutputSchema;
+  // Called with the tokens the provider billed for this request
+  onUsage?: (usage: TokenUsage) => void | Promise<void>;
+}
+
+interface LLMProvider {
+  label: string;
+  requiresApiKey: boolean;
+  defaults: Omit<LLMConfig, "provider" | "apiKey">;
+  buildRequest(
+    config: LLMConfig,
+    req: CompletionRequest,
+  ): { url: string; init: RequestInit };
+  parseText(data: unknown): string;
+  parseStructured(data: unknown): unknown;
+  parseUsage(
+    data: unknown,
+  ): Pick<TokenUsage, "inputTokens" | "outputTokens"> | null;
+}
+
+// Chat Completions shape, spoken by OpenAI, Ollama, llama.cpp, vLLM, LM Studio
+function openAICompatible(
+  label: string,
+  requiresApiKey: boolean,
+  defaults: LLMProvider["defaults"],
+): LLMProvider {
+  return {
+    label,
+    requiresApiKey,
+    defaults,
+    buildRequest(config, req) {
+      const headers: Record<string, string> = {
+        "content-type": "application/json",
+      };
+      if (config.apiKey) headers.authorization = `Bearer ${config.apiKey}`;
+      return {
+        url: `${trimSlash(config.baseUrl)}/chat/completions`,
+        init: {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            model: config.models[req.tier],
+            max_tokens: req.maxTokens,
+            messages: [{ role: "user", content: req.prompt }],
+            ...(req.schema && {
+              response_format: {
+                type: "json_schema",
+                json_schema: {
+                  name: req.schema.name,
+                  description: req.schema.description,
+                  schema: req.schema.schema,
+                  strict: true,
+                },
+              },
+            }),
+          }),
+        },
+      };
+    },
+    parseText(data) {
+      const d = data as { choices?: Array<{ message?: { content?: string } }> };
+      return d.choices?.[0]?.message?.content || "";
+    },
+    parseStructured(data) {
+      return extractJSON(this.parseText(data));
+    },
+    parseUsage(data) {
+      const usage = (
+        data as {
+          usage?: { prompt_tokens?: number; completion_tokens?: number };
+        }
+      ).usage;
+      if (typeof usage?.prompt_tokens !== "number") return null;
+      return {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens ?? 0,
+      };
+    },
+  };
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderKind, LLMProvider> = {
+  anthropic: {
+    label: "Anthropic (Claude)",
+    requiresApiKey: true,
+    defaults: {
+      baseUrl: "https://api.anthropic.com",
+      models: {
+        fast: "claude-haiku-4-5-20251001",
+        smart: "claude-sonnet-4-5-20250929",
+      },
+    },
+    buildRequest(config, req) {
+      return {
+        url: `${trimSlash(config.baseUrl)}/v1/messages`,
+        init: {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "x-api-key": config.apiKey,
+            "anthropic-version": "2023-06-01",
+            "anthropic-dangerous-direct-browser-access": "true",
+          },
+          body: JSON.stringify({
+            model: config.models[req.tier],
+            max_tokens: req.maxTokens,
+            messages: [{ role: "user", content: req.prompt }],
+            // Forced tool use is how the Messages API does structured output
+            ...(req.schema && {
+              tools: [
+                {
+                  name: req.schema.name,
+                  description: req.schema.description,
+                  input_schema: req.schema.schema,
+                },
+              ],
+              tool_choice: { type: "tool", name: req.schema.name },
+            }),
+          }),
+        },
+      };
+    },
+    parseText(data) {
+      const d = data as { content?: Array<{ text?: string }> };
+      return d.content?.[0]?.text || "";
+    },
+    parseStructured(data) {
+      const d = data as {
+        content?: Array<{ type?: string; text?: string; input?: unknown }>;
+      };
+      const toolUse = d.content?.find((b) => b.type === "tool_use");
+      if (toolUse) return toolUse.input;
+      return extractJSON(this.parseText(data));
+    },
+    parseUsage(data) {
+      const usage = (
+        data as { usage?: { input_tokens?: number; output_tokens?: number } }
+      ).usage;
+      if (typeof usage?.input_tokens !== "number") return null;
+      return {
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens ?? 0,
+      };
+    },
+  },
+  openai: openAICompatible("OpenAI-compatible", true, {
+    baseUrl: "https://api.openai.com/v1",
+    models: { fast: "gpt-4o-mini", smart: "gpt-4o" },
+  }),
+  local: openAICompatible("Local server (Ollama, llama.cpp)", false, {
+    baseUrl: "http://localhost:11434/v1",
+    models: { fast: "llama3.1", smart: "llama3.1" },
+  }),
+};
+
+// USD per million tokens [input, output]. Unknown models have no estimate.
+const MODEL_PRICES: Record<string, [number, number]> = {
+  "claude-haiku-4-5-20251001": [1, 5],
+  "claude-sonnet-4-5-20250929": [3, 15],
+  "gpt-4o-mini": [0.15, 0.6],
+  "gpt-4o": [2.5, 10],
+};
+
+const STORAGE_KEY = "xsweep_llm_config";
+// Written by earlier versions, which only spoke to Anthropic
+const LEGACY_API_KEY = "xsweep_claude_api_key";
+
+export function defaultLLMConfig(
+  provider: LLMProviderKind = "anthropic",
+  apiKey = "",
+): LLMConfig {
+  const { baseUrl, models } = LLM_PROVIDERS[provider].defaults;
+  return { provider, apiKey, baseUrl, models: { ...models } };
+}
+
+export async function loadLLMConfig(): Promise<LLMConfig> {
+  const data = await chrome.storage.local.get([STORAGE_KEY, LEGACY_API_KEY]);
+  if (data[STORAGE_KEY]) return data[STORAGE_KEY];
+  return defaultLLMConfig("anthropic", data[LEGACY_API_KEY] || "");
+}
+
+export async function saveLLMConfig(config: LLMConfig): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: config });
+}
+
+/**
+ * Rough token count for English text (~4 characters per token).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimated USD cost of a request on the tier's model. Local servers are
+ * free; models without a known price return null.
+ */
+export function estimateCost(
+  config: LLMConfig,
+  tier: ModelTier,
+  inputTokens: number,
+  outputTokens: number,
+): number | null {
+  if (config.provider === "local") return 0;
+  const price = MODEL_PRICES[config.models[tier]];
+  if (!price) return null;
+  return (inputTokens * price[0] + outputTokens * price[1]) / 1_000_000;
+}
+
+/**
+ * Whether the config has everything needed to send a request.
+ */
+export function isLLMConfigured(config: LLMConfig): boolean {
+  if (!config.baseUrl || !config.models.fast || !config.models.smart) {
+    return false;
+  }
+  return !LLM_PROVIDERS[config.provider].requiresApiKey || !!config.apiKey;
+}
+
+/**
+ * Send a single-turn prompt and return the model's text reply.
+ * Throws with the HTTP status and response body on a non-2xx response.
+ */
+export async function complete(
+  config: LLMConfig,
+  req: CompletionRequest,
+): Promise<string> {
+  const provider = LLM_PROVIDERS[config.provider];
+  return provider.parseText(await send(config, req));
+}
+
+/**
+ * Send a prompt with an output schema and return the parsed JSON value.
+ * Throws when the reply contains no JSON; callers validate the shape.
+ */
+export async function completeJSON(
+  config: LLMConfig,
+  req: CompletionRequest & { schema: OutputSchema },
+): Promise<unknown> {
+  const provider = LLM_PROVIDERS[config.provider];
+  const output = provider.parseStructured(await send(config, req));
+  if (output === undefined) {
+    throw new Error(`${provider.label} returned no structured output`);
+  }
+  return output;
+}
+
+async function send(config: LLMConfig, req: CompletionRequest) {
+  const provider = LLM_PROVIDERS[config.provider];
+  const { url, init } = provider.buildRequest(config, req);
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `${provider.label} API error ${response.status}: ${errorText}`,
+    );
+  }
+
+  const data = await response.json();
+  if (req.onUsage) {
+    // Some local servers omit usage; fall back to a character-based estimate
+    const usage = provider.parseUsage(data) ?? {
+      inputTokens: estimateTokens(req.prompt),
+      outputTokens: estimateTokens(outputText(provider, data, !!req.schema)),
+    };
+    await req.onUsage({
+      model: config.models[req.tier],
+      tier: req.tier,
+      ...usage,
+    });
+  }
+  return data;
+}
+
+/**
+ * What the model generated, without the response envelope around it.
+ */
+function outputText(
+  provider: LLMProvider,
+  data: unknown,
+  structured: boolean,
+): string {
+  if (!structured) return provider.parseText(data);
+  const output = provider.parseStructured(data);
+  return output === undefined ? "" : JSON.stringify(output);
+}
+
+/**
+ * Parse the first complete JSON object in model text. Servers without
+ * schema support may wrap it in prose or a code fence.
+ */
+export function extractJSON(text: string): unknown {
+  const start = text.indexOf("{");
+  if (start === -1) return undefined;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}" && --depth === 0) {
+      try {
+        return JSON.parse(text.slice(start, i + 1));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
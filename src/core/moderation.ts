@@ -0,0 +1,144 @@
+/**
+ * Block and remove-follower actions for spam cleanup.
+ * The API calls run in the content script (BLOCK_USER, REMOVE_FOLLOWER);
+ * bulkModerate paces them from the side panel like bulkRefollow.
+ */
+
+import { getHeaders } from "./auth";
+import { delay } from "../utils/rate-limiter";
+import { scheduledFetch } from "../utils/request-scheduler";
+
+export type ModerationAction = "block" | "remove-follower";
+
+// X's web client has no v1.1 endpoint for removing a follower. This is the
+// queryId of the RemoveFollower mutation in the x.com web client's main.js
+// bundle; X rotates these, so a 404 or 400 means it needs updating.
+const REMOVE_FOLLOWER_QUERY_ID = "QpNfg0kpPRfjROQ_9eOLXA";
+
+export const REMOVE_FOLLOWER_UNAVAILABLE =
+  "Remove follower is unavailable: X changed the RemoveFollower mutation. Block the account instead.";
+
+let stopped = false;
+
+interface ModerationConfig {
+  delayMin: number;
+  delayMax: number;
+}
+
+const defaultConfig: ModerationConfig = {
+  delayMin: 10,
+  delayMax: 20,
+};
+
+export interface ModerationResult {
+  userId: string;
+  username: string;
+  success: boolean;
+  error?: string;
+}
+
+export type ModerateFn = (
+  userId: string,
+) => Promise<{ success: boolean; error?: string }>;
+
+type ProgressCallback = (done: number, total: number, current: string) => void;
+
+/**
+ * Block an account. X also drops any follow between us in both directions.
+ */
+export async function blockUser(userId: string): Promise<void> {
+  const resp = await scheduledFetch(
+    "https://x.com/i/api/1.1/blocks/create.json",
+    {
+      method: "POST",
+      headers: {
+        ...getHeaders(),
+        "content-type": "application/x-www-form-urlencoded",
+      },
+      credentials: "include",
+      body: new URLSearchParams({ user_id: userId }),
+    },
+    { maxRetries: 1, fallbackWait: [30, 60] },
+  );
+
+  if (!resp.ok) {
+    throw new Error(`blocks/create.json error: ${resp.status}`);
+  }
+}
+
+/**
+ * Make an account stop following us, without blocking it.
+ */
+export async function removeFollower(userId: string): Promise<void> {
+  const resp = await scheduledFetch(
+    `https://x.com/i/api/graphql/${REMOVE_FOLLOWER_QUERY_ID}/RemoveFollower`,
+    {
+      method: "POST",
+      headers: { ...getHeaders(), "content-type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({
+        variables: { target_user_id: userId },
+        queryId: REMOVE_FOLLOWER_QUERY_ID,
+      }),
+    },
+    { maxRetries: 1, fallbackWait: [30, 60] },
+  );
+
+  if (resp.status === 404 || resp.status === 400) {
+    throw new Error(REMOVE_FOLLOWER_UNAVAILABLE);
+  }
+  if (!resp.ok) {
+    throw new Error(`RemoveFollower error: ${resp.status}`);
+  }
+  // GraphQL reports failures in the body of a 200
+  const json = await resp.json().catch(() => null);
+  if (!json || json.errors?.length) {
+    throw new Error(
+      `RemoveFollower error: ${json?.errors?.[0]?.message ?? "empty response"}`,
+    );
+  }
+}
+
+export function stopModeration(): void {
+  stopped = true;
+}
+
+/**
+ * Apply an action to accounts one at a time with a randomized delay
+ * between requests.
+ */
+export async function bulkModerate(
+  users: Array<{ userId: string; username: string }>,
+  act: ModerateFn,
+  config: Partial<ModerationConfig> = {},
+  onProgress?: ProgressCallback,
+): Promise<ModerationResult[]> {
+  const cfg = { ...defaultConfig, ...config };
+  stopped = false;
+  const results: ModerationResult[] = [];
+
+  for (let i = 0; i < users.length; i++) {
+    if (stopped) break;
+
+    const user = users[i];
+    onProgress?.(i, users.length, user.username);
+
+    let result: { success: boolean; error?: string };
+    try {
+      result = await act(user.userId);
+    } catch (e) {
+      result = {
+        success: false,
+        error: e instanceof Error ? e.message : "Unknown error",
+      };
+    }
+    results.push({ userId: user.userId, username: user.username, ...result });
+
+    if (i < users.length - 1 && !stopped) {
+      await delay(cfg.delayMin, cfg.delayMax);
+    }
+  }
+
+  onProgress?.(results.length, users.length, "done");
+  return results;
+}
@@ -0,0 +1,266 @@
+/**
+ * Cleanup policies: saved, named rule sets evaluated over UserProfile fields.
+ * A policy matches accounts where every rule holds, minus anything its
+ * protections exclude (whitelist, mutuals, verified, big accounts).
+ */
+
+import type {
+  CleanupPolicy,
+  PolicyField,
+  PolicyOp,
+  PolicyProtections,
+  PolicyRule,
+  UserProfile,
+} from "./types";
+import { LIKELY_BOT_THRESHOLD, scoreBotLikelihood } from "./bot-score";
+
+export const INACTIVE_STATUSES = [
+  "inactive",
+  "suspended",
+  "deactivated",
+  "no_tweets",
+];
+
+/** The rule behind getInactiveUsers. */
+export const INACTIVE_RULES: PolicyRule[] = [
+  { field: "status", op: "in", value: INACTIVE_STATUSES },
+];
+
+export const DEFAULT_PROTECTIONS: PolicyProtections = {
+  whitelist: true,
+  mutuals: true,
+  verified: true,
+  minFollowers: 0,
+};
+
+export const POLICY_FIELDS: Array<{
+  field: PolicyField;
+  label: string;
+  kind: "number" | "boolean" | "status" | "list";
+}> = [
+  {
+    field: "daysSinceLastTweet",
+    label: "Days since last tweet",
+    kind: "number",
+  },
+  { field: "followerCount", label: "Followers", kind: "number" },
+  { field: "followingCount", label: "Following", kind: "number" },
+  { field: "followRatio", label: "Following/followers ratio", kind: "number" },
+  { field: "tweetCount", label: "Tweets", kind: "number" },
+  { field: "status", label: "Status", kind: "status" },
+  { field: "isFollower", label: "Follows you", kind: "boolean" },
+  { field: "isMutual", label: "Mutual", kind: "boolean" },
+  { field: "isVerified", label: "Verified", kind: "boolean" },
+  { field: "isBlueVerified", label: "Blue verified", kind: "boolean" },
+  { field: "listIds", label: "Smart list", kind: "list" },
+  { field: "botScore", label: "Bot likelihood (0-100)", kind: "number" },
+];
+
+/** Filters from the Audit page's Advanced Filters panel. */
+export interface AdvancedFilters {
+  followerMin: number | null;
+  followerMax: number | null;
+  followingMin: number | null;
+  followingMax: number | null;
+  followRatioMin: number | null;
+  verifiedOnly: boolean;
+  lowEngagement: boolean;
+  likelyBots: boolean;
+}
+
+/**
+ * Express Audit's advanced filters as policy rules.
+ */
+export function rulesFromAdvancedFilters(
+  filters: AdvancedFilters,
+): PolicyRule[] {
+  const rules: PolicyRule[] = [];
+  if (filters.followerMin !== null) {
+    rules.push({
+      field: "followerCount",
+      op: "gte",
+      value: filters.followerMin,
+    });
+  }
+  if (filters.followerMax !== null) {
+    rules.push({
+      field: "followerCount",
+      op: "lte",
+      value: filters.followerMax,
+    });
+  }
+  if (filters.followingMin !== null) {
+    rules.push({
+      field: "followingCount",
+      op: "gte",
+      value: filters.followingMin,
+    });
+  }
+  if (filters.followingMax !== null) {
+    rules.push({
+      field: "followingCount",
+      op: "lte",
+      value: filters.followingMax,
+    });
+  }
+  if (filters.followRatioMin !== null) {
+    rules.push({
+      field: "followRatio",
+      op: "gte",
+      value: filters.followRatioMin,
+    });
+  }
+  if (filters.verifiedOnly) {
+    rules.push({ field: "isVerified", op: "eq", value: true });
+  }
+  if (filters.lowEngagement) {
+    rules.push({ field: "followerCount", op: "lt", value: 50 });
+    rules.push({ field: "daysSinceLastTweet", op: "gt", value: 90 });
+  }
+  if (filters.likelyBots) {
+    rules.push({ field: "botScore", op: "gte", value: LIKELY_BOT_THRESHOLD });
+  }
+  return rules;
+}
+
+/**
+ * Field value used for comparisons. Accounts that never tweeted count as
+ * infinitely inactive; accounts without followers have an infinite ratio.
+ */
+function fieldValue(
+  user: UserProfile,
+  field: PolicyField,
+): string | number | boolean | number[] {
+  switch (field) {
+    case "daysSinceLastTweet":
+      return user.daysSinceLastTweet ?? Infinity;
+    case "followRatio":
+      return user.followerCount > 0
+        ? user.followingCount / user.followerCount
+        : Infinity;
+    case "listIds":
+      return user.listIds;
+    case "botScore":
+      return scoreBotLikelihood(user).score;
+    default:
+      return user[field];
+  }
+}
+
+function compare(
+  actual: string | number | boolean | number[],
+  op: PolicyOp,
+  expected: PolicyRule["value"],
+): boolean {
+  const list = Array.isArray(expected) ? expected : [expected];
+  switch (op) {
+    case "eq":
+      return actual === expected;
+    case "neq":
+      return actual !== expected;
+    case "gt":
+      return (actual as number) > (expected as number);
+    case "gte":
+      return (actual as number) >= (expected as number);
+    case "lt":
+      return (actual as number) < (expected as number);
+    case "lte":
+      return (actual as number) <= (expected as number);
+    case "in":
+      return list.includes(actual as string | number);
+    case "not_in":
+      return !list.includes(actual as string | number);
+    case "contains":
+      return Array.isArray(actual) && list.some((v) => actual.includes(+v));
+    case "not_contains":
+      return !Array.isArray(actual) || !list.some((v) => actual.includes(+v));
+  }
+}
+
+export function matchesRules(user: UserProfile, rules: PolicyRule[]): boolean {
+  return rules.every((r) => compare(fieldValue(user, r.field), r.op, r.value));
+}
+
+export function isProtected(
+  user: UserProfile,
+  protections: PolicyProtections,
+  whitelist: Set<string> = new Set(),
+): boolean {
+  if (protections.whitelist && whitelist.has(user.username.toLowerCase())) {
+    return true;
+  }
+  if (protections.mutuals && user.isMutual) return true;
+  if (protections.verified && user.isVerified) return true;
+  if (
+    protections.minFollowers > 0 &&
+    user.followerCount >= protections.minFollowers
+  ) {
+    return true;
+  }
+  return false;
+}
+
+export interface PolicyPreview {
+  matches: UserProfile[];
+  protectedCount: number; // matched the rules but were excluded
+}
+
+/**
+ * Evaluate a policy over accounts we follow. Stubs are skipped: without
+ * profile data they would look infinitely inactive.
+ */
+export function evaluatePolicy(
+  users: UserProfile[],
+  policy: Pick<CleanupPolicy, "rules" | "protections">,
+  whitelist: Set<string> = new Set(),
+): PolicyPreview {
+  const matches: UserProfile[] = [];
+  let protectedCount = 0;
+  for (const user of users) {
+    if (user.isFollowing === false || user.isStub) continue;
+    if (!matchesRules(user, policy.rules)) continue;
+    if (isProtected(user, policy.protections, whitelist)) protectedCount++;
+    else matches.push(user);
+  }
+  return { matches, protectedCount };
+}
+
+/**
+ * Human-readable summary, e.g. "Days since last tweet > 365 AND Mutual = no".
+ */
+export function describeRules(
+  rules: PolicyRule[],
+  listNames: Map<number, string> = new Map(),
+): string {
+  if (rules.length === 0) return "Everyone you follow";
+  const symbols: Record<PolicyOp, string> = {
+    eq: "=",
+    neq: "≠",
+    gt: ">",
+    gte: "≥",
+    lt: "<",
+    lte: "≤",
+    in: "is",
+    not_in: "is not",
+    contains: "on",
+    not_contains: "not on",
+  };
+  return rules
+    .map((r) => {
+      const label =
+        POLICY_FIELDS.find((f) => f.field === r.field)?.label ?? r.field;
+      const values = (Array.isArray(r.value) ? r.value : [r.value]).map((v) =>
+        typeof v === "boolean"
+          ? v
+            ? "yes"
+            : "no"
+          : r.field === "listIds"
+            ? (listNames.get(Number(v)) ?? `list ${v}`)
+            : String(v),
+      );
+      return r.field === "listIds"
+        ? `${symbols[r.op]} ${values.join(" or ")}`
+        : `${label} ${symbols[r.op]} ${values.join(" or ")}`;
+    })
+    .join(" AND ");
+}
@@ -0,0 +1,114 @@
+/**
+ * Re-categorization after scans: profiles that are new or changed since
+ * they were last stored are queued as they arrive, then matched against
+ * keyword lists (and optionally cached AI answers) when the scan finalizes.
+ * Only adds memberships, so accounts removed from a list by hand stay out
+ * until their profile changes.
+ */
+
+import { batchCategorizeByKeywords } from "./categorizer";
+import type { SmartList, UserProfile } from "./types";
+
+const PENDING_KEY = "xsweep_recategorize_pending";
+const AI_KEY = "xsweep_recategorize_ai";
+
+export interface RecategorizeSummary {
+  members: number; // memberships added
+  lists: number; // lists that gained members
+}
+
+export interface RecategorizePlan {
+  updates: Map<string, number[]>; // userId → full new listIds
+  summary: RecategorizeSummary;
+}
+
+/**
+ * Work out the memberships to add for the given users. `aiAssignments`
+ * are userId → AI list IDs, e.g. from cachedAICategorization.
+ */
+export function planRecategorization(
+  users: UserProfile[],
+  lists: SmartList[],
+  aiAssignments: Map<string, number[]> = new Map(),
+): RecategorizePlan {
+  const keywordAssignments = batchCategorizeByKeywords(users, lists);
+  const updates = new Map<string, number[]>();
+  const grownLists = new Set<number>();
+  let members = 0;
+
+  for (const user of users) {
+    const matched = [
+      ...(keywordAssignments.get(user.userId) ?? []),
+      ...(aiAssignments.get(user.userId) ?? []),
+    ];
+    const added = [...new Set(matched)].filter(
+      (id) => !user.listIds.includes(id),
+    );
+    if (added.length === 0) continue;
+
+    updates.set(user.userId, [...user.listIds, ...added]);
+    for (const id of added) grownLists.add(id);
+    members += added.length;
+  }
+
+  return { updates, summary: { members, lists: grownLists.size } };
+}
+
+/** "12 new members added to 3 lists" */
+export function formatRecategorizeSummary(
+  summary: RecategorizeSummary,
+): string {
+  return `${summary.members} new member${summary.members !== 1 ? "s" : ""} added to ${summary.lists} list${summary.lists !== 1 ? "s" : ""}`;
+}
+
+// X account ID → user IDs waiting for the end of that account's scan
+type PendingRecategorization = Record<string, string[]>;
+
+async function loadPending(): Promise<PendingRecategorization> {
+  const data = await chrome.storage.local.get(PENDING_KEY);
+  return data[PENDING_KEY] ?? {};
+}
+
+/**
+ * Queue users for re-categorization at the end of ownerId's scan. Kept in
+ * storage so a paused or interrupted scan doesn't lose them.
+ */
+export async function addPendingRecategorization(
+  ownerId: string,
+  userIds: string[],
+): Promise<void> {
+  if (userIds.length === 0) return;
+  const pending = await loadPending();
+  const queued = pending[ownerId] ?? [];
+  await chrome.storage.local.set({
+    [PENDING_KEY]: {
+      ...pending,
+      [ownerId]: [...new Set([...queued, ...userIds])],
+    },
+  });
+}
+
+/**
+ * Return the user IDs queued for ownerId and clear them. Other accounts'
+ * queues are left alone.
+ */
+export async function takePendingRecategorization(
+  ownerId: string,
+): Promise<string[]> {
+  const { [ownerId]: userIds = [], ...rest } = await loadPending();
+  if (Object.keys(rest).length === 0) {
+    await chrome.storage.local.remove(PENDING_KEY);
+  } else {
+    await chrome.storage.local.set({ [PENDING_KEY]: rest });
+  }
+  return userIds;
+}
+
+export async function getRecategorizeAI(): Promise<boolean> {
+  const data = await chrome.storage.local.get(AI_KEY);
+  return data[AI_KEY] ?? false;
+}
+
+export async function setRecategorizeAI(enabled: boolean): Promise<void> {
+  await chrome.storage.local.set({ [AI_KEY]: enabled });
+}
@@ -0,0 +1,137 @@
+/**
+ * Re-follow: undo unfollows from the unfollow log.
+ * Follows go through the content script's FOLLOW_USER handler; this module
+ * decides who is eligible and paces the requests like bulkUnfollow.
+ */
+
+import { delay } from "../utils/rate-limiter";
+import type { UnfollowEntry } from "./types";
+
+export const UNDO_WINDOW_DAYS = 30;
+
+const MAX_DAILY_LIMIT = 200;
+const DEFAULT_DAILY_LIMIT = 100;
+
+let stopped = false;
+
+interface RefollowConfig {
+  dailyLimit: number;
+  delayMin: number;
+  delayMax: number;
+}
+
+const defaultConfig: RefollowConfig = {
+  dailyLimit: DEFAULT_DAILY_LIMIT,
+  delayMin: 30,
+  delayMax: 60,
+};
+
+export interface RefollowResult {
+  userId: string;
+  username: string;
+  success: boolean;
+  error?: string;
+}
+
+export type FollowFn = (
+  userId: string,
+) => Promise<{ success: boolean; error?: string }>;
+
+type ProgressCallback = (done: number, total: number, current: string) => void;
+
+/**
+ * Unfollows that can still be undone: real (not dry run), not yet
+ * re-followed, inside the undo window. One entry per account, newest first.
+ */
+export function getRecentUnfollows(
+  log: UnfollowEntry[],
+  windowDays: number = UNDO_WINDOW_DAYS,
+  now: number = Date.now(),
+): UnfollowEntry[] {
+  const cutoff = now - windowDays * 86400000;
+  const seen = new Set<string>();
+  return [...log]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .filter((entry) => {
+      if (seen.has(entry.userId)) return false;
+      seen.add(entry.userId);
+      return (
+        entry.reason !== "dry_run" &&
+        !entry.refollowedAt &&
+        new Date(entry.date).getTime() >= cutoff
+      );
+    });
+}
+
+export function stopRefollow(): void {
+  stopped = true;
+}
+
+/**
+ * Re-follow accounts one at a time with a randomized delay between
+ * requests and a daily cap.
+ */
+export async function bulkRefollow(
+  entries: Array<{ userId: string; username: string }>,
+  follow: FollowFn,
+  config: Partial<RefollowConfig> = {},
+  onProgress?: ProgressCallback,
+): Promise<RefollowResult[]> {
+  const cfg = { ...defaultConfig, ...config };
+  cfg.dailyLimit = Math.min(cfg.dailyLimit, MAX_DAILY_LIMIT);
+  stopped = false;
+
+  const storedCount = await getTodayRefollowCount();
+  const remaining = cfg.dailyLimit - storedCount;
+  if (remaining <= 0) {
+    console.log("[XSweep] Daily re-follow limit reached. Try again tomorrow.");
+    return [];
+  }
+
+  const batch = entries.slice(0, remaining);
+  const results: RefollowResult[] = [];
+  let followed = 0;
+
+  for (let i = 0; i < batch.length; i++) {
+    if (stopped) break;
+
+    const entry = batch[i];
+    onProgress?.(i, batch.length, entry.username);
+
+    let result: { success: boolean; error?: string };
+    try {
+      result = await follow(entry.userId);
+    } catch (e) {
+      result = {
+        success: false,
+        error: e instanceof Error ? e.message : "Unknown error",
+      };
+    }
+    results.push({ userId: entry.userId, username: entry.username, ...result });
+
+    if (result.success) {
+      followed++;
+      await chrome.storage.local.set({
+        [todayKey()]: String(storedCount + followed),
+      });
+    }
+
+    if (i < batch.length - 1 && !stopped) {
+      await delay(cfg.delayMin, cfg.delayMax);
+    }
+  }
+
+  onProgress?.(results.length, batch.length, "done");
+  return results;
+}
+
+function todayKey(): string {
+  const today = new Date().toISOString().split("T")[0];
+  return `xsweep_refollow_${today}`;
+}
+
+export async function getTodayRefollowCount(): Promise<number> {
+  const key = todayKey();
+  const stored = await chrome.storage.local.get(key);
+  return parseInt(stored[key] || "0", 10);
+}
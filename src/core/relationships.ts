@@ -3,14 +3,17 @@
  * Ported from x-follow-extractor.js.
  */
 
+import { INACTIVE_RULES, matchesRules } from "./policies";
 import type { UserProfile, AuditCounts, AccountHealth } from "./types";
 
 export function computeAuditCounts(
   users: UserProfile[],
   followerIds: Set<string>,
 ): AuditCounts {
-  const followingUsers = users.filter((u) => u.isFollowing !== false);
-  const followerOnlyUsers = users.filter((u) => u.isFollowing === false);
+  // Stubs from imported lists have no relationship data yet
+  const scanned = users.filter((u) => !u.isStub);
+  const followingUsers = scanned.filter((u) => u.isFollowing !== false);
+  const followerOnlyUsers = scanned.filter((u) => u.isFollowing === false);
 
   return {
     total: followingUsers.length,
@@ -34,8 +37,10 @@ export function computeAccountHealth(
   totalFollowers: number,
   followerIds: Set<string>,
 ): AccountHealth {
-  // Only consider users you follow for health scoring
-  const followingUsers = users.filter((u) => u.isFollowing !== false);
+  // Only consider scanned users you follow for health scoring
+  const followingUsers = users.filter(
+    (u) => u.isFollowing !== false && !u.isStub,
+  );
   const total = followingUsers.length;
   if (total === 0) {
     return {
@@ -108,13 +113,9 @@ export function getInactiveUsers(
   users: UserProfile[],
   whitelist: Set<string> = new Set(),
 ): UserProfile[] {
-  return users.filter((u) => {
-    if (whitelist.has(u.username.toLowerCase())) return false;
-    return (
-      u.status === "inactive" ||
-      u.status === "suspended" ||
-      u.status === "deactivated" ||
-      u.status === "no_tweets"
-    );
-  });
+  return users.filter(
+    (u) =>
+      !whitelist.has(u.username.toLowerCase()) &&
+      matchesRules(u, INACTIVE_RULES),
+  );
 }
@@ -0,0 +1,93 @@
+/**
+ * Compare two AI Review sessions: how each category's membership changed
+ * and which accounts moved between categories. Categories are matched by
+ * ID; accounts without a category count as "uncategorized".
+ */
+
+import type { ReviewSession } from "./reviewer";
+
+export interface CategoryDiff {
+  id: string;
+  name: string;
+  before: number | null; // member count; null if the category is new
+  after: number | null; // null if the category is gone
+  added: string[]; // user IDs
+  removed: string[];
+}
+
+export interface AccountMove {
+  userId: string;
+  from: string[]; // category IDs in the older session; [] = not placed
+  to: string[];
+}
+
+export interface SessionDiff {
+  categories: CategoryDiff[];
+  moved: AccountMove[];
+}
+
+const UNCATEGORIZED = "uncategorized";
+
+function members(session: ReviewSession): Map<string, Set<string>> {
+  const map = new Map<string, Set<string>>();
+  for (const c of session.categories) map.set(c.id, new Set(c.userIds));
+  map.set(UNCATEGORIZED, new Set(session.uncategorized));
+  return map;
+}
+
+function placements(session: ReviewSession): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  for (const [id, userIds] of members(session)) {
+    for (const userId of userIds) {
+      map.set(userId, [...(map.get(userId) ?? []), id]);
+    }
+  }
+  return map;
+}
+
+/**
+ * Diff `before` → `after`. Categories are listed in the newer session's
+ * order, followed by ones that no longer exist; only changed categories
+ * are included.
+ */
+export function compareSessions(
+  before: ReviewSession,
+  after: ReviewSession,
+): SessionDiff {
+  const oldMembers = members(before);
+  const newMembers = members(after);
+  const names = new Map<string, string>([[UNCATEGORIZED, "Uncategorized"]]);
+  for (const c of [...before.categories, ...after.categories]) {
+    names.set(c.id, c.name);
+  }
+
+  const ids = [...new Set([...newMembers.keys(), ...oldMembers.keys()])];
+  const categories: CategoryDiff[] = [];
+  for (const id of ids) {
+    const was = oldMembers.get(id);
+    const now = newMembers.get(id);
+    const added = [...(now ?? [])].filter((u) => !was?.has(u));
+    const removed = [...(was ?? [])].filter((u) => !now?.has(u));
+    if (was && now && added.length === 0 && removed.length === 0) continue;
+    categories.push({
+      id,
+      name: names.get(id) ?? id,
+      before: was ? was.size : null,
+      after: now ? now.size : null,
+      added,
+      removed,
+    });
+  }
+
+  const oldPlacements = placements(before);
+  const newPlacements = placements(after);
+  const moved: AccountMove[] = [];
+  const userIds = new Set([...oldPlacements.keys(), ...newPlacements.keys()]);
+  for (const userId of userIds) {
+    const from = (oldPlacements.get(userId) ?? []).sort();
+    const to = (newPlacements.get(userId) ?? []).sort();
+    if (from.join() !== to.join()) moved.push({ userId, from, to });
+  }
+
+  return { categories, moved };
+}
@@ -1,10 +1,28 @@
 /**
  * AI-powered review engine: two-phase taxonomy + classification.
- * Phase A: Sample users → Sonnet generates taxonomy (10-15 categories)
- * Phase B: Classify all users against taxonomy in batches (Haiku)
+ * Phase A: Sample users → "smart" model generates taxonomy (10-15 categories)
+ * Phase B: Classify all users against taxonomy in batches ("fast" model)
  */
 
-import type { UserProfile } from "./types";
+import {
+  classifyUsers,
+  planClassification,
+  type ClassificationCache,
+  type ClassificationEstimate,
+  type ClassificationFailure,
+  type ClassifyOptions,
+} from "./classification";
+import {
+  completeJSON,
+  estimateCost,
+  estimateTokens,
+  type LLMConfig,
+  type OutputSchema,
+  type TokenUsage,
+} from "./llm";
+import type { TaxonomyChange } from "./taxonomy";
+import type { SmartList, UserProfile } from "./types";
+import { addUsage, type UsageByModel } from "./usage";
 
 export interface ReviewCategory {
   id: string;
@@ -13,6 +31,7 @@ export interface ReviewCategory {
   suggestion: "keep" | "review" | "unfollow";
   reason: string;
   userIds: string[];
+  listId?: number; // smart list created from this category
 }
 
 export interface ReviewSession {
@@ -23,37 +42,89 @@ export interface ReviewSession {
   taxonomy: string[];
   categories: ReviewCategory[];
   uncategorized: string[];
+  failed?: ClassificationFailure[]; // no valid answer after retries
+  usage?: UsageByModel; // tokens and cost of this run
+  stale?: string[]; // users to re-classify after taxonomy edits
+  history?: TaxonomyChange[];
   error?: string;
 }
 
-const STORAGE_KEY = "xsweep_review_session";
 const TAXONOMY_SAMPLE_SIZE = 300;
 const CLASSIFY_BATCH_SIZE = 200;
+const TAXONOMY_MAX_TOKENS = 4096;
+// ~15 categories × id, name, description, suggestion, reason
+const TAXONOMY_OUTPUT_TOKENS = 1500;
+
+// Stand-in for estimating classification prompts before a taxonomy exists
+const PLACEHOLDER_TAXONOMY: ReviewCategory[] = Array.from(
+  { length: 15 },
+  (_, i) => ({
+    id: `category-${i + 1}`,
+    name: "Category name",
+    description: "One sentence describing the accounts in this category.",
+    suggestion: "review",
+    reason: "",
+    userIds: [],
+  }),
+);
+
+const TAXONOMY_SCHEMA: OutputSchema = {
+  name: "record_categories",
+  description: "Record the taxonomy of account categories.",
+  schema: {
+    type: "object",
+    properties: {
+      categories: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            description: { type: "string" },
+            suggestion: {
+              type: "string",
+              enum: ["keep", "review", "unfollow"],
+            },
+            reason: { type: "string" },
+          },
+          required: ["id", "name", "description", "suggestion", "reason"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["categories"],
+    additionalProperties: false,
+  },
+};
 
-export async function saveSession(session: ReviewSession): Promise<void> {
-  await chrome.storage.local.set({ [STORAGE_KEY]: session });
-}
-
-export async function loadSession(): Promise<ReviewSession | null> {
-  const data = await chrome.storage.local.get(STORAGE_KEY);
-  return data[STORAGE_KEY] ?? null;
-}
-
-export async function clearSession(): Promise<void> {
-  await chrome.storage.local.remove(STORAGE_KEY);
+/**
+ * An AI smart list for a category. The description doubles as the list's
+ * prompt for later AI categorization runs.
+ */
+export function categoryToList(
+  category: ReviewCategory,
+): Omit<SmartList, "id"> {
+  const now = new Date().toISOString();
+  return {
+    name: category.name,
+    type: "ai",
+    keywords: [],
+    description: category.description,
+    createdAt: now,
+    updatedAt: now,
+  };
 }
 
 /**
- * Phase A: Sample users and generate a taxonomy of 10-15 categories.
- * Uses Sonnet for higher quality taxonomy generation.
+ * Where runs persist their session at each checkpoint (IndexedDB in the
+ * extension, see storage/db).
  */
-async function generateTaxonomy(
-  users: UserProfile[],
-  apiKey: string,
-): Promise<ReviewCategory[]> {
-  // Sample up to TAXONOMY_SAMPLE_SIZE users, preferring diversity
-  const sample = sampleUsers(users, TAXONOMY_SAMPLE_SIZE);
+export interface ReviewSessionStore {
+  save(session: ReviewSession): Promise<void>;
+}
 
+function taxonomyPrompt(sample: UserProfile[]): string {
   const userDescriptions = sample
     .map((u) => {
       const parts = [`@${u.username}`];
@@ -64,21 +135,7 @@ async function generateTaxonomy(
     })
     .join("\n");
 
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-      "anthropic-dangerous-direct-browser-access": "true",
-    },
-    body: JSON.stringify({
-      model: "claude-sonnet-4-5-20250929",
-      max_tokens: 4096,
-      messages: [
-        {
-          role: "user",
-          content: `You are analyzing a Twitter/X following list to help the user decide who to keep following.
+  return `You are analyzing a Twitter/X following list to help the user decide who to keep following.
 
 Here are ${sample.length} accounts (username | bio | followers | status):
 ${userDescriptions}
@@ -95,82 +152,73 @@ Also create a "spam-bots" category for accounts that look like spam, bots, or cr
 
 Think about: professional topics, hobbies, political leanings, content types (news vs memes vs personal), engagement quality, whether accounts are real people vs brands vs bots.
 
-Return ONLY a JSON array of category objects. No other text.`,
-        },
-      ],
-    }),
-  });
+Record the categories.`;
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Taxonomy API error ${response.status}: ${errorText}`);
-  }
+/**
+ * Phase A: Sample users and generate a taxonomy of 10-15 categories.
+ * Uses the "smart" model tier for higher quality taxonomy generation.
+ */
+async function generateTaxonomy(
+  users: UserProfile[],
+  llm: LLMConfig,
+  onUsage: (usage: TokenUsage) => Promise<void>,
+): Promise<ReviewCategory[]> {
+  // Sample up to TAXONOMY_SAMPLE_SIZE users, preferring diversity
+  const sample = sampleUsers(users, TAXONOMY_SAMPLE_SIZE);
 
-  const data = await response.json();
-  const text = data.content?.[0]?.text || "";
+  const output = await completeJSON(llm, {
+    tier: "smart",
+    maxTokens: TAXONOMY_MAX_TOKENS,
+    schema: TAXONOMY_SCHEMA,
+    prompt: taxonomyPrompt(sample),
+    onUsage,
+  });
 
-  const jsonMatch = text.match(/\[[\s\S]*\]/);
-  if (!jsonMatch) {
-    throw new Error("Failed to parse taxonomy response — no JSON array found");
+  const categories = (output as { categories?: unknown })?.categories as
+    Array<Omit<ReviewCategory, "userIds">> | undefined;
+  if (!Array.isArray(categories) || categories.length === 0) {
+    throw new Error("Failed to parse taxonomy response — no categories found");
   }
 
-  const categories = JSON.parse(jsonMatch[0]) as Array<{
-    id: string;
-    name: string;
-    description: string;
-    suggestion: "keep" | "review" | "unfollow";
-    reason: string;
-  }>;
-
-  return categories.map((c) => ({
-    id: c.id,
-    name: c.name,
-    description: c.description,
-    suggestion: c.suggestion,
-    reason: c.reason,
-    userIds: [],
-  }));
+  return categories
+    .filter((c) => c?.id && c.name)
+    .map((c) => ({
+      id: c.id,
+      name: c.name,
+      description: c.description,
+      suggestion: c.suggestion,
+      reason: c.reason,
+      userIds: [],
+    }));
 }
 
-/**
- * Phase B: Classify a batch of users against the established taxonomy.
- * Uses Haiku for speed and cost efficiency.
- * Returns mapping of userId → categoryId[].
- */
-async function classifyBatch(
-  users: UserProfile[],
+function reviewClassifyOptions(
   taxonomy: ReviewCategory[],
-  apiKey: string,
-): Promise<Map<string, string[]>> {
+  cache?: ClassificationCache,
+): ClassifyOptions<string> {
   const categoryList = taxonomy
     .map((c) => `- "${c.id}": ${c.name} — ${c.description}`)
     .join("\n");
 
-  const userDescriptions = users
-    .map((u) => {
-      const parts = [`${u.userId}: @${u.username}`];
-      if (u.bio) parts.push(`"${u.bio}"`);
-      parts.push(`${u.followerCount} followers`);
-      if (u.status !== "active") parts.push(`(${u.status})`);
-      return parts.join(" | ");
-    })
-    .join("\n");
-
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-      "anthropic-dangerous-direct-browser-access": "true",
-    },
-    body: JSON.stringify({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 4096,
-      messages: [
-        {
-          role: "user",
-          content: `Classify these Twitter/X accounts into the provided categories.
+  return {
+    targetIds: [...taxonomy.map((c) => c.id), "uncategorized"],
+    batchSize: CLASSIFY_BATCH_SIZE,
+    maxTokens: 4096,
+    context: `review\n${categoryList}`,
+    cache,
+    buildPrompt: (batch) => {
+      const userDescriptions = batch
+        .map((u) => {
+          const parts = [`${u.userId}: @${u.username}`];
+          if (u.bio) parts.push(`"${u.bio}"`);
+          parts.push(`${u.followerCount} followers`);
+          if (u.status !== "active") parts.push(`(${u.status})`);
+          return parts.join(" | ");
+        })
+        .join("\n");
+
+      return `Classify these Twitter/X accounts into the provided categories.
 
 Categories:
 ${categoryList}
@@ -183,107 +231,118 @@ Rules:
 - If no category fits, use "uncategorized"
 - Accounts with no bio and few followers that look like bots → "spam-bots"
 
-Return ONLY a JSON object mapping user IDs to arrays of category IDs.
-Example: {"123": ["ai-ml"], "456": ["crypto-defi", "news-media"], "789": ["uncategorized"]}`,
-        },
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    console.error("[XSweep] Classify batch API error:", response.status);
-    return new Map();
-  }
-
-  const data = await response.json();
-  const text = data.content?.[0]?.text || "";
+Record an assignment for every account: userId is the account's id, ids are its category IDs.`;
+    },
+  };
+}
 
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    console.error("[XSweep] Failed to parse classify response");
-    return new Map();
-  }
+export interface ReviewRunOptions {
+  // Reuse an existing taxonomy instead of generating one (skips Phase A)
+  taxonomy?: ReviewCategory[];
+  cache?: ClassificationCache;
+  onUsage?: (usage: TokenUsage) => void | Promise<void>;
+  // Edits made to the taxonomy being reused
+  history?: TaxonomyChange[];
+  store?: ReviewSessionStore;
+}
 
-  try {
-    const mapping = JSON.parse(jsonMatch[0]) as Record<string, string[]>;
-    const result = new Map<string, string[]>();
-    for (const [userId, cats] of Object.entries(mapping)) {
-      result.set(userId, Array.isArray(cats) ? cats : [cats]);
-    }
-    return result;
-  } catch (e) {
-    console.error("[XSweep] JSON parse error in classify:", e);
-    return new Map();
-  }
+/**
+ * Token/cost estimate for runFullReview. A new taxonomy can't hit the
+ * cache, so only re-runs on an existing taxonomy get cheaper.
+ */
+export async function estimateReview(
+  allUsers: UserProfile[],
+  llm: LLMConfig,
+  options: ReviewRunOptions = {},
+): Promise<ClassificationEstimate> {
+  const taxonomy = options.taxonomy ?? PLACEHOLDER_TAXONOMY;
+  const { estimate } = await planClassification(
+    allUsers,
+    llm,
+    reviewClassifyOptions(taxonomy, options.taxonomy && options.cache),
+  );
+  if (options.taxonomy) return estimate;
+
+  const sample = sampleUsers(allUsers, TAXONOMY_SAMPLE_SIZE);
+  const taxonomyInput =
+    estimateTokens(taxonomyPrompt(sample)) +
+    estimateTokens(JSON.stringify(TAXONOMY_SCHEMA.schema));
+  const taxonomyCost = estimateCost(
+    llm,
+    "smart",
+    taxonomyInput,
+    TAXONOMY_OUTPUT_TOKENS,
+  );
+  return {
+    ...estimate,
+    requests: estimate.requests + 1,
+    inputTokens: estimate.inputTokens + taxonomyInput,
+    outputTokens: estimate.outputTokens + TAXONOMY_OUTPUT_TOKENS,
+    cost:
+      estimate.cost === null || taxonomyCost === null
+        ? null
+        : estimate.cost + taxonomyCost,
+  };
 }
 
 /**
  * Full review orchestrator. Runs both phases and updates session state.
+ * With a cache, accounts whose profile hasn't changed since they were
+ * classified against the same taxonomy aren't sent again.
  */
 export async function runFullReview(
   allUsers: UserProfile[],
-  apiKey: string,
+  llm: LLMConfig,
   onProgress: (session: ReviewSession) => void,
+  options: ReviewRunOptions = {},
 ): Promise<ReviewSession> {
   const session: ReviewSession = {
     id: `review-${Date.now()}`,
     createdAt: new Date().toISOString(),
-    status: "generating-taxonomy",
+    status: options.taxonomy ? "classifying" : "generating-taxonomy",
     progress: { done: 0, total: allUsers.length },
     taxonomy: [],
     categories: [],
     uncategorized: [],
+    failed: [],
+    usage: {},
+    history: options.history ?? [],
+  };
+  const onUsage = async (usage: TokenUsage) => {
+    session.usage = addUsage(session.usage ?? {}, llm, usage);
+    await options.onUsage?.(usage);
   };
 
   onProgress(session);
-  await saveSession(session);
+  await options.store?.save(session);
 
   try {
-    // Phase A: Generate taxonomy
-    const categories = await generateTaxonomy(allUsers, apiKey);
+    // Phase A: Generate taxonomy (or start from the given one)
+    const categories = options.taxonomy
+      ? options.taxonomy.map((c) => ({ ...c, userIds: [] }))
+      : await generateTaxonomy(allUsers, llm, onUsage);
     session.categories = categories;
     session.taxonomy = categories.map((c) => c.id);
     session.status = "classifying";
     onProgress(session);
-    await saveSession(session);
+    await options.store?.save(session);
 
     // Phase B: Classify all users in batches
     for (let i = 0; i < allUsers.length; i += CLASSIFY_BATCH_SIZE) {
       const batch = allUsers.slice(i, i + CLASSIFY_BATCH_SIZE);
-      const mapping = await classifyBatch(batch, categories, apiKey);
-
-      for (const [userId, categoryIds] of mapping) {
-        let placed = false;
-        for (const catId of categoryIds) {
-          if (catId === "uncategorized") {
-            session.uncategorized.push(userId);
-            placed = true;
-          } else {
-            const cat = session.categories.find((c) => c.id === catId);
-            if (cat) {
-              cat.userIds.push(userId);
-              placed = true;
-            }
-          }
-        }
-        if (!placed) {
-          session.uncategorized.push(userId);
-        }
-      }
-
-      // Users not in mapping at all → uncategorized
-      for (const user of batch) {
-        if (!mapping.has(user.userId)) {
-          session.uncategorized.push(user.userId);
-        }
-      }
+      const { assignments, failed } = await classifyUsers(batch, llm, {
+        ...reviewClassifyOptions(categories, options.cache),
+        onUsage,
+      });
+      session.failed = [...(session.failed ?? []), ...failed];
+      placeAssignments(session, assignments);
 
       session.progress.done = Math.min(
         i + CLASSIFY_BATCH_SIZE,
         allUsers.length,
       );
       onProgress(session);
-      await saveSession(session);
+      await options.store?.save(session);
     }
 
     // Deduplicate uncategorized
@@ -294,7 +353,7 @@ export async function runFullReview(
 
     session.status = "complete";
     onProgress(session);
-    await saveSession(session);
+    await options.store?.save(session);
 
     return session;
   } catch (error) {
@@ -302,11 +361,133 @@ export async function runFullReview(
     session.error =
       error instanceof Error ? error.message : "Unknown error occurred";
     onProgress(session);
-    await saveSession(session);
+    await options.store?.save(session);
     return session;
   }
 }
 
+/**
+ * Token/cost estimate for reclassifyStale.
+ */
+export async function estimateReclassify(
+  allUsers: UserProfile[],
+  session: ReviewSession,
+  llm: LLMConfig,
+  options: Pick<ReviewRunOptions, "cache"> = {},
+): Promise<ClassificationEstimate> {
+  const stale = new Set(session.stale ?? []);
+  const { estimate } = await planClassification(
+    allUsers.filter((u) => stale.has(u.userId)),
+    llm,
+    reviewClassifyOptions(session.categories, options.cache),
+  );
+  return estimate;
+}
+
+/**
+ * Phase B for the accounts marked stale by taxonomy edits only. They are
+ * taken out of every category first, then placed by the edited taxonomy.
+ * Accounts no longer in `allUsers` are dropped from the session's stale
+ * list. On error the session keeps its categories and the unprocessed
+ * accounts stay stale.
+ */
+export async function reclassifyStale(
+  allUsers: UserProfile[],
+  previous: ReviewSession,
+  llm: LLMConfig,
+  onProgress: (session: ReviewSession) => void,
+  options: Pick<ReviewRunOptions, "cache" | "onUsage" | "store"> = {},
+): Promise<ReviewSession> {
+  const staleIds = new Set(previous.stale ?? []);
+  const users = allUsers.filter((u) => staleIds.has(u.userId));
+  const session: ReviewSession = {
+    ...previous,
+    categories: previous.categories.map((c) => ({
+      ...c,
+      userIds: [...c.userIds],
+    })),
+    uncategorized: [...previous.uncategorized],
+    status: "classifying",
+    progress: { done: 0, total: users.length },
+    stale: users.map((u) => u.userId),
+    usage: {},
+    error: undefined,
+  };
+  const onUsage = async (usage: TokenUsage) => {
+    session.usage = addUsage(session.usage ?? {}, llm, usage);
+    await options.onUsage?.(usage);
+  };
+
+  onProgress(session);
+  await options.store?.save(session);
+
+  try {
+    for (let i = 0; i < users.length; i += CLASSIFY_BATCH_SIZE) {
+      const batch = users.slice(i, i + CLASSIFY_BATCH_SIZE);
+      const batchIds = new Set(batch.map((u) => u.userId));
+      const { assignments, failed } = await classifyUsers(batch, llm, {
+        ...reviewClassifyOptions(session.categories, options.cache),
+        onUsage,
+      });
+
+      for (const cat of session.categories) {
+        cat.userIds = cat.userIds.filter((id) => !batchIds.has(id));
+      }
+      session.uncategorized = session.uncategorized.filter(
+        (id) => !batchIds.has(id),
+      );
+      session.failed = [
+        ...(session.failed ?? []).filter((f) => !batchIds.has(f.userId)),
+        ...failed,
+      ];
+      placeAssignments(session, assignments);
+      session.stale = session.stale!.filter((id) => !batchIds.has(id));
+
+      session.progress.done = Math.min(i + CLASSIFY_BATCH_SIZE, users.length);
+      onProgress(session);
+      await options.store?.save(session);
+    }
+
+    session.uncategorized = [...new Set(session.uncategorized)];
+    session.categories.sort((a, b) => b.userIds.length - a.userIds.length);
+  } catch (error) {
+    session.error =
+      error instanceof Error ? error.message : "Unknown error occurred";
+  }
+
+  session.status = "complete";
+  onProgress(session);
+  await options.store?.save(session);
+  return session;
+}
+
+/**
+ * Put each user into the categories the model picked, or uncategorized.
+ */
+function placeAssignments(
+  session: ReviewSession,
+  assignments: Map<string, string[]>,
+): void {
+  for (const [userId, categoryIds] of assignments) {
+    let placed = false;
+    for (const catId of categoryIds) {
+      if (catId === "uncategorized") {
+        session.uncategorized.push(userId);
+        placed = true;
+      } else {
+        const cat = session.categories.find((c) => c.id === catId);
+        if (cat) {
+          cat.userIds.push(userId);
+          placed = true;
+        }
+      }
+    }
+    if (!placed) {
+      session.uncategorized.push(userId);
+    }
+  }
+}
+
 /**
  * Sample users for taxonomy generation.
  * Takes a diverse sample across follower tiers to get good category coverage.
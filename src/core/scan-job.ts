@@ -0,0 +1,101 @@
+/**
+ * Scan job persistence: lets a full scan pick up where it stopped after
+ * STOP_SCAN, a tab reload or a browser restart.
+ * Stored in chrome.storage.local because the scan runs in the content script,
+ * which cannot reach the extension's IndexedDB.
+ */
+
+export type ScanJobPhase =
+  "following-ids" | "follower-ids" | "hydrate-following" | "hydrate-followers";
+
+export interface ScanJob {
+  userId: string;
+  phase: ScanJobPhase;
+  endpoint: string;
+  cursor: string;
+  page: number;
+  followingIds: string[];
+  followerIds: string[];
+  seenIds: string[]; // profiles already hydrated in the current phase
+  missingIds: string[]; // seenIds the lookup did not return
+  startedAt: string;
+  updatedAt: string;
+}
+
+export const SCAN_JOB_PHASES: ScanJobPhase[] = [
+  "following-ids",
+  "follower-ids",
+  "hydrate-following",
+  "hydrate-followers",
+];
+
+const PHASE_ENDPOINTS: Record<ScanJobPhase, string> = {
+  "following-ids": "friends/ids.json",
+  "follower-ids": "followers/ids.json",
+  "hydrate-following": "users/lookup.json",
+  "hydrate-followers": "users/lookup.json",
+};
+
+const STORAGE_KEY = "xsweep_scan_job";
+
+export function createScanJob(userId: string): ScanJob {
+  const now = new Date().toISOString();
+  return {
+    userId,
+    phase: "following-ids",
+    endpoint: PHASE_ENDPOINTS["following-ids"],
+    cursor: "-1",
+    page: 0,
+    followingIds: [],
+    followerIds: [],
+    seenIds: [],
+    missingIds: [],
+    startedAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Move a job to the start of the given phase, resetting its cursor.
+ */
+export function advanceScanJob(job: ScanJob, phase: ScanJobPhase): ScanJob {
+  return {
+    ...job,
+    phase,
+    endpoint: PHASE_ENDPOINTS[phase],
+    cursor: "-1",
+    page: 0,
+    seenIds: [],
+    missingIds: [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * True if the job has already finished the given phase.
+ */
+export function isPhaseDone(job: ScanJob, phase: ScanJobPhase): boolean {
+  return SCAN_JOB_PHASES.indexOf(job.phase) > SCAN_JOB_PHASES.indexOf(phase);
+}
+
+export async function saveScanJob(job: ScanJob): Promise<void> {
+  await chrome.storage.local.set({
+    [STORAGE_KEY]: { ...job, updatedAt: new Date().toISOString() },
+  });
+}
+
+/**
+ * Load the persisted job. When userId is given, a job belonging to a
+ * different X account is ignored.
+ */
+export async function loadScanJob(userId?: string): Promise<ScanJob | null> {
+  const data = await chrome.storage.local.get(STORAGE_KEY);
+  const job: ScanJob | undefined = data[STORAGE_KEY];
+  if (!job) return null;
+  if (userId && job.userId !== userId) return null;
+  return job;
+}
+
+export async function clearScanJob(): Promise<void> {
+  await chrome.storage.local.remove(STORAGE_KEY);
+}
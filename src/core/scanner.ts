@@ -5,6 +5,14 @@
 
 import { getHeaders, getMyUserId } from "./auth";
 import { delay } from "../utils/rate-limiter";
+import { scheduledFetch } from "../utils/request-scheduler";
+import {
+  advanceScanJob,
+  createScanJob,
+  isPhaseDone,
+  type ScanJob,
+} from "./scan-job";
+import type { IncrementalPlan } from "./incremental-scan";
 import type { UserProfile, UserStatus, ScanProgress } from "./types";
 
 /**
@@ -60,25 +68,116 @@ const INACTIVE_DAYS = 365;
 
 type ProgressCallback = (progress: ScanProgress) => void;
 
+/**
+ * Position within a paginated endpoint. For collectIds, ids are the IDs
+ * collected so far; for lookupUsers, the user IDs already looked up.
+ */
+export interface ScanCheckpoint {
+  cursor: string;
+  page: number;
+  ids: string[];
+}
+
+type CheckpointCallback = (checkpoint: ScanCheckpoint) => Promise<void>;
+
 let abortController: AbortController | null = null;
 
 export function stopScan(): void {
+  // Keep the aborted controller so fullScan can tell it was stopped
   abortController?.abort();
-  abortController = null;
+}
+
+/**
+ * Convert a v1.1 user object into a UserProfile.
+ */
+function toUserProfile(u: Record<string, unknown>): UserProfile {
+  const uid = String(u.id_str || u.id);
+  const lastTweet = u.status?.created_at ? new Date(u.status.created_at) : null;
+  const daysSince = lastTweet
+    ? Math.floor((Date.now() - lastTweet.getTime()) / 86400000)
+    : null;
+
+  let status: UserStatus;
+  if (u.suspended) status = "suspended";
+  else if (!lastTweet && (u.statuses_count || 0) === 0) status = "no_tweets";
+  else if (!lastTweet) status = "no_tweets";
+  else if (daysSince !== null && daysSince > INACTIVE_DAYS) status = "inactive";
+  else status = "active";
+
+  return {
+    userId: uid,
+    username: u.screen_name || "[unknown]",
+    displayName: u.name || "[unknown]",
+    bio: (u.description || "").substring(0, 200),
+    followerCount: u.followers_count || 0,
+    followingCount: u.friends_count || 0,
+    tweetCount: u.statuses_count || 0,
+    lastTweetDate: lastTweet ? lastTweet.toISOString() : null,
+    daysSinceLastTweet: daysSince,
+    status,
+    isFollowing: true, // default, overridden by caller for follower-only
+    isFollower: false, // computed later in relationships
+    isMutual: false, // computed later in relationships
+    isVerified: u.verified || false,
+    location: u.location || "",
+    url: u.url || "",
+    createdAt: u.created_at || "",
+    isBlueVerified: u.is_blue_verified || false,
+    listIds: [],
+    scannedAt: new Date().toISOString(),
+    profileImageUrl: u.profile_image_url_https || "",
+  };
+}
+
+// Username stored for accounts users/lookup did not return
+export const UNAVAILABLE_USERNAME = "[unavailable]";
+
+/**
+ * Profile for an ID that users/lookup did not return — the account is
+ * suspended or deactivated, so there is nothing to hydrate.
+ */
+function makeUnavailableProfile(id: string): UserProfile {
+  return {
+    userId: id,
+    username: UNAVAILABLE_USERNAME,
+    displayName: UNAVAILABLE_USERNAME,
+    bio: "",
+    followerCount: 0,
+    followingCount: 0,
+    tweetCount: 0,
+    lastTweetDate: null,
+    daysSinceLastTweet: null,
+    status: "deactivated",
+    isFollowing: true, // default, overridden by caller for follower-only
+    isFollower: false,
+    isMutual: false,
+    isVerified: false,
+    location: "",
+    url: "",
+    createdAt: "",
+    isBlueVerified: false,
+    listIds: [],
+    scannedAt: new Date().toISOString(),
+    profileImageUrl: "",
+  };
 }
 
 /**
  * Collect all following or follower IDs using friends/ids or followers/ids endpoint.
- * Returns up to 5000 IDs per page with cursor pagination.
+ * Returns up to 5000 IDs per page with cursor pagination. A cursor the
+ * run already followed ends it, so a looping API never checkpoints a cycle.
  */
 export async function collectIds(
   endpoint: "friends/ids.json" | "followers/ids.json",
   onProgress?: ProgressCallback,
+  resumeFrom?: ScanCheckpoint,
+  onCheckpoint?: CheckpointCallback,
 ): Promise<string[]> {
   const userId = getMyUserId();
-  const allIds: string[] = [];
-  let cursor = "-1";
-  let page = 0;
+  const allIds: string[] = resumeFrom ? [...resumeFrom.ids] : [];
+  let cursor = resumeFrom?.cursor ?? "-1";
+  let page = resumeFrom?.page ?? 0;
+  const seenCursors = new Set<string>([cursor]);
 
   abortController = new AbortController();
   console.log(`[XSweep] collectIds: starting ${endpoint} for user ${userId}`);
@@ -96,17 +195,14 @@ export async function collectIds(
     console.log(
       `[XSweep] collectIds: fetching page ${page + 1}, cursor=${cursor}`,
     );
-    const resp = await fetch(`https://x.com/i/api/1.1/${endpoint}?${params}`, {
-      headers: getHeaders(),
-      credentials: "include",
-      signal: abortController.signal,
-    });
-
-    if (resp.status === 429) {
-      console.log("[XSweep] Rate limited on IDs. Waiting 60s...");
-      await delay(60, 90);
-      continue;
-    }
+    const resp = await scheduledFetch(
+      `https://x.com/i/api/1.1/${endpoint}?${params}`,
+      {
+        headers: getHeaders(),
+        credentials: "include",
+        signal: abortController.signal,
+      },
+    );
 
     if (!resp.ok) {
       console.error(
@@ -137,7 +233,15 @@ export async function collectIds(
 
     const nextCursor = data.next_cursor_str;
     if (!nextCursor || nextCursor === "0") break;
+    if (seenCursors.has(nextCursor)) {
+      console.log(
+        `[XSweep] collectIds: cursor ${nextCursor} repeated, stopping.`,
+      );
+      break;
+    }
+    seenCursors.add(nextCursor);
     cursor = nextCursor;
+    await onCheckpoint?.({ cursor, page, ids: allIds });
 
     await delay(3, 6);
   }
@@ -148,321 +252,287 @@ export async function collectIds(
   return allIds;
 }
 
+const LOOKUP_CHUNK_SIZE = 100;
+
 /**
- * Hydrate user profiles using friends/list.json or followers/list.json.
- * Includes loop detection for the known friends/list.json bug.
+ * Hydrate specific user IDs via users/lookup.json, 100 IDs per request.
+ * IDs the API does not return (suspended/deactivated) are absent from
+ * the result; callers decide whether to record them as unavailable.
+ * When resuming, ids already looked up in resumeFrom are skipped.
  */
-export async function hydrateUsers(
-  endpoint: "friends/list.json" | "followers/list.json",
-  knownIds: Set<string>,
+export async function lookupUsers(
+  ids: string[],
   onProgress?: ProgressCallback,
   onBatch?: (users: UserProfile[]) => Promise<void>,
+  resumeFrom?: ScanCheckpoint,
+  onCheckpoint?: CheckpointCallback,
 ): Promise<UserProfile[]> {
-  const userId = getMyUserId();
   const allUsers: UserProfile[] = [];
-  let cursor = "-1";
-  let page = 0;
-  const seen = new Set<string>();
-  let consecutiveDupes = 0;
-
-  // Safety limit: friends/list.json is broken for large lists (>200 following)
-  // It returns the same 200 users in an infinite loop. Cap at reasonable max.
-  const MAX_PAGES = 50; // 50 pages * 200 users = 10,000 max
+  const done = new Set<string>(resumeFrom?.ids ?? []);
+  const remaining = ids.filter((id) => !done.has(id));
+  let offset = 0;
+  let page = resumeFrom?.page ?? 0;
 
   abortController = new AbortController();
   console.log(
-    `[XSweep] hydrateUsers: starting ${endpoint}, ${knownIds.size} known IDs`,
+    `[XSweep] lookupUsers: hydrating ${remaining.length} IDs (${done.size} already done)`,
   );
 
-  while (true) {
+  while (offset < remaining.length) {
     if (!abortController || abortController.signal.aborted) break;
-    if (page >= MAX_PAGES) {
-      console.log(
-        `[XSweep] hydrateUsers: reached max ${MAX_PAGES} pages. Stopping.`,
-      );
-      break;
-    }
 
+    const chunk = remaining.slice(offset, offset + LOOKUP_CHUNK_SIZE);
     const params = new URLSearchParams({
-      user_id: userId,
-      count: "200",
-      cursor,
-      skip_status: "false",
-      include_user_entities: "false",
+      user_id: chunk.join(","),
+      include_entities: "false",
     });
 
-    console.log(
-      `[XSweep] hydrateUsers: fetching page ${page + 1}, cursor=${cursor}, unique users so far: ${seen.size}`,
+    const resp = await scheduledFetch(
+      `https://x.com/i/api/1.1/users/lookup.json?${params}`,
+      {
+        headers: getHeaders(),
+        credentials: "include",
+        signal: abortController.signal,
+      },
     );
-    const resp = await fetch(`https://x.com/i/api/1.1/${endpoint}?${params}`, {
-      headers: getHeaders(),
-      credentials: "include",
-      signal: abortController.signal,
-    });
-
-    if (resp.status === 429) {
-      console.log("[XSweep] Rate limited on list. Waiting 60s...");
-      await delay(60, 90);
-      continue;
-    }
 
-    if (!resp.ok) {
+    // 404 means none of the IDs in this chunk resolve to a live account
+    if (!resp.ok && resp.status !== 404) {
       console.error(
-        `[XSweep] hydrateUsers error: ${resp.status} ${resp.statusText}`,
+        `[XSweep] lookupUsers error: ${resp.status} ${resp.statusText}`,
       );
-      throw new Error(`${endpoint} error: ${resp.status}`);
+      throw new Error(`users/lookup.json error: ${resp.status}`);
     }
 
-    const data = safeParseJson<{
-      users?: Array<Record<string, unknown>>;
-      next_cursor_str?: string;
-    }>(await resp.text(), `hydrateUsers(${endpoint})`);
-    if (!data) break;
-    const users = data.users || [];
-
-    if (users.length === 0) {
-      console.log("[XSweep] hydrateUsers: empty page, done.");
-      break;
+    const data = resp.ok
+      ? safeParseJson<Array<Record<string, unknown>>>(
+          await resp.text(),
+          "lookupUsers",
+        )
+      : null;
+    const batch = Array.isArray(data) ? data.map(toUserProfile) : [];
+    if (batch.length > 0) {
+      allUsers.push(...batch);
+      await onBatch?.(batch);
     }
 
-    // Loop detection
-    let dupeCount = 0;
-    for (const u of users) {
-      const uid = String(u.id_str || u.id);
-      if (seen.has(uid)) dupeCount++;
-      seen.add(uid);
-    }
-
-    console.log(
-      `[XSweep] hydrateUsers: page ${page + 1} returned ${users.length} users (${dupeCount} dupes, ${seen.size} unique total)`,
-    );
-
-    if (dupeCount === users.length) {
-      consecutiveDupes++;
-      console.log(
-        `[XSweep] hydrateUsers: all dupes on page ${page + 1} (consecutive: ${consecutiveDupes}/3)`,
-      );
-      if (consecutiveDupes >= 3) {
-        console.log(
-          "[XSweep] Loop detected after 3 consecutive dupe pages. Stopping pagination.",
-        );
-        break;
-      }
-    } else {
-      consecutiveDupes = 0;
-    }
-
-    // Process batch
-    const batch: UserProfile[] = [];
-    for (const u of users) {
-      const uid = String(u.id_str || u.id);
-      const lastTweet = u.status?.created_at
-        ? new Date(u.status.created_at)
-        : null;
-      const daysSince = lastTweet
-        ? Math.floor((Date.now() - lastTweet.getTime()) / 86400000)
-        : null;
-
-      let status: UserStatus;
-      if (u.suspended) status = "suspended";
-      else if (!lastTweet && (u.statuses_count || 0) === 0)
-        status = "no_tweets";
-      else if (!lastTweet) status = "no_tweets";
-      else if (daysSince !== null && daysSince > INACTIVE_DAYS)
-        status = "inactive";
-      else status = "active";
-
-      batch.push({
-        userId: uid,
-        username: u.screen_name || "[unknown]",
-        displayName: u.name || "[unknown]",
-        bio: (u.description || "").substring(0, 200),
-        followerCount: u.followers_count || 0,
-        followingCount: u.friends_count || 0,
-        tweetCount: u.statuses_count || 0,
-        lastTweetDate: lastTweet ? lastTweet.toISOString() : null,
-        daysSinceLastTweet: daysSince,
-        status,
-        isFollowing: true, // default, overridden by caller for follower-only
-        isFollower: false, // computed later in relationships
-        isMutual: false, // computed later in relationships
-        isVerified: u.verified || false,
-        location: u.location || "",
-        url: u.url || "",
-        createdAt: u.created_at || "",
-        isBlueVerified: u.is_blue_verified || false,
-        listIds: [],
-        scannedAt: new Date().toISOString(),
-        profileImageUrl: u.profile_image_url_https || "",
-      });
-    }
-
-    allUsers.push(...batch);
-    await onBatch?.(batch);
-
+    offset += chunk.length;
     page++;
+    for (const id of chunk) done.add(id);
     onProgress?.({
       phase: "scanning-users",
-      totalIds: knownIds.size,
-      scannedUsers: allUsers.length,
+      totalIds: ids.length,
+      scannedUsers: ids.length - remaining.length + offset,
       currentPage: page,
     });
 
-    const nextCursor = data.next_cursor_str;
-    if (!nextCursor || nextCursor === "0") break;
-    cursor = nextCursor;
-
-    await delay(3, 5);
-  }
+    if (offset >= remaining.length) break;
+    await onCheckpoint?.({ cursor: String(offset), page, ids: [...done] });
 
-  // Mark IDs not returned by list endpoint
-  for (const id of knownIds) {
-    if (!seen.has(id)) {
-      const placeholder: UserProfile = {
-        userId: id,
-        username: "[not_returned]",
-        displayName: "[not_returned]",
-        bio: "",
-        followerCount: 0,
-        followingCount: 0,
-        tweetCount: 0,
-        lastTweetDate: null,
-        daysSinceLastTweet: null,
-        status: "no_tweets",
-        isFollowing: true, // default, overridden by caller for follower-only
-        isFollower: false,
-        isMutual: false,
-        isVerified: false,
-        location: "",
-        url: "",
-        createdAt: "",
-        isBlueVerified: false,
-        listIds: [],
-        scannedAt: new Date().toISOString(),
-        profileImageUrl: "",
-      };
-      allUsers.push(placeholder);
-      await onBatch?.([placeholder]);
-    }
+    await delay(1, 3);
   }
 
+  console.log(
+    `[XSweep] lookupUsers: done. ${allUsers.length}/${remaining.length} returned`,
+  );
   return allUsers;
 }
 
+export interface FullScanOptions {
+  resumeJob?: ScanJob | null; // continue a persisted job instead of starting over
+  onCheckpoint?: (job: ScanJob) => Promise<void>;
+}
+
+export interface FullScanResult {
+  followingIds: string[];
+  followerIds: string[];
+  users: UserProfile[]; // only profiles hydrated in this run
+  aborted: boolean; // stopped before completion; the job can be resumed
+}
+
 /**
- * Full scan: collect IDs + hydrate profiles for following.
+ * Full scan: collect IDs, then hydrate every ID via users/lookup.
+ * The job is checkpointed after every page so a stopped scan can resume
+ * from the same phase and cursor.
  */
 export async function fullScan(
   onProgress?: ProgressCallback,
   onBatch?: (users: UserProfile[]) => Promise<void>,
-): Promise<{
-  followingIds: string[];
-  followerIds: string[];
-  users: UserProfile[];
-}> {
+  options: FullScanOptions = {},
+): Promise<FullScanResult> {
   const startTime = Date.now();
-  console.log("[XSweep] === FULL SCAN STARTING ===");
-
-  // Step 1: Collect following IDs
-  console.log("[XSweep] Step 1/4: Collecting following IDs...");
-  onProgress?.({
-    phase: "collecting-ids",
-    totalIds: 0,
-    scannedUsers: 0,
-    currentPage: 0,
+  let job = options.resumeJob ?? createScanJob(getMyUserId());
+  const save = async (next: ScanJob) => {
+    job = next;
+    await options.onCheckpoint?.(job);
+  };
+  const stopped = () => abortController?.signal.aborted ?? false;
+  const resumePoint = (ids: string[]): ScanCheckpoint => ({
+    cursor: job.cursor,
+    page: job.page,
+    ids,
   });
-  const followingIds = await collectIds("friends/ids.json", onProgress);
-  console.log(
-    `[XSweep] Step 1 done: ${followingIds.length} following IDs (${((Date.now() - startTime) / 1000).toFixed(1)}s)`,
-  );
 
-  // Check abort between phases
-  if (abortController?.signal.aborted) {
-    return { followingIds, followerIds: [], users: [] };
+  if (options.resumeJob) {
+    console.log(
+      `[XSweep] === RESUMING SCAN at ${job.phase}, cursor=${job.cursor} ===`,
+    );
+  } else {
+    console.log("[XSweep] === FULL SCAN STARTING ===");
+    await save(job);
   }
 
-  // Step 2: Collect follower IDs (for mutual detection)
-  console.log("[XSweep] Step 2/4: Collecting follower IDs...");
-  const followerIds = await collectIds("followers/ids.json", onProgress);
-  console.log(
-    `[XSweep] Step 2 done: ${followerIds.length} follower IDs (${((Date.now() - startTime) / 1000).toFixed(1)}s)`,
-  );
+  // Step 1: Collect following IDs
+  let followingIds = job.followingIds;
+  if (!isPhaseDone(job, "following-ids")) {
+    console.log("[XSweep] Step 1/4: Collecting following IDs...");
+    onProgress?.({
+      phase: "collecting-ids",
+      totalIds: followingIds.length,
+      scannedUsers: 0,
+      currentPage: job.page,
+    });
+    followingIds = await collectIds(
+      "friends/ids.json",
+      onProgress,
+      resumePoint(followingIds),
+      (cp) =>
+        save({
+          ...job,
+          cursor: cp.cursor,
+          page: cp.page,
+          followingIds: cp.ids,
+        }),
+    );
+    console.log(
+      `[XSweep] Step 1 done: ${followingIds.length} following IDs (${((Date.now() - startTime) / 1000).toFixed(1)}s)`,
+    );
 
-  // Check abort between phases
-  if (abortController?.signal.aborted) {
-    return { followingIds, followerIds, users: [] };
+    // Check abort between phases
+    if (stopped()) {
+      return { followingIds, followerIds: [], users: [], aborted: true };
+    }
+    await save({ ...advanceScanJob(job, "follower-ids"), followingIds });
   }
 
-  // Step 3: Hydrate following users
-  console.log("[XSweep] Step 3/5: Hydrating following profiles...");
-  onProgress?.({
-    phase: "scanning-users",
-    totalIds: followingIds.length,
-    scannedUsers: 0,
-    currentPage: 0,
-  });
-  const knownIds = new Set(followingIds.map(String));
-  const users = await hydrateUsers(
-    "friends/list.json",
-    knownIds,
-    onProgress,
-    onBatch,
-  );
-  // Mark all as following
-  for (const user of users) {
-    user.isFollowing = true;
-  }
-  console.log(
-    `[XSweep] Step 3 done: ${users.length} following profiles hydrated (${((Date.now() - startTime) / 1000).toFixed(1)}s)`,
-  );
+  // Step 2: Collect follower IDs (for mutual detection)
+  let followerIds = job.followerIds;
+  if (!isPhaseDone(job, "follower-ids")) {
+    console.log("[XSweep] Step 2/4: Collecting follower IDs...");
+    followerIds = await collectIds(
+      "followers/ids.json",
+      onProgress,
+      resumePoint(followerIds),
+      (cp) =>
+        save({
+          ...job,
+          cursor: cp.cursor,
+          page: cp.page,
+          followerIds: cp.ids,
+        }),
+    );
+    console.log(
+      `[XSweep] Step 2 done: ${followerIds.length} follower IDs (${((Date.now() - startTime) / 1000).toFixed(1)}s)`,
+    );
 
-  // Check abort between phases
-  if (abortController?.signal.aborted) {
-    return { followingIds, followerIds, users };
+    // Check abort between phases
+    if (stopped()) {
+      return { followingIds, followerIds, users: [], aborted: true };
+    }
+    await save({ ...advanceScanJob(job, "hydrate-following"), followerIds });
   }
 
-  // Step 3.5: Hydrate follower-only profiles
-  const followingSet = new Set(followingIds.map(String));
-  const followerOnlyIds = followerIds.filter(
-    (id) => !followingSet.has(String(id)),
-  );
-  if (followerOnlyIds.length > 0) {
-    console.log(
-      `[XSweep] Step 3.5/5: Hydrating ${followerOnlyIds.length} follower-only profiles...`,
-    );
-    const followerOnlyKnownIds = new Set(followerOnlyIds.map(String));
+  /**
+   * Look up one group of IDs and record any the API did not return as
+   * unavailable. A stopped lookup returns only what it hydrated; the IDs
+   * it did not return so far are kept in the job for the resumed run.
+   */
+  const hydrate = async (
+    ids: string[],
+    progressOffset: number,
+    totalIds: number,
+  ): Promise<UserProfile[]> => {
+    const resumedIds = new Set(job.seenIds);
+    // Jobs saved by earlier versions have no missingIds
+    const resumedMissing = job.missingIds ?? [];
+    const returned = new Set<string>();
+    const missingOf = (looked: string[]) => [
+      ...resumedMissing,
+      ...looked.filter((id) => !resumedIds.has(id) && !returned.has(id)),
+    ];
     onProgress?.({
       phase: "scanning-users",
-      totalIds: followingIds.length + followerOnlyIds.length,
-      scannedUsers: users.length,
-      currentPage: 0,
+      totalIds,
+      scannedUsers: progressOffset + resumedIds.size,
+      currentPage: job.page,
     });
-    // Wrap onBatch to filter out mutuals BEFORE writing to DB —
-    // followers/list.json returns ALL followers including mutuals
-    const filteredOnBatch = onBatch
-      ? async (batch: UserProfile[]) => {
-          const filtered = batch.filter((u) =>
-            followerOnlyKnownIds.has(u.userId),
-          );
-          if (filtered.length > 0) await onBatch(filtered);
-        }
-      : undefined;
-
-    const allFollowerUsers = await hydrateUsers(
-      "followers/list.json",
-      followerOnlyKnownIds,
-      (progress) => {
+    const hydrated = await lookupUsers(
+      ids,
+      (progress) =>
         onProgress?.({
           ...progress,
-          totalIds: followingIds.length + followerOnlyIds.length,
-          scannedUsers: users.length + progress.scannedUsers,
-        });
+          totalIds,
+          scannedUsers: progressOffset + progress.scannedUsers,
+        }),
+      async (batch) => {
+        for (const user of batch) returned.add(user.userId);
+        await onBatch?.(batch);
       },
-      filteredOnBatch,
+      resumePoint(job.seenIds),
+      (cp) =>
+        save({
+          ...job,
+          cursor: cp.cursor,
+          page: cp.page,
+          seenIds: cp.ids,
+          missingIds: missingOf(cp.ids),
+        }),
+    );
+    if (stopped()) return hydrated;
+
+    const unavailable = missingOf(ids).map(makeUnavailableProfile);
+    if (unavailable.length > 0) await onBatch?.(unavailable);
+    return [...hydrated, ...unavailable];
+  };
+
+  const followingSet = new Set(followingIds.map(String));
+  const followerOnlyIds = followerIds
+    .map(String)
+    .filter((id) => !followingSet.has(id));
+  const totalProfiles = followingIds.length + followerOnlyIds.length;
+
+  // Step 3: Hydrate following users
+  const users: UserProfile[] = [];
+  if (!isPhaseDone(job, "hydrate-following")) {
+    console.log("[XSweep] Step 3/5: Hydrating following profiles...");
+    const followingUsers = await hydrate(
+      followingIds.map(String),
+      0,
+      totalProfiles,
+    );
+    // Mark all as following
+    for (const user of followingUsers) {
+      user.isFollowing = true;
+    }
+    users.push(...followingUsers);
+    if (stopped()) {
+      return { followingIds, followerIds, users, aborted: true };
+    }
+    console.log(
+      `[XSweep] Step 3 done: ${users.length} following profiles hydrated (${((Date.now() - startTime) / 1000).toFixed(1)}s)`,
+    );
+    await save(advanceScanJob(job, "hydrate-followers"));
+  }
+
+  // Step 3.5: Hydrate follower-only profiles
+  if (followerOnlyIds.length > 0) {
+    console.log(
+      `[XSweep] Step 3.5/5: Hydrating ${followerOnlyIds.length} follower-only profiles...`,
     );
-    // Filter return value to match — only keep follower-only users
-    const followerOnlyUsers = allFollowerUsers.filter((u) =>
-      followerOnlyKnownIds.has(u.userId),
+    const followerOnlyUsers = await hydrate(
+      followerOnlyIds,
+      followingIds.length,
+      totalProfiles,
     );
     // Mark as follower-only
     for (const user of followerOnlyUsers) {
@@ -471,6 +541,9 @@ export async function fullScan(
       user.isMutual = false;
     }
     users.push(...followerOnlyUsers);
+    if (stopped()) {
+      return { followingIds, followerIds, users, aborted: true };
+    }
     console.log(
       `[XSweep] Step 3.5 done: ${followerOnlyUsers.length} follower-only profiles hydrated (${((Date.now() - startTime) / 1000).toFixed(1)}s)`,
     );
@@ -505,7 +578,107 @@ export async function fullScan(
   console.log(
     `[XSweep] === FULL SCAN COMPLETE === ${users.length} users in ${elapsed}s`,
   );
-  return { followingIds, followerIds, users };
+  return { followingIds, followerIds, users, aborted: false };
+}
+
+export interface IncrementalScanResult extends FullScanResult {
+  plan: IncrementalPlan | null; // null when stopped before planning
+}
+
+/**
+ * Incremental scan: collect IDs, then hydrate only the accounts the planner
+ * picks (new or stale profiles) instead of paging every profile again.
+ * Removed accounts need no fetch — FINALIZE_SCAN clears their
+ * isFollowing/isFollower flags from the new ID sets.
+ */
+export async function incrementalScan(
+  plan: (
+    followingIds: string[],
+    followerIds: string[],
+  ) => Promise<IncrementalPlan>,
+  onProgress?: ProgressCallback,
+  onBatch?: (users: UserProfile[]) => Promise<void>,
+): Promise<IncrementalScanResult> {
+  const startTime = Date.now();
+  const stopped = () => abortController?.signal.aborted ?? false;
+  console.log("[XSweep] === INCREMENTAL SCAN STARTING ===");
+
+  onProgress?.({
+    phase: "collecting-ids",
+    totalIds: 0,
+    scannedUsers: 0,
+    currentPage: 0,
+  });
+  const followingIds = await collectIds("friends/ids.json", onProgress);
+  if (stopped()) {
+    return {
+      followingIds,
+      followerIds: [],
+      users: [],
+      aborted: true,
+      plan: null,
+    };
+  }
+  const followerIds = await collectIds("followers/ids.json", onProgress);
+  if (stopped()) {
+    return { followingIds, followerIds, users: [], aborted: true, plan: null };
+  }
+
+  const scanPlan = await plan(followingIds, followerIds);
+  const toHydrate = [...scanPlan.newIds, ...scanPlan.staleIds];
+  console.log(
+    `[XSweep] Incremental plan: ${scanPlan.newIds.length} new, ${scanPlan.staleIds.length} stale, ${scanPlan.removedIds.length} removed`,
+  );
+
+  const followingSet = new Set(followingIds.map(String));
+  const followerSet = new Set(followerIds.map(String));
+  const withRelationships = (user: UserProfile): UserProfile => ({
+    ...user,
+    isFollowing: followingSet.has(user.userId),
+    isFollower: followerSet.has(user.userId),
+    isMutual: followingSet.has(user.userId) && followerSet.has(user.userId),
+  });
+
+  onProgress?.({
+    phase: "scanning-users",
+    totalIds: toHydrate.length,
+    scannedUsers: 0,
+    currentPage: 0,
+  });
+  const users: UserProfile[] = [];
+  const hydrated = await lookupUsers(toHydrate, onProgress, async (batch) => {
+    const related = batch.map(withRelationships);
+    users.push(...related);
+    await onBatch?.(related);
+  });
+
+  if (stopped()) {
+    return { followingIds, followerIds, users, aborted: true, plan: scanPlan };
+  }
+
+  // New IDs the lookup could not resolve still need a row; stale ones keep
+  // their previous profile and are retried next time
+  const returned = new Set(hydrated.map((u) => u.userId));
+  const missing = scanPlan.newIds
+    .filter((id) => !returned.has(id))
+    .map((id) => withRelationships(makeUnavailableProfile(id)));
+  if (missing.length > 0) {
+    users.push(...missing);
+    await onBatch?.(missing);
+  }
+
+  onProgress?.({
+    phase: "complete",
+    totalIds: toHydrate.length,
+    scannedUsers: toHydrate.length,
+    currentPage: 0,
+  });
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(
+    `[XSweep] === INCREMENTAL SCAN COMPLETE === ${users.length} users in ${elapsed}s`,
+  );
+  return { followingIds, followerIds, users, aborted: false, plan: scanPlan };
 }
 
 let monetizationAbort: AbortController | null = null;
@@ -558,7 +731,7 @@ export async function scanVerifiedFollowers(
       include_user_entities: "false",
     });
 
-    const resp = await fetch(
+    const resp = await scheduledFetch(
       `https://x.com/i/api/1.1/followers/list.json?${params}`,
       {
         headers: getHeaders(),
@@ -567,12 +740,6 @@ export async function scanVerifiedFollowers(
       },
     );
 
-    if (resp.status === 429) {
-      console.log("[XSweep] Rate limited on followers. Waiting 60s...");
-      await delay(60, 90);
-      continue;
-    }
-
     if (!resp.ok) {
       throw new Error(`followers/list.json error: ${resp.status}`);
     }
@@ -710,7 +877,7 @@ export async function scanOwnTweets(
     });
     if (maxId) params.set("max_id", maxId);
 
-    const resp = await fetch(
+    const resp = await scheduledFetch(
       `https://x.com/i/api/1.1/statuses/user_timeline.json?${params}`,
       {
         headers: getHeaders(),
@@ -719,12 +886,6 @@ export async function scanOwnTweets(
       },
     );
 
-    if (resp.status === 429) {
-      console.log("[XSweep] Rate limited on timeline. Waiting 60s...");
-      await delay(60, 90);
-      continue;
-    }
-
     if (!resp.ok) {
       throw new Error(`user_timeline.json error: ${resp.status}`);
     }
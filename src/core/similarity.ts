@@ -0,0 +1,102 @@
+/**
+ * "Show similar accounts": ranks stored users against one account by bio
+ * wording, name, shared smart lists and follower tier, to spot
+ * near-duplicates such as several feeds of the same news outlet.
+ */
+
+import { bioVectors, cosine } from "./topics";
+import type { UserProfile } from "./types";
+
+export interface SimilarAccount {
+  user: UserProfile;
+  score: number; // 0-1
+  sharedTerms: string[]; // bio words both use, most telling first
+  sharedNameWords: string[];
+  sharedLists: number;
+  sameTier: boolean;
+}
+
+const WEIGHTS = { bio: 0.5, name: 0.2, lists: 0.2, tier: 0.1 };
+const DEFAULT_LIMIT = 10;
+
+/**
+ * The `limit` accounts most similar to `target`, best first. Accounts that
+ * share nothing but a follower tier are left out.
+ */
+export function findSimilarAccounts(
+  target: UserProfile,
+  users: UserProfile[],
+  limit = DEFAULT_LIMIT,
+): SimilarAccount[] {
+  const candidates = users.filter((u) => u.userId !== target.userId);
+  const vectors = bioVectors([target, ...candidates]);
+  const targetVector = vectors.get(target.userId)!;
+  const targetName = nameWords(target);
+  const targetTier = followerTier(target.followerCount);
+
+  const results: SimilarAccount[] = [];
+  for (const user of candidates) {
+    const vector = vectors.get(user.userId)!;
+    const bio = cosine(targetVector, vector);
+    const name = nameWords(user);
+    const sharedNameWords = [...name].filter((w) => targetName.has(w));
+    const sharedLists = user.listIds.filter((id) =>
+      target.listIds.includes(id),
+    ).length;
+    if (bio === 0 && sharedNameWords.length === 0 && sharedLists === 0) {
+      continue;
+    }
+
+    const tierGap = Math.abs(followerTier(user.followerCount) - targetTier);
+    const score =
+      WEIGHTS.bio * bio +
+      WEIGHTS.name *
+        jaccard(sharedNameWords.length, targetName.size, name.size) +
+      WEIGHTS.lists *
+        jaccard(sharedLists, target.listIds.length, user.listIds.length) +
+      WEIGHTS.tier * (tierGap === 0 ? 1 : tierGap === 1 ? 0.5 : 0);
+
+    const sharedTerms = [...vector]
+      .filter(([term]) => targetVector.has(term))
+      .sort((a, b) => b[1] - a[1])
+      .map(([term]) => term);
+
+    results.push({
+      user,
+      score,
+      sharedTerms,
+      sharedNameWords,
+      sharedLists,
+      sameTier: tierGap === 0,
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Tier index matching the Quick Stats buckets: 0 = micro (<100) up to
+ * 4 = mega (100K+).
+ */
+export function followerTier(followerCount: number): number {
+  if (followerCount >= 100000) return 4;
+  if (followerCount >= 10000) return 3;
+  if (followerCount >= 1000) return 2;
+  if (followerCount >= 100) return 1;
+  return 0;
+}
+
+/** Words of the display name and username ("BBCBreaking" → bbc, breaking). */
+function nameWords(user: UserProfile): Set<string> {
+  const text = `${user.displayName} ${user.username}`
+    .replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .toLowerCase();
+  const words = text.match(/[\p{L}\p{N}]+/gu) ?? [];
+  return new Set(words.filter((w) => w.length > 1));
+}
+
+function jaccard(shared: number, a: number, b: number): number {
+  const union = a + b - shared;
+  return union === 0 ? 0 : shared / union;
+}
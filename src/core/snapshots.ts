@@ -0,0 +1,100 @@
+/**
+ * Snapshots: point-in-time records of the follow graph, written after every scan.
+ * Used to chart growth over time and to diff consecutive scans.
+ */
+
+import { computeAuditCounts } from "./relationships";
+import type { Snapshot, UserProfile } from "./types";
+
+export interface TimelinePoint {
+  date: string;
+  following: number;
+  followers: number;
+  mutual: number;
+  inactive: number;
+}
+
+export type TimelineMetric = Exclude<keyof TimelinePoint, "date">;
+
+/**
+ * Build a snapshot from the users stored after a scan and the raw ID sets.
+ * Counts come from computeAuditCounts so they match the Dashboard stat cards.
+ */
+export function buildSnapshot(
+  users: UserProfile[],
+  followingIds: string[],
+  followerIds: string[],
+  date: string = new Date().toISOString(),
+): Omit<Snapshot, "id"> {
+  const followerSet = new Set(followerIds.map(String));
+  const counts = computeAuditCounts(users, followerSet);
+
+  return {
+    date,
+    totalFollowing: followingIds.length,
+    totalFollowers: followerIds.length,
+    mutualCount: counts.mutual,
+    inactiveCount: counts.inactive,
+    suspendedCount: counts.suspended,
+    userIds: followingIds.map(String),
+    followerIds: followerIds.map(String),
+  };
+}
+
+/**
+ * Convert snapshots (any order) into a date-ordered series for charting.
+ */
+export function getTimeline(snapshots: Snapshot[]): TimelinePoint[] {
+  return [...snapshots]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((s) => ({
+      date: s.date,
+      following: s.totalFollowing,
+      followers: s.totalFollowers,
+      mutual: s.mutualCount,
+      inactive: s.inactiveCount,
+    }));
+}
+
+/**
+ * Change in each metric between the first and last point of a timeline.
+ * Returns null when there are fewer than two snapshots to compare.
+ */
+export function getTimelineDelta(
+  timeline: TimelinePoint[],
+): Record<TimelineMetric, number> | null {
+  if (timeline.length < 2) return null;
+  const first = timeline[0];
+  const last = timeline[timeline.length - 1];
+  return {
+    following: last.following - first.following,
+    followers: last.followers - first.followers,
+    mutual: last.mutual - first.mutual,
+    inactive: last.inactive - first.inactive,
+  };
+}
+
+export interface SnapshotDiff {
+  from: string; // date of the older snapshot
+  to: string; // date of the newer snapshot
+  lostFollowers: string[]; // followed us before, no longer do
+  newFollowers: string[]; // started following us
+  newFollowing: string[]; // we started following them
+}
+
+/**
+ * Diff the ID sets of two snapshots to find follower churn between scans.
+ */
+export function diffSnapshots(prev: Snapshot, curr: Snapshot): SnapshotDiff {
+  const prevFollowers = new Set(prev.followerIds);
+  const currFollowers = new Set(curr.followerIds);
+  const prevFollowing = new Set(prev.userIds);
+
+  return {
+    from: prev.date,
+    to: curr.date,
+    lostFollowers: [...prevFollowers].filter((id) => !currFollowers.has(id)),
+    newFollowers: [...currFollowers].filter((id) => !prevFollowers.has(id)),
+    newFollowing: curr.userIds.filter((id) => !prevFollowing.has(id)),
+  };
+}
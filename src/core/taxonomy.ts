@@ -0,0 +1,155 @@
+/**
+ * Edits to an AI Review taxonomy: rename, re-label, merge, split, delete and
+ * add categories. Edits apply to the session immediately; accounts whose
+ * placement is no longer known are marked stale so only they are sent back
+ * through classification. Every edit is kept in the session's history.
+ */
+
+import type { ReviewCategory, ReviewSession } from "./reviewer";
+
+export type ReviewSuggestion = ReviewCategory["suggestion"];
+
+export interface NewCategory {
+  name: string;
+  description: string;
+  suggestion: ReviewSuggestion;
+}
+
+export type TaxonomyEdit =
+  | { kind: "rename"; categoryId: string; name: string }
+  | { kind: "suggestion"; categoryId: string; suggestion: ReviewSuggestion }
+  | { kind: "merge"; sourceId: string; targetId: string }
+  | { kind: "split"; categoryId: string; into: NewCategory[] }
+  | { kind: "delete"; categoryId: string }
+  | { kind: "add"; category: NewCategory };
+
+export interface TaxonomyChange {
+  date: string;
+  summary: string; // e.g. `Merged "Crypto" into "Finance"`
+  affected: number; // accounts marked for re-classification
+}
+
+/**
+ * Slug for a category name, unique among the existing IDs
+ * ("AI & ML" → "ai-ml", then "ai-ml-2").
+ */
+export function categoryId(name: string, existing: string[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "category";
+  let id = base;
+  for (let n = 2; existing.includes(id) || id === "uncategorized"; n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * Apply an edit, returning a new session. Renames, suggestion changes and
+ * merges keep every account where it is; splits, deletes and additions mark
+ * the accounts whose category may change as stale.
+ */
+export function applyTaxonomyEdit(
+  session: ReviewSession,
+  edit: TaxonomyEdit,
+): ReviewSession {
+  let categories = session.categories.map((c) => ({
+    ...c,
+    userIds: [...c.userIds],
+  }));
+  const find = (id: string) => {
+    const category = categories.find((c) => c.id === id);
+    if (!category) throw new Error(`Unknown category: ${id}`);
+    return category;
+  };
+  const create = (
+    c: NewCategory,
+    reason: string,
+    taken: ReviewCategory[] = [],
+  ): ReviewCategory => ({
+    id: categoryId(
+      c.name,
+      [...categories, ...taken].map((x) => x.id),
+    ),
+    name: c.name.trim(),
+    description: c.description.trim(),
+    suggestion: c.suggestion,
+    reason,
+    userIds: [],
+  });
+
+  let stale: string[] = [];
+  let summary: string;
+
+  switch (edit.kind) {
+    case "rename": {
+      const category = find(edit.categoryId);
+      summary = `Renamed "${category.name}" to "${edit.name.trim()}"`;
+      category.name = edit.name.trim();
+      break;
+    }
+    case "suggestion": {
+      const category = find(edit.categoryId);
+      summary = `Marked "${category.name}" as ${edit.suggestion}`;
+      category.suggestion = edit.suggestion;
+      break;
+    }
+    case "merge": {
+      const source = find(edit.sourceId);
+      const target = find(edit.targetId);
+      if (source === target)
+        throw new Error("Can't merge a category into itself");
+      target.userIds = [...new Set([...target.userIds, ...source.userIds])];
+      categories = categories.filter((c) => c !== source);
+      summary = `Merged "${source.name}" into "${target.name}"`;
+      break;
+    }
+    case "split": {
+      const category = find(edit.categoryId);
+      if (edit.into.length < 2) {
+        throw new Error("Split into at least two categories");
+      }
+      const parts: ReviewCategory[] = [];
+      for (const part of edit.into) {
+        parts.push(create(part, `Split from "${category.name}"`, parts));
+      }
+      categories.splice(categories.indexOf(category), 1, ...parts);
+      stale = category.userIds;
+      summary = `Split "${category.name}" into ${parts
+        .map((p) => `"${p.name}"`)
+        .join(", ")}`;
+      break;
+    }
+    case "delete": {
+      const category = find(edit.categoryId);
+      categories = categories.filter((c) => c !== category);
+      // Accounts still in another category keep that placement
+      const placed = new Set(categories.flatMap((c) => c.userIds));
+      stale = category.userIds.filter((id) => !placed.has(id));
+      summary = `Deleted "${category.name}"`;
+      break;
+    }
+    case "add": {
+      const created = create(edit.category, "Added by you");
+      categories.push(created);
+      // Only accounts without a category are candidates for a new one
+      stale = session.uncategorized;
+      summary = `Added "${created.name}"`;
+      break;
+    }
+  }
+
+  const staleSet = new Set([...(session.stale ?? []), ...stale]);
+  return {
+    ...session,
+    categories,
+    taxonomy: categories.map((c) => c.id),
+    stale: [...staleSet],
+    history: [
+      ...(session.history ?? []),
+      { date: new Date().toISOString(), summary, affected: stale.length },
+    ],
+  };
+}
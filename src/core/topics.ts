@@ -0,0 +1,275 @@
+/**
+ * Offline topic discovery: TF-IDF vectors from bios, grouped with
+ * spherical k-means. Runs entirely in the side panel, so it needs no API
+ * key and sends nothing anywhere.
+ */
+
+import type { SmartList, UserProfile } from "./types";
+
+export interface Topic {
+  terms: string[]; // most characteristic words, strongest first
+  userIds: string[];
+}
+
+export interface TopicSummary {
+  analyzed: number; // users whose bio had usable words
+  topics: Topic[]; // largest first
+  unclustered: number; // analyzed users outside every topic
+}
+
+export interface TopicOptions {
+  k?: number; // number of clusters; defaults to one per ~50 users, 3-12
+  minSize?: number; // smaller clusters are dropped
+  termsPerTopic?: number;
+  maxIterations?: number;
+  seed?: number;
+}
+
+export type Vector = Map<string, number>; // term → weight
+
+const DEFAULT_MIN_SIZE = 3;
+const DEFAULT_TERMS_PER_TOPIC = 5;
+const DEFAULT_MAX_ITERATIONS = 20;
+// A term in more than this share of bios says nothing about topics
+const MAX_DOC_FREQ = 0.5;
+
+// Words that appear in bios of every kind
+const STOPWORDS = new Set(
+  `a about after all also am an and any are as at be been being but by can
+  co com de did do does en for from get got has have he her here hers him his
+  how i if in into is it its just la le me more my no not now of on one or
+  our out over own she so some than that the their them then there these they
+  this those to too up us was we were what when where which who why will
+  with you your yours rt rts views opinions endorsement endorsements tweets
+  tweet account official personal http https www`.split(/\s+/),
+);
+
+/**
+ * Lowercased words from a bio, without links, mentions and stopwords.
+ * Keeps symbols that belong to a word, like c++ and c#.
+ */
+export function bioTerms(bio: string): string[] {
+  const text = bio
+    .toLowerCase()
+    .replace(/https?:\/\/\S+|\S+@\S+\.\S+|@\w+/g, " ");
+  const words = text.match(/\p{L}[\p{L}\p{N}]*(?:\+\+|#)?/gu) ?? [];
+  return words.filter((w) => w.length > 1 && !STOPWORDS.has(w));
+}
+
+/**
+ * Normalized TF-IDF vector of each user's bio, by user ID. Users whose bio
+ * has no word shared with another bio get an empty vector.
+ */
+export function bioVectors(users: UserProfile[]): Map<string, Vector> {
+  const vectors = tfidf(users.map((u) => bioTerms(u.bio)));
+  return new Map(users.map((u, i) => [u.userId, vectors[i]]));
+}
+
+/** Cosine similarity of two normalized vectors. */
+export function cosine(a: Vector, b: Vector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let sum = 0;
+  for (const [term, weight] of small) sum += weight * (large.get(term) ?? 0);
+  return sum;
+}
+
+/**
+ * Group users into topics by the words in their bios.
+ */
+export function findTopics(
+  users: UserProfile[],
+  options: TopicOptions = {},
+): TopicSummary {
+  const docs = users
+    .map((u) => ({ userId: u.userId, terms: bioTerms(u.bio) }))
+    .filter((d) => d.terms.length > 0);
+
+  const vectors = tfidf(docs.map((d) => d.terms));
+  const usable = docs
+    .map((d, i) => ({ userId: d.userId, vector: vectors[i] }))
+    .filter((d) => d.vector.size > 0);
+
+  const k =
+    options.k ?? Math.min(12, Math.max(3, Math.round(usable.length / 50)));
+  if (usable.length < k) {
+    return { analyzed: usable.length, topics: [], unclustered: usable.length };
+  }
+
+  const { assignments, centroids } = kMeans(
+    usable.map((d) => d.vector),
+    k,
+    options.maxIterations ?? DEFAULT_MAX_ITERATIONS,
+    mulberry32(options.seed ?? 1),
+  );
+
+  const minSize = options.minSize ?? DEFAULT_MIN_SIZE;
+  const termsPerTopic = options.termsPerTopic ?? DEFAULT_TERMS_PER_TOPIC;
+  const topics: Topic[] = [];
+  for (let c = 0; c < k; c++) {
+    const userIds = usable
+      .filter((_, i) => assignments[i] === c)
+      .map((d) => d.userId);
+    if (userIds.length < minSize) continue;
+    const terms = [...centroids[c]]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, termsPerTopic)
+      .map(([term]) => term);
+    topics.push({ terms, userIds });
+  }
+  topics.sort((a, b) => b.userIds.length - a.userIds.length);
+
+  const clustered = topics.reduce((n, t) => n + t.userIds.length, 0);
+  return {
+    analyzed: usable.length,
+    topics,
+    unclustered: usable.length - clustered,
+  };
+}
+
+/**
+ * A keyword list for a topic. Its top terms become the keywords, so later
+ * scans keep adding matching accounts.
+ */
+export function topicToList(
+  topic: Topic,
+  keywordCount = 3,
+): Omit<SmartList, "id"> {
+  const keywords = topic.terms.slice(0, keywordCount);
+  const now = new Date().toISOString();
+  return {
+    name: keywords.map((t) => t[0].toUpperCase() + t.slice(1)).join(" / "),
+    type: "keyword",
+    keywords,
+    description: `Suggested from ${topic.userIds.length} similar bios`,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Sublinear TF-IDF, L2-normalized. Terms in a single bio or in most bios
+ * are dropped.
+ */
+function tfidf(docs: string[][]): Vector[] {
+  const docFreq = new Map<string, number>();
+  for (const terms of docs) {
+    for (const term of new Set(terms)) {
+      docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+    }
+  }
+
+  const maxDocs = Math.max(2, docs.length * MAX_DOC_FREQ);
+  return docs.map((terms) => {
+    const counts = new Map<string, number>();
+    for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+
+    const vector: Vector = new Map();
+    for (const [term, count] of counts) {
+      const df = docFreq.get(term)!;
+      if (df < 2 || df > maxDocs) continue;
+      vector.set(term, (1 + Math.log(count)) * Math.log(docs.length / df));
+    }
+    return normalize(vector);
+  });
+}
+
+/**
+ * Spherical k-means with k-means++ seeding. Returns each vector's cluster
+ * and the normalized centroids.
+ */
+function kMeans(
+  vectors: Vector[],
+  k: number,
+  maxIterations: number,
+  random: () => number,
+): { assignments: number[]; centroids: Vector[] } {
+  const centroids = seedCentroids(vectors, k, random);
+  const assignments = new Array<number>(vectors.length).fill(-1);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let moved = false;
+    for (let i = 0; i < vectors.length; i++) {
+      const best = nearest(vectors[i], centroids).index;
+      if (best !== assignments[i]) {
+        assignments[i] = best;
+        moved = true;
+      }
+    }
+    if (!moved) break;
+
+    for (let c = 0; c < k; c++) {
+      const sum: Vector = new Map();
+      for (let i = 0; i < vectors.length; i++) {
+        if (assignments[i] !== c) continue;
+        for (const [term, weight] of vectors[i]) {
+          sum.set(term, (sum.get(term) ?? 0) + weight);
+        }
+      }
+      // An emptied cluster keeps its old centroid
+      if (sum.size > 0) centroids[c] = normalize(sum);
+    }
+  }
+
+  return { assignments, centroids };
+}
+
+function seedCentroids(
+  vectors: Vector[],
+  k: number,
+  random: () => number,
+): Vector[] {
+  const centroids = [vectors[Math.floor(random() * vectors.length)]];
+  while (centroids.length < k) {
+    // Pick the next seed with probability proportional to its distance
+    const distances = vectors.map((v) => 1 - nearest(v, centroids).similarity);
+    const total = distances.reduce((a, b) => a + b, 0);
+    if (total === 0) break;
+    let target = random() * total;
+    let index = 0;
+    while (target > distances[index] && index < vectors.length - 1) {
+      target -= distances[index];
+      index++;
+    }
+    centroids.push(vectors[index]);
+  }
+  // Fewer distinct bios than k: pad with copies that end up empty
+  while (centroids.length < k) centroids.push(centroids[0]);
+  return centroids;
+}
+
+function nearest(
+  vector: Vector,
+  centroids: Vector[],
+): { index: number; similarity: number } {
+  let index = 0;
+  let similarity = -Infinity;
+  centroids.forEach((centroid, c) => {
+    const s = cosine(vector, centroid);
+    if (s > similarity) {
+      similarity = s;
+      index = c;
+    }
+  });
+  return { index, similarity };
+}
+
+function normalize(vector: Vector): Vector {
+  let norm = 0;
+  for (const weight of vector.values()) norm += weight * weight;
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+  for (const [term, weight] of vector) vector.set(term, weight / norm);
+  return vector;
+}
+
+/** Small seeded PRNG so the same follows give the same topics. */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
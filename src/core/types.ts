@@ -1,3 +1,10 @@
+import type { SchedulerState } from "../utils/request-scheduler";
+import type { ClassificationFailure } from "./classification";
+import type { XListMember } from "./lists-api";
+import type { RecategorizeSummary } from "./recategorize";
+import type { QueueRunResult, QueuedUnfollow } from "./unfollow-queue";
+import type { UsageByModel } from "./usage";
+
 export interface UserProfile {
   userId: string;
   username: string;
@@ -18,8 +25,9 @@ export interface UserProfile {
   createdAt: string;
   isBlueVerified: boolean;
   listIds: number[];
-  scannedAt: string;
+  scannedAt: string; // "" until a scan hydrates the profile
   profileImageUrl: string;
+  isStub?: boolean; // list member stored without profile data
 }
 
 export type UserStatus =
@@ -39,6 +47,70 @@ export interface SmartList {
   createdAt: string;
   updatedAt: string;
   xListId?: string; // linked X/Twitter list ID
+  xListOwner?: string; // @username when the X list is someone else's (read-only)
+  lastSync?: ListSyncState;
+  importCursor?: string; // set while an import from X is unfinished
+}
+
+export interface ListSyncState {
+  syncedAt: string;
+  memberIds: string[]; // X list members after the last sync
+}
+
+export type PolicyField =
+  | "status"
+  | "daysSinceLastTweet"
+  | "followerCount"
+  | "followingCount"
+  | "followRatio"
+  | "tweetCount"
+  | "isFollower"
+  | "isMutual"
+  | "isVerified"
+  | "isBlueVerified"
+  | "listIds"
+  | "botScore";
+
+export type PolicyOp =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "not_in"
+  | "contains"
+  | "not_contains";
+
+export interface PolicyRule {
+  field: PolicyField;
+  op: PolicyOp;
+  value: string | number | boolean | Array<string | number>;
+}
+
+export interface PolicyProtections {
+  whitelist: boolean;
+  mutuals: boolean;
+  verified: boolean;
+  minFollowers: number; // protect accounts with at least this many; 0 = off
+}
+
+export interface CleanupPolicy {
+  id?: number;
+  name: string;
+  rules: PolicyRule[]; // all must match
+  protections: PolicyProtections;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClassificationCacheEntry {
+  key: string; // `${contextHash}:${userId}`
+  userId: string;
+  profileHash: string; // displayName + bio at classification time
+  ids: Array<string | number>;
+  classifiedAt: string;
 }
 
 export interface Snapshot {
@@ -49,7 +121,8 @@ export interface Snapshot {
   mutualCount: number;
   inactiveCount: number;
   suspendedCount: number;
-  userIds: string[];
+  userIds: string[]; // following IDs at scan time
+  followerIds: string[];
 }
 
 export interface UnfollowEntry {
@@ -58,6 +131,7 @@ export interface UnfollowEntry {
   username: string;
   date: string;
   reason: string;
+  refollowedAt?: string; // set when the unfollow was undone
 }
 
 export interface ScanProgress {
@@ -98,25 +172,52 @@ export interface AccountHealth {
 
 // Message types between content script, background, and side panel
 export type MessageType =
-  | { type: "START_SCAN" }
+  | { type: "START_SCAN"; resume?: boolean; incremental?: boolean }
   | { type: "STOP_SCAN" }
-  | { type: "START_UNFOLLOW"; userIds: string[]; dryRun: boolean }
+  | {
+      type: "START_UNFOLLOW";
+      userIds: string[];
+      dryRun: boolean;
+      queued?: boolean; // report each result for the unfollow queue
+    }
   | { type: "STOP_UNFOLLOW" }
   | { type: "SCAN_PROGRESS"; data: ScanProgress }
-  | { type: "SCAN_COMPLETE"; data: { totalUsers: number } }
+  | {
+      type: "SCAN_COMPLETE";
+      data: { totalUsers: number; recategorized?: RecategorizeSummary };
+    }
   | { type: "SCAN_ERROR"; error: string }
+  | { type: "SCAN_PAUSED" }
+  | { type: "RATE_LIMIT_STATE"; data: SchedulerState }
   | {
       type: "UNFOLLOW_PROGRESS";
       data: { done: number; total: number; current: string };
     }
   | { type: "UNFOLLOW_STARTED"; data: { total: number; done: number } }
   | { type: "UNFOLLOW_COMPLETE"; data: { count: number } }
-  | { type: "CATEGORIZE_AI"; listId: number; apiKey: string }
-  | { type: "CATEGORIZE_AI_COMPLETE"; listId: number }
+  | { type: "QUEUE_UNFOLLOWS"; users: QueuedUnfollow[] }
+  | { type: "PAUSE_UNFOLLOW_QUEUE" }
+  | { type: "RESUME_UNFOLLOW_QUEUE" }
+  | { type: "CANCEL_UNFOLLOW_QUEUE" }
+  | { type: "UNFOLLOW_QUEUE_UPDATED" }
+  | { type: "UNFOLLOW_QUEUE_RESULT"; result: QueueRunResult }
+  | { type: "CATEGORIZE_AI"; listId: number }
+  | {
+      type: "CATEGORIZE_AI_COMPLETE";
+      listId: number;
+      failed: ClassificationFailure[];
+      usage: UsageByModel;
+    }
   | { type: "AUTH_STATUS"; authenticated: boolean }
   | { type: "GET_AUTH_STATUS" }
   | { type: "OPEN_SIDEPANEL" }
-  | { type: "STORE_USERS_BATCH"; users: UserProfile[] }
+  | { type: "STORE_USERS_BATCH"; userId: string; users: UserProfile[] }
+  | {
+      type: "PLAN_INCREMENTAL_SCAN";
+      userId: string;
+      followingIds: string[];
+      followerIds: string[];
+    }
   | {
       type: "FINALIZE_SCAN";
       userId: string;
@@ -124,7 +225,21 @@ export type MessageType =
       followingIds: string[];
     }
   | { type: "FETCH_X_LISTS" }
+  | { type: "FETCH_X_LIST"; listId: string }
   | { type: "FETCH_X_LIST_MEMBERS"; listId: string }
+  | {
+      type: "IMPORT_X_LIST_MEMBERS";
+      listId: string;
+      smartListId: number;
+      cursor?: string;
+    }
+  | {
+      type: "STORE_LIST_MEMBERS_BATCH";
+      smartListId: number;
+      members: XListMember[];
+      nextCursor: string | null;
+    }
+  | { type: "LIST_IMPORT_PROGRESS"; smartListId: number; fetched: number }
   | {
       type: "CREATE_X_LIST";
       name: string;
@@ -132,7 +247,10 @@ export type MessageType =
       mode: "public" | "private";
     }
   | { type: "ADD_X_LIST_MEMBER"; listId: string; userId: string }
+  | { type: "REMOVE_X_LIST_MEMBER"; listId: string; userId: string }
   | { type: "FOLLOW_USER"; userId: string }
+  | { type: "BLOCK_USER"; userId: string }
+  | { type: "REMOVE_FOLLOWER"; userId: string }
   | { type: "SCAN_MONETIZATION" }
   | { type: "STOP_MONETIZATION" }
   | {
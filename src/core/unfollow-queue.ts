@@ -0,0 +1,166 @@
+/**
+ * Scheduled unfollow queue: selections larger than today's limit are kept
+ * and drained by the background worker on a chrome.alarms tick, a small
+ * batch at a time, until the queue is empty.
+ * Stored in chrome.storage.local so the side panel, background worker and
+ * alarms all see the same queue across restarts.
+ */
+
+export interface QueuedUnfollow {
+  userId: string;
+  username: string;
+  reason: string;
+}
+
+export interface UnfollowQueue {
+  ownerId: string; // X account the queue belongs to
+  entries: QueuedUnfollow[];
+  paused: boolean;
+  done: number;
+  failed: number;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt: string | null;
+}
+
+export interface QueueRunResult {
+  userId: string;
+  success: boolean;
+}
+
+export const UNFOLLOW_QUEUE_ALARM = "xsweep-unfollow-queue";
+export const QUEUE_RUN_INTERVAL_MINUTES = 30;
+// At 30-60s between unfollows, 4 keeps a run under ~4 minutes, inside the
+// 5 minutes a service worker may wait on one call before it is stopped
+export const QUEUE_BATCH_SIZE = 4;
+
+const STORAGE_KEY = "xsweep_unfollow_queue";
+
+export function createUnfollowQueue(ownerId: string): UnfollowQueue {
+  const now = new Date().toISOString();
+  return {
+    ownerId,
+    entries: [],
+    paused: false,
+    done: 0,
+    failed: 0,
+    createdAt: now,
+    updatedAt: now,
+    lastRunAt: null,
+  };
+}
+
+/**
+ * Append users to the queue, skipping anyone already queued.
+ */
+export function enqueueUnfollows(
+  queue: UnfollowQueue,
+  users: QueuedUnfollow[],
+): UnfollowQueue {
+  const queued = new Set(queue.entries.map((e) => e.userId));
+  const added = users.filter((u) => {
+    if (queued.has(u.userId)) return false;
+    queued.add(u.userId);
+    return true;
+  });
+  return {
+    ...queue,
+    entries: [...queue.entries, ...added],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Entries to process on this run, capped by what is left of today's limit.
+ */
+export function nextQueueBatch(
+  queue: UnfollowQueue,
+  todayRemaining: number,
+): QueuedUnfollow[] {
+  if (queue.paused || todayRemaining <= 0) return [];
+  return queue.entries.slice(0, Math.min(todayRemaining, QUEUE_BATCH_SIZE));
+}
+
+/**
+ * Drop processed entries from the queue. Failed unfollows are counted but
+ * not retried, so one bad account cannot block the rest.
+ */
+export function applyQueueResults(
+  queue: UnfollowQueue,
+  results: QueueRunResult[],
+): UnfollowQueue {
+  const processed = new Set(results.map((r) => r.userId));
+  const succeeded = results.filter((r) => r.success).length;
+  const now = new Date().toISOString();
+  return {
+    ...queue,
+    entries: queue.entries.filter((e) => !processed.has(e.userId)),
+    done: queue.done + succeeded,
+    failed: queue.failed + results.length - succeeded,
+    updatedAt: now,
+    lastRunAt: now,
+  };
+}
+
+/**
+ * Apply one finished unfollow to the stored queue as soon as the content
+ * script reports it, so a run that is cut short keeps its progress.
+ * Returns the processed entry, or null if it was no longer queued.
+ */
+export async function recordQueueResult(
+  ownerId: string,
+  result: QueueRunResult,
+): Promise<QueuedUnfollow | null> {
+  const queue = await loadUnfollowQueue(ownerId);
+  const entry = queue?.entries.find((e) => e.userId === result.userId);
+  if (!queue || !entry) return null;
+  await saveUnfollowQueue(applyQueueResults(queue, [result]));
+  return entry;
+}
+
+/**
+ * Day the last queued unfollow is expected to run, given today's usage.
+ * A day drains at most the daily limit or what the scheduled runs can
+ * get through, whichever is lower.
+ */
+export function projectQueueFinish(
+  remaining: number,
+  dailyLimit: number,
+  todayCount: number,
+  now: Date = new Date(),
+): Date {
+  const perDay = Math.min(
+    dailyLimit,
+    QUEUE_BATCH_SIZE * ((24 * 60) / QUEUE_RUN_INTERVAL_MINUTES),
+  );
+  const leftToday = Math.max(0, Math.min(perDay, dailyLimit - todayCount));
+  const extraDays =
+    remaining <= leftToday
+      ? 0
+      : Math.ceil((remaining - leftToday) / Math.max(1, perDay));
+  const finish = new Date(now);
+  finish.setDate(finish.getDate() + extraDays);
+  return finish;
+}
+
+export async function saveUnfollowQueue(queue: UnfollowQueue): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: queue });
+}
+
+/**
+ * Load the persisted queue. When ownerId is given, a queue belonging to a
+ * different X account is ignored.
+ */
+export async function loadUnfollowQueue(
+  ownerId?: string,
+): Promise<UnfollowQueue | null> {
+  const data = await chrome.storage.local.get(STORAGE_KEY);
+  const queue: UnfollowQueue | undefined = data[STORAGE_KEY];
+  if (!queue) return null;
+  if (ownerId && queue.ownerId !== ownerId) return null;
+  return queue;
+}
+
+export async function clearUnfollowQueue(): Promise<void> {
+  await chrome.storage.local.remove(STORAGE_KEY);
+}
@@ -5,11 +5,13 @@
 
 import { getHeaders, getCSRFToken } from "./auth";
 import { delay } from "../utils/rate-limiter";
+import { scheduledFetch } from "../utils/request-scheduler";
 
 const MAX_DAILY_LIMIT = 400;
 const DEFAULT_DAILY_LIMIT = 200;
 
 let abortController: AbortController | null = null;
+let running = false;
 
 interface UnfollowConfig {
   dailyLimit: number;
@@ -37,7 +39,7 @@ async function unfollowSingle(userId: string): Promise<boolean> {
       "content-type": "application/x-www-form-urlencoded",
     };
 
-    const resp = await fetch(
+    const resp = await scheduledFetch(
       "https://x.com/i/api/1.1/friendships/destroy.json",
       {
         method: "POST",
@@ -46,14 +48,9 @@ async function unfollowSingle(userId: string): Promise<boolean> {
         body: new URLSearchParams({ user_id: userId }),
         signal: abortController?.signal,
       },
+      { fallbackWait: [300, 360] },
     );
 
-    if (resp.status === 429) {
-      console.log("[XSweep] Rate limited on unfollow. Waiting 5 min...");
-      await delay(300, 360);
-      return unfollowSingle(userId);
-    }
-
     return resp.ok;
   } catch (e) {
     if (e instanceof DOMException && e.name === "AbortError") return false;
@@ -69,14 +66,34 @@ export interface UnfollowResult {
 }
 
 type ProgressCallback = (done: number, total: number, current: string) => void;
+type ResultCallback = (result: UnfollowResult) => Promise<void> | void;
 
 /**
- * Bulk unfollow with rate limiting and daily caps.
+ * Bulk unfollow with rate limiting and daily caps. onResult is awaited
+ * after each live unfollow, before the delay to the next. Only one run at
+ * a time: both read today's count once, so overlapping runs would share
+ * the daily limit twice.
  */
 export async function bulkUnfollow(
   users: Array<{ userId: string; username: string }>,
   config: Partial<UnfollowConfig> = {},
   onProgress?: ProgressCallback,
+  onResult?: ResultCallback,
+): Promise<UnfollowResult[]> {
+  if (running) throw new Error("An unfollow run is already in progress");
+  running = true;
+  try {
+    return await runUnfollows(users, config, onProgress, onResult);
+  } finally {
+    running = false;
+  }
+}
+
+async function runUnfollows(
+  users: Array<{ userId: string; username: string }>,
+  config: Partial<UnfollowConfig>,
+  onProgress?: ProgressCallback,
+  onResult?: ResultCallback,
 ): Promise<UnfollowResult[]> {
   const cfg = { ...defaultConfig, ...config };
   cfg.dailyLimit = Math.min(cfg.dailyLimit, MAX_DAILY_LIMIT);
@@ -114,12 +131,14 @@ export async function bulkUnfollow(
       });
     } else {
       const success = await unfollowSingle(user.userId);
-      results.push({ userId: user.userId, username: user.username, success });
+      const result = { userId: user.userId, username: user.username, success };
+      results.push(result);
 
       if (success) {
         const newCount = storedCount + i + 1;
         await chrome.storage.local.set({ [storageKey]: String(newCount) });
       }
+      await onResult?.(result);
     }
 
     if (i < batch.length - 1) {
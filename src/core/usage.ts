@@ -0,0 +1,155 @@
+/**
+ * Token and cost accounting for AI features.
+ * Runs total the usage providers report per request, by model. Every request
+ * is also added to a per-month ledger in chrome.storage.local, which the
+ * optional monthly budget is checked against before a run starts.
+ */
+
+import { formatCost } from "../utils/format";
+import { estimateCost, type LLMConfig, type TokenUsage } from "./llm";
+
+export interface ModelUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD, for requests with a known price
+  priced: boolean; // false once any request had no known price
+}
+
+export type UsageByModel = Record<string, ModelUsage>;
+
+// "YYYY-MM" → usage that month
+export type UsageLedger = Record<string, UsageByModel>;
+
+export interface BudgetCheck {
+  limit: number | null; // USD per month; null = no budget
+  spent: number; // this month so far
+  allowed: boolean;
+}
+
+const LEDGER_KEY = "xsweep_llm_usage";
+const BUDGET_KEY = "xsweep_llm_budget";
+
+export function monthKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Add one request's usage, returning a new record.
+ */
+export function addUsage(
+  byModel: UsageByModel,
+  llm: LLMConfig,
+  usage: TokenUsage,
+): UsageByModel {
+  const prev = byModel[usage.model] ?? {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    priced: true,
+  };
+  const cost = estimateCost(
+    llm,
+    usage.tier,
+    usage.inputTokens,
+    usage.outputTokens,
+  );
+  return {
+    ...byModel,
+    [usage.model]: {
+      requests: prev.requests + 1,
+      inputTokens: prev.inputTokens + usage.inputTokens,
+      outputTokens: prev.outputTokens + usage.outputTokens,
+      cost: prev.cost + (cost ?? 0),
+      priced: prev.priced && cost !== null,
+    },
+  };
+}
+
+export function totalUsage(...records: UsageByModel[]): ModelUsage {
+  const total: ModelUsage = {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    priced: true,
+  };
+  for (const byModel of records) {
+    for (const u of Object.values(byModel)) {
+      total.requests += u.requests;
+      total.inputTokens += u.inputTokens;
+      total.outputTokens += u.outputTokens;
+      total.cost += u.cost;
+      total.priced &&= u.priced;
+    }
+  }
+  return total;
+}
+
+export async function loadUsageLedger(): Promise<UsageLedger> {
+  const data = await chrome.storage.local.get(LEDGER_KEY);
+  return data[LEDGER_KEY] || {};
+}
+
+/**
+ * Add a request to this month's ledger.
+ */
+export async function recordUsage(
+  llm: LLMConfig,
+  usage: TokenUsage,
+): Promise<void> {
+  const ledger = await loadUsageLedger();
+  const month = monthKey();
+  ledger[month] = addUsage(ledger[month] ?? {}, llm, usage);
+  await chrome.storage.local.set({ [LEDGER_KEY]: ledger });
+}
+
+export async function clearUsageLedger(): Promise<void> {
+  await chrome.storage.local.remove(LEDGER_KEY);
+}
+
+export async function getMonthlyBudget(): Promise<number | null> {
+  const data = await chrome.storage.local.get(BUDGET_KEY);
+  return typeof data[BUDGET_KEY] === "number" ? data[BUDGET_KEY] : null;
+}
+
+export async function setMonthlyBudget(usd: number | null): Promise<void> {
+  if (usd === null) await chrome.storage.local.remove(BUDGET_KEY);
+  else await chrome.storage.local.set({ [BUDGET_KEY]: usd });
+}
+
+/**
+ * Whether a run with this estimated cost fits in what's left of the monthly
+ * budget. Runs on models without a known price are only blocked once the
+ * budget is used up.
+ */
+export async function checkBudget(
+  estimatedCost: number | null,
+): Promise<BudgetCheck> {
+  const limit = await getMonthlyBudget();
+  const ledger = await loadUsageLedger();
+  const spent = totalUsage(ledger[monthKey()] ?? {}).cost;
+  const allowed =
+    limit === null || (spent < limit && spent + (estimatedCost ?? 0) <= limit);
+  return { limit, spent, allowed };
+}
+
+export function describeBudget(check: BudgetCheck): string {
+  if (check.limit === null) return "No monthly budget";
+  return `$${check.spent.toFixed(2)} of $${check.limit.toFixed(2)} used this month`;
+}
+
+/**
+ * Throw when a run would go over the monthly budget.
+ */
+export async function assertWithinBudget(
+  estimatedCost: number | null,
+): Promise<void> {
+  const check = await checkBudget(estimatedCost);
+  if (!check.allowed) {
+    throw new Error(
+      `Over the monthly AI budget (${describeBudget(check)}, this run ~${formatCost(estimatedCost)})`,
+    );
+  }
+}
@@ -1,18 +1,66 @@
 /**
  * Background service worker.
- * Handles side panel opening and AI categorization.
+ * Handles side panel opening, AI categorization and the scheduled
+ * unfollow queue.
  */
 
-import { categorizeWithAI } from "../core/categorizer";
+import {
+  cachedAICategorization,
+  categorizeWithAI,
+  estimateAICategorization,
+} from "../core/categorizer";
+import { isLLMConfigured, loadLLMConfig } from "../core/llm";
+import {
+  assertWithinBudget,
+  recordUsage,
+  type UsageByModel,
+} from "../core/usage";
+import { buildSnapshot } from "../core/snapshots";
+import {
+  addPendingRecategorization,
+  getRecategorizeAI,
+  planRecategorization,
+  takePendingRecategorization,
+  type RecategorizeSummary,
+} from "../core/recategorize";
+import {
+  getRescanMaxAgeDays,
+  planIncrementalScan,
+  type IncrementalPlan,
+} from "../core/incremental-scan";
+import { getDailyLimit, getTodayUnfollowCount } from "../core/unfollower";
+import {
+  UNFOLLOW_QUEUE_ALARM,
+  QUEUE_RUN_INTERVAL_MINUTES,
+  clearUnfollowQueue,
+  createUnfollowQueue,
+  enqueueUnfollows,
+  loadUnfollowQueue,
+  nextQueueBatch,
+  recordQueueResult,
+  saveUnfollowQueue,
+  type QueueRunResult,
+  type QueuedUnfollow,
+  type UnfollowQueue,
+} from "../core/unfollow-queue";
 import {
   getAllUsers,
+  getScannedUsers,
   getAllLists,
   updateUserListIds,
   upsertUsers,
+  storeScannedUsers,
+  addListMembers,
+  updateList,
+  createSnapshot,
+  logUnfollow,
   switchToUserDb,
   restoreUserDb,
+  classificationCache,
 } from "../storage/db";
-import type { MessageType } from "../core/types";
+import type { ClassificationFailure } from "../core/classification";
+import type { XListMember } from "../core/lists-api";
+import type { MessageType, SmartList, UserProfile } from "../core/types";
 
 export default defineBackground(() => {
   console.log("[XSweep] Background worker started");
@@ -20,6 +68,14 @@ export default defineBackground(() => {
   // Restore user-scoped DB from previous session
   restoreUserDb();
 
+  // Keep draining a queued unfollow run across browser restarts
+  loadUnfollowQueue().then((queue) => {
+    if (queue && !queue.paused) scheduleUnfollowQueue();
+  });
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === UNFOLLOW_QUEUE_ALARM) drainUnfollowQueue();
+  });
+
   // Open side panel when extension icon is clicked
   chrome.action.onClicked.addListener(async (tab) => {
     if (tab.id) {
@@ -44,28 +100,88 @@ export default defineBackground(() => {
       }
 
       if (message.type === "STORE_USERS_BATCH") {
-        upsertUsers(message.users)
+        storeScannedUsers(message.users)
+          .then((changed) =>
+            addPendingRecategorization(message.userId, changed),
+          )
+          .then(() => sendResponse({ success: true }))
+          .catch((e) => sendResponse({ success: false, error: e.message }));
+        return true;
+      }
+
+      if (message.type === "STORE_LIST_MEMBERS_BATCH") {
+        handleStoreListMembers(
+          message.smartListId,
+          message.members,
+          message.nextCursor,
+        )
           .then(() => sendResponse({ success: true }))
           .catch((e) => sendResponse({ success: false, error: e.message }));
         return true;
       }
 
+      if (message.type === "PLAN_INCREMENTAL_SCAN") {
+        switchToUserDb(message.userId)
+          .then(() =>
+            handlePlanIncrementalScan(
+              message.followingIds,
+              message.followerIds,
+            ),
+          )
+          .then((plan) => sendResponse({ success: true, plan }))
+          .catch((e) => sendResponse({ success: false, error: e.message }));
+        return true;
+      }
+
       if (message.type === "FINALIZE_SCAN") {
         switchToUserDb(message.userId)
           .then(() =>
-            handleFinalizeScan(message.followerIds, message.followingIds),
+            handleFinalizeScan(
+              message.userId,
+              message.followerIds,
+              message.followingIds,
+            ),
           )
+          .then((recategorized) =>
+            sendResponse({ success: true, recategorized }),
+          )
+          .catch((e) => sendResponse({ success: false, error: e.message }));
+        return true;
+      }
+
+      if (message.type === "UNFOLLOW_QUEUE_RESULT") {
+        handleUnfollowQueueResult(message.result)
+          .then(() => sendResponse({ success: true }))
+          .catch((e) => sendResponse({ success: false, error: e.message }));
+        return true;
+      }
+
+      if (message.type === "QUEUE_UNFOLLOWS") {
+        handleQueueUnfollows(message.users)
+          .then((queue) => sendResponse({ success: true, queue }))
+          .catch((e) => sendResponse({ success: false, error: e.message }));
+        return true;
+      }
+
+      if (
+        message.type === "PAUSE_UNFOLLOW_QUEUE" ||
+        message.type === "RESUME_UNFOLLOW_QUEUE" ||
+        message.type === "CANCEL_UNFOLLOW_QUEUE"
+      ) {
+        handleUnfollowQueueControl(message.type)
           .then(() => sendResponse({ success: true }))
           .catch((e) => sendResponse({ success: false, error: e.message }));
         return true;
       }
 
       if (message.type === "CATEGORIZE_AI") {
-        handleAICategorization(message.listId, message.apiKey)
-          .then(() => {
+        handleAICategorization(message.listId)
+          .then(({ failed, usage }) => {
             chrome.runtime.sendMessage({
               type: "CATEGORIZE_AI_COMPLETE",
               listId: message.listId,
+              failed,
+              usage,
             });
             sendResponse({ success: true });
           })
@@ -85,10 +201,13 @@ export default defineBackground(() => {
       message.type === "SCAN_PROGRESS" ||
       message.type === "SCAN_COMPLETE" ||
       message.type === "SCAN_ERROR" ||
+      message.type === "SCAN_PAUSED" ||
+      message.type === "RATE_LIMIT_STATE" ||
       message.type === "UNFOLLOW_STARTED" ||
       message.type === "UNFOLLOW_PROGRESS" ||
       message.type === "UNFOLLOW_COMPLETE" ||
       message.type === "AUTH_STATUS" ||
+      message.type === "LIST_IMPORT_PROGRESS" ||
       message.type === "MONETIZATION_PROGRESS" ||
       message.type === "MONETIZATION_COMPLETE" ||
       message.type === "MONETIZATION_ERROR"
@@ -101,10 +220,36 @@ export default defineBackground(() => {
   });
 });
 
+async function handlePlanIncrementalScan(
+  followingIds: string[],
+  followerIds: string[],
+): Promise<IncrementalPlan> {
+  const users = await getAllUsers();
+  const maxAgeDays = await getRescanMaxAgeDays();
+  return planIncrementalScan(users, followingIds, followerIds, maxAgeDays);
+}
+
+/**
+ * Store a page of an X list import together with the cursor of the next
+ * page, so an interrupted import resumes after the last stored page.
+ */
+async function handleStoreListMembers(
+  smartListId: number,
+  members: XListMember[],
+  nextCursor: string | null,
+): Promise<void> {
+  await addListMembers(smartListId, members);
+  await updateList(smartListId, {
+    importCursor: nextCursor ?? undefined,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
 async function handleFinalizeScan(
+  ownerId: string,
   followerIds: string[],
   followingIds: string[],
-): Promise<void> {
+): Promise<RecategorizeSummary> {
   // Store counts in chrome.storage.local
   await chrome.storage.local.set({
     xsweep_follower_ids: followerIds,
@@ -125,19 +270,228 @@ async function handleFinalizeScan(
       followingSet.has(user.userId) && followerSet.has(user.userId);
   }
   await upsertUsers(users);
+
+  // Record a historical snapshot for the growth timeline
+  await createSnapshot(buildSnapshot(users, followingIds, followerIds));
+
+  return recategorizeScannedUsers(ownerId, users);
+}
+
+/**
+ * Add the profiles stored since the last finalize to the keyword lists they
+ * now match, and to AI lists where a cached answer covers them.
+ */
+async function recategorizeScannedUsers(
+  ownerId: string,
+  users: UserProfile[],
+): Promise<RecategorizeSummary> {
+  const pending = new Set(await takePendingRecategorization(ownerId));
+  const scanned = users.filter((u) => pending.has(u.userId));
+  if (scanned.length === 0) return { members: 0, lists: 0 };
+
+  const lists = await getAllLists();
+  const plan = planRecategorization(
+    scanned,
+    lists,
+    await cachedAIAssignments(scanned, lists),
+  );
+  for (const [userId, listIds] of plan.updates) {
+    await updateUserListIds(userId, listIds);
+  }
+  return plan.summary;
+}
+
+async function cachedAIAssignments(
+  users: UserProfile[],
+  lists: SmartList[],
+): Promise<Map<string, number[]>> {
+  if (!lists.some((l) => l.type === "ai")) return new Map();
+  if (!(await getRecategorizeAI())) return new Map();
+
+  const llm = await loadLLMConfig();
+  if (!isLLMConfigured(llm)) return new Map();
+  return cachedAICategorization(users, lists, llm, classificationCache);
+}
+
+async function scheduleUnfollowQueue(): Promise<void> {
+  const existing = await chrome.alarms.get(UNFOLLOW_QUEUE_ALARM);
+  if (!existing) {
+    await chrome.alarms.create(UNFOLLOW_QUEUE_ALARM, {
+      periodInMinutes: QUEUE_RUN_INTERVAL_MINUTES,
+    });
+  }
+}
+
+function notifyUnfollowQueue(): void {
+  chrome.runtime.sendMessage({ type: "UNFOLLOW_QUEUE_UPDATED" }).catch(() => {
+    // No listener available
+  });
+}
+
+async function findXTab(): Promise<chrome.tabs.Tab | undefined> {
+  const tabs = await chrome.tabs.query({
+    url: ["https://x.com/*", "https://twitter.com/*"],
+  });
+  return tabs.find((t) => t.id !== undefined);
+}
+
+async function handleQueueUnfollows(
+  users: QueuedUnfollow[],
+): Promise<UnfollowQueue> {
+  const data = await chrome.storage.local.get("xsweep_active_user");
+  const ownerId: string | undefined = data.xsweep_active_user;
+  if (!ownerId) throw new Error("Run a scan first");
+
+  const queue = enqueueUnfollows(
+    (await loadUnfollowQueue(ownerId)) ?? createUnfollowQueue(ownerId),
+    users,
+  );
+  await saveUnfollowQueue(queue);
+  if (!queue.paused) {
+    await scheduleUnfollowQueue();
+    drainUnfollowQueue();
+  }
+  notifyUnfollowQueue();
+  return queue;
+}
+
+async function handleUnfollowQueueControl(
+  type:
+    "PAUSE_UNFOLLOW_QUEUE" | "RESUME_UNFOLLOW_QUEUE" | "CANCEL_UNFOLLOW_QUEUE",
+): Promise<void> {
+  const queue = await loadUnfollowQueue();
+  if (!queue) return;
+
+  if (type === "RESUME_UNFOLLOW_QUEUE") {
+    await saveUnfollowQueue({ ...queue, paused: false });
+    await scheduleUnfollowQueue();
+    drainUnfollowQueue();
+  } else {
+    if (type === "CANCEL_UNFOLLOW_QUEUE") await clearUnfollowQueue();
+    else await saveUnfollowQueue({ ...queue, paused: true });
+    await chrome.alarms.clear(UNFOLLOW_QUEUE_ALARM);
+    // Stop a batch that is already running
+    const tab = await findXTab();
+    if (tab?.id) {
+      chrome.tabs.sendMessage(tab.id, { type: "STOP_UNFOLLOW" }).catch(() => {
+        // Content script not loaded
+      });
+    }
+  }
+  notifyUnfollowQueue();
+}
+
+/**
+ * Record one unfollow from a queue run: drop it from the queue and log it
+ * to the owner's history.
+ */
+async function handleUnfollowQueueResult(
+  result: QueueRunResult,
+): Promise<void> {
+  const data = await chrome.storage.local.get("xsweep_active_user");
+  const ownerId: string | undefined = data.xsweep_active_user;
+  if (!ownerId) return;
+
+  const entry = await recordQueueResult(ownerId, result);
+  if (!entry) return;
+  if (result.success) {
+    await switchToUserDb(ownerId);
+    await logUnfollow({
+      userId: entry.userId,
+      username: entry.username,
+      date: new Date().toISOString(),
+      reason: entry.reason,
+    });
+  }
+  notifyUnfollowQueue();
+}
+
+let drainingQueue = false;
+
+/**
+ * Run the next batch of the unfollow queue in an open x.com tab.
+ * Runs on every alarm tick; does nothing while paused, at the daily limit,
+ * or when no x.com tab is open.
+ */
+async function drainUnfollowQueue(): Promise<void> {
+  if (drainingQueue) return;
+  drainingQueue = true;
+  try {
+    const queue = await loadUnfollowQueue();
+    if (!queue || queue.entries.length === 0) {
+      await clearUnfollowQueue();
+      await chrome.alarms.clear(UNFOLLOW_QUEUE_ALARM);
+      return;
+    }
+
+    // Tabs are logged into whichever account was active last
+    const data = await chrome.storage.local.get("xsweep_active_user");
+    if (data.xsweep_active_user !== queue.ownerId) return;
+
+    const todayRemaining = getDailyLimit() - (await getTodayUnfollowCount());
+    const batch = nextQueueBatch(queue, todayRemaining);
+    if (batch.length === 0) return;
+
+    const tab = await findXTab();
+    if (!tab?.id) {
+      console.log("[XSweep] Unfollow queue: no x.com tab open, will retry");
+      return;
+    }
+
+    // Results come back one by one as UNFOLLOW_QUEUE_RESULT
+    const resp = await chrome.tabs.sendMessage(tab.id, {
+      type: "START_UNFOLLOW",
+      userIds: batch.map((e) => e.userId),
+      dryRun: false,
+      queued: true,
+    });
+    if (!resp?.success) {
+      console.error("[XSweep] Unfollow queue run failed:", resp?.error);
+      return;
+    }
+
+    const latest = await loadUnfollowQueue(queue.ownerId);
+    if (latest && latest.entries.length === 0) {
+      await clearUnfollowQueue();
+      await chrome.alarms.clear(UNFOLLOW_QUEUE_ALARM);
+      notifyUnfollowQueue();
+    }
+  } catch (e) {
+    console.error("[XSweep] Unfollow queue error:", e);
+  } finally {
+    drainingQueue = false;
+  }
 }
 
 async function handleAICategorization(
   listId: number,
-  apiKey: string,
-): Promise<void> {
-  const users = await getAllUsers();
+): Promise<{ failed: ClassificationFailure[]; usage: UsageByModel }> {
+  const users = await getScannedUsers();
   const lists = await getAllLists();
   const targetList = lists.find((l) => l.id === listId);
 
   if (!targetList) throw new Error("List not found");
 
-  const mapping = await categorizeWithAI(users, [targetList], apiKey);
+  const llm = await loadLLMConfig();
+  if (!isLLMConfigured(llm)) throw new Error("AI provider not configured");
+
+  const estimate = await estimateAICategorization(
+    users,
+    [targetList],
+    llm,
+    classificationCache,
+  );
+  await assertWithinBudget(estimate.cost);
+
+  const { mapping, failed, usage } = await categorizeWithAI(
+    users,
+    [targetList],
+    llm,
+    {
+      cache: classificationCache,
+      onUsage: (u) => recordUsage(llm, u),
+    },
+  );
 
   for (const [userId, listIds] of mapping) {
     const user = users.find((u) => u.userId === userId);
@@ -146,4 +500,12 @@ async function handleAICategorization(
       await updateUserListIds(userId, newListIds);
     }
   }
+
+  if (failed.length > 0) {
+    console.warn(
+      `[XSweep] AI categorization skipped ${failed.length} users:`,
+      failed,
+    );
+  }
+  return { failed, usage };
 }
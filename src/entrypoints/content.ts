@@ -5,7 +5,8 @@
  */
 
 import { extractBearerToken, getHeaders, getMyUserId } from "../core/auth";
-import type { MessageType, ScanProgress } from "../core/types";
+import { onSchedulerChange, scheduledFetch } from "../utils/request-scheduler";
+import type { MessageType, ScanProgress, UserProfile } from "../core/types";
 
 export default defineContentScript({
   matches: ["https://x.com/*", "https://twitter.com/*"],
@@ -22,6 +23,19 @@ export default defineContentScript({
       console.log("[XSweep] Bearer token not available yet.");
     }
 
+    // Report rate-limit waits so the side panel can show a countdown
+    onSchedulerChange((state) => {
+      sendMessage({ type: "RATE_LIMIT_STATE", data: state });
+    });
+
+    // Dev builds: record sanitized API responses as test fixtures
+    if (import.meta.env.DEV) {
+      const { installFixtureRecorder } =
+        await import("../utils/fixture-recorder");
+      (globalThis as Record<string, unknown>).xsweepFixtures =
+        installFixtureRecorder();
+    }
+
     // Listen for messages from side panel / background
     chrome.runtime.onMessage.addListener(
       (message: MessageType, _sender, sendResponse) => {
@@ -50,34 +64,76 @@ async function handleMessage(
     case "START_SCAN": {
       try {
         await extractBearerToken();
-        const { fullScan } = await import("../core/scanner");
-        const result = await fullScan(
-          (progress: ScanProgress) => {
-            sendMessage({ type: "SCAN_PROGRESS", data: progress });
-          },
-          async (batch) => {
-            // Send batch to background for DB storage (extension-origin IndexedDB)
-            await chrome.runtime.sendMessage({
-              type: "STORE_USERS_BATCH",
-              users: batch,
+        const { fullScan, incrementalScan } = await import("../core/scanner");
+        const { loadScanJob, saveScanJob, clearScanJob } =
+          await import("../core/scan-job");
+        const userId = getMyUserId();
+        const onProgress = (progress: ScanProgress) => {
+          sendMessage({ type: "SCAN_PROGRESS", data: progress });
+        };
+        const onBatch = async (batch: UserProfile[]) => {
+          // Send batch to background for DB storage (extension-origin IndexedDB)
+          await chrome.runtime.sendMessage({
+            type: "STORE_USERS_BATCH",
+            userId,
+            users: batch,
+          });
+        };
+
+        const result = message.incremental
+          ? await incrementalScan(
+              async (followingIds, followerIds) => {
+                // Stored users live in the background's IndexedDB
+                const resp = await chrome.runtime.sendMessage({
+                  type: "PLAN_INCREMENTAL_SCAN",
+                  userId,
+                  followingIds,
+                  followerIds,
+                });
+                if (!resp?.success) {
+                  throw new Error(resp?.error || "Incremental planning failed");
+                }
+                return resp.plan;
+              },
+              onProgress,
+              onBatch,
+            )
+          : await fullScan(onProgress, onBatch, {
+              resumeJob: message.resume ? await loadScanJob(userId) : null,
+              onCheckpoint: saveScanJob,
             });
-          },
-        );
+
+        if (result.aborted) {
+          sendMessage({ type: "SCAN_PAUSED" });
+          sendResponse({ success: true, paused: true });
+          break;
+        }
 
         // Send final data to background for relationship update + storage
-        await chrome.runtime.sendMessage({
+        const finalized = await chrome.runtime.sendMessage({
           type: "FINALIZE_SCAN",
-          userId: getMyUserId(),
+          userId,
           followerIds: result.followerIds,
           followingIds: result.followingIds,
         });
+        // An incremental scan leaves a paused full scan's checkpoint alone
+        if (!message.incremental) await clearScanJob();
 
         sendMessage({
           type: "SCAN_COMPLETE",
-          data: { totalUsers: result.users.length },
+          data: {
+            totalUsers: result.users.length,
+            recategorized: finalized?.recategorized,
+          },
         });
         sendResponse({ success: true });
       } catch (e) {
+        // STOP_SCAN during a fetch rejects with AbortError; the job is kept
+        if (e instanceof Error && e.name === "AbortError") {
+          sendMessage({ type: "SCAN_PAUSED" });
+          sendResponse({ success: true, paused: true });
+          break;
+        }
         const error = e instanceof Error ? e.message : "Unknown error";
         sendMessage({ type: "SCAN_ERROR", error });
         sendResponse({ success: false, error });
@@ -110,6 +166,20 @@ async function handleMessage(
               data: { done, total, current },
             });
           },
+          message.queued
+            ? async ({ userId, success }) => {
+                // Persisted before the next unfollow, so a run cut short
+                // never repeats what it already did
+                await chrome.runtime
+                  .sendMessage({
+                    type: "UNFOLLOW_QUEUE_RESULT",
+                    result: { userId, success },
+                  })
+                  .catch(() => {
+                    // Background worker unavailable
+                  });
+              }
+            : undefined,
         );
 
         const successCount = results.filter((r) => r.success).length;
@@ -117,7 +187,7 @@ async function handleMessage(
           type: "UNFOLLOW_COMPLETE",
           data: { count: successCount },
         });
-        sendResponse({ success: true, count: successCount });
+        sendResponse({ success: true, count: successCount, results });
       } catch (e) {
         const error = e instanceof Error ? e.message : "Unknown error";
         sendResponse({ success: false, error });
@@ -135,8 +205,8 @@ async function handleMessage(
     case "FETCH_X_LISTS": {
       try {
         await extractBearerToken();
-        const { fetchMyLists } = await import("../core/lists-api");
-        const lists = await fetchMyLists();
+        const { fetchLists } = await import("../core/lists-api");
+        const lists = await fetchLists();
         sendResponse({ success: true, lists });
       } catch (e) {
         const error = e instanceof Error ? e.message : "Unknown error";
@@ -145,6 +215,19 @@ async function handleMessage(
       break;
     }
 
+    case "FETCH_X_LIST": {
+      try {
+        await extractBearerToken();
+        const { fetchListById } = await import("../core/lists-api");
+        const list = await fetchListById(message.listId);
+        sendResponse({ success: true, list });
+      } catch (e) {
+        const error = e instanceof Error ? e.message : "Unknown error";
+        sendResponse({ success: false, error });
+      }
+      break;
+    }
+
     case "FETCH_X_LIST_MEMBERS": {
       try {
         await extractBearerToken();
@@ -158,6 +241,38 @@ async function handleMessage(
       break;
     }
 
+    case "IMPORT_X_LIST_MEMBERS": {
+      let stored = 0;
+      try {
+        await extractBearerToken();
+        const { streamListMembers } = await import("../core/lists-api");
+        const { smartListId } = message;
+        await streamListMembers(
+          message.listId,
+          async (page, fetched) => {
+            // Store each page in the background's IndexedDB as it arrives
+            const resp = await chrome.runtime.sendMessage({
+              type: "STORE_LIST_MEMBERS_BATCH",
+              smartListId,
+              members: page.members,
+              nextCursor: page.nextCursor,
+            });
+            if (!resp?.success) {
+              throw new Error(resp?.error || "Failed to store members");
+            }
+            stored = fetched;
+            sendMessage({ type: "LIST_IMPORT_PROGRESS", smartListId, fetched });
+          },
+          message.cursor,
+        );
+        sendResponse({ success: true, fetched: stored });
+      } catch (e) {
+        const error = e instanceof Error ? e.message : "Unknown error";
+        sendResponse({ success: false, error, fetched: stored });
+      }
+      break;
+    }
+
     case "CREATE_X_LIST": {
       try {
         await extractBearerToken();
@@ -188,6 +303,35 @@ async function handleMessage(
       break;
     }
 
+    case "REMOVE_X_LIST_MEMBER": {
+      try {
+        await extractBearerToken();
+        const { removeListMember } = await import("../core/lists-api");
+        await removeListMember(message.listId, message.userId);
+        sendResponse({ success: true });
+      } catch (e) {
+        const error = e instanceof Error ? e.message : "Unknown error";
+        sendResponse({ success: false, error });
+      }
+      break;
+    }
+
+    case "BLOCK_USER":
+    case "REMOVE_FOLLOWER": {
+      try {
+        await extractBearerToken();
+        const { blockUser, removeFollower } =
+          await import("../core/moderation");
+        if (message.type === "BLOCK_USER") await blockUser(message.userId);
+        else await removeFollower(message.userId);
+        sendResponse({ success: true });
+      } catch (e) {
+        const error = e instanceof Error ? e.message : "Unknown error";
+        sendResponse({ success: false, error });
+      }
+      break;
+    }
+
     case "FOLLOW_USER": {
       try {
         await extractBearerToken();
@@ -195,7 +339,7 @@ async function handleMessage(
           ...getHeaders(),
           "content-type": "application/x-www-form-urlencoded",
         };
-        const resp = await fetch(
+        const resp = await scheduledFetch(
           "https://x.com/i/api/1.1/friendships/create.json",
           {
             method: "POST",
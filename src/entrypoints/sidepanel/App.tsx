@@ -11,6 +11,9 @@ import Lists from "./pages/Lists";
 import Review from "./pages/Review";
 import Unfollow from "./pages/Unfollow";
 import Settings from "./pages/Settings";
+import Changes from "./pages/Changes";
+import { formatCountdown } from "../../utils/format";
+import type { RateLimitWait } from "../../utils/request-scheduler";
 
 class ErrorBoundary extends Component<
   { children: ReactNode },
@@ -55,7 +58,8 @@ type Page =
   | "lists"
   | "review"
   | "unfollow"
-  | "settings";
+  | "settings"
+  | "changes";
 
 export interface NavigationParams {
   auditFilter?: string;
@@ -97,6 +101,8 @@ export default function App() {
   const [toast, setToast] = useState<ToastState | null>(null);
   const [unfollowProgress, setUnfollowProgress] =
     useState<UnfollowProgress | null>(null);
+  const [rateLimitWaits, setRateLimitWaits] = useState<RateLimitWait[]>([]);
+  const [now, setNow] = useState(Date.now());
 
   const navigateTo: NavigateFn = useCallback((target, params) => {
     setNavParams(params || {});
@@ -148,6 +154,29 @@ export default function App() {
     return () => chrome.runtime.onMessage.removeListener(listener);
   }, [showToast]);
 
+  // Global rate-limit listener — the content script reports scheduler waits
+  useEffect(() => {
+    const listener = (message: {
+      type: string;
+      data?: { waiting: RateLimitWait[] };
+    }) => {
+      if (message.type === "RATE_LIMIT_STATE" && message.data) {
+        setRateLimitWaits(message.data.waiting);
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
+
+  // Tick the countdown while a wait is active
+  useEffect(() => {
+    if (rateLimitWaits.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [rateLimitWaits]);
+
+  const activeWait = rateLimitWaits.find((w) => w.resumeAt > now);
+
   return (
     <ErrorBoundary>
       <div className="flex flex-col h-screen bg-x-bg text-x-text">
@@ -194,6 +223,18 @@ export default function App() {
           </div>
         )}
 
+        {/* Rate Limit Banner — shown while the scheduler waits for a reset */}
+        {activeWait && (
+          <div className="px-4 py-2 bg-x-card border-b border-x-border text-xs">
+            <span className="font-medium">Rate limited</span>
+            <span className="text-x-text-secondary">
+              {" "}
+              on {activeWait.endpoint} — resuming in{" "}
+              {formatCountdown(activeWait.resumeAt - now)}
+            </span>
+          </div>
+        )}
+
         {/* Content */}
         <main className="flex-1 overflow-y-auto">
           {page === "dashboard" && (
@@ -218,6 +259,7 @@ export default function App() {
             <Unfollow navigateTo={navigateTo} showToast={showToast} />
           )}
           {page === "settings" && <Settings />}
+          {page === "changes" && <Changes navigateTo={navigateTo} />}
         </main>
 
         {/* Toast */}
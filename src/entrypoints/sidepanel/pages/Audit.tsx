@@ -1,11 +1,32 @@
 import { useEffect, useState, useRef } from "react";
 import {
-  getAllUsers,
+  getScannedUsers,
   deleteUser,
   logUnfollow,
   upsertUsers,
 } from "../../../storage/db";
 import { formatTimeAgo } from "../../../utils/format";
+import {
+  DEFAULT_PROTECTIONS,
+  isProtected,
+  matchesRules,
+  rulesFromAdvancedFilters,
+  type AdvancedFilters,
+} from "../../../core/policies";
+import {
+  LIKELY_BOT_THRESHOLD,
+  scoreBotLikelihood,
+} from "../../../core/bot-score";
+import {
+  bulkModerate,
+  REMOVE_FOLLOWER_UNAVAILABLE,
+  stopModeration,
+  type ModerationAction,
+} from "../../../core/moderation";
+import {
+  findSimilarAccounts,
+  type SimilarAccount,
+} from "../../../core/similarity";
 import type { UserProfile, ScanProgress } from "../../../core/types";
 import type { NavigateFn, ShowToastFn } from "../App";
 
@@ -13,16 +34,6 @@ type SortKey = "username" | "followerCount" | "daysSinceLastTweet" | "status";
 type StatusFilter = "all" | "active" | "inactive" | "suspended" | "no_tweets";
 type RelationshipFilter = "all" | "mutual" | "non_mutual" | "followers_only";
 
-interface AdvancedFilters {
-  followerMin: number | null;
-  followerMax: number | null;
-  followingMin: number | null;
-  followingMax: number | null;
-  followRatioMin: number | null;
-  verifiedOnly: boolean;
-  lowEngagement: boolean;
-}
-
 interface Props {
   initialFilter?: string;
   initialFollowerMin?: number;
@@ -73,6 +84,10 @@ export default function Audit({
   const [page, setPage] = useState(0);
   const [whitelist, setWhitelist] = useState<Set<string>>(new Set());
   const [removedUsers, setRemovedUsers] = useState<Set<string>>(new Set());
+  const [similar, setSimilar] = useState<{
+    userId: string;
+    accounts: SimilarAccount[];
+  } | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [advanced, setAdvanced] = useState<AdvancedFilters>({
     followerMin: null,
@@ -82,7 +97,14 @@ export default function Audit({
     followRatioMin: null,
     verifiedOnly: false,
     lowEngagement: false,
+    likelyBots: false,
   });
+  const [confirmBulk, setConfirmBulk] = useState<ModerationAction | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<{
+    action: ModerationAction;
+    done: number;
+    total: number;
+  } | null>(null);
   const pendingUnfollows = useRef<
     Map<string, { timer: ReturnType<typeof setTimeout>; user: UserProfile }>
   >(new Map());
@@ -142,7 +164,7 @@ export default function Audit({
   }, [initialFollowerMin, initialFollowerMax, initialSort, initialSortDesc]);
 
   async function loadUsers() {
-    const all = await getAllUsers();
+    const all = await getScannedUsers();
     setUsers(all);
   }
 
@@ -249,6 +271,107 @@ export default function Audit({
     );
   }
 
+  function handleShowSimilar(user: UserProfile) {
+    if (similar?.userId === user.userId) {
+      setSimilar(null);
+      return;
+    }
+    const following = users.filter(
+      (u) => u.isFollowing && !removedUsers.has(u.userId),
+    );
+    setSimilar({
+      userId: user.userId,
+      accounts: findSimilarAccounts(user, following),
+    });
+  }
+
+  /**
+   * Accounts the current filters show that an action applies to, minus
+   * whitelisted accounts and mutuals, as cleanup policies protect them.
+   */
+  function moderationTargets(action: ModerationAction): UserProfile[] {
+    return filtered.filter(
+      (u) =>
+        (action === "block" || u.isFollower) &&
+        !isProtected(u, DEFAULT_PROTECTIONS, whitelist),
+    );
+  }
+
+  function moderationCounts(): Record<
+    ModerationAction,
+    { targets: number; skipped: number }
+  > {
+    const followers = filtered.filter((u) => u.isFollower).length;
+    const removable = moderationTargets("remove-follower").length;
+    const blockable = moderationTargets("block").length;
+    return {
+      "remove-follower": { targets: removable, skipped: followers - removable },
+      block: { targets: blockable, skipped: filtered.length - blockable },
+    };
+  }
+
+  /**
+   * Block, or remove as followers, every unprotected account the current
+   * filters show. Paced like unfollows; each success drops the account from
+   * the view.
+   */
+  async function handleBulkModerate(action: ModerationAction) {
+    setConfirmBulk(null);
+    const targets = moderationTargets(action);
+
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    if (!tab?.url?.includes("x.com") || !tab?.id) {
+      showToast("Navigate to x.com first");
+      return;
+    }
+    const tabId = tab.id;
+
+    setBulkProgress({ action, done: 0, total: targets.length });
+    const results = await bulkModerate(
+      targets,
+      async (userId) => {
+        const response = await chrome.tabs
+          .sendMessage(tabId, {
+            type: action === "block" ? "BLOCK_USER" : "REMOVE_FOLLOWER",
+            userId,
+          })
+          .catch(() => null);
+        if (!response?.success) {
+          // Every other account would fail the same way
+          if (response?.error === REMOVE_FOLLOWER_UNAVAILABLE) stopModeration();
+          return {
+            success: false,
+            error: response?.error || "No response from x.com",
+          };
+        }
+        const user = targets.find((u) => u.userId === userId)!;
+        // Blocking also ends our follow of them
+        if (action === "block" || !user.isFollowing) {
+          await deleteUser(userId);
+        } else {
+          await upsertUsers([{ ...user, isFollower: false, isMutual: false }]);
+        }
+        setRemovedUsers((prev) => new Set([...prev, userId]));
+        return { success: true };
+      },
+      {},
+      (done, total) => setBulkProgress({ action, done, total }),
+    );
+    setBulkProgress(null);
+
+    const ok = results.filter((r) => r.success).length;
+    const failed = results.find((r) => !r.success);
+    const verb = action === "block" ? "Blocked" : "Removed";
+    showToast(
+      failed
+        ? `${verb} ${ok}/${results.length}. Failed: ${failed.error}`
+        : `${verb} ${ok} accounts`,
+    );
+  }
+
   async function handleProtect(user: UserProfile) {
     const next = new Set([...whitelist, user.username.toLowerCase()]);
     setWhitelist(next);
@@ -256,6 +379,7 @@ export default function Audit({
     showToast(`Protected @${user.username}`);
   }
 
+  const advancedRules = rulesFromAdvancedFilters(advanced);
   const filtered = users
     .filter((u) => !removedUsers.has(u.userId))
     .filter(
@@ -284,41 +408,7 @@ export default function Audit({
         u.location.toLowerCase().includes(q)
       );
     })
-    .filter((u) => {
-      if (
-        advanced.followerMin !== null &&
-        u.followerCount < advanced.followerMin
-      )
-        return false;
-      if (
-        advanced.followerMax !== null &&
-        u.followerCount > advanced.followerMax
-      )
-        return false;
-      if (
-        advanced.followingMin !== null &&
-        u.followingCount < advanced.followingMin
-      )
-        return false;
-      if (
-        advanced.followingMax !== null &&
-        u.followingCount > advanced.followingMax
-      )
-        return false;
-      if (advanced.followRatioMin !== null) {
-        const ratio =
-          u.followerCount > 0 ? u.followingCount / u.followerCount : Infinity;
-        if (ratio < advanced.followRatioMin) return false;
-      }
-      if (advanced.verifiedOnly && !u.isVerified) return false;
-      if (advanced.lowEngagement) {
-        const isLow =
-          u.followerCount < 50 &&
-          (u.daysSinceLastTweet === null || u.daysSinceLastTweet > 90);
-        if (!isLow) return false;
-      }
-      return true;
-    })
+    .filter((u) => matchesRules(u, advancedRules))
     .sort((a, b) => {
       let cmp = 0;
       switch (sort) {
@@ -453,7 +543,8 @@ export default function Audit({
           advanced.followingMax !== null ||
           advanced.followRatioMin !== null ||
           advanced.verifiedOnly ||
-          advanced.lowEngagement) && (
+          advanced.lowEngagement ||
+          advanced.likelyBots) && (
           <span className="w-1.5 h-1.5 rounded-full bg-x-accent" />
         )}
       </button>
@@ -575,6 +666,21 @@ export default function Audit({
               >
                 Low engagement
               </button>
+              <button
+                onClick={() =>
+                  setAdvanced((prev) => ({
+                    ...prev,
+                    likelyBots: !prev.likelyBots,
+                  }))
+                }
+                className={`px-2 py-0.5 rounded-full text-[10px] ${
+                  advanced.likelyBots
+                    ? "bg-x-accent text-white"
+                    : "bg-x-border text-x-text-secondary hover:text-x-text"
+                }`}
+              >
+                Likely bots
+              </button>
               <button
                 onClick={() =>
                   setAdvanced((prev) => ({
@@ -604,6 +710,7 @@ export default function Audit({
                 followRatioMin: null,
                 verifiedOnly: false,
                 lowEngagement: false,
+                likelyBots: false,
               })
             }
             className="text-[10px] text-x-text-secondary hover:text-x-text"
@@ -644,17 +751,67 @@ export default function Audit({
         {filtered.length.toLocaleString()} users
       </div>
 
+      {/* Bulk actions for likely bots */}
+      {advanced.likelyBots && filtered.length > 0 && (
+        <BulkModeration
+          counts={moderationCounts()}
+          confirming={confirmBulk}
+          progress={bulkProgress}
+          onConfirm={setConfirmBulk}
+          onRun={handleBulkModerate}
+          onStop={stopModeration}
+        />
+      )}
+
       {/* User List */}
       <div className="space-y-1">
         {paginated.map((user) => (
-          <UserRow
-            key={user.userId}
-            user={user}
-            isProtected={whitelist.has(user.username.toLowerCase())}
-            onUnfollow={() => handleInlineUnfollow(user)}
-            onProtect={() => handleProtect(user)}
-            onFollowBack={() => handleFollowBack(user)}
-          />
+          <div key={user.userId}>
+            <UserRow
+              user={user}
+              isProtected={whitelist.has(user.username.toLowerCase())}
+              onUnfollow={() => handleInlineUnfollow(user)}
+              onProtect={() => handleProtect(user)}
+              onFollowBack={() => handleFollowBack(user)}
+              onShowSimilar={() => handleShowSimilar(user)}
+            />
+            {similar?.userId === user.userId && (
+              <div className="ml-6 mb-2 border-l-2 border-x-accent/40 pl-2 space-y-1">
+                <div className="flex items-center justify-between text-[10px] text-x-text-secondary">
+                  <span>Similar accounts you follow</span>
+                  <button
+                    onClick={() => setSimilar(null)}
+                    className="hover:text-x-text"
+                  >
+                    Close
+                  </button>
+                </div>
+                {similar.accounts.length === 0 && (
+                  <div className="text-xs text-x-text-secondary py-1">
+                    No similar accounts found.
+                  </div>
+                )}
+                {similar.accounts
+                  .filter((s) => !removedUsers.has(s.user.userId))
+                  .map((s) => (
+                    <div key={s.user.userId}>
+                      <div className="text-[10px] text-x-accent px-2">
+                        {similarityReasons(s)}
+                      </div>
+                      <UserRow
+                        user={s.user}
+                        isProtected={whitelist.has(
+                          s.user.username.toLowerCase(),
+                        )}
+                        onUnfollow={() => handleInlineUnfollow(s.user)}
+                        onProtect={() => handleProtect(s.user)}
+                        onFollowBack={() => handleFollowBack(s.user)}
+                      />
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
         ))}
       </div>
 
@@ -690,14 +847,17 @@ function UserRow({
   onUnfollow,
   onProtect,
   onFollowBack,
+  onShowSimilar,
 }: {
   user: UserProfile;
   isProtected: boolean;
   onUnfollow: () => void;
   onProtect: () => void;
   onFollowBack: () => void;
+  onShowSimilar?: () => void;
 }) {
   const isFollowerOnly = user.isFollowing === false;
+  const bot = scoreBotLikelihood(user);
   const statusColors: Record<string, string> = {
     active: "text-x-green",
     inactive: "text-x-yellow",
@@ -744,6 +904,14 @@ function UserRow({
               protected
             </span>
           )}
+          {bot.score >= LIKELY_BOT_THRESHOLD && (
+            <span
+              className="text-[10px] bg-x-orange/20 text-x-orange px-1 rounded"
+              title={bot.signals.join(", ")}
+            >
+              bot {bot.score}
+            </span>
+          )}
         </div>
         <div className="text-xs text-x-text-secondary">
           <a
@@ -800,6 +968,27 @@ function UserRow({
             {formatTimeAgo(user.daysSinceLastTweet)}
           </span>
         </div>
+        {onShowSimilar && (
+          <button
+            onClick={onShowSimilar}
+            className="p-1 text-x-text-secondary hover:text-x-accent transition-colors"
+            title="Show similar accounts"
+          >
+            <svg
+              className="w-3.5 h-3.5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={2}
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+              />
+            </svg>
+          </button>
+        )}
         {/* Protect button */}
         {!isProtected && (
           <button
@@ -857,3 +1046,97 @@ function UserRow({
     </div>
   );
 }
+
+/** "72% similar · bio: news, breaking · name: bbc · 1 shared list" */
+function similarityReasons(s: SimilarAccount): string {
+  const parts = [`${Math.round(s.score * 100)}% similar`];
+  if (s.sharedTerms.length > 0) {
+    parts.push(`bio: ${s.sharedTerms.slice(0, 3).join(", ")}`);
+  }
+  if (s.sharedNameWords.length > 0) {
+    parts.push(`name: ${s.sharedNameWords.join(", ")}`);
+  }
+  if (s.sharedLists > 0) {
+    parts.push(`${s.sharedLists} shared list${s.sharedLists !== 1 ? "s" : ""}`);
+  }
+  if (s.sameTier) parts.push("same follower tier");
+  return parts.join(" · ");
+}
+
+function BulkModeration({
+  counts,
+  confirming,
+  progress,
+  onConfirm,
+  onRun,
+  onStop,
+}: {
+  counts: Record<ModerationAction, { targets: number; skipped: number }>;
+  confirming: ModerationAction | null;
+  progress: { action: ModerationAction; done: number; total: number } | null;
+  onConfirm: (action: ModerationAction | null) => void;
+  onRun: (action: ModerationAction) => void;
+  onStop: () => void;
+}) {
+  if (progress) {
+    return (
+      <div className="bg-x-card rounded-xl p-3 flex items-center justify-between gap-2 text-xs">
+        <span className="text-x-text-secondary">
+          {progress.action === "block" ? "Blocking" : "Removing followers"}{" "}
+          {progress.done}/{progress.total}. Keep this panel open.
+        </span>
+        <button onClick={onStop} className="text-x-red hover:underline">
+          Stop
+        </button>
+      </div>
+    );
+  }
+
+  const actions: Array<[ModerationAction, string]> = [
+    [
+      "remove-follower",
+      `Remove ${counts["remove-follower"].targets} followers`,
+    ],
+    ["block", `Block ${counts.block.targets}`],
+  ];
+  const skipped = confirming ? counts[confirming].skipped : 0;
+  return (
+    <div className="bg-x-card rounded-xl p-3 space-y-2">
+      <div className="text-[10px] text-x-text-secondary">
+        Scored from profile data only; check the list before acting. Removing a
+        follower doesn't notify them; blocking also unfollows them.
+      </div>
+      <div className="flex gap-2">
+        {actions
+          .filter(([action]) => counts[action].targets > 0)
+          .map(([action, label]) => (
+            <button
+              key={action}
+              onClick={() =>
+                confirming === action ? onRun(action) : onConfirm(action)
+              }
+              className="flex-1 px-3 py-1.5 rounded-full text-xs font-medium bg-x-red/10 text-x-red hover:bg-x-red/20 transition-colors"
+            >
+              {confirming === action
+                ? `Confirm: ${label.toLowerCase()}?`
+                : label}
+            </button>
+          ))}
+        {confirming && (
+          <button
+            onClick={() => onConfirm(null)}
+            className="text-xs text-x-text-secondary hover:text-x-text"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      {skipped > 0 && (
+        <div className="text-[10px] text-x-text-secondary">
+          Skipping {skipped} protected or mutual{" "}
+          {skipped === 1 ? "account" : "accounts"}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { getAllSnapshots, getAllUsers } from "../../../storage/db";
+import { diffSnapshots, type SnapshotDiff } from "../../../core/snapshots";
+import { exportFollowChangesCSV } from "../../../utils/export";
+import { formatCount } from "../../../utils/format";
+import type { Snapshot, UserProfile } from "../../../core/types";
+import type { NavigateFn } from "../App";
+
+type ChangeTab = "lost" | "new_followers" | "new_following";
+
+interface Props {
+  navigateTo: NavigateFn;
+}
+
+export default function Changes({ navigateTo }: Props) {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [users, setUsers] = useState<Map<string, UserProfile>>(new Map());
+  const [baseIndex, setBaseIndex] = useState(0);
+  const [tab, setTab] = useState<ChangeTab>("lost");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  async function loadData() {
+    const all = await getAllSnapshots();
+    setSnapshots(all);
+    // Default: compare the latest scan with the one before it
+    setBaseIndex(Math.max(0, all.length - 2));
+    const allUsers = await getAllUsers();
+    setUsers(new Map(allUsers.map((u) => [u.userId, u])));
+    setLoading(false);
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-sm text-x-text-secondary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (snapshots.length < 2) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-4 p-6">
+        <div className="text-4xl">🔁</div>
+        <div className="text-center space-y-1">
+          <div className="text-sm font-medium">Not enough scans yet</div>
+          <div className="text-xs text-x-text-secondary">
+            Follower changes are computed between two scans. Re-scan from the
+            Dashboard later to see who unfollowed you.
+          </div>
+        </div>
+        <button
+          onClick={() => navigateTo("dashboard")}
+          className="px-4 py-2 bg-x-accent text-white rounded-full text-sm font-medium hover:bg-x-accent-hover transition-colors"
+        >
+          Go to Dashboard
+        </button>
+      </div>
+    );
+  }
+
+  const latest = snapshots[snapshots.length - 1];
+  const diff: SnapshotDiff = diffSnapshots(snapshots[baseIndex], latest);
+
+  const tabs: Array<[ChangeTab, string, string[], string]> = [
+    ["lost", "Unfollowed you", diff.lostFollowers, "text-x-red"],
+    ["new_followers", "New followers", diff.newFollowers, "text-x-green"],
+    ["new_following", "You followed", diff.newFollowing, "text-x-accent"],
+  ];
+  const activeIds = tabs.find(([id]) => id === tab)![2];
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">Follower Changes</h2>
+        <button
+          onClick={() => exportFollowChangesCSV(diff, [...users.values()])}
+          className="text-xs text-x-accent hover:text-x-accent-hover"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      {/* Comparison range */}
+      <div className="bg-x-card rounded-xl p-3 space-y-1">
+        <label className="text-[10px] text-x-text-secondary block">
+          Compare latest scan ({new Date(latest.date).toLocaleDateString()})
+          with
+        </label>
+        <select
+          value={baseIndex}
+          onChange={(e) => setBaseIndex(parseInt(e.target.value, 10))}
+          className="w-full bg-x-bg border border-x-border rounded px-2 py-1 text-xs text-x-text"
+        >
+          {snapshots.slice(0, -1).map((s, i) => (
+            <option key={s.id ?? i} value={i}>
+              {new Date(s.date).toLocaleString()}
+              {i === snapshots.length - 2 ? " (previous scan)" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Summary tabs */}
+      <div className="grid grid-cols-3 gap-2">
+        {tabs.map(([id, label, ids, color]) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`rounded-xl p-3 text-left transition-colors ${
+              tab === id ? "bg-x-border" : "bg-x-card hover:bg-x-border/50"
+            }`}
+          >
+            <div className={`text-xl font-bold ${color}`}>
+              {ids.length.toLocaleString()}
+            </div>
+            <div className="text-[10px] text-x-text-secondary">{label}</div>
+          </button>
+        ))}
+      </div>
+
+      {/* User list */}
+      <div className="space-y-1">
+        {activeIds.length === 0 && (
+          <div className="text-xs text-x-text-secondary text-center py-6">
+            No changes in this period.
+          </div>
+        )}
+        {activeIds.slice(0, 200).map((id) => {
+          const user = users.get(id);
+          return (
+            <div
+              key={id}
+              className="flex items-center gap-2 p-2 rounded-lg hover:bg-x-card transition-colors"
+            >
+              {user?.profileImageUrl ? (
+                <img
+                  src={user.profileImageUrl}
+                  alt=""
+                  className="w-7 h-7 rounded-full flex-shrink-0"
+                />
+              ) : (
+                <div className="w-7 h-7 rounded-full bg-x-border flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                {user ? (
+                  <>
+                    <div className="text-sm truncate">{user.displayName}</div>
+                    <a
+                      href={`https://x.com/${user.username}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-x-accent hover:underline"
+                    >
+                      @{user.username}
+                    </a>
+                    <span className="text-[10px] text-x-text-secondary">
+                      {" "}
+                      · {formatCount(user.followerCount)} followers
+                    </span>
+                  </>
+                ) : (
+                  <a
+                    href={`https://x.com/i/user/${id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-x-accent hover:underline"
+                  >
+                    User {id}
+                  </a>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {activeIds.length > 200 && (
+          <div className="text-xs text-x-text-secondary text-center py-2">
+            Showing first 200 of {activeIds.length} — export CSV for the full
+            list
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useEffect, useState } from "react";
 import {
-  getAllUsers,
+  getScannedUsers,
   getAllLists,
   getUsersByListId,
+  getAllSnapshots,
 } from "../../../storage/db";
 import {
   computeAuditCounts,
@@ -22,6 +23,23 @@ import {
 import type { MonetizationData } from "../../../core/monetization";
 import { formatCount } from "../../../utils/format";
 import { computeQuickStats, type QuickStats } from "../../../core/reviewer";
+import {
+  formatRecategorizeSummary,
+  type RecategorizeSummary,
+} from "../../../core/recategorize";
+import {
+  getTimeline,
+  getTimelineDelta,
+  diffSnapshots,
+  type TimelinePoint,
+  type TimelineMetric,
+  type SnapshotDiff,
+} from "../../../core/snapshots";
+import {
+  loadScanJob,
+  clearScanJob,
+  type ScanJob,
+} from "../../../core/scan-job";
 import type {
   AuditCounts,
   AccountHealth,
@@ -50,6 +68,7 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
   const [scanning, setScanning] = useState(false);
   const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
   const [scanError, setScanError] = useState<string | null>(null);
+  const [pausedJob, setPausedJob] = useState<ScanJob | null>(null);
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [monetization, setMonetization] = useState<MonetizationData | null>(
     null,
@@ -64,9 +83,12 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
     null,
   );
   const [quickStats, setQuickStats] = useState<QuickStats | null>(null);
+  const [timeline, setTimeline] = useState<TimelinePoint[]>([]);
+  const [lastDiff, setLastDiff] = useState<SnapshotDiff | null>(null);
 
   useEffect(() => {
     loadData();
+    loadScanJob().then(setPausedJob);
     loadMonetizationData().then(setMonetization);
     const listener = (message: {
       type: string;
@@ -76,7 +98,14 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
       if (message.type === "SCAN_COMPLETE") {
         setScanning(false);
         setScanProgress(null);
+        // Still there if this was an incremental scan
+        loadScanJob().then(setPausedJob);
         loadData();
+        const recategorized = message.data?.recategorized as
+          RecategorizeSummary | undefined;
+        if (recategorized && recategorized.members > 0) {
+          showToast(formatRecategorizeSummary(recategorized));
+        }
       }
       if (message.type === "SCAN_PROGRESS" && message.data) {
         setScanning(true);
@@ -87,6 +116,12 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
         setScanning(false);
         setScanProgress(null);
         setScanError(message.error || "Scan failed");
+        loadScanJob().then(setPausedJob);
+      }
+      if (message.type === "SCAN_PAUSED") {
+        setScanning(false);
+        setScanProgress(null);
+        loadScanJob().then(setPausedJob);
       }
       if (message.type === "MONETIZATION_PROGRESS" && message.data) {
         setMonetizationProgress(
@@ -220,7 +255,7 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
   }, []);
 
   async function loadData() {
-    const users = await getAllUsers();
+    const users = await getScannedUsers();
     if (users.length === 0) return;
 
     const stored = await chrome.storage.local.get([
@@ -248,6 +283,17 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
     const recs = getRecommendations(accountHealth, auditCounts);
     setRecommendations(recs);
 
+    const snapshots = await getAllSnapshots();
+    setTimeline(getTimeline(snapshots));
+    setLastDiff(
+      snapshots.length >= 2
+        ? diffSnapshots(
+            snapshots[snapshots.length - 2],
+            snapshots[snapshots.length - 1],
+          )
+        : null,
+    );
+
     const allLists = await getAllLists();
     const listsWithCounts: ListWithCount[] = [];
     for (const list of allLists) {
@@ -259,7 +305,10 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
     setLists(listsWithCounts);
   }
 
-  async function startScan() {
+  async function startScan({
+    resume = false,
+    incremental = false,
+  }: { resume?: boolean; incremental?: boolean } = {}) {
     const [tab] = await chrome.tabs.query({
       active: true,
       currentWindow: true,
@@ -268,10 +317,28 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
       setScanError("Navigate to x.com first, then start the scan.");
       return;
     }
+    if (!resume && !incremental) {
+      await clearScanJob();
+      setPausedJob(null);
+    }
     setScanError(null);
     setScanning(true);
     if (tab?.id) {
-      chrome.tabs.sendMessage(tab.id, { type: "START_SCAN" });
+      chrome.tabs.sendMessage(tab.id, {
+        type: "START_SCAN",
+        resume,
+        incremental,
+      });
+    }
+  }
+
+  async function pauseScan() {
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    if (tab?.id) {
+      chrome.tabs.sendMessage(tab.id, { type: "STOP_SCAN" });
     }
   }
 
@@ -334,10 +401,16 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
         </p>
 
         {scanning && scanProgress ? (
-          <ScanProgressBar progress={scanProgress} />
+          <ScanProgressBar progress={scanProgress} onPause={pauseScan} />
+        ) : pausedJob ? (
+          <ResumeScanCard
+            job={pausedJob}
+            onResume={() => startScan({ resume: true })}
+            onRestart={() => startScan()}
+          />
         ) : (
           <button
-            onClick={startScan}
+            onClick={() => startScan()}
             disabled={scanning}
             className="px-6 py-2.5 bg-x-accent text-white rounded-full font-semibold hover:bg-x-accent-hover disabled:opacity-50 transition-colors"
           >
@@ -500,6 +573,42 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
         />
       )}
 
+      {/* Growth Timeline */}
+      {timeline.length > 0 && <GrowthTimeline timeline={timeline} />}
+
+      {/* Follower Changes since previous scan */}
+      {lastDiff && (
+        <button
+          onClick={() => navigateTo("changes")}
+          className="w-full bg-x-card rounded-xl p-4 text-left hover:bg-x-border transition-colors"
+        >
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold">Since Last Scan</h3>
+            <span className="text-xs text-x-text-secondary">Details →</span>
+          </div>
+          <div className="flex gap-4 text-xs">
+            <span>
+              <span className="font-bold text-x-red">
+                {lastDiff.lostFollowers.length}
+              </span>{" "}
+              <span className="text-x-text-secondary">unfollowed you</span>
+            </span>
+            <span>
+              <span className="font-bold text-x-green">
+                {lastDiff.newFollowers.length}
+              </span>{" "}
+              <span className="text-x-text-secondary">new followers</span>
+            </span>
+            <span>
+              <span className="font-bold text-x-accent">
+                {lastDiff.newFollowing.length}
+              </span>{" "}
+              <span className="text-x-text-secondary">you followed</span>
+            </span>
+          </div>
+        </button>
+      )}
+
       {/* Follow-Back Opportunities */}
       {counts.followersOnly > 0 && (
         <FollowBackOpportunities navigateTo={navigateTo} />
@@ -677,15 +786,29 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
 
       {/* Scan Progress or Actions */}
       {scanning && scanProgress ? (
-        <ScanProgressBar progress={scanProgress} />
+        <ScanProgressBar progress={scanProgress} onPause={pauseScan} />
+      ) : pausedJob ? (
+        <ResumeScanCard
+          job={pausedJob}
+          onResume={() => startScan({ resume: true })}
+          onRestart={() => startScan()}
+        />
       ) : (
         <div className="flex gap-3">
           <button
-            onClick={startScan}
+            onClick={() => startScan({ incremental: true })}
+            disabled={scanning}
+            title="Only fetch new accounts and profiles not refreshed recently"
+            className="flex-1 px-4 py-2 bg-x-card text-x-text rounded-full text-sm font-medium hover:bg-x-border disabled:opacity-50 transition-colors"
+          >
+            Quick re-scan
+          </button>
+          <button
+            onClick={() => startScan()}
             disabled={scanning}
             className="flex-1 px-4 py-2 bg-x-card text-x-text rounded-full text-sm font-medium hover:bg-x-border disabled:opacity-50 transition-colors"
           >
-            Re-scan
+            Full re-scan
           </button>
         </div>
       )}
@@ -703,7 +826,13 @@ export default function Dashboard({ navigateTo, showToast }: Props) {
   );
 }
 
-function ScanProgressBar({ progress }: { progress: ScanProgress }) {
+function ScanProgressBar({
+  progress,
+  onPause,
+}: {
+  progress: ScanProgress;
+  onPause?: () => void;
+}) {
   const phaseLabels: Record<string, string> = {
     "collecting-ids": "Collecting account IDs",
     "scanning-users": "Scanning user profiles",
@@ -754,6 +883,64 @@ function ScanProgressBar({ progress }: { progress: ScanProgress }) {
           {progress.totalIds.toLocaleString()} IDs collected
         </div>
       )}
+      {onPause && (
+        <button
+          onClick={onPause}
+          className="w-full text-xs text-x-text-secondary hover:text-x-text"
+        >
+          Pause scan
+        </button>
+      )}
+    </div>
+  );
+}
+
+const SCAN_JOB_LABELS: Record<ScanJob["phase"], string> = {
+  "following-ids": "collecting following IDs",
+  "follower-ids": "collecting follower IDs",
+  "hydrate-following": "scanning following profiles",
+  "hydrate-followers": "scanning follower profiles",
+};
+
+function ResumeScanCard({
+  job,
+  onResume,
+  onRestart,
+}: {
+  job: ScanJob;
+  onResume: () => void;
+  onRestart: () => void;
+}) {
+  const detail =
+    job.phase === "following-ids"
+      ? `${job.followingIds.length.toLocaleString()} IDs collected`
+      : job.phase === "follower-ids"
+        ? `${job.followerIds.length.toLocaleString()} follower IDs collected`
+        : `${job.seenIds.length.toLocaleString()} profiles scanned in this step`;
+
+  return (
+    <div className="w-full bg-x-card rounded-xl p-4 space-y-3">
+      <div>
+        <div className="text-sm font-medium">Scan paused</div>
+        <div className="text-xs text-x-text-secondary">
+          Stopped while {SCAN_JOB_LABELS[job.phase]} · {detail} · last saved{" "}
+          {new Date(job.updatedAt).toLocaleString()}
+        </div>
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={onResume}
+          className="flex-1 px-4 py-2 bg-x-accent text-white rounded-full text-sm font-medium hover:bg-x-accent-hover transition-colors"
+        >
+          Resume scan
+        </button>
+        <button
+          onClick={onRestart}
+          className="flex-1 px-4 py-2 bg-x-bg text-x-text rounded-full text-sm font-medium hover:bg-x-border transition-colors"
+        >
+          Start over
+        </button>
+      </div>
     </div>
   );
 }
@@ -1519,6 +1706,126 @@ function RatioOptimizer({
   );
 }
 
+const TIMELINE_METRICS: Array<{
+  key: TimelineMetric;
+  label: string;
+  stroke: string;
+  // Whether a rising value is good news (inactive should go down)
+  upIsGood: boolean;
+}> = [
+  { key: "following", label: "Following", stroke: "#e7e9ea", upIsGood: false },
+  { key: "followers", label: "Followers", stroke: "#1d9bf0", upIsGood: true },
+  { key: "mutual", label: "Mutual", stroke: "#00ba7c", upIsGood: true },
+  { key: "inactive", label: "Inactive", stroke: "#ffd400", upIsGood: false },
+];
+
+function GrowthTimeline({ timeline }: { timeline: TimelinePoint[] }) {
+  const [metric, setMetric] = useState<TimelineMetric>("followers");
+  const delta = getTimelineDelta(timeline);
+  const active = TIMELINE_METRICS.find((m) => m.key === metric)!;
+  const latest = timeline[timeline.length - 1];
+
+  return (
+    <div className="bg-x-card rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Growth Timeline</h3>
+        <span className="text-[10px] text-x-text-secondary">
+          {timeline.length} {timeline.length === 1 ? "scan" : "scans"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1.5">
+        {TIMELINE_METRICS.map((m) => {
+          const change = delta?.[m.key] ?? 0;
+          const good = m.upIsGood ? change > 0 : change < 0;
+          return (
+            <button
+              key={m.key}
+              onClick={() => setMetric(m.key)}
+              className={`rounded-lg p-1.5 text-left transition-colors ${
+                metric === m.key ? "bg-x-border" : "hover:bg-x-border/50"
+              }`}
+            >
+              <div className="text-xs font-bold">
+                {formatCount(latest[m.key])}
+              </div>
+              <div className="text-[10px] text-x-text-secondary">{m.label}</div>
+              {delta && change !== 0 && (
+                <div
+                  className={`text-[10px] font-medium ${good ? "text-x-green" : "text-x-red"}`}
+                >
+                  {change > 0 ? "+" : ""}
+                  {change.toLocaleString()}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {timeline.length > 1 ? (
+        <TimelineChart
+          values={timeline.map((p) => p[metric])}
+          stroke={active.stroke}
+        />
+      ) : (
+        <div className="text-[10px] text-x-text-secondary text-center py-2">
+          Re-scan later to see how your numbers change over time.
+        </div>
+      )}
+
+      {timeline.length > 1 && (
+        <div className="flex justify-between text-[10px] text-x-text-secondary">
+          <span>{new Date(timeline[0].date).toLocaleDateString()}</span>
+          <span>{new Date(latest.date).toLocaleDateString()}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Minimal SVG line chart — one series, scaled to its own min/max */
+function TimelineChart({
+  values,
+  stroke,
+}: {
+  values: number[];
+  stroke: string;
+}) {
+  const width = 300;
+  const height = 60;
+  const pad = 4;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  const points = values.map((v, i) => {
+    const x = pad + (i / (values.length - 1)) * (width - pad * 2);
+    const y = height - pad - ((v - min) / range) * (height - pad * 2);
+    return [x, y] as const;
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full h-16"
+      preserveAspectRatio="none"
+    >
+      <polyline
+        points={points.map(([x, y]) => `${x},${y}`).join(" ")}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={2}
+        strokeLinejoin="round"
+        vectorEffect="non-scaling-stroke"
+      />
+      {points.map(([x, y], i) => (
+        <circle key={i} cx={x} cy={y} r={2.5} fill={stroke} />
+      ))}
+    </svg>
+  );
+}
+
 function FollowBackOpportunities({ navigateTo }: { navigateTo: NavigateFn }) {
   const [topFollowers, setTopFollowers] = useState<UserProfile[]>([]);
   const [totalCount, setTotalCount] = useState(0);
@@ -1529,7 +1836,7 @@ function FollowBackOpportunities({ navigateTo }: { navigateTo: NavigateFn }) {
   }, []);
 
   async function loadTopFollowers() {
-    const users = await getAllUsers();
+    const users = await getScannedUsers();
     const followerOnly = users
       .filter((u) => u.isFollowing === false)
       .sort((a, b) => b.followerCount - a.followerCount);
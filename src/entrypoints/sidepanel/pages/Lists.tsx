@@ -5,15 +5,46 @@ import {
   deleteList,
   updateList,
   getAllUsers,
+  getScannedUsers,
   getUsersByListId,
+  countUsersByListId,
   updateUserListIds,
   getListByXListId,
+  addListMembers,
+  removeUsersFromList,
   upsertUsers,
+  classificationCache,
 } from "../../../storage/db";
 import {
   batchCategorizeByKeywords,
-  categorizeByKeywords,
+  estimateAICategorization,
 } from "../../../core/categorizer";
+import { compileKeywords, splitKeywords } from "../../../core/keyword-query";
+import { isLLMConfigured, loadLLMConfig } from "../../../core/llm";
+import type {
+  ClassificationEstimate,
+  ClassificationFailure,
+} from "../../../core/classification";
+import {
+  checkBudget,
+  describeBudget,
+  totalUsage,
+  type BudgetCheck,
+  type UsageByModel,
+} from "../../../core/usage";
+import {
+  isInSync,
+  nextSyncState,
+  planListSync,
+  pushToX,
+  resolveConflicts,
+  type ConflictResolution,
+  type ListSyncPlan,
+} from "../../../core/list-sync";
+import { stopListWrites } from "../../../core/list-writer";
+import { parseListId, type XListMember } from "../../../core/lists-api";
+import { bulkRefollow, stopRefollow } from "../../../core/refollow";
+import { formatCost, formatCount } from "../../../utils/format";
 import type { SmartList, UserProfile } from "../../../core/types";
 import type { ShowToastFn } from "../App";
 
@@ -23,6 +54,7 @@ interface XListPreview {
   description: string;
   memberCount: number;
   mode: "public" | "private";
+  owner?: string;
   alreadyImported: boolean;
 }
 
@@ -45,23 +77,51 @@ export default function Lists({ showToast }: Props) {
   const [syncToX, setSyncToX] = useState(false);
   const [expandedList, setExpandedList] = useState<number | null>(null);
   const [categorizing, setCategorizing] = useState(false);
-  const [apiKey, setApiKey] = useState("");
+  const [aiPlan, setAIPlan] = useState<{
+    listId: number;
+    estimate: ClassificationEstimate;
+    budget: BudgetCheck;
+  } | null>(null);
+  const [aiFailures, setAIFailures] = useState<{
+    listId: number;
+    failed: ClassificationFailure[];
+  } | null>(null);
   const [xLists, setXLists] = useState<XListPreview[]>([]);
   const [importing, setImporting] = useState<string | null>(null);
+  const [importProgress, setImportProgress] = useState<{
+    smartListId: number;
+    fetched: number;
+  } | null>(null);
   const [loadingXLists, setLoadingXLists] = useState(false);
+  const [listLookup, setListLookup] = useState("");
+  const [lookingUp, setLookingUp] = useState(false);
   const [editingList, setEditingList] = useState<number | null>(null);
   const [editName, setEditName] = useState("");
   const [editKeywords, setEditKeywords] = useState("");
+  // Accounts for the live keyword preview, loaded while a form is open
+  const [previewUsers, setPreviewUsers] = useState<UserProfile[] | null>(null);
   const [editDescription, setEditDescription] = useState("");
   const [resyncing, setResyncing] = useState<number | null>(null);
+  const [syncProgress, setSyncProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [syncConflict, setSyncConflict] = useState<{
+    list: ListWithUsers;
+    plan: ListSyncPlan;
+    members: XListMember[];
+    tabId: number;
+  } | null>(null);
 
   useEffect(() => {
     loadLists();
-    chrome.storage.local.get("xsweep_claude_api_key").then((data) => {
-      if (data.xsweep_claude_api_key) setApiKey(data.xsweep_claude_api_key);
-    });
   }, []);
 
+  useEffect(() => {
+    if (showCreate || editingList !== null) getAllUsers().then(setPreviewUsers);
+    else setPreviewUsers(null);
+  }, [showCreate, editingList]);
+
   async function loadLists() {
     const allLists = await getAllLists();
     const listsWithUsers = await Promise.all(
@@ -114,34 +174,62 @@ export default function Lists({ showToast }: Props) {
     setLoadingXLists(false);
   }
 
-  async function handleImportList(xList: XListPreview) {
-    setImporting(xList.id);
+  async function handleLookupList() {
+    const listId = parseListId(listLookup);
+    if (!listId) {
+      showToast("Paste a list URL like x.com/i/lists/123, or its ID");
+      return;
+    }
+
+    setLookingUp(true);
     try {
       const [tab] = await chrome.tabs.query({
         active: true,
         currentWindow: true,
       });
-      if (!tab?.id) {
+      if (!tab?.url?.includes("x.com") || !tab?.id) {
         showToast("Navigate to x.com first");
-        setImporting(null);
+        setLookingUp(false);
         return;
       }
 
-      // Fetch members
       const response = await chrome.tabs.sendMessage(tab.id, {
-        type: "FETCH_X_LIST_MEMBERS",
-        listId: xList.id,
+        type: "FETCH_X_LIST",
+        listId,
       });
-
       if (!response?.success) {
-        showToast(response?.error || "Failed to fetch members");
-        setImporting(null);
+        showToast(response?.error || "Failed to look up list");
+        setLookingUp(false);
         return;
       }
 
-      const members = response.members || [];
+      const existing = await getListByXListId(listId);
+      const preview: XListPreview = {
+        ...response.list,
+        alreadyImported: !!existing,
+      };
+      setXLists((prev) => [preview, ...prev.filter((xl) => xl.id !== listId)]);
+      setListLookup("");
+    } catch {
+      showToast("Failed to connect. Make sure you're on x.com.");
+    }
+    setLookingUp(false);
+  }
+
+  async function handleImportList(xList: XListPreview) {
+    setImporting(xList.id);
+    try {
+      const [tab] = await chrome.tabs.query({
+        active: true,
+        currentWindow: true,
+      });
+      if (!tab?.url?.includes("x.com") || !tab?.id) {
+        showToast("Navigate to x.com first");
+        setImporting(null);
+        return;
+      }
 
-      // Create smart list linked to X list
+      // Create the smart list first; members are stored page by page
       const now = new Date().toISOString();
       const newListId = await createList({
         name: xList.name,
@@ -151,48 +239,10 @@ export default function Lists({ showToast }: Props) {
         createdAt: now,
         updatedAt: now,
         xListId: xList.id,
+        xListOwner: xList.owner,
+        importCursor: "-1",
       });
 
-      // Upsert member profiles into DB and assign to list
-      const allUsers = await getAllUsers();
-      const existingUserIds = new Set(allUsers.map((u) => u.userId));
-
-      const newUsers: UserProfile[] = [];
-      for (const m of members) {
-        if (existingUserIds.has(m.userId)) {
-          // User already in DB — just add list assignment
-          const user = allUsers.find((u) => u.userId === m.userId);
-          if (user) {
-            const updatedIds = [...new Set([...user.listIds, newListId])];
-            await updateUserListIds(m.userId, updatedIds);
-          }
-        } else {
-          // New user — create minimal profile
-          newUsers.push({
-            userId: m.userId,
-            username: m.username,
-            displayName: m.displayName,
-            bio: "",
-            followerCount: 0,
-            followingCount: 0,
-            tweetCount: 0,
-            lastTweetDate: null,
-            daysSinceLastTweet: null,
-            status: "active",
-            isFollower: false,
-            isMutual: false,
-            isVerified: false,
-            listIds: [newListId],
-            scannedAt: now,
-            profileImageUrl: m.profileImageUrl,
-          });
-        }
-      }
-
-      if (newUsers.length > 0) {
-        await upsertUsers(newUsers);
-      }
-
       // Update import preview
       setXLists((prev) =>
         prev.map((xl) =>
@@ -200,14 +250,100 @@ export default function Lists({ showToast }: Props) {
         ),
       );
 
-      await loadLists();
-      showToast(`Imported "${xList.name}" (${members.length} members)`);
+      await runMemberImport(tab.id, newListId, xList.id, xList.name);
+    } catch (e) {
+      showToast(`Import failed: ${e instanceof Error ? e.message : "unknown"}`);
+    }
+    setImporting(null);
+  }
+
+  async function handleResumeImport(list: ListWithUsers) {
+    if (!list.xListId || !list.id || !list.importCursor) return;
+
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    if (!tab?.url?.includes("x.com") || !tab?.id) {
+      showToast("Navigate to x.com first");
+      return;
+    }
+
+    setImporting(list.xListId);
+    try {
+      await runMemberImport(
+        tab.id,
+        list.id,
+        list.xListId,
+        list.name,
+        list.importCursor,
+      );
     } catch (e) {
       showToast(`Import failed: ${e instanceof Error ? e.message : "unknown"}`);
     }
     setImporting(null);
   }
 
+  /**
+   * Stream an X list's members into a smart list. The content script stores
+   * each page as it arrives; if a page fails, the list keeps the cursor it
+   * stopped at and shows a Resume button. Progress counts the stored
+   * members, so a resumed import picks up from what is already there.
+   */
+  async function runMemberImport(
+    tabId: number,
+    smartListId: number,
+    xListId: string,
+    name: string,
+    cursor?: string,
+  ) {
+    const showStored = async () => {
+      const fetched = await countUsersByListId(smartListId);
+      setImportProgress((prev) => (prev ? { smartListId, fetched } : prev));
+    };
+    const listener = (message: { type: string; smartListId?: number }) => {
+      // Sent once the page is stored
+      if (
+        message.type === "LIST_IMPORT_PROGRESS" &&
+        message.smartListId === smartListId
+      ) {
+        showStored();
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    setImportProgress({ smartListId, fetched: 0 });
+    await showStored();
+
+    const response = await chrome.tabs
+      .sendMessage(tabId, {
+        type: "IMPORT_X_LIST_MEMBERS",
+        listId: xListId,
+        smartListId,
+        cursor,
+      })
+      .catch(() => null);
+
+    chrome.runtime.onMessage.removeListener(listener);
+    setImportProgress(null);
+
+    const members = await getUsersByListId(smartListId);
+    if (response?.success) {
+      // The list now matches X; later syncs diff against this
+      await updateList(smartListId, {
+        lastSync: {
+          syncedAt: new Date().toISOString(),
+          memberIds: members.map((u) => u.userId),
+        },
+      });
+      showToast(`Imported "${name}" (${members.length} members)`);
+    } else {
+      showToast(
+        `Import of "${name}" stopped at ${members.length} members: ${response?.error || "no response from x.com"}. Resume it from the list.`,
+      );
+    }
+    await loadLists();
+  }
+
   // ---- Create ----
 
   async function handleCreateList() {
@@ -246,14 +382,13 @@ export default function Lists({ showToast }: Props) {
     await createList({
       name,
       type: newType,
-      keywords: newKeywords
-        .split(",")
-        .map((k) => k.trim().toLowerCase())
-        .filter(Boolean),
+      keywords: splitKeywords(newKeywords),
       description: desc,
       createdAt: now,
       updatedAt: now,
       xListId,
+      // A new X list starts empty; the first sync pushes local members
+      lastSync: xListId ? { syncedAt: now, memberIds: [] } : undefined,
     });
 
     setNewName("");
@@ -299,29 +434,63 @@ export default function Lists({ showToast }: Props) {
     await loadLists();
   }
 
-  async function handleRunAI(listId: number) {
-    if (!apiKey) {
-      showToast("Set your Claude API key in Settings first.");
+  async function estimateAI(list: SmartList) {
+    const llm = await loadLLMConfig();
+    if (!isLLMConfigured(llm)) {
+      showToast("Set up an AI provider in Settings first.");
       return;
     }
-    setCategorizing(true);
-    chrome.runtime.sendMessage({
-      type: "CATEGORIZE_AI",
-      listId,
-      apiKey,
-    });
+    const estimate = await estimateAICategorization(
+      await getScannedUsers(),
+      [list],
+      llm,
+      classificationCache,
+    );
+    const budget = await checkBudget(estimate.cost);
+    setAIPlan({ listId: list.id!, estimate, budget });
+  }
 
-    const listener = (message: { type: string; listId: number }) => {
+  async function handleRunAI(listId: number) {
+    setAIPlan(null);
+    setCategorizing(true);
+    setAIFailures(null);
+
+    const listener = (message: {
+      type: string;
+      listId: number;
+      failed?: ClassificationFailure[];
+      usage?: UsageByModel;
+    }) => {
       if (
         message.type === "CATEGORIZE_AI_COMPLETE" &&
         message.listId === listId
       ) {
         setCategorizing(false);
+        const failed = message.failed ?? [];
+        const usage = totalUsage(message.usage ?? {});
+        if (failed.length > 0) {
+          setAIFailures({ listId, failed });
+          showToast(`AI couldn't classify ${failed.length} accounts`);
+        } else if (usage.requests > 0) {
+          showToast(
+            `AI categorization used ${formatCount(usage.inputTokens + usage.outputTokens)} tokens · ${formatCost(usage.priced ? usage.cost : null)}`,
+          );
+        }
         loadLists();
         chrome.runtime.onMessage.removeListener(listener);
       }
     };
     chrome.runtime.onMessage.addListener(listener);
+
+    const resp = await chrome.runtime.sendMessage({
+      type: "CATEGORIZE_AI",
+      listId,
+    });
+    if (resp && !resp.success) {
+      setCategorizing(false);
+      chrome.runtime.onMessage.removeListener(listener);
+      showToast(`AI categorization failed: ${resp.error}`);
+    }
   }
 
   function startEditing(list: ListWithUsers) {
@@ -338,10 +507,7 @@ export default function Lists({ showToast }: Props) {
     await updateList(id, {
       name,
       description: editDescription.trim(),
-      keywords: editKeywords
-        .split(",")
-        .map((k) => k.trim().toLowerCase())
-        .filter(Boolean),
+      keywords: splitKeywords(editKeywords),
       updatedAt: new Date().toISOString(),
     });
 
@@ -370,25 +536,26 @@ export default function Lists({ showToast }: Props) {
     }
 
     // Re-categorize against just this list
-    let matched = 0;
+    const mapping = batchCategorizeByKeywords(users, [list]);
     for (const user of users) {
-      const matchedIds = categorizeByKeywords(user, [list]);
-      if (matchedIds.length > 0) {
+      const matchedIds = mapping.get(user.userId);
+      if (matchedIds) {
         const newListIds = [...new Set([...user.listIds, ...matchedIds])];
         await updateUserListIds(user.userId, newListIds);
-        matched++;
       }
     }
+    const matched = mapping.size;
 
     setCategorizing(false);
     await loadLists();
     showToast(`Re-scanned "${list.name}": ${matched} matches`);
   }
 
-  async function handleResyncList(list: ListWithUsers) {
+  async function handleSyncList(list: ListWithUsers) {
     if (!list.xListId || !list.id) return;
 
     setResyncing(list.id);
+    setSyncConflict(null);
     try {
       const [tab] = await chrome.tabs.query({
         active: true,
@@ -411,65 +578,119 @@ export default function Lists({ showToast }: Props) {
         return;
       }
 
-      const members = response.members || [];
-
-      // Remove old list assignments
-      for (const u of list.users) {
-        await updateUserListIds(
-          u.userId,
-          u.listIds.filter((lid) => lid !== list.id),
-        );
-      }
-
-      // Re-assign members
+      const members: XListMember[] = response.members || [];
       const allUsers = await getAllUsers();
-      const existingUserIds = new Set(allUsers.map((u) => u.userId));
-      const newUsers: UserProfile[] = [];
-
-      for (const m of members) {
-        if (existingUserIds.has(m.userId)) {
-          const user = allUsers.find((u) => u.userId === m.userId);
-          if (user) {
-            const updatedIds = [...new Set([...user.listIds, list.id!])];
-            await updateUserListIds(m.userId, updatedIds);
-          }
-        } else {
-          newUsers.push({
-            userId: m.userId,
-            username: m.username,
-            displayName: m.displayName,
-            bio: "",
-            followerCount: 0,
-            followingCount: 0,
-            tweetCount: 0,
-            lastTweetDate: null,
-            daysSinceLastTweet: null,
-            status: "active",
-            isFollower: false,
-            isMutual: false,
-            isVerified: false,
-            listIds: [list.id!],
-            scannedAt: new Date().toISOString(),
-            profileImageUrl: m.profileImageUrl,
-          });
-        }
-      }
-
-      if (newUsers.length > 0) {
-        await upsertUsers(newUsers);
+      const localIds = list.users.map((u) => u.userId);
+      const xIds = members.map((m) => m.userId);
+      const knownIds = new Set(allUsers.map((u) => u.userId));
+      // Someone else's list can't be edited, so it only flows X → here
+      const plan = list.xListOwner
+        ? resolveConflicts(
+            planListSync(localIds, xIds, undefined, knownIds),
+            "prefer-x",
+          )
+        : planListSync(localIds, xIds, list.lastSync, knownIds);
+
+      if (plan.conflicts.length > 0) {
+        // Wait for the user to pick a resolution
+        setSyncConflict({ list, plan, members, tabId: tab.id });
+        setResyncing(null);
+        return;
       }
 
-      await updateList(list.id, { updatedAt: new Date().toISOString() });
-      await loadLists();
-      showToast(`Re-synced "${list.name}": ${members.length} members`);
+      await applyListSync(list, plan, members, tab.id);
     } catch (e) {
-      showToast(
-        `Re-sync failed: ${e instanceof Error ? e.message : "unknown"}`,
+      showToast(`Sync failed: ${e instanceof Error ? e.message : "unknown"}`);
+    }
+    setResyncing(null);
+  }
+
+  async function handleResolveConflicts(resolution: ConflictResolution) {
+    if (!syncConflict) return;
+    const { list, plan, members, tabId } = syncConflict;
+
+    setSyncConflict(null);
+    setResyncing(list.id!);
+    try {
+      await applyListSync(
+        list,
+        resolveConflicts(plan, resolution),
+        members,
+        tabId,
       );
+    } catch (e) {
+      showToast(`Sync failed: ${e instanceof Error ? e.message : "unknown"}`);
     }
     setResyncing(null);
   }
 
+  async function applyListSync(
+    list: ListWithUsers,
+    plan: ListSyncPlan,
+    members: XListMember[],
+    tabId: number,
+  ) {
+    const listId = list.id!;
+    const now = new Date().toISOString();
+
+    // Local side
+    const adding = new Set(plan.addLocally);
+    await addListMembers(
+      listId,
+      members.filter((m) => adding.has(m.userId)),
+    );
+    await removeUsersFromList(listId, plan.removeLocally);
+
+    // X side
+    const send = async (
+      type: "ADD_X_LIST_MEMBER" | "REMOVE_X_LIST_MEMBER",
+      userId: string,
+    ) => {
+      const response = await chrome.tabs.sendMessage(tabId, {
+        type,
+        listId: list.xListId,
+        userId,
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || "No response from x.com");
+      }
+    };
+    const result = await pushToX(
+      plan,
+      {
+        add: (userId) => send("ADD_X_LIST_MEMBER", userId),
+        remove: (userId) => send("REMOVE_X_LIST_MEMBER", userId),
+      },
+      (done, total) => setSyncProgress({ done, total }),
+    );
+    setSyncProgress(null);
+
+    await updateList(listId, {
+      lastSync: nextSyncState(
+        members.map((m) => m.userId),
+        result,
+      ),
+      updatedAt: now,
+    });
+    await loadLists();
+
+    if (isInSync(plan)) {
+      showToast(`"${list.name}" is already in sync`);
+      return;
+    }
+    const here = plan.addLocally.length + plan.removeLocally.length;
+    const onX = result.added.length + result.removed.length;
+    const left =
+      plan.addToX.length + plan.removeFromX.length - onX - result.failed.length;
+    showToast(
+      `Synced "${list.name}": ${here} changed here, ${onX} on X` +
+        (result.failed.length > 0
+          ? ` (${result.failed.length} failed, retried next sync)`
+          : "") +
+        (left > 0 ? ` (stopped, ${left} left for next sync)` : ""),
+    );
+  }
+
   async function handleDeleteList(id: number, name: string) {
     await deleteList(id);
     await loadLists();
@@ -506,7 +727,7 @@ export default function Lists({ showToast }: Props) {
       {showImport && (
         <div className="bg-x-card rounded-xl p-4 space-y-3">
           <div className="flex items-center justify-between">
-            <h3 className="text-sm font-medium">Your X Lists</h3>
+            <h3 className="text-sm font-medium">Import X Lists</h3>
             <button
               onClick={() => setShowImport(false)}
               className="text-xs text-x-text-secondary hover:text-x-text"
@@ -514,51 +735,51 @@ export default function Lists({ showToast }: Props) {
               Close
             </button>
           </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={listLookup}
+              onChange={(e) => setListLookup(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLookupList()}
+              placeholder="Any public list: paste its URL or ID"
+              className="flex-1 bg-x-bg border border-x-border rounded-lg px-3 py-1.5 text-sm text-x-text placeholder-x-text-secondary focus:border-x-accent focus:outline-none"
+            />
+            <button
+              onClick={handleLookupList}
+              disabled={lookingUp || !listLookup.trim()}
+              className="text-xs text-x-accent hover:text-x-accent-hover disabled:opacity-50 px-2"
+            >
+              {lookingUp ? "Looking up..." : "Look up"}
+            </button>
+          </div>
           {xLists.length === 0 ? (
             <div className="text-xs text-x-text-secondary text-center py-4">
               No lists found on your X account.
             </div>
           ) : (
-            <div className="space-y-2">
-              {xLists.map((xl) => (
-                <div
-                  key={xl.id}
-                  className="flex items-center justify-between py-2 border-b border-x-border last:border-b-0"
-                >
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm font-medium">{xl.name}</span>
-                      <span className="text-[10px] text-x-text-secondary">
-                        {xl.memberCount} members
-                      </span>
-                      {xl.mode === "private" && (
-                        <span className="text-[10px] bg-x-border px-1 rounded">
-                          private
-                        </span>
-                      )}
-                    </div>
-                    {xl.description && (
-                      <div className="text-[10px] text-x-text-secondary truncate">
-                        {xl.description}
-                      </div>
-                    )}
+            [
+              { title: "Your lists", items: xLists.filter((xl) => !xl.owner) },
+              {
+                title: "Other lists",
+                items: xLists.filter((xl) => xl.owner !== undefined),
+              },
+            ]
+              .filter((group) => group.items.length > 0)
+              .map((group) => (
+                <div key={group.title}>
+                  <div className="text-[10px] text-x-text-secondary uppercase tracking-wide">
+                    {group.title}
                   </div>
-                  {xl.alreadyImported ? (
-                    <span className="text-[10px] text-x-green px-2">
-                      Imported
-                    </span>
-                  ) : (
-                    <button
-                      onClick={() => handleImportList(xl)}
-                      disabled={importing === xl.id}
-                      className="text-xs text-x-accent hover:text-x-accent-hover disabled:opacity-50 px-2"
-                    >
-                      {importing === xl.id ? "Importing..." : "Import"}
-                    </button>
-                  )}
+                  {group.items.map((xl) => (
+                    <XListRow
+                      key={xl.id}
+                      list={xl}
+                      importing={importing === xl.id}
+                      onImport={() => handleImportList(xl)}
+                    />
+                  ))}
                 </div>
-              ))}
-            </div>
+              ))
           )}
         </div>
       )}
@@ -629,9 +850,14 @@ export default function Lists({ showToast }: Props) {
                 type="text"
                 value={newKeywords}
                 onChange={(e) => setNewKeywords(e.target.value)}
-                placeholder="ai, machine learning, llm, gpt"
+                placeholder='ai, "machine learning", llm NOT crypto, bio:/gpt-?\d/'
                 className="w-full bg-x-bg border border-x-border rounded-lg px-3 py-2 text-sm text-x-text placeholder-x-text-secondary focus:border-x-accent focus:outline-none"
               />
+              <div className="text-[10px] text-x-text-secondary mt-1">
+                Whole words; "phrases", prefix*, /regex/, AND, OR, NOT, and
+                bio:, name:, username:, location:, url: to search one field.
+              </div>
+              <KeywordPreview input={newKeywords} users={previewUsers} />
             </div>
           )}
 
@@ -650,7 +876,8 @@ export default function Lists({ showToast }: Props) {
               onClick={handleCreateList}
               disabled={
                 !newName.trim() ||
-                (newType === "keyword" && keywordListCount >= 3)
+                (newType === "keyword" &&
+                  (keywordListCount >= 3 || hasKeywordErrors(newKeywords)))
               }
               className="px-4 py-2 bg-x-accent text-white rounded-full text-sm font-medium hover:bg-x-accent-hover disabled:opacity-50 transition-colors"
             >
@@ -707,11 +934,23 @@ export default function Lists({ showToast }: Props) {
                   <span className="text-xs text-x-text-secondary">
                     ({list.users.length})
                   </span>
-                  {list.xListId && (
+                  {list.xListOwner && (
+                    <span className="text-[10px] text-x-text-secondary">
+                      by @{list.xListOwner}
+                    </span>
+                  )}
+                  {list.xListId && !list.importCursor && (
                     <span className="text-[10px] bg-x-accent/10 text-x-accent px-1 rounded">
                       synced
                     </span>
                   )}
+                  {list.importCursor && (
+                    <span className="text-[10px] bg-x-yellow/20 text-x-yellow px-1 rounded">
+                      {importProgress && importProgress.smartListId === list.id
+                        ? `importing ${importProgress.fetched.toLocaleString()}`
+                        : "import incomplete"}
+                    </span>
+                  )}
                 </div>
                 <span className="text-xs text-x-text-secondary">
                   {expandedList === list.id ? "▲" : "▼"}
@@ -738,18 +977,28 @@ export default function Lists({ showToast }: Props) {
                         className="w-full bg-x-bg border border-x-border rounded-lg px-3 py-1.5 text-sm text-x-text placeholder-x-text-secondary focus:border-x-accent focus:outline-none"
                       />
                       {list.type === "keyword" && (
-                        <input
-                          type="text"
-                          value={editKeywords}
-                          onChange={(e) => setEditKeywords(e.target.value)}
-                          placeholder="Keywords (comma-separated)"
-                          className="w-full bg-x-bg border border-x-border rounded-lg px-3 py-1.5 text-sm text-x-text placeholder-x-text-secondary focus:border-x-accent focus:outline-none"
-                        />
+                        <>
+                          <input
+                            type="text"
+                            value={editKeywords}
+                            onChange={(e) => setEditKeywords(e.target.value)}
+                            placeholder="Keywords (comma-separated)"
+                            className="w-full bg-x-bg border border-x-border rounded-lg px-3 py-1.5 text-sm text-x-text placeholder-x-text-secondary focus:border-x-accent focus:outline-none"
+                          />
+                          <KeywordPreview
+                            input={editKeywords}
+                            users={previewUsers}
+                          />
+                        </>
                       )}
                       <div className="flex gap-2">
                         <button
                           onClick={() => handleSaveEdit(list.id!)}
-                          disabled={!editName.trim()}
+                          disabled={
+                            !editName.trim() ||
+                            (list.type === "keyword" &&
+                              hasKeywordErrors(editKeywords))
+                          }
                           className="px-3 py-1 bg-x-accent text-white rounded-full text-xs font-medium hover:bg-x-accent-hover disabled:opacity-50 transition-colors"
                         >
                           Save
@@ -787,15 +1036,62 @@ export default function Lists({ showToast }: Props) {
 
                       {list.type === "ai" && (
                         <div className="py-2">
-                          <button
-                            onClick={() => handleRunAI(list.id!)}
-                            disabled={categorizing}
-                            className="text-xs text-x-accent hover:text-x-accent-hover disabled:opacity-50"
-                          >
-                            {categorizing
-                              ? "Running AI..."
-                              : "Run AI categorization"}
-                          </button>
+                          {aiPlan?.listId === list.id ? (
+                            <div className="text-[10px] text-x-text-secondary space-y-1">
+                              <div>
+                                {aiPlan.estimate.pending.toLocaleString()}{" "}
+                                accounts to classify
+                                {aiPlan.estimate.cached > 0 &&
+                                  ` · ${aiPlan.estimate.cached.toLocaleString()} cached`}{" "}
+                                · ~
+                                {formatCount(
+                                  aiPlan.estimate.inputTokens +
+                                    aiPlan.estimate.outputTokens,
+                                )}{" "}
+                                tokens · {formatCost(aiPlan.estimate.cost)}
+                              </div>
+                              {aiPlan.budget.limit !== null && (
+                                <div
+                                  className={
+                                    aiPlan.budget.allowed ? "" : "text-x-red"
+                                  }
+                                >
+                                  {describeBudget(aiPlan.budget)}
+                                  {!aiPlan.budget.allowed &&
+                                    " — this run would go over the budget"}
+                                </div>
+                              )}
+                              <div className="flex gap-3">
+                                {aiPlan.budget.allowed && (
+                                  <button
+                                    onClick={() => handleRunAI(list.id!)}
+                                    className="text-xs text-x-accent hover:text-x-accent-hover"
+                                  >
+                                    Run
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => setAIPlan(null)}
+                                  className="text-xs text-x-text-secondary hover:text-x-text"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => estimateAI(list)}
+                              disabled={categorizing}
+                              className="text-xs text-x-accent hover:text-x-accent-hover disabled:opacity-50"
+                            >
+                              {categorizing
+                                ? "Running AI..."
+                                : "Run AI categorization"}
+                            </button>
+                          )}
+                          {aiFailures?.listId === list.id && (
+                            <AIFailureReport failed={aiFailures.failed} />
+                          )}
                         </div>
                       )}
                     </>
@@ -837,11 +1133,34 @@ export default function Lists({ showToast }: Props) {
                         No members yet.
                         {list.type === "keyword" &&
                           " Try editing keywords or re-scanning."}
-                        {list.type === "imported" && " Try re-syncing from X."}
+                        {list.type === "imported" && " Try syncing with X."}
                       </div>
                     )}
                   </div>
 
+                  {list.type === "imported" && !list.importCursor && (
+                    <FollowOverlap
+                      users={list.users}
+                      showToast={showToast}
+                      onChange={loadLists}
+                    />
+                  )}
+
+                  {syncConflict?.list.id === list.id && (
+                    <SyncConflictPrompt
+                      plan={syncConflict.plan}
+                      onResolve={handleResolveConflicts}
+                      onCancel={() => setSyncConflict(null)}
+                    />
+                  )}
+
+                  {list.lastSync && (
+                    <div className="text-[10px] text-x-text-secondary mt-2">
+                      Last synced with X{" "}
+                      {new Date(list.lastSync.syncedAt).toLocaleString()}
+                    </div>
+                  )}
+
                   {/* Action buttons */}
                   <div className="flex flex-wrap gap-2 pt-2 border-t border-x-border mt-2">
                     <button
@@ -861,15 +1180,39 @@ export default function Lists({ showToast }: Props) {
                     )}
                     {list.xListId && (
                       <>
-                        <button
-                          onClick={() => handleResyncList(list)}
-                          disabled={resyncing === list.id}
-                          className="text-xs text-x-accent hover:text-x-accent-hover disabled:opacity-50"
-                        >
-                          {resyncing === list.id
-                            ? "Syncing..."
-                            : "Re-sync from X"}
-                        </button>
+                        {list.importCursor ? (
+                          <button
+                            onClick={() => handleResumeImport(list)}
+                            disabled={importing !== null}
+                            className="text-xs text-x-accent hover:text-x-accent-hover disabled:opacity-50"
+                          >
+                            {importing === list.xListId
+                              ? "Importing..."
+                              : "Resume import"}
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleSyncList(list)}
+                            disabled={resyncing !== null}
+                            className="text-xs text-x-accent hover:text-x-accent-hover disabled:opacity-50"
+                          >
+                            {resyncing === list.id
+                              ? syncProgress
+                                ? `Syncing ${syncProgress.done}/${syncProgress.total}...`
+                                : "Syncing..."
+                              : list.xListOwner
+                                ? "Refresh from X"
+                                : "Sync with X"}
+                          </button>
+                        )}
+                        {resyncing === list.id && syncProgress && (
+                          <button
+                            onClick={stopListWrites}
+                            className="text-xs text-x-red hover:underline"
+                          >
+                            Stop
+                          </button>
+                        )}
                         <a
                           href={`https://x.com/i/lists/${list.xListId}`}
                           target="_blank"
@@ -896,3 +1239,272 @@ export default function Lists({ showToast }: Props) {
     </div>
   );
 }
+
+function AIFailureReport({ failed }: { failed: ClassificationFailure[] }) {
+  const [expanded, setExpanded] = useState(false);
+  return (
+    <div className="mt-2 bg-x-red/10 rounded p-2 text-[10px]">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="text-x-red hover:underline"
+      >
+        {failed.length} accounts couldn&apos;t be classified{" "}
+        {expanded ? "▲" : "▼"}
+      </button>
+      {expanded && (
+        <div className="mt-1 space-y-0.5 max-h-32 overflow-y-auto">
+          {failed.map((f) => (
+            <div key={f.userId} className="text-x-text-secondary">
+              @{f.username} — {f.error}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SyncConflictPrompt({
+  plan,
+  onResolve,
+  onCancel,
+}: {
+  plan: ListSyncPlan;
+  onResolve: (resolution: ConflictResolution) => void;
+  onCancel: () => void;
+}) {
+  const onX = plan.conflicts.filter((c) => c.onX).length;
+  const here = plan.conflicts.length - onX;
+
+  return (
+    <div className="bg-x-accent/10 border border-x-accent/30 rounded-lg p-3 mt-2 space-y-2">
+      <div className="text-xs">
+        This list hasn't been synced before, so changes can't be told apart:{" "}
+        {onX} member{onX !== 1 ? "s" : ""} only on X, {here} only here.
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => onResolve("merge")}
+          className="bg-x-accent text-white text-xs px-3 py-1.5 rounded-full hover:bg-x-accent-hover"
+        >
+          Keep both
+        </button>
+        <button
+          onClick={() => onResolve("prefer-local")}
+          className="text-xs px-3 py-1.5 rounded-full border border-x-border hover:bg-x-card"
+        >
+          Use this list
+        </button>
+        <button
+          onClick={() => onResolve("prefer-x")}
+          className="text-xs px-3 py-1.5 rounded-full border border-x-border hover:bg-x-card"
+        >
+          Use X list
+        </button>
+        <button
+          onClick={onCancel}
+          className="text-xs text-x-text-secondary hover:text-x-text"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function XListRow({
+  list,
+  importing,
+  onImport,
+}: {
+  list: XListPreview;
+  importing: boolean;
+  onImport: () => void;
+}) {
+  return (
+    <div className="flex items-center justify-between py-2 border-b border-x-border last:border-b-0">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{list.name}</span>
+          <span className="text-[10px] text-x-text-secondary">
+            {list.memberCount} members
+          </span>
+          {list.mode === "private" && (
+            <span className="text-[10px] bg-x-border px-1 rounded">
+              private
+            </span>
+          )}
+        </div>
+        {list.owner !== undefined && (
+          <div className="text-[10px] text-x-text-secondary">
+            by @{list.owner}
+          </div>
+        )}
+        {list.description && (
+          <div className="text-[10px] text-x-text-secondary truncate">
+            {list.description}
+          </div>
+        )}
+      </div>
+      {list.alreadyImported ? (
+        <span className="text-[10px] text-x-green px-2">Imported</span>
+      ) : (
+        <button
+          onClick={onImport}
+          disabled={importing}
+          className="text-xs text-x-accent hover:text-x-accent-hover disabled:opacity-50 px-2"
+        >
+          {importing ? "Importing..." : "Import"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * How many of a list's members we follow, with a paced bulk follow for the
+ * rest. Follows count against the same daily cap as re-follows.
+ */
+function FollowOverlap({
+  users,
+  showToast,
+  onChange,
+}: {
+  users: UserProfile[];
+  showToast: ShowToastFn;
+  onChange: () => void;
+}) {
+  const [confirming, setConfirming] = useState(false);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+
+  const missing = users.filter((u) => !u.isFollowing);
+  const following = users.length - missing.length;
+  if (users.length === 0) return null;
+
+  async function followMissing() {
+    setConfirming(false);
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    if (!tab?.id || !tab.url?.includes("x.com")) {
+      showToast("Navigate to x.com first, then try again.");
+      return;
+    }
+    const tabId = tab.id;
+
+    setProgress({ done: 0, total: missing.length });
+    const results = await bulkRefollow(
+      missing,
+      async (userId) => {
+        const response = await chrome.tabs
+          .sendMessage(tabId, { type: "FOLLOW_USER", userId })
+          .catch(() => null);
+        if (!response?.success) {
+          return {
+            success: false,
+            error: response?.error || "No response from x.com",
+          };
+        }
+        const user = missing.find((u) => u.userId === userId)!;
+        // Stale, so the next scan hydrates it before Audit or policies act
+        await upsertUsers([
+          {
+            ...user,
+            isFollowing: true,
+            isMutual: user.isFollower,
+            scannedAt: "",
+          },
+        ]);
+        return { success: true };
+      },
+      {},
+      (done, total) => setProgress({ done, total }),
+    );
+    setProgress(null);
+    onChange();
+
+    const ok = results.filter((r) => r.success).length;
+    const failed = results.find((r) => !r.success);
+    if (results.length === 0) {
+      showToast("Daily follow limit reached. Try again tomorrow.");
+    } else if (failed) {
+      showToast(`Followed ${ok}/${results.length}. Failed: ${failed.error}`);
+    } else {
+      showToast(`Followed ${ok} members`);
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-xs mt-2">
+      <span className="text-x-text-secondary">
+        {progress
+          ? `Following ${progress.done}/${progress.total}. Keep this panel open.`
+          : `You follow ${following} of ${users.length} members`}
+      </span>
+      {progress ? (
+        <button
+          onClick={stopRefollow}
+          className="text-xs text-x-red hover:underline"
+        >
+          Stop
+        </button>
+      ) : (
+        missing.length > 0 && (
+          <button
+            onClick={() => (confirming ? followMissing() : setConfirming(true))}
+            className="text-xs text-x-accent hover:text-x-accent-hover"
+          >
+            {confirming
+              ? `Confirm: follow ${missing.length}?`
+              : `Follow the other ${missing.length}`}
+          </button>
+        )
+      )}
+    </div>
+  );
+}
+
+function hasKeywordErrors(input: string): boolean {
+  return compileKeywords(splitKeywords(input)).errors.length > 0;
+}
+
+/**
+ * Live check of a keywords field: syntax errors and the accounts it would
+ * match right now.
+ */
+function KeywordPreview({
+  input,
+  users,
+}: {
+  input: string;
+  users: UserProfile[] | null;
+}) {
+  const keywords = splitKeywords(input);
+  if (keywords.length === 0 || !users) return null;
+
+  const { matches, errors } = compileKeywords(keywords);
+  const matched = users.filter(matches);
+
+  return (
+    <div className="text-[10px] space-y-0.5 mt-1">
+      {errors.map((e) => (
+        <div key={e.keyword} className="text-x-red">
+          {e.keyword}: {e.error}
+        </div>
+      ))}
+      <div className="text-x-text-secondary">
+        {matched.length.toLocaleString()} of {users.length.toLocaleString()}{" "}
+        accounts match
+        {matched.length > 0 &&
+          `: ${matched
+            .slice(0, 5)
+            .map((u) => `@${u.username}`)
+            .join(", ")}${matched.length > 5 ? ", ..." : ""}`}
+      </div>
+    </div>
+  );
+}
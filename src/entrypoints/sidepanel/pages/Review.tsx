@@ -1,15 +1,62 @@
 import { useEffect, useState, useRef } from "react";
-import { getAllUsers, deleteUser, logUnfollow } from "../../../storage/db";
-import { formatCount } from "../../../utils/format";
 import {
+  getScannedUsers,
+  deleteUser,
+  classificationCache,
+  addUsersToList,
+  createList,
+  getAllLists,
+  deleteReviewSession,
+  getAllReviewSessions,
+  importLegacyReviewSession,
+  reviewSessionStore,
+  saveReviewSession,
+  updateList,
+} from "../../../storage/db";
+import { formatCost, formatCount } from "../../../utils/format";
+import {
+  estimateReclassify,
+  estimateReview,
+  reclassifyStale,
   runFullReview,
-  loadSession,
-  clearSession,
+  categoryToList,
   computeQuickStats,
   type ReviewSession,
   type ReviewCategory,
   type QuickStats,
+  type ReviewRunOptions,
 } from "../../../core/reviewer";
+import {
+  isLLMConfigured,
+  loadLLMConfig,
+  type LLMConfig,
+} from "../../../core/llm";
+import {
+  applyTaxonomyEdit,
+  type NewCategory,
+  type ReviewSuggestion,
+  type TaxonomyEdit,
+} from "../../../core/taxonomy";
+import { compareSessions } from "../../../core/review-diff";
+import {
+  bulkWriteListMembers,
+  stopListWrites,
+} from "../../../core/list-writer";
+import {
+  findTopics,
+  topicToList,
+  type Topic,
+  type TopicSummary,
+} from "../../../core/topics";
+import { batchCategorizeByKeywords } from "../../../core/categorizer";
+import type { ClassificationEstimate } from "../../../core/classification";
+import {
+  checkBudget,
+  describeBudget,
+  recordUsage,
+  totalUsage,
+  type BudgetCheck,
+} from "../../../core/usage";
 import { exportUsersCSV } from "../../../utils/export";
 import type { UserProfile } from "../../../core/types";
 import type { NavigateFn, ShowToastFn } from "../App";
@@ -23,7 +70,16 @@ export default function Review({ navigateTo, showToast }: Props) {
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [nonMutuals, setNonMutuals] = useState<UserProfile[]>([]);
   const [quickStats, setQuickStats] = useState<QuickStats | null>(null);
+  const [topics, setTopics] = useState<TopicSummary | null>(null);
+  const [findingTopics, setFindingTopics] = useState(false);
   const [session, setSession] = useState<ReviewSession | null>(null);
+  const [sessions, setSessions] = useState<ReviewSession[]>([]);
+  const [compareWith, setCompareWith] = useState<string | null>(null);
+  const [savingList, setSavingList] = useState<{
+    categoryId: string;
+    done: number;
+    total: number;
+  } | null>(null);
   const [loading, setLoading] = useState(true);
   const [running, setRunning] = useState(false);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
@@ -31,6 +87,13 @@ export default function Review({ navigateTo, showToast }: Props) {
   );
   const [showAllUsers, setShowAllUsers] = useState<Set<string>>(new Set());
   const [confirmUnfollow, setConfirmUnfollow] = useState<string | null>(null);
+  const [plan, setPlan] = useState<{
+    kind: "review" | "reclassify";
+    llm: LLMConfig;
+    options: ReviewRunOptions;
+    estimate: ClassificationEstimate;
+    budget: BudgetCheck;
+  } | null>(null);
   const cancelRef = useRef(false);
 
   useEffect(() => {
@@ -39,25 +102,45 @@ export default function Review({ navigateTo, showToast }: Props) {
 
   async function loadData() {
     setLoading(true);
-    const allUsers = await getAllUsers();
+    const allUsers = await getScannedUsers();
     setUsers(allUsers);
 
     const nm = allUsers.filter((u) => !u.isMutual);
     setNonMutuals(nm);
     setQuickStats(computeQuickStats(nm));
 
-    const saved = await loadSession();
-    if (saved) setSession(saved);
+    await importLegacyReviewSession();
+    const saved = await getAllReviewSessions();
+    setSessions(saved);
+    if (saved.length > 0) setSession(saved[0]);
 
     setLoading(false);
   }
 
-  async function handleAnalyze() {
-    const apiKey = (await chrome.storage.local.get("xsweep_claude_api_key"))
-      .xsweep_claude_api_key;
+  function openSession(target: ReviewSession) {
+    setSession(target);
+    setCompareWith(null);
+    setExpandedCategories(new Set());
+    setShowAllUsers(new Set());
+  }
 
-    if (!apiKey) {
-      showToast("Add your Claude API key in Settings first");
+  async function handleDeleteSession(id: string) {
+    await deleteReviewSession(id);
+    const remaining = await getAllReviewSessions();
+    setSessions(remaining);
+    if (compareWith === id) setCompareWith(null);
+    if (session?.id === id) setSession(remaining[0] ?? null);
+  }
+
+  /**
+   * Estimate the run first; it starts once the user confirms the cost.
+   * Passing the current taxonomy re-uses it, so cached accounts are free.
+   */
+  async function handleAnalyze(taxonomy?: ReviewCategory[]) {
+    const llm = await loadLLMConfig();
+
+    if (!isLLMConfigured(llm)) {
+      showToast("Set up an AI provider in Settings first");
       return;
     }
 
@@ -66,24 +149,80 @@ export default function Review({ navigateTo, showToast }: Props) {
       return;
     }
 
+    const options: ReviewRunOptions = {
+      taxonomy,
+      history: taxonomy && session?.history,
+      cache: classificationCache,
+      store: reviewSessionStore,
+      onUsage: (usage) => recordUsage(llm, usage),
+    };
+    const estimate = await estimateReview(nonMutuals, llm, options);
+    const budget = await checkBudget(estimate.cost);
+    setPlan({ kind: "review", llm, options, estimate, budget });
+  }
+
+  /**
+   * Estimate re-classifying only the accounts affected by taxonomy edits.
+   */
+  async function handleReclassify() {
+    if (!session) return;
+    const llm = await loadLLMConfig();
+    if (!isLLMConfigured(llm)) {
+      showToast("Set up an AI provider in Settings first");
+      return;
+    }
+
+    const options: ReviewRunOptions = {
+      cache: classificationCache,
+      store: reviewSessionStore,
+      onUsage: (usage) => recordUsage(llm, usage),
+    };
+    const estimate = await estimateReclassify(
+      nonMutuals,
+      session,
+      llm,
+      options,
+    );
+    const budget = await checkBudget(estimate.cost);
+    setPlan({ kind: "reclassify", llm, options, estimate, budget });
+  }
+
+  async function startRun() {
+    if (!plan) return;
+    const { kind, llm, options } = plan;
+    setPlan(null);
+    setCompareWith(null);
+
     cancelRef.current = false;
     setRunning(true);
     setExpandedCategories(new Set());
     setShowAllUsers(new Set());
 
+    const onProgress = (updated: ReviewSession) => {
+      setSession({ ...updated });
+    };
     try {
-      await runFullReview(nonMutuals, apiKey, (updated) => {
-        setSession({ ...updated });
-      });
+      if (kind === "reclassify" && session) {
+        await reclassifyStale(nonMutuals, session, llm, onProgress, options);
+      } else {
+        await runFullReview(nonMutuals, llm, onProgress, options);
+      }
     } finally {
       setRunning(false);
+      setSessions(await getAllReviewSessions());
     }
   }
 
-  async function handleReanalyze() {
-    await clearSession();
-    setSession(null);
-    handleAnalyze();
+  async function handleEdit(edit: TaxonomyEdit) {
+    if (!session) return;
+    try {
+      const updated = applyTaxonomyEdit(session, edit);
+      setSession(updated);
+      await saveReviewSession(updated);
+      setSessions(await getAllReviewSessions());
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : "Edit failed");
+    }
   }
 
   function toggleCategory(categoryId: string) {
@@ -108,16 +247,30 @@ export default function Review({ navigateTo, showToast }: Props) {
     return users.find((u) => u.userId === userId);
   }
 
-  async function handleUnfollowCategory(category: ReviewCategory) {
-    const [tab] = await chrome.tabs.query({
-      active: true,
-      currentWindow: true,
-    });
-    if (!tab?.url?.includes("x.com")) {
-      showToast("Navigate to x.com first, then try again.");
+  function handleFindTopics() {
+    setFindingTopics(true);
+    // Let the button show its busy state before the synchronous work
+    setTimeout(() => {
+      setTopics(findTopics(users.filter((u) => u.isFollowing)));
+      setFindingTopics(false);
+    }, 0);
+  }
+
+  async function handleTopicList(topic: Topic) {
+    const lists = await getAllLists();
+    if (lists.filter((l) => l.type === "keyword").length >= 3) {
+      showToast("Keyword list limit reached. Delete one in Lists first.");
       return;
     }
 
+    const list = topicToList(topic);
+    const listId = await createList(list);
+    const matched = batchCategorizeByKeywords(users, [{ ...list, id: listId }]);
+    await addUsersToList(listId, [...matched.keys()]);
+    showToast(`Created "${list.name}" with ${matched.size} accounts`);
+  }
+
+  async function handleUnfollowCategory(category: ReviewCategory) {
     const count = category.userIds.length;
 
     // Export backup
@@ -129,36 +282,114 @@ export default function Review({ navigateTo, showToast }: Props) {
       `xsweep_backup_${category.id}_${Date.now()}.csv`,
     );
 
-    // Broadcast start so App.tsx shows progress banner
-    chrome.runtime
-      .sendMessage({
-        type: "UNFOLLOW_STARTED",
-        data: { total: count, done: 0 },
-      })
-      .catch(() => {});
-
-    showToast(`Unfollowing ${count} accounts from "${category.name}"...`);
-
-    // Send unfollow command
-    if (tab?.id) {
-      chrome.tabs.sendMessage(tab.id, {
-        type: "START_UNFOLLOW",
-        userIds: category.userIds,
-        dryRun: false,
+    // Queue in the background; it spreads the work across days if needed
+    const resp = await chrome.runtime.sendMessage({
+      type: "QUEUE_UNFOLLOWS",
+      users: categoryUsers.map((u) => ({
+        userId: u.userId,
+        username: u.username,
+        reason: `review:${category.id}`,
+      })),
+    });
+    if (!resp?.success) {
+      showToast(`Failed: ${resp?.error || "Unknown error"}`);
+      return;
+    }
+
+    showToast(`Queued ${count} accounts from "${category.name}" to unfollow`);
+    setConfirmUnfollow(null);
+  }
+
+  /**
+   * Save a category as an AI smart list with its members, optionally
+   * creating a private X list and adding the members there too.
+   */
+  async function handleSaveAsList(category: ReviewCategory, toX: boolean) {
+    if (!session) return;
+    const total = category.userIds.length;
+    setSavingList({ categoryId: category.id, done: 0, total });
+
+    let tabId: number | undefined;
+    let xListId: string | undefined;
+    if (toX) {
+      const [tab] = await chrome.tabs.query({
+        active: true,
+        currentWindow: true,
       });
+      if (!tab?.url?.includes("x.com") || !tab.id) {
+        showToast("Navigate to x.com first");
+        setSavingList(null);
+        return;
+      }
+      const response = await chrome.tabs
+        .sendMessage(tab.id, {
+          type: "CREATE_X_LIST",
+          name: category.name,
+          description: category.description,
+          mode: "private",
+        })
+        .catch(() => null);
+      if (!response?.success) {
+        showToast(`X list not created: ${response?.error || "no response"}`);
+        setSavingList(null);
+        return;
+      }
+      tabId = tab.id;
+      xListId = response.list.id;
     }
 
-    // Log unfollows
-    for (const user of categoryUsers) {
-      await logUnfollow({
-        userId: user.userId,
-        username: user.username,
-        date: new Date().toISOString(),
-        reason: `review:${category.id}`,
+    const listId = await createList({ ...categoryToList(category), xListId });
+    await addUsersToList(listId, category.userIds);
+    const updated: ReviewSession = {
+      ...session,
+      categories: session.categories.map((c) =>
+        c.id === category.id ? { ...c, listId } : c,
+      ),
+    };
+    setSession(updated);
+    await saveReviewSession(updated);
+
+    let failed = 0;
+    let written = total;
+    if (tabId !== undefined && xListId) {
+      const xTabId = tabId;
+      const xList = xListId;
+      const results = await bulkWriteListMembers(
+        category.userIds.map((userId) => ({ userId, op: "add" as const })),
+        async ({ userId }) => {
+          const resp = await chrome.tabs
+            .sendMessage(xTabId, {
+              type: "ADD_X_LIST_MEMBER",
+              listId: xList,
+              userId,
+            })
+            .catch(() => null);
+          if (!resp?.success) {
+            throw new Error(resp?.error || "No response from x.com");
+          }
+        },
+        {},
+        (done) => setSavingList({ categoryId: category.id, done, total }),
+      );
+      const added = results.filter((r) => r.success).map((r) => r.userId);
+      failed = results.length - added.length;
+      written = results.length;
+      // Members that failed or were skipped by Stop are pushed by the next sync
+      await updateList(listId, {
+        lastSync: { syncedAt: new Date().toISOString(), memberIds: added },
       });
     }
 
-    setConfirmUnfollow(null);
+    setSavingList(null);
+    showToast(
+      written < total
+        ? `Saved "${category.name}" — stopped after ${written} of ${total} on X`
+        : failed > 0
+          ? `Saved "${category.name}" — ${failed} of ${total} couldn't be added on X`
+          : xListId
+            ? `Saved "${category.name}" as a list (synced to X)`
+            : `Saved "${category.name}" as a list`,
+    );
   }
 
   async function handleProtectCategory(category: ReviewCategory) {
@@ -220,9 +451,23 @@ export default function Review({ navigateTo, showToast }: Props) {
 
       {/* Action Button */}
       <div>
-        {!session || session.status === "error" ? (
+        {plan ? (
+          <RunEstimate
+            estimate={plan.estimate}
+            budget={plan.budget}
+            title={
+              plan.kind === "reclassify"
+                ? "Re-classify accounts affected by your edits"
+                : plan.options.taxonomy
+                  ? "Update with the current categories"
+                  : "Analyze with new categories"
+            }
+            onRun={startRun}
+            onCancel={() => setPlan(null)}
+          />
+        ) : !session || session.status === "error" ? (
           <button
-            onClick={handleAnalyze}
+            onClick={() => handleAnalyze()}
             disabled={running}
             className="w-full px-4 py-3 bg-x-accent text-white rounded-xl text-sm font-medium hover:bg-x-accent-hover transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
           >
@@ -236,14 +481,24 @@ export default function Review({ navigateTo, showToast }: Props) {
             )}
           </button>
         ) : session.status === "complete" ? (
-          <button
-            onClick={handleReanalyze}
-            disabled={running}
-            className="w-full px-4 py-2 bg-x-card border border-x-border text-x-text rounded-xl text-sm hover:bg-x-border transition-colors disabled:opacity-50"
-          >
-            Re-analyze
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleAnalyze(session.categories)}
+              disabled={running}
+              className="flex-1 px-4 py-2 bg-x-card border border-x-border text-x-text rounded-xl text-sm hover:bg-x-border transition-colors disabled:opacity-50"
+            >
+              Update
+            </button>
+            <button
+              onClick={() => handleAnalyze()}
+              disabled={running}
+              className="flex-1 px-4 py-2 bg-x-card border border-x-border text-x-text rounded-xl text-sm hover:bg-x-border transition-colors disabled:opacity-50"
+            >
+              Re-analyze
+            </button>
+          </div>
         ) : null}
+        {!plan && session?.usage && <RunUsage session={session} />}
       </div>
 
       {/* Progress Bar */}
@@ -283,9 +538,13 @@ export default function Review({ navigateTo, showToast }: Props) {
         )}
 
       {/* Error */}
-      {session?.status === "error" && session.error && (
+      {session?.error && !running && (
         <div className="bg-x-red/10 border border-x-red/30 rounded-xl p-3">
-          <div className="text-sm font-medium text-x-red">Analysis failed</div>
+          <div className="text-sm font-medium text-x-red">
+            {session.status === "error"
+              ? "Analysis failed"
+              : "Re-classification stopped"}
+          </div>
           <div className="text-xs text-x-text-secondary mt-1">
             {session.error}
           </div>
@@ -360,6 +619,47 @@ export default function Review({ navigateTo, showToast }: Props) {
         </div>
       )}
 
+      {/* Offline topics */}
+      <TopicsCard
+        summary={topics}
+        finding={findingTopics}
+        getUserById={getUserById}
+        onFind={handleFindTopics}
+        onCreateList={handleTopicList}
+      />
+
+      {/* Saved sessions */}
+      {sessions.length > 0 && !running && (
+        <SessionHistory
+          sessions={sessions}
+          currentId={session?.id ?? null}
+          compareWith={compareWith}
+          onOpen={openSession}
+          onCompare={setCompareWith}
+          onDelete={handleDeleteSession}
+        />
+      )}
+
+      {/* Comparison with another session */}
+      {session &&
+        compareWith &&
+        (() => {
+          const other = sessions.find((s) => s.id === compareWith);
+          if (!other) return null;
+          const [before, after] =
+            other.createdAt < session.createdAt
+              ? [other, session]
+              : [session, other];
+          return (
+            <SessionDiffView
+              before={before}
+              after={after}
+              getUserById={getUserById}
+              onClose={() => setCompareWith(null)}
+            />
+          );
+        })()}
+
       {/* AI Categories */}
       {session?.status === "complete" && session.categories.length > 0 && (
         <div className="space-y-3">
@@ -372,10 +672,31 @@ export default function Review({ navigateTo, showToast }: Props) {
             </span>
           </div>
 
+          {/* Accounts affected by taxonomy edits */}
+          {(session.stale?.length ?? 0) > 0 && (
+            <div className="bg-x-accent/10 border border-x-accent/30 rounded-xl p-3 flex items-center justify-between gap-2">
+              <span className="text-xs">
+                {session.stale!.length.toLocaleString()} accounts need
+                re-classifying after your edits
+              </span>
+              <button
+                onClick={handleReclassify}
+                disabled={running || !!plan}
+                className="px-3 py-1.5 bg-x-accent text-white rounded-full text-xs font-medium hover:bg-x-accent-hover transition-colors disabled:opacity-50 shrink-0"
+              >
+                Re-classify
+              </button>
+            </div>
+          )}
+
           {session.categories.map((category) => (
             <CategoryCard
               key={category.id}
               category={category}
+              otherCategories={session.categories.filter(
+                (c) => c.id !== category.id,
+              )}
+              onEdit={handleEdit}
               expanded={expandedCategories.has(category.id)}
               showAll={showAllUsers.has(category.id)}
               confirmingUnfollow={confirmUnfollow === category.id}
@@ -391,10 +712,23 @@ export default function Review({ navigateTo, showToast }: Props) {
               }}
               onCancelUnfollow={() => setConfirmUnfollow(null)}
               onProtect={() => handleProtectCategory(category)}
+              saving={
+                savingList?.categoryId === category.id ? savingList : null
+              }
+              onStopSaving={stopListWrites}
+              onSaveAsList={
+                savingList
+                  ? undefined
+                  : (toX) => handleSaveAsList(category, toX)
+              }
               suggestionColors={suggestionColors}
             />
           ))}
 
+          <AddCategoryForm
+            onAdd={(category) => handleEdit({ kind: "add", category })}
+          />
+
           {/* Uncategorized */}
           {session.uncategorized.length > 0 && (
             <div className="bg-x-card rounded-xl p-3">
@@ -412,12 +746,320 @@ export default function Review({ navigateTo, showToast }: Props) {
               </div>
             </div>
           )}
+
+          {/* Failed to classify */}
+          {(session.failed?.length ?? 0) > 0 && (
+            <div className="bg-x-card rounded-xl p-3">
+              <div>
+                <span className="text-sm font-medium text-x-red">
+                  Not classified
+                </span>
+                <span className="text-xs text-x-text-secondary ml-2">
+                  {session.failed!.length} accounts
+                </span>
+              </div>
+              <div className="text-xs text-x-text-secondary mt-1">
+                The AI gave no valid answer for these after retrying (
+                {session.failed![0].error}). Re-analyze to try again.
+              </div>
+              <div className="text-[10px] text-x-text-secondary mt-1">
+                {session
+                  .failed!.slice(0, 20)
+                  .map((f) => `@${f.username}`)
+                  .join(", ")}
+                {session.failed!.length > 20 &&
+                  ` +${session.failed!.length - 20} more`}
+              </div>
+            </div>
+          )}
+
+          {/* Taxonomy edit history */}
+          {(session.history?.length ?? 0) > 0 && (
+            <div className="bg-x-card rounded-xl p-3 space-y-1">
+              <div className="text-sm font-medium">Category changes</div>
+              {[...session.history!].reverse().map((change, i) => (
+                <div
+                  key={i}
+                  className="flex justify-between gap-2 text-[10px] text-x-text-secondary"
+                >
+                  <span>{change.summary}</span>
+                  <span className="shrink-0">
+                    {new Date(change.date).toLocaleDateString(undefined, {
+                      month: "short",
+                      day: "numeric",
+                    })}
+                    {change.affected > 0 && ` · ${change.affected} affected`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RunEstimate({
+  estimate,
+  budget,
+  title,
+  onRun,
+  onCancel,
+}: {
+  estimate: ClassificationEstimate;
+  budget: BudgetCheck;
+  title: string;
+  onRun: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="bg-x-card rounded-xl p-4 space-y-2">
+      <div className="text-sm font-medium">{title}</div>
+      <div className="text-xs text-x-text-secondary">
+        {estimate.pending.toLocaleString()} accounts to classify
+        {estimate.cached > 0 &&
+          ` · ${estimate.cached.toLocaleString()} unchanged (cached)`}
+      </div>
+      <div className="text-xs text-x-text-secondary">
+        ~{formatCount(estimate.inputTokens + estimate.outputTokens)} tokens in{" "}
+        {estimate.requests} requests · {formatCost(estimate.cost)}
+      </div>
+      {budget.limit !== null && (
+        <div
+          className={`text-xs ${budget.allowed ? "text-x-text-secondary" : "text-x-red"}`}
+        >
+          {describeBudget(budget)}
+          {!budget.allowed && " — this run would go over the budget"}
+        </div>
+      )}
+      <div className="flex gap-2 pt-1">
+        {budget.allowed && (
+          <button
+            onClick={onRun}
+            className="px-4 py-1.5 bg-x-accent text-white rounded-full text-xs font-medium hover:bg-x-accent-hover transition-colors"
+          >
+            {estimate.requests === 0 ? "Apply cached results" : "Run"}
+          </button>
+        )}
+        <button
+          onClick={onCancel}
+          className="px-4 py-1.5 bg-x-border text-x-text rounded-full text-xs hover:bg-x-card transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function sessionLabel(session: ReviewSession): string {
+  return new Date(session.createdAt).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function SessionHistory({
+  sessions,
+  currentId,
+  compareWith,
+  onOpen,
+  onCompare,
+  onDelete,
+}: {
+  sessions: ReviewSession[];
+  currentId: string | null;
+  compareWith: string | null;
+  onOpen: (session: ReviewSession) => void;
+  onCompare: (id: string | null) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  return (
+    <div className="bg-x-card rounded-xl p-3 space-y-2">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="text-sm font-medium">Past reviews</span>
+        <span className="text-[10px] text-x-text-secondary">
+          {sessions.length} saved {expanded ? "▾" : "▸"}
+        </span>
+      </button>
+
+      {expanded &&
+        sessions.map((s) => {
+          const accounts = new Set([
+            ...s.categories.flatMap((c) => c.userIds),
+            ...s.uncategorized,
+          ]).size;
+          const current = s.id === currentId;
+          return (
+            <div
+              key={s.id}
+              className={`flex items-center gap-2 text-[10px] rounded px-2 py-1 ${current ? "bg-x-accent/10" : ""}`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-x-text">{sessionLabel(s)}</div>
+                <div className="text-x-text-secondary">
+                  {s.status === "complete"
+                    ? `${s.categories.length} categories · ${accounts.toLocaleString()} accounts`
+                    : s.status === "error"
+                      ? "Failed"
+                      : "Interrupted"}
+                </div>
+              </div>
+              {current ? (
+                <span className="text-x-accent">Open</span>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onOpen(s)}
+                    className="text-x-accent hover:text-x-accent-hover"
+                  >
+                    Open
+                  </button>
+                  {currentId && s.status === "complete" && (
+                    <button
+                      onClick={() =>
+                        onCompare(compareWith === s.id ? null : s.id)
+                      }
+                      className="text-x-accent hover:text-x-accent-hover"
+                    >
+                      {compareWith === s.id ? "Hide diff" : "Compare"}
+                    </button>
+                  )}
+                </>
+              )}
+              {confirmDelete === s.id ? (
+                <button
+                  onClick={() => {
+                    onDelete(s.id);
+                    setConfirmDelete(null);
+                  }}
+                  className="text-x-red font-medium"
+                >
+                  Confirm
+                </button>
+              ) : (
+                <button
+                  onClick={() => setConfirmDelete(s.id)}
+                  className="text-x-text-secondary hover:text-x-red"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          );
+        })}
+    </div>
+  );
+}
+
+function SessionDiffView({
+  before,
+  after,
+  getUserById,
+  onClose,
+}: {
+  before: ReviewSession;
+  after: ReviewSession;
+  getUserById: (id: string) => UserProfile | undefined;
+  onClose: () => void;
+}) {
+  const diff = compareSessions(before, after);
+  const names = new Map(
+    [...before.categories, ...after.categories].map((c) => [c.id, c.name]),
+  );
+  const describe = (ids: string[]) =>
+    ids.length === 0
+      ? "—"
+      : ids
+          .map((id) =>
+            id === "uncategorized" ? "Uncategorized" : (names.get(id) ?? id),
+          )
+          .join(", ");
+
+  return (
+    <div className="bg-x-card rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          {sessionLabel(before)} → {sessionLabel(after)}
+        </span>
+        <button
+          onClick={onClose}
+          className="text-[10px] text-x-text-secondary hover:text-x-text"
+        >
+          Close
+        </button>
+      </div>
+
+      {diff.categories.length === 0 ? (
+        <div className="text-xs text-x-text-secondary">
+          No membership changes.
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {diff.categories.map((c) => (
+            <div key={c.id} className="flex justify-between gap-2 text-xs">
+              <span className="truncate">{c.name}</span>
+              <span className="shrink-0 text-[10px] text-x-text-secondary">
+                {c.before ?? "new"} → {c.after ?? "gone"}
+                {c.added.length > 0 && (
+                  <span className="text-x-green"> +{c.added.length}</span>
+                )}
+                {c.removed.length > 0 && (
+                  <span className="text-x-red"> −{c.removed.length}</span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diff.moved.length > 0 && (
+        <div className="space-y-0.5 pt-1 border-t border-x-border">
+          <div className="text-[10px] text-x-text-secondary">
+            {diff.moved.length.toLocaleString()} accounts changed category
+          </div>
+          {diff.moved.slice(0, 20).map((m) => (
+            <div key={m.userId} className="text-[10px] truncate">
+              <span className="text-x-accent">
+                @{getUserById(m.userId)?.username ?? m.userId}
+              </span>{" "}
+              <span className="text-x-text-secondary">
+                {describe(m.from)} → {describe(m.to)}
+              </span>
+            </div>
+          ))}
+          {diff.moved.length > 20 && (
+            <div className="text-[10px] text-x-text-secondary">
+              +{diff.moved.length - 20} more
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 }
 
+function RunUsage({ session }: { session: ReviewSession }) {
+  const usage = totalUsage(session.usage ?? {});
+  if (usage.requests === 0) return null;
+  return (
+    <div className="text-[10px] text-x-text-secondary mt-1 text-center">
+      {session.status === "complete" ? "Last run" : "This run"}:{" "}
+      {formatCount(usage.inputTokens)} in / {formatCount(usage.outputTokens)}{" "}
+      out tokens · {formatCost(usage.priced ? usage.cost : null)}
+    </div>
+  );
+}
+
 function StatBadge({
   label,
   count,
@@ -435,8 +1077,89 @@ function StatBadge({
   );
 }
 
+/**
+ * Topics found locally from bios, with a keyword list per topic.
+ */
+function TopicsCard({
+  summary,
+  finding,
+  getUserById,
+  onFind,
+  onCreateList,
+}: {
+  summary: TopicSummary | null;
+  finding: boolean;
+  getUserById: (userId: string) => UserProfile | undefined;
+  onFind: () => void;
+  onCreateList: (topic: Topic) => void;
+}) {
+  return (
+    <div className="bg-x-card rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Topics</h3>
+        <button
+          onClick={onFind}
+          disabled={finding}
+          className="text-xs text-x-accent hover:text-x-accent-hover disabled:opacity-50"
+        >
+          {finding ? "Finding..." : summary ? "Refresh" : "Find topics"}
+        </button>
+      </div>
+
+      {!summary ? (
+        <div className="text-[10px] text-x-text-secondary">
+          Groups the accounts you follow by the words in their bios. Runs on
+          this device; no API key needed and nothing is sent anywhere.
+        </div>
+      ) : summary.topics.length === 0 ? (
+        <div className="text-[10px] text-x-text-secondary">
+          Not enough bios to find topics.
+        </div>
+      ) : (
+        <>
+          <div className="text-[10px] text-x-text-secondary">
+            {formatCount(summary.analyzed)} bios, {summary.topics.length}{" "}
+            topics, {formatCount(summary.unclustered)} unclustered
+          </div>
+          {summary.topics.map((topic) => (
+            <div
+              key={topic.userIds[0]}
+              className="border-t border-x-border pt-2 space-y-1"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <StatBadge
+                  label={topic.terms.slice(0, 3).join(", ")}
+                  count={topic.userIds.length}
+                  color="text-x-accent"
+                />
+                <button
+                  onClick={() => onCreateList(topic)}
+                  className="text-[10px] text-x-accent hover:text-x-accent-hover shrink-0"
+                >
+                  Create keyword list
+                </button>
+              </div>
+              <div className="text-[10px] text-x-text-secondary truncate">
+                {topic.userIds
+                  .slice(0, 4)
+                  .map((id) => getUserById(id))
+                  .filter((u): u is UserProfile => u !== undefined)
+                  .map((u) => `@${u.username}`)
+                  .join(", ")}
+                {topic.userIds.length > 4 && ", ..."}
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
 function CategoryCard({
   category,
+  otherCategories,
+  onEdit,
   expanded,
   showAll,
   confirmingUnfollow,
@@ -446,9 +1169,14 @@ function CategoryCard({
   onUnfollow,
   onCancelUnfollow,
   onProtect,
+  saving,
+  onStopSaving,
+  onSaveAsList,
   suggestionColors,
 }: {
   category: ReviewCategory;
+  otherCategories: ReviewCategory[];
+  onEdit: (edit: TaxonomyEdit) => void;
   expanded: boolean;
   showAll: boolean;
   confirmingUnfollow: boolean;
@@ -458,12 +1186,17 @@ function CategoryCard({
   onUnfollow: () => void;
   onCancelUnfollow: () => void;
   onProtect: () => void;
+  saving: { done: number; total: number } | null;
+  onStopSaving: () => void;
+  // Undefined while another category is being saved
+  onSaveAsList?: (toX: boolean) => void;
   suggestionColors: Record<string, { bg: string; text: string }>;
 }) {
   const colors = suggestionColors[category.suggestion] || {
     bg: "bg-x-border",
     text: "text-x-text-secondary",
   };
+  const [saveToX, setSaveToX] = useState(false);
   const previewCount = 5;
   const displayUsers = showAll
     ? category.userIds
@@ -609,8 +1342,316 @@ function CategoryCard({
               Protect all
             </button>
           </div>
+
+          {/* Save as list */}
+          <div className="flex items-center gap-2 text-[10px] text-x-text-secondary">
+            {saving ? (
+              <>
+                <span>
+                  Saving list…{" "}
+                  {saving.total > 0 && `${saving.done}/${saving.total}`}
+                </span>
+                <button
+                  onClick={onStopSaving}
+                  className="text-x-red hover:underline"
+                >
+                  Stop
+                </button>
+              </>
+            ) : category.listId !== undefined ? (
+              <span className="text-x-green">Saved as a smart list</span>
+            ) : (
+              <>
+                <button
+                  onClick={() => onSaveAsList?.(saveToX)}
+                  disabled={!onSaveAsList}
+                  className="px-3 py-1.5 bg-x-accent/20 text-x-accent rounded-lg text-xs font-medium hover:bg-x-accent/30 transition-colors disabled:opacity-50"
+                >
+                  Save as list
+                </button>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={saveToX}
+                    onChange={(e) => setSaveToX(e.target.checked)}
+                  />
+                  Also create a private X list
+                </label>
+              </>
+            )}
+          </div>
+
+          <CategoryEditor
+            category={category}
+            otherCategories={otherCategories}
+            onEdit={onEdit}
+          />
         </div>
       )}
     </div>
   );
 }
+
+const SUGGESTIONS: ReviewSuggestion[] = ["keep", "review", "unfollow"];
+
+/**
+ * One category per line, "Name: description".
+ */
+function parseCategoryLines(
+  text: string,
+  suggestion: ReviewSuggestion,
+): NewCategory[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const colon = line.indexOf(":");
+      return colon === -1
+        ? { name: line, description: "", suggestion }
+        : {
+            name: line.slice(0, colon).trim(),
+            description: line.slice(colon + 1).trim(),
+            suggestion,
+          };
+    })
+    .filter((c) => c.name);
+}
+
+function CategoryEditor({
+  category,
+  otherCategories,
+  onEdit,
+}: {
+  category: ReviewCategory;
+  otherCategories: ReviewCategory[];
+  onEdit: (edit: TaxonomyEdit) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(category.name);
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [splitText, setSplitText] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const inputClass =
+    "bg-x-bg border border-x-border rounded px-2 py-1 text-xs text-x-text focus:border-x-accent focus:outline-none";
+  const buttonClass =
+    "px-2 py-1 bg-x-border text-x-text rounded text-[10px] hover:bg-x-bg transition-colors disabled:opacity-50";
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="text-[10px] text-x-accent hover:text-x-accent-hover"
+      >
+        Edit category
+      </button>
+    );
+  }
+
+  const splitInto = parseCategoryLines(splitText, category.suggestion);
+
+  return (
+    <div className="border-t border-x-border pt-2 space-y-2">
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={`flex-1 ${inputClass}`}
+        />
+        <button
+          onClick={() =>
+            onEdit({ kind: "rename", categoryId: category.id, name })
+          }
+          disabled={!name.trim() || name.trim() === category.name}
+          className={buttonClass}
+        >
+          Rename
+        </button>
+      </div>
+
+      <label className="flex items-center justify-between text-[10px] text-x-text-secondary">
+        Suggestion
+        <select
+          value={category.suggestion}
+          onChange={(e) =>
+            onEdit({
+              kind: "suggestion",
+              categoryId: category.id,
+              suggestion: e.target.value as ReviewSuggestion,
+            })
+          }
+          className={inputClass}
+        >
+          {SUGGESTIONS.map((s) => (
+            <option key={s} value={s}>
+              {s}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {otherCategories.length > 0 && (
+        <div className="flex gap-1">
+          <select
+            value={mergeTarget}
+            onChange={(e) => setMergeTarget(e.target.value)}
+            className={`flex-1 ${inputClass}`}
+          >
+            <option value="">Merge into…</option>
+            {otherCategories.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() =>
+              onEdit({
+                kind: "merge",
+                sourceId: category.id,
+                targetId: mergeTarget,
+              })
+            }
+            disabled={!mergeTarget}
+            className={buttonClass}
+          >
+            Merge
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <textarea
+          value={splitText}
+          onChange={(e) => setSplitText(e.target.value)}
+          placeholder={"Split into, one per line:\nName: description"}
+          rows={3}
+          className={`w-full ${inputClass}`}
+        />
+        <button
+          onClick={() =>
+            onEdit({ kind: "split", categoryId: category.id, into: splitInto })
+          }
+          disabled={splitInto.length < 2}
+          className={buttonClass}
+        >
+          Split into {splitInto.length >= 2 ? splitInto.length : ""} categories
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        {confirmDelete ? (
+          <>
+            <button
+              onClick={() =>
+                onEdit({ kind: "delete", categoryId: category.id })
+              }
+              className="px-2 py-1 bg-x-red/20 text-x-red rounded text-[10px] font-medium hover:bg-x-red/30 transition-colors"
+            >
+              Delete and re-classify {category.userIds.length}
+            </button>
+            <button
+              onClick={() => setConfirmDelete(false)}
+              className={buttonClass}
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setConfirmDelete(true)}
+            className="text-[10px] text-x-red hover:underline"
+          >
+            Delete category
+          </button>
+        )}
+        <button
+          onClick={() => setOpen(false)}
+          className="ml-auto text-[10px] text-x-text-secondary hover:text-x-text"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function AddCategoryForm({
+  onAdd,
+}: {
+  onAdd: (category: NewCategory) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [suggestion, setSuggestion] = useState<ReviewSuggestion>("review");
+
+  const inputClass =
+    "w-full bg-x-bg border border-x-border rounded px-2 py-1 text-xs text-x-text focus:border-x-accent focus:outline-none";
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="w-full py-2 border border-dashed border-x-border rounded-xl text-xs text-x-text-secondary hover:text-x-text transition-colors"
+      >
+        + Add category
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-x-card rounded-xl p-3 space-y-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Category name"
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Which accounts belong here?"
+        className={inputClass}
+      />
+      <div className="flex items-center gap-2">
+        <select
+          value={suggestion}
+          onChange={(e) => setSuggestion(e.target.value as ReviewSuggestion)}
+          className="bg-x-bg border border-x-border rounded px-2 py-1 text-xs text-x-text focus:border-x-accent focus:outline-none"
+        >
+          {SUGGESTIONS.map((s) => (
+            <option key={s} value={s}>
+              {s}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => {
+            onAdd({ name, description, suggestion });
+            setName("");
+            setDescription("");
+            setOpen(false);
+          }}
+          disabled={!name.trim()}
+          className="px-3 py-1 bg-x-accent text-white rounded-full text-xs font-medium hover:bg-x-accent-hover transition-colors disabled:opacity-50"
+        >
+          Add
+        </button>
+        <button
+          onClick={() => setOpen(false)}
+          className="text-xs text-x-text-secondary hover:text-x-text"
+        >
+          Cancel
+        </button>
+      </div>
+      <div className="text-[10px] text-x-text-secondary">
+        Uncategorized accounts are re-classified to find members.
+      </div>
+    </div>
+  );
+}
@@ -7,14 +7,51 @@ import {
 } from "../../../storage/db";
 import { exportUsersCSV, exportUsersJSON } from "../../../utils/export";
 import { getAllUsers } from "../../../storage/db";
+import {
+  getRescanMaxAgeDays,
+  setRescanMaxAgeDays,
+} from "../../../core/incremental-scan";
+import {
+  getRecategorizeAI,
+  setRecategorizeAI,
+} from "../../../core/recategorize";
+import {
+  LLM_PROVIDERS,
+  defaultLLMConfig,
+  loadLLMConfig,
+  saveLLMConfig,
+  type LLMConfig,
+  type LLMProviderKind,
+} from "../../../core/llm";
+import {
+  clearUsageLedger,
+  getMonthlyBudget,
+  loadUsageLedger,
+  monthKey,
+  setMonthlyBudget,
+  totalUsage,
+  type UsageLedger,
+} from "../../../core/usage";
+import { formatCost, formatCount } from "../../../utils/format";
+
+// Origins already granted through host_permissions in wxt.config.ts
+const BUILTIN_LLM_ORIGINS = [
+  "https://api.anthropic.com",
+  "https://api.openai.com",
+];
 
 export default function Settings() {
-  const [apiKey, setApiKey] = useState("");
+  const [llm, setLLM] = useState<LLMConfig>(defaultLLMConfig());
+  const [llmStatus, setLLMStatus] = useState<string | null>(null);
   const [apiKeyVisible, setApiKeyVisible] = useState(false);
   const [stats, setStats] = useState({ users: 0, lists: 0, unfollows: 0 });
   const [confirmClear, setConfirmClear] = useState(false);
   const [lastScan, setLastScan] = useState<string | null>(null);
   const [whitelist, setWhitelist] = useState<string[]>([]);
+  const [rescanMaxAge, setRescanMaxAge] = useState(30);
+  const [recategorizeAI, setRecategorizeAIState] = useState(false);
+  const [usageLedger, setUsageLedger] = useState<UsageLedger>({});
+  const [budget, setBudget] = useState("");
 
   useEffect(() => {
     loadSettings();
@@ -22,13 +59,17 @@ export default function Settings() {
 
   async function loadSettings() {
     const data = await chrome.storage.local.get([
-      "xsweep_claude_api_key",
       "xsweep_last_scan",
       "xsweep_whitelist",
     ]);
-    if (data.xsweep_claude_api_key) setApiKey(data.xsweep_claude_api_key);
+    setLLM(await loadLLMConfig());
     if (data.xsweep_last_scan) setLastScan(data.xsweep_last_scan);
     if (data.xsweep_whitelist) setWhitelist(data.xsweep_whitelist);
+    setRescanMaxAge(await getRescanMaxAgeDays());
+    setRecategorizeAIState(await getRecategorizeAI());
+    setUsageLedger(await loadUsageLedger());
+    const limit = await getMonthlyBudget();
+    setBudget(limit === null ? "" : String(limit));
 
     setStats({
       users: await getUserCount(),
@@ -37,8 +78,38 @@ export default function Settings() {
     });
   }
 
-  async function saveApiKey() {
-    await chrome.storage.local.set({ xsweep_claude_api_key: apiKey });
+  function changeProvider(provider: LLMProviderKind) {
+    // Keys and model names are provider-specific, so start from defaults
+    setLLM(defaultLLMConfig(provider));
+    setLLMStatus(null);
+  }
+
+  async function saveProvider() {
+    let origin: string;
+    try {
+      origin = new URL(llm.baseUrl).origin;
+    } catch {
+      setLLMStatus("Invalid base URL");
+      return;
+    }
+    // Custom and local endpoints need a host permission granted at runtime
+    if (!BUILTIN_LLM_ORIGINS.includes(origin)) {
+      const granted = await chrome.permissions.request({
+        origins: [`${origin}/*`],
+      });
+      if (!granted) {
+        setLLMStatus(`Permission to reach ${origin} was denied`);
+        return;
+      }
+    }
+    await saveLLMConfig(llm);
+    setLLMStatus("Saved");
+  }
+
+  async function saveBudget(value: string) {
+    setBudget(value);
+    const usd = parseFloat(value);
+    await setMonthlyBudget(usd > 0 ? usd : null);
   }
 
   async function handleExportCSV() {
@@ -56,13 +127,23 @@ export default function Settings() {
       setConfirmClear(true);
       return;
     }
+    // Stops a running batch and clears the queue and its alarm
+    await chrome.runtime
+      .sendMessage({ type: "CANCEL_UNFOLLOW_QUEUE" })
+      .catch(() => {
+        // Background worker unavailable; the key is removed below
+      });
     await clearAllData();
+    await clearUsageLedger();
     await chrome.storage.local.remove([
       "xsweep_follower_ids",
       "xsweep_following_count",
       "xsweep_follower_count",
       "xsweep_last_scan",
       "xsweep_whitelist",
+      "xsweep_scan_job",
+      "xsweep_unfollow_queue",
+      "xsweep_recategorize_pending",
     ]);
     setConfirmClear(false);
     await loadSettings();
@@ -72,26 +153,58 @@ export default function Settings() {
     <div className="p-4 space-y-4">
       <h2 className="text-sm font-semibold">Settings</h2>
 
-      {/* Claude API Key */}
+      {/* AI Provider */}
       <div className="bg-x-card rounded-xl p-4 space-y-2">
-        <h3 className="text-sm font-medium">Claude API Key (Pro)</h3>
+        <h3 className="text-sm font-medium">AI Provider (Pro)</h3>
         <p className="text-xs text-x-text-secondary">
-          Required for AI-powered smart lists. Get your API key from{" "}
-          <a
-            href="https://console.anthropic.com/"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-x-accent hover:underline"
-          >
-            console.anthropic.com
-          </a>
+          Used for AI smart lists and AI Review. Pick a local server to keep
+          account data on this machine.
         </p>
+        <select
+          value={llm.provider}
+          onChange={(e) => changeProvider(e.target.value as LLMProviderKind)}
+          className="w-full bg-x-bg border border-x-border rounded-lg px-3 py-2 text-sm text-x-text focus:border-x-accent focus:outline-none"
+        >
+          {(Object.keys(LLM_PROVIDERS) as LLMProviderKind[]).map((kind) => (
+            <option key={kind} value={kind}>
+              {LLM_PROVIDERS[kind].label}
+            </option>
+          ))}
+        </select>
+
+        {llm.provider === "anthropic" && (
+          <p className="text-[10px] text-x-text-secondary">
+            Get your API key from{" "}
+            <a
+              href="https://console.anthropic.com/"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-x-accent hover:underline"
+            >
+              console.anthropic.com
+            </a>
+          </p>
+        )}
+        {llm.provider === "local" && (
+          <p className="text-[10px] text-x-text-secondary">
+            For Ollama, start the server with{" "}
+            <code>OLLAMA_ORIGINS=chrome-extension://*</code> so the extension
+            can reach it. For llama.cpp, use http://localhost:8080/v1.
+          </p>
+        )}
+
         <div className="flex gap-2">
           <input
             type={apiKeyVisible ? "text" : "password"}
-            value={apiKey}
-            onChange={(e) => setApiKey(e.target.value)}
-            placeholder="sk-ant-..."
+            value={llm.apiKey}
+            onChange={(e) => setLLM({ ...llm, apiKey: e.target.value })}
+            placeholder={
+              LLM_PROVIDERS[llm.provider].requiresApiKey
+                ? llm.provider === "anthropic"
+                  ? "sk-ant-..."
+                  : "sk-..."
+                : "API key (optional)"
+            }
             className="flex-1 bg-x-bg border border-x-border rounded-lg px-3 py-2 text-sm text-x-text placeholder-x-text-secondary focus:border-x-accent focus:outline-none"
           />
           <button
@@ -101,12 +214,82 @@ export default function Settings() {
             {apiKeyVisible ? "Hide" : "Show"}
           </button>
         </div>
-        <button
-          onClick={saveApiKey}
-          className="px-4 py-1.5 bg-x-accent text-white rounded-full text-xs font-medium hover:bg-x-accent-hover transition-colors"
-        >
-          Save Key
-        </button>
+
+        {llm.provider !== "anthropic" && (
+          <label className="block text-[10px] text-x-text-secondary">
+            Base URL
+            <input
+              type="text"
+              value={llm.baseUrl}
+              onChange={(e) => setLLM({ ...llm, baseUrl: e.target.value })}
+              className="mt-0.5 w-full bg-x-bg border border-x-border rounded px-2 py-1 text-xs text-x-text focus:border-x-accent focus:outline-none"
+            />
+          </label>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block text-[10px] text-x-text-secondary">
+            Fast model (classification)
+            <input
+              type="text"
+              value={llm.models.fast}
+              onChange={(e) =>
+                setLLM({
+                  ...llm,
+                  models: { ...llm.models, fast: e.target.value },
+                })
+              }
+              className="mt-0.5 w-full bg-x-bg border border-x-border rounded px-2 py-1 text-xs text-x-text focus:border-x-accent focus:outline-none"
+            />
+          </label>
+          <label className="block text-[10px] text-x-text-secondary">
+            Smart model (taxonomy)
+            <input
+              type="text"
+              value={llm.models.smart}
+              onChange={(e) =>
+                setLLM({
+                  ...llm,
+                  models: { ...llm.models, smart: e.target.value },
+                })
+              }
+              className="mt-0.5 w-full bg-x-bg border border-x-border rounded px-2 py-1 text-xs text-x-text focus:border-x-accent focus:outline-none"
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={saveProvider}
+            className="px-4 py-1.5 bg-x-accent text-white rounded-full text-xs font-medium hover:bg-x-accent-hover transition-colors"
+          >
+            Save
+          </button>
+          {llmStatus && (
+            <span className="text-[10px] text-x-text-secondary">
+              {llmStatus}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* AI Usage */}
+      <div className="bg-x-card rounded-xl p-4 space-y-2">
+        <h3 className="text-sm font-medium">AI Usage</h3>
+        <UsageTable ledger={usageLedger} />
+        <label className="flex items-center justify-between gap-2 text-xs text-x-text-secondary">
+          <span>Monthly budget (blank = no limit)</span>
+          <span className="flex items-center gap-1">
+            $
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={budget}
+              onChange={(e) => saveBudget(e.target.value)}
+              className="w-16 bg-x-bg border border-x-border rounded px-2 py-1 text-xs text-x-text focus:border-x-accent focus:outline-none"
+            />
+          </span>
+        </label>
       </div>
 
       {/* Scan Info */}
@@ -128,6 +311,36 @@ export default function Settings() {
             "No scans yet. Run one from the Dashboard."
           )}
         </div>
+        <label className="flex items-center justify-between gap-2 text-xs text-x-text-secondary">
+          <span>Quick re-scan refreshes profiles older than</span>
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              min={1}
+              value={rescanMaxAge}
+              onChange={(e) => {
+                const days = Math.max(1, parseInt(e.target.value, 10) || 1);
+                setRescanMaxAge(days);
+                setRescanMaxAgeDays(days);
+              }}
+              className="w-14 bg-x-bg border border-x-border rounded px-2 py-1 text-xs text-x-text focus:border-x-accent focus:outline-none"
+            />
+            days
+          </span>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-x-text-secondary">
+          <input
+            type="checkbox"
+            checked={recategorizeAI}
+            onChange={(e) => {
+              setRecategorizeAIState(e.target.checked);
+              setRecategorizeAI(e.target.checked);
+            }}
+            className="accent-x-accent"
+          />
+          After a scan, also add accounts to AI lists from saved AI answers (no
+          new AI requests)
+        </label>
       </div>
 
       {/* Whitelist */}
@@ -232,3 +445,45 @@ export default function Settings() {
     </div>
   );
 }
+
+function UsageTable({ ledger }: { ledger: UsageLedger }) {
+  const month = ledger[monthKey()] ?? {};
+  const models = Object.entries(month);
+  const allTime = totalUsage(...Object.values(ledger));
+  const thisMonth = totalUsage(month);
+  const cost = (u: { cost: number; priced: boolean }) =>
+    formatCost(u.priced ? u.cost : null);
+
+  if (allTime.requests === 0) {
+    return (
+      <div className="text-xs text-x-text-secondary">No AI requests yet.</div>
+    );
+  }
+
+  return (
+    <div className="text-[10px] text-x-text-secondary space-y-1">
+      {models.map(([model, u]) => (
+        <div key={model} className="flex justify-between gap-2">
+          <span className="truncate">{model}</span>
+          <span className="shrink-0">
+            {formatCount(u.inputTokens)} in / {formatCount(u.outputTokens)} out
+            · {cost(u)}
+          </span>
+        </div>
+      ))}
+      <div className="flex justify-between gap-2 text-xs text-x-text">
+        <span>This month</span>
+        <span>
+          {thisMonth.requests.toLocaleString()} requests · {cost(thisMonth)}
+        </span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span>All time</span>
+        <span>
+          {formatCount(allTime.inputTokens + allTime.outputTokens)} tokens ·{" "}
+          {cost(allTime)}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,51 @@
 import { useEffect, useState } from "react";
-import { getAllUsers, logUnfollow, getUnfollowLog } from "../../../storage/db";
-import { getInactiveUsers } from "../../../core/relationships";
+import {
+  getScannedUsers,
+  getAllLists,
+  getAllPolicies,
+  createPolicy,
+  updatePolicy,
+  deletePolicy,
+  getUser,
+  logUnfollow,
+  getUnfollowLog,
+  markRefollowed,
+  upsertUsers,
+} from "../../../storage/db";
+import {
+  DEFAULT_PROTECTIONS,
+  INACTIVE_RULES,
+  INACTIVE_STATUSES,
+  POLICY_FIELDS,
+  describeRules,
+  evaluatePolicy,
+} from "../../../core/policies";
 import { exportUsersCSV } from "../../../utils/export";
-import { getTodayUnfollowCount, getDailyLimit } from "../../../core/unfollower";
-import type { UserProfile, UnfollowEntry } from "../../../core/types";
+import {
+  getTodayUnfollowCount,
+  getDailyLimit,
+  type UnfollowResult,
+} from "../../../core/unfollower";
+import {
+  bulkRefollow,
+  getRecentUnfollows,
+  stopRefollow,
+  UNDO_WINDOW_DAYS,
+  type FollowFn,
+} from "../../../core/refollow";
+import {
+  loadUnfollowQueue,
+  projectQueueFinish,
+  QUEUE_RUN_INTERVAL_MINUTES,
+  type UnfollowQueue,
+} from "../../../core/unfollow-queue";
+import type {
+  CleanupPolicy,
+  PolicyRule,
+  SmartList,
+  UserProfile,
+  UnfollowEntry,
+} from "../../../core/types";
 import type { NavigateFn, ShowToastFn } from "../App";
 
 interface Props {
@@ -12,12 +54,20 @@ interface Props {
 }
 
 export default function Unfollow({ navigateTo, showToast }: Props) {
-  const [inactive, setInactive] = useState<UserProfile[]>([]);
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [lists, setLists] = useState<SmartList[]>([]);
+  const [policies, setPolicies] = useState<CleanupPolicy[]>([]);
+  const [activePolicyId, setActivePolicyId] = useState<number | null>(null);
+  const [editingPolicy, setEditingPolicy] = useState<CleanupPolicy | null>(
+    null,
+  );
+  const [confirmDelete, setConfirmDelete] = useState(false);
   const [selected, setSelected] = useState<Set<string>>(new Set());
   const [unfollowing, setUnfollowing] = useState(false);
   const [dryRun, setDryRun] = useState(true);
   const [todayCount, setTodayCount] = useState(0);
   const [recentLog, setRecentLog] = useState<UnfollowEntry[]>([]);
+  const [queue, setQueue] = useState<UnfollowQueue | null>(null);
   const [whitelistInput, setWhitelistInput] = useState("");
   const [whitelist, setWhitelist] = useState<Set<string>>(new Set());
   const [protectMutuals, setProtectMutuals] = useState(true);
@@ -39,36 +89,73 @@ export default function Unfollow({ navigateTo, showToast }: Props) {
         setSelected(new Set());
         loadData();
       }
+      if (message.type === "UNFOLLOW_QUEUE_UPDATED") {
+        loadData();
+      }
     };
     chrome.runtime.onMessage.addListener(listener);
     return () => chrome.runtime.onMessage.removeListener(listener);
   }, []);
 
   async function loadData() {
-    const users = await getAllUsers();
-    let filteredInactive = getInactiveUsers(users, whitelist);
+    setUsers(await getScannedUsers());
+    setLists(await getAllLists());
+    setPolicies(await getAllPolicies());
+    setTodayCount(await getTodayUnfollowCount());
+    setRecentLog(await getUnfollowLog());
+    setQueue(await loadUnfollowQueue());
+  }
 
-    // Apply protection rules
-    if (protectMutuals) {
-      filteredInactive = filteredInactive.filter((u) => !u.isMutual);
-    }
-    if (protectVerified) {
-      filteredInactive = filteredInactive.filter((u) => !u.isVerified);
-    }
-    if (minFollowers > 0) {
-      filteredInactive = filteredInactive.filter(
-        (u) => u.followerCount < minFollowers,
-      );
-    }
+  // Without a saved policy, the toggles below protect the default inactive rule
+  const activePolicy = policies.find((p) => p.id === activePolicyId) ?? null;
+  const preview = evaluatePolicy(
+    users,
+    activePolicy ?? {
+      rules: INACTIVE_RULES,
+      protections: {
+        whitelist: true,
+        mutuals: protectMutuals,
+        verified: protectVerified,
+        minFollowers,
+      },
+    },
+    whitelist,
+  );
+  // Sort: most inactive first
+  const inactive = [...preview.matches].sort(
+    (a, b) => (b.daysSinceLastTweet ?? 9999) - (a.daysSinceLastTweet ?? 9999),
+  );
+  const listNames = new Map(lists.map((l) => [l.id!, l.name]));
 
-    // Sort: most inactive first
-    filteredInactive.sort(
-      (a, b) => (b.daysSinceLastTweet ?? 9999) - (a.daysSinceLastTweet ?? 9999),
-    );
+  function selectPolicy(id: number | null) {
+    setActivePolicyId(id);
+    setConfirmDelete(false);
+    setSelected(new Set());
+  }
 
-    setInactive(filteredInactive);
-    setTodayCount(await getTodayUnfollowCount());
-    setRecentLog(await getUnfollowLog());
+  async function savePolicy(policy: CleanupPolicy) {
+    const now = new Date().toISOString();
+    if (policy.id) {
+      await updatePolicy(policy.id, { ...policy, updatedAt: now });
+      selectPolicy(policy.id);
+    } else {
+      const id = await createPolicy({
+        ...policy,
+        createdAt: now,
+        updatedAt: now,
+      });
+      selectPolicy(id);
+    }
+    setEditingPolicy(null);
+    showToast(`Saved policy "${policy.name}"`);
+    await loadData();
+  }
+
+  async function removePolicy(policy: CleanupPolicy) {
+    await deletePolicy(policy.id!);
+    selectPolicy(null);
+    showToast(`Deleted policy "${policy.name}"`);
+    await loadData();
   }
 
   function toggleSelect(userId: string) {
@@ -89,24 +176,39 @@ export default function Unfollow({ navigateTo, showToast }: Props) {
   async function handleUnfollow() {
     if (selected.size === 0) return;
 
+    const toUnfollow = inactive.filter((u) => selected.has(u.userId));
+    // Live runs take what is left of today's limit; the rest is queued
+    const runNow = dryRun
+      ? toUnfollow
+      : toUnfollow.slice(0, Math.max(0, remaining));
+    const overflow = toUnfollow.slice(runNow.length);
+
+    if (runNow.length === 0) {
+      exportUsersCSV(toUnfollow, `xsweep_backup_before_unfollow.csv`);
+      await queueUnfollows(overflow);
+      return;
+    }
+
     // Verify active tab is x.com before proceeding
     const [tab] = await chrome.tabs.query({
       active: true,
       currentWindow: true,
     });
-    if (!tab?.url?.includes("x.com")) {
+    if (!tab?.id || !tab.url?.includes("x.com")) {
       showToast("Navigate to x.com first, then try again.");
       return;
     }
 
-    const count = selected.size;
+    const count = runNow.length;
     setUnfollowing(true);
 
     // Immediate feedback
     showToast(
       dryRun
         ? `Previewing ${count} accounts...`
-        : `Got it! Cleaning up ${count} accounts in the background.`,
+        : overflow.length > 0
+          ? `Got it! Cleaning up ${count} accounts now and queuing ${overflow.length} for the next days.`
+          : `Got it! Cleaning up ${count} accounts in the background.`,
     );
 
     // Broadcast start so App.tsx shows progress banner
@@ -118,27 +220,85 @@ export default function Unfollow({ navigateTo, showToast }: Props) {
       .catch(() => {});
 
     // Export backup first
-    const toUnfollow = inactive.filter((u) => selected.has(u.userId));
     exportUsersCSV(toUnfollow, `xsweep_backup_before_unfollow.csv`);
 
-    // Send unfollow command to content script
-    if (tab?.id) {
+    if (dryRun) {
+      // Send unfollow command to content script
       chrome.tabs.sendMessage(tab.id, {
         type: "START_UNFOLLOW",
-        userIds: [...selected],
+        userIds: runNow.map((u) => u.userId),
         dryRun,
       });
+
+      // Log the preview
+      for (const user of runNow) {
+        await logUnfollow({
+          userId: user.userId,
+          username: user.username,
+          date: new Date().toISOString(),
+          reason: "dry_run",
+        });
+      }
+      return;
     }
 
-    // Log the unfollows
-    for (const user of toUnfollow) {
+    const resp = await chrome.tabs
+      .sendMessage(tab.id, {
+        type: "START_UNFOLLOW",
+        userIds: runNow.map((u) => u.userId),
+        dryRun,
+      })
+      .catch(() => null);
+    if (!resp?.success) {
+      setUnfollowing(false);
+      showToast(`Failed: ${resp?.error || "Reload x.com and try again"}`);
+      return;
+    }
+
+    // Log the unfollows that went through
+    const done = new Set(
+      (resp.results as UnfollowResult[])
+        .filter((r) => r.success)
+        .map((r) => r.userId),
+    );
+    for (const user of runNow.filter((u) => done.has(u.userId))) {
       await logUnfollow({
         userId: user.userId,
         username: user.username,
         date: new Date().toISOString(),
-        reason: dryRun ? "dry_run" : user.status,
+        reason: unfollowReason(user),
       });
     }
+
+    if (overflow.length > 0) await queueUnfollows(overflow);
+    else await loadData();
+  }
+
+  function unfollowReason(user: UserProfile): string {
+    return activePolicy ? `policy:${activePolicy.name}` : user.status;
+  }
+
+  /**
+   * Unfollows past today's limit go to the background queue, which drains
+   * them over as many days as the daily limit requires.
+   */
+  async function queueUnfollows(users: UserProfile[]) {
+    const resp = await chrome.runtime.sendMessage({
+      type: "QUEUE_UNFOLLOWS",
+      users: users.map((u) => ({
+        userId: u.userId,
+        username: u.username,
+        reason: unfollowReason(u),
+      })),
+    });
+    if (!resp?.success) {
+      showToast(`Failed to queue: ${resp?.error || "Unknown error"}`);
+      return;
+    }
+
+    setSelected(new Set());
+    showToast(`Queued ${users.length} accounts for the next days.`);
+    await loadData();
   }
 
   async function addToWhitelist() {
@@ -157,7 +317,7 @@ export default function Unfollow({ navigateTo, showToast }: Props) {
   const dailyLimit = getDailyLimit();
   const remaining = dailyLimit - todayCount;
 
-  if (inactive.length === 0 && !unfollowing) {
+  if (users.length === 0 && !unfollowing) {
     return (
       <div className="flex flex-col items-center justify-center h-full gap-4 p-6">
         <div className="text-4xl">✨</div>
@@ -173,12 +333,85 @@ export default function Unfollow({ navigateTo, showToast }: Props) {
         >
           Go to Dashboard
         </button>
+        <div className="w-full">
+          <RecentlyUnfollowed
+            log={recentLog}
+            showToast={showToast}
+            onChange={loadData}
+          />
+        </div>
       </div>
     );
   }
 
   return (
     <div className="p-4 space-y-4">
+      {/* Cleanup Policy */}
+      <div className="bg-x-card rounded-xl p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold">Cleanup Policy</h3>
+          <button
+            onClick={() => setEditingPolicy(newPolicy())}
+            className="text-xs text-x-accent hover:text-x-accent-hover"
+          >
+            + New policy
+          </button>
+        </div>
+
+        <select
+          value={activePolicyId ?? ""}
+          onChange={(e) =>
+            selectPolicy(e.target.value ? Number(e.target.value) : null)
+          }
+          className="w-full bg-x-bg border border-x-border rounded px-2 py-1 text-sm text-x-text"
+        >
+          <option value="">Inactive accounts (default)</option>
+          {policies.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+
+        <div className="text-[10px] text-x-text-secondary">
+          {describeRules(activePolicy?.rules ?? INACTIVE_RULES, listNames)} ·{" "}
+          {inactive.length} match
+          {preview.protectedCount > 0 &&
+            ` · ${preview.protectedCount} protected`}
+        </div>
+
+        {activePolicy && !editingPolicy && (
+          <div className="flex gap-3">
+            <button
+              onClick={() => setEditingPolicy(activePolicy)}
+              className="text-xs text-x-accent hover:text-x-accent-hover"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() =>
+                confirmDelete
+                  ? removePolicy(activePolicy)
+                  : setConfirmDelete(true)
+              }
+              className="text-xs text-x-red hover:underline"
+            >
+              {confirmDelete ? "Confirm delete?" : "Delete"}
+            </button>
+          </div>
+        )}
+
+        {editingPolicy && (
+          <PolicyEditor
+            key={editingPolicy.id ?? "new"}
+            policy={editingPolicy}
+            lists={lists}
+            onSave={savePolicy}
+            onCancel={() => setEditingPolicy(null)}
+          />
+        )}
+      </div>
+
       {/* Safety Controls */}
       <div className="bg-x-card rounded-xl p-4 space-y-3">
         <h3 className="text-sm font-semibold">Safety Controls</h3>
@@ -193,44 +426,40 @@ export default function Unfollow({ navigateTo, showToast }: Props) {
           Dry run (preview only, no actual unfollows)
         </label>
 
-        <label className="flex items-center gap-2 text-sm">
-          <input
-            type="checkbox"
-            checked={protectMutuals}
-            onChange={(e) => {
-              setProtectMutuals(e.target.checked);
-              loadData();
-            }}
-            className="accent-x-accent"
-          />
-          Protect mutual follows
-        </label>
+        {/* A saved policy brings its own protections */}
+        {!activePolicy && (
+          <>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={protectMutuals}
+                onChange={(e) => setProtectMutuals(e.target.checked)}
+                className="accent-x-accent"
+              />
+              Protect mutual follows
+            </label>
 
-        <label className="flex items-center gap-2 text-sm">
-          <input
-            type="checkbox"
-            checked={protectVerified}
-            onChange={(e) => {
-              setProtectVerified(e.target.checked);
-              loadData();
-            }}
-            className="accent-x-accent"
-          />
-          Protect verified accounts
-        </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={protectVerified}
+                onChange={(e) => setProtectVerified(e.target.checked)}
+                className="accent-x-accent"
+              />
+              Protect verified accounts
+            </label>
 
-        <div className="flex items-center gap-2 text-sm">
-          <span>Min followers to protect:</span>
-          <input
-            type="number"
-            value={minFollowers}
-            onChange={(e) => {
-              setMinFollowers(parseInt(e.target.value) || 0);
-              loadData();
-            }}
-            className="w-20 bg-x-bg border border-x-border rounded px-2 py-1 text-sm text-x-text"
-          />
-        </div>
+            <div className="flex items-center gap-2 text-sm">
+              <span>Min followers to protect:</span>
+              <input
+                type="number"
+                value={minFollowers}
+                onChange={(e) => setMinFollowers(parseInt(e.target.value) || 0)}
+                className="w-20 bg-x-bg border border-x-border rounded px-2 py-1 text-sm text-x-text"
+              />
+            </div>
+          </>
+        )}
 
         {/* Whitelist */}
         <div>
@@ -277,6 +506,15 @@ export default function Unfollow({ navigateTo, showToast }: Props) {
         </span>
       </div>
 
+      {/* Scheduled Queue */}
+      {queue && (
+        <UnfollowQueueCard
+          queue={queue}
+          todayCount={todayCount}
+          dailyLimit={dailyLimit}
+        />
+      )}
+
       {/* Select + Actions */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
@@ -293,7 +531,9 @@ export default function Unfollow({ navigateTo, showToast }: Props) {
 
         <button
           onClick={handleUnfollow}
-          disabled={selected.size === 0 || unfollowing || remaining <= 0}
+          disabled={
+            selected.size === 0 || unfollowing || (dryRun && remaining <= 0)
+          }
           className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
             dryRun
               ? "bg-x-yellow/20 text-x-yellow hover:bg-x-yellow/30"
@@ -354,21 +594,554 @@ export default function Unfollow({ navigateTo, showToast }: Props) {
         )}
       </div>
 
-      {/* Recent Unfollow Log */}
-      {recentLog.length > 0 && (
-        <div className="bg-x-card rounded-xl p-3">
-          <h4 className="text-xs font-semibold mb-2">Recent Activity</h4>
-          <div className="space-y-1">
-            {recentLog.slice(0, 5).map((entry) => (
-              <div key={entry.id} className="text-[10px] text-x-text-secondary">
-                Unfollowed @{entry.username} -{" "}
-                {new Date(entry.date).toLocaleDateString()}
-                {entry.reason === "dry_run" && " (dry run)"}
-              </div>
-            ))}
+      {/* Recently Unfollowed (undo) */}
+      <RecentlyUnfollowed
+        log={recentLog}
+        showToast={showToast}
+        onChange={loadData}
+      />
+    </div>
+  );
+}
+
+function newPolicy(): CleanupPolicy {
+  return {
+    name: "",
+    rules: [
+      { field: "daysSinceLastTweet", op: "gt", value: 365 },
+      { field: "isMutual", op: "eq", value: false },
+    ],
+    protections: { ...DEFAULT_PROTECTIONS },
+    createdAt: "",
+    updatedAt: "",
+  };
+}
+
+const OPS_BY_KIND: Record<
+  string,
+  Array<{ op: PolicyRule["op"]; label: string }>
+> = {
+  number: [
+    { op: "gt", label: ">" },
+    { op: "gte", label: "≥" },
+    { op: "lt", label: "<" },
+    { op: "lte", label: "≤" },
+    { op: "eq", label: "=" },
+  ],
+  boolean: [{ op: "eq", label: "is" }],
+  status: [
+    { op: "in", label: "is" },
+    { op: "not_in", label: "is not" },
+  ],
+  list: [
+    { op: "contains", label: "on" },
+    { op: "not_contains", label: "not on" },
+  ],
+};
+
+function defaultRule(
+  field: PolicyRule["field"],
+  lists: SmartList[],
+): PolicyRule {
+  const kind = POLICY_FIELDS.find((f) => f.field === field)?.kind;
+  if (kind === "boolean") return { field, op: "eq", value: false };
+  if (kind === "status") return { field, op: "in", value: ["inactive"] };
+  if (kind === "list") {
+    return {
+      field,
+      op: "not_contains",
+      value: lists[0]?.id ? [lists[0].id] : [],
+    };
+  }
+  return { field, op: "gt", value: 0 };
+}
+
+function PolicyEditor({
+  policy,
+  lists,
+  onSave,
+  onCancel,
+}: {
+  policy: CleanupPolicy;
+  lists: SmartList[];
+  onSave: (policy: CleanupPolicy) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<CleanupPolicy>(policy);
+  const inputClass =
+    "bg-x-bg border border-x-border rounded px-1.5 py-0.5 text-xs text-x-text";
+
+  function setRule(index: number, rule: PolicyRule) {
+    setDraft({
+      ...draft,
+      rules: draft.rules.map((r, i) => (i === index ? rule : r)),
+    });
+  }
+
+  function renderValue(rule: PolicyRule, index: number) {
+    const kind = POLICY_FIELDS.find((f) => f.field === rule.field)?.kind;
+    if (kind === "boolean") {
+      return (
+        <select
+          value={rule.value ? "yes" : "no"}
+          onChange={(e) =>
+            setRule(index, { ...rule, value: e.target.value === "yes" })
+          }
+          className={inputClass}
+        >
+          <option value="yes">yes</option>
+          <option value="no">no</option>
+        </select>
+      );
+    }
+    if (kind === "status") {
+      const values = rule.value as string[];
+      return (
+        <div className="flex flex-wrap gap-1">
+          {[...INACTIVE_STATUSES, "active", "error"].map((status) => (
+            <label
+              key={status}
+              className="flex items-center gap-0.5 text-[10px]"
+            >
+              <input
+                type="checkbox"
+                checked={values.includes(status)}
+                onChange={(e) =>
+                  setRule(index, {
+                    ...rule,
+                    value: e.target.checked
+                      ? [...values, status]
+                      : values.filter((v) => v !== status),
+                  })
+                }
+                className="accent-x-accent"
+              />
+              {status}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    if (kind === "list") {
+      return (
+        <select
+          value={String((rule.value as number[])[0] ?? "")}
+          onChange={(e) =>
+            setRule(index, { ...rule, value: [Number(e.target.value)] })
+          }
+          className={inputClass}
+        >
+          {lists.length === 0 && <option value="">No lists</option>}
+          {lists.map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        type="number"
+        value={rule.value as number}
+        onChange={(e) =>
+          setRule(index, { ...rule, value: parseFloat(e.target.value) || 0 })
+        }
+        className={`${inputClass} w-16`}
+      />
+    );
+  }
+
+  return (
+    <div className="border-t border-x-border pt-3 space-y-2">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Policy name"
+        className="w-full bg-x-bg border border-x-border rounded px-2 py-1 text-sm text-x-text"
+      />
+
+      <div className="text-[10px] text-x-text-secondary">
+        Match accounts where all of these hold:
+      </div>
+      {draft.rules.map((rule, i) => {
+        const kind =
+          POLICY_FIELDS.find((f) => f.field === rule.field)?.kind ?? "number";
+        return (
+          <div key={i} className="flex flex-wrap items-center gap-1">
+            <select
+              value={rule.field}
+              onChange={(e) =>
+                setRule(
+                  i,
+                  defaultRule(e.target.value as PolicyRule["field"], lists),
+                )
+              }
+              className={inputClass}
+            >
+              {POLICY_FIELDS.map((f) => (
+                <option key={f.field} value={f.field}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={rule.op}
+              onChange={(e) =>
+                setRule(i, { ...rule, op: e.target.value as PolicyRule["op"] })
+              }
+              className={inputClass}
+            >
+              {OPS_BY_KIND[kind].map((o) => (
+                <option key={o.op} value={o.op}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            {renderValue(rule, i)}
+            <button
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  rules: draft.rules.filter((_, j) => j !== i),
+                })
+              }
+              className="text-xs text-x-text-secondary hover:text-x-red"
+            >
+              ✕
+            </button>
           </div>
+        );
+      })}
+      <button
+        onClick={() =>
+          setDraft({
+            ...draft,
+            rules: [...draft.rules, defaultRule("followerCount", lists)],
+          })
+        }
+        className="text-xs text-x-accent hover:text-x-accent-hover"
+      >
+        + Add rule
+      </button>
+
+      <div className="text-[10px] text-x-text-secondary pt-1">
+        Always protect:
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs">
+        {(
+          [
+            ["whitelist", "Whitelist"],
+            ["mutuals", "Mutuals"],
+            ["verified", "Verified"],
+          ] as const
+        ).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={draft.protections[key]}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  protections: {
+                    ...draft.protections,
+                    [key]: e.target.checked,
+                  },
+                })
+              }
+              className="accent-x-accent"
+            />
+            {label}
+          </label>
+        ))}
+        <label className="flex items-center gap-1">
+          ≥
+          <input
+            type="number"
+            value={draft.protections.minFollowers}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                protections: {
+                  ...draft.protections,
+                  minFollowers: parseInt(e.target.value) || 0,
+                },
+              })
+            }
+            className={`${inputClass} w-16`}
+          />
+          followers
+        </label>
+      </div>
+
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!draft.name.trim()}
+          className="px-3 py-1 bg-x-accent text-white rounded-full text-xs font-medium hover:bg-x-accent-hover disabled:opacity-50"
+        >
+          Save policy
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 bg-x-border text-x-text rounded-full text-xs hover:bg-x-card"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function UnfollowQueueCard({
+  queue,
+  todayCount,
+  dailyLimit,
+}: {
+  queue: UnfollowQueue;
+  todayCount: number;
+  dailyLimit: number;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const remaining = queue.entries.length;
+  const finish = projectQueueFinish(remaining, dailyLimit, todayCount);
+  const shown = showAll ? queue.entries : queue.entries.slice(0, 5);
+
+  function send(
+    type:
+      | "PAUSE_UNFOLLOW_QUEUE"
+      | "RESUME_UNFOLLOW_QUEUE"
+      | "CANCEL_UNFOLLOW_QUEUE",
+  ) {
+    chrome.runtime.sendMessage({ type }).catch(() => {});
+  }
+
+  return (
+    <div className="bg-x-card rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold">
+          Unfollow queue {queue.paused && "(paused)"}
+        </h4>
+        <div className="flex gap-3">
+          <button
+            onClick={() =>
+              send(
+                queue.paused ? "RESUME_UNFOLLOW_QUEUE" : "PAUSE_UNFOLLOW_QUEUE",
+              )
+            }
+            className="text-xs text-x-accent hover:text-x-accent-hover"
+          >
+            {queue.paused ? "Resume" : "Pause"}
+          </button>
+          <button
+            onClick={() => {
+              if (confirmCancel) send("CANCEL_UNFOLLOW_QUEUE");
+              setConfirmCancel(!confirmCancel);
+            }}
+            className="text-xs text-x-red hover:underline"
+          >
+            {confirmCancel ? `Drop ${remaining}?` : "Cancel"}
+          </button>
         </div>
-      )}
+      </div>
+      <div className="text-[10px] text-x-text-secondary">
+        {remaining} remaining · {queue.done} done
+        {queue.failed > 0 && ` · ${queue.failed} failed`} · finishes{" "}
+        {finish.toLocaleDateString()}
+      </div>
+      <div className="text-[10px] text-x-text-secondary">
+        Runs every {QUEUE_RUN_INTERVAL_MINUTES} minutes while an x.com tab is
+        open.
+      </div>
+      <div className="space-y-0.5">
+        {shown.map((entry) => (
+          <div key={entry.userId} className="text-[10px] text-x-text-secondary">
+            @{entry.username} · {entry.reason}
+          </div>
+        ))}
+        {remaining > 5 && (
+          <button
+            onClick={() => setShowAll(!showAll)}
+            className="text-[10px] text-x-accent hover:text-x-accent-hover"
+          >
+            {showAll ? "Show less" : `Show all ${remaining}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Send FOLLOW_USER to the content script in the given tab.
+ */
+function followViaTab(tabId: number): FollowFn {
+  return (userId) =>
+    new Promise((resolve) => {
+      chrome.tabs.sendMessage(
+        tabId,
+        { type: "FOLLOW_USER", userId },
+        (response: { success: boolean; error?: string } | undefined) => {
+          if (chrome.runtime.lastError || !response) {
+            resolve({
+              success: false,
+              error:
+                chrome.runtime.lastError?.message ||
+                "No response from content script",
+            });
+            return;
+          }
+          resolve(response);
+        },
+      );
+    });
+}
+
+function RecentlyUnfollowed({
+  log,
+  showToast,
+  onChange,
+}: {
+  log: UnfollowEntry[];
+  showToast: ShowToastFn;
+  onChange: () => void;
+}) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+    current: string;
+  } | null>(null);
+
+  const recent = getRecentUnfollows(log);
+  if (recent.length === 0) return null;
+
+  function toggleSelect(userId: string) {
+    const next = new Set(selected);
+    if (next.has(userId)) next.delete(userId);
+    else next.add(userId);
+    setSelected(next);
+  }
+
+  async function refollow(entries: UnfollowEntry[]) {
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    if (!tab?.id || !tab.url?.includes("x.com")) {
+      showToast("Navigate to x.com first, then try again.");
+      return;
+    }
+
+    const follow = followViaTab(tab.id);
+    setProgress({ done: 0, total: entries.length, current: "" });
+
+    const results = await bulkRefollow(
+      entries,
+      async (userId) => {
+        const result = await follow(userId);
+        if (result.success) {
+          // Mark every log entry for this account so it leaves the view
+          await markRefollowed(
+            log.filter((e) => e.userId === userId).map((e) => e.id!),
+          );
+          const user = await getUser(userId);
+          if (user) {
+            await upsertUsers([
+              { ...user, isFollowing: true, isMutual: user.isFollower },
+            ]);
+          }
+        }
+        return result;
+      },
+      {},
+      (done, total, current) => setProgress({ done, total, current }),
+    );
+
+    setProgress(null);
+    setSelected(new Set());
+    onChange();
+
+    const ok = results.filter((r) => r.success).length;
+    const failed = results.find((r) => !r.success);
+    if (results.length === 0) {
+      showToast("Daily re-follow limit reached. Try again tomorrow.");
+    } else if (failed?.error?.includes("429")) {
+      showToast("Rate limited — wait a few minutes before following more");
+    } else if (failed) {
+      showToast(`Re-followed ${ok}/${results.length}. Failed: ${failed.error}`);
+    } else {
+      showToast(
+        ok === 1 ? `Re-followed @${results[0].username}` : `Re-followed ${ok}`,
+      );
+    }
+  }
+
+  const selectedEntries = recent.filter((e) => selected.has(e.userId));
+
+  return (
+    <div className="bg-x-card rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold">
+          Recently unfollowed ({recent.length})
+        </h4>
+        {progress ? (
+          <button
+            onClick={stopRefollow}
+            className="text-xs text-x-red hover:underline"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={() => refollow(selectedEntries)}
+            disabled={selectedEntries.length === 0}
+            className="text-xs text-x-accent hover:text-x-accent-hover disabled:opacity-50"
+          >
+            Re-follow selected ({selectedEntries.length})
+          </button>
+        )}
+      </div>
+      <div className="text-[10px] text-x-text-secondary">
+        {progress
+          ? `Re-following ${progress.done}/${progress.total}${progress.current ? ` · @${progress.current}` : ""}. Keep this panel open.`
+          : `Unfollows from the last ${UNDO_WINDOW_DAYS} days. Re-follows are spaced 30–60s apart.`}
+      </div>
+      <div className="space-y-1 max-h-60 overflow-y-auto">
+        {recent.map((entry) => (
+          <div key={entry.id} className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={selected.has(entry.userId)}
+              onChange={() => toggleSelect(entry.userId)}
+              disabled={!!progress}
+              className="accent-x-accent flex-shrink-0"
+            />
+            <div className="flex-1 min-w-0">
+              <a
+                href={`https://x.com/${entry.username}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-x-accent hover:underline truncate block"
+              >
+                @{entry.username}
+              </a>
+              <div className="text-[10px] text-x-text-secondary">
+                {new Date(entry.date).toLocaleDateString()} · {entry.reason}
+              </div>
+            </div>
+            <button
+              onClick={() => refollow([entry])}
+              disabled={!!progress}
+              className="px-2 py-0.5 bg-x-border rounded text-[10px] hover:bg-x-bg disabled:opacity-50"
+            >
+              Re-follow
+            </button>
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
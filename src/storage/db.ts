@@ -5,17 +5,25 @@
 
 import Dexie, { type Table } from "dexie";
 import type {
+  ClassificationCacheEntry,
+  CleanupPolicy,
   UserProfile,
   SmartList,
   Snapshot,
   UnfollowEntry,
 } from "../core/types";
+import type { ClassificationCache } from "../core/classification";
+import type { XListMember } from "../core/lists-api";
+import type { ReviewSession, ReviewSessionStore } from "../core/reviewer";
 
 class XSweepDB extends Dexie {
   users!: Table<UserProfile>;
   snapshots!: Table<Snapshot>;
   lists!: Table<SmartList>;
   unfollowLog!: Table<UnfollowEntry>;
+  policies!: Table<CleanupPolicy>;
+  classifications!: Table<ClassificationCacheEntry>;
+  reviewSessions!: Table<ReviewSession>;
 
   constructor(name = "xsweep") {
     super(name);
@@ -31,6 +39,15 @@ class XSweepDB extends Dexie {
       lists: "++id, name, type, xListId",
       unfollowLog: "++id, userId, date",
     });
+    this.version(3).stores({
+      policies: "++id, name",
+    });
+    this.version(4).stores({
+      classifications: "key",
+    });
+    this.version(5).stores({
+      reviewSessions: "id, createdAt",
+    });
   }
 }
 
@@ -77,6 +94,14 @@ export async function getAllUsers(): Promise<UserProfile[]> {
   return db.users.toArray();
 }
 
+/**
+ * Users with profile data from a scan, leaving out list members stored as
+ * stubs.
+ */
+export async function getScannedUsers(): Promise<UserProfile[]> {
+  return db.users.filter((u) => !u.isStub).toArray();
+}
+
 export async function getUsersByStatus(status: string): Promise<UserProfile[]> {
   return db.users.where("status").equals(status).toArray();
 }
@@ -85,6 +110,12 @@ export async function getUserCount(): Promise<number> {
   return db.users.count();
 }
 
+export async function getUser(
+  userId: string,
+): Promise<UserProfile | undefined> {
+  return db.users.get(userId);
+}
+
 export async function deleteUser(userId: string): Promise<void> {
   await db.users.delete(userId);
 }
@@ -100,10 +131,134 @@ export async function updateUserListIds(
   await db.users.update(userId, { listIds });
 }
 
+/**
+ * Store profiles from a scan. A scan knows nothing about lists, so stored
+ * users keep their listIds. Returns the IDs of users that are new or whose
+ * profile text changed.
+ */
+export async function storeScannedUsers(
+  users: UserProfile[],
+): Promise<string[]> {
+  return db.transaction("rw", db.users, async () => {
+    const stored = await db.users.bulkGet(users.map((u) => u.userId));
+    const changed: string[] = [];
+    const merged = users.map((user, i) => {
+      const prev = stored[i];
+      if (!prev || profileTextChanged(prev, user)) changed.push(user.userId);
+      return prev ? { ...user, listIds: prev.listIds } : user;
+    });
+    await db.users.bulkPut(merged);
+    return changed;
+  });
+}
+
+function profileTextChanged(before: UserProfile, after: UserProfile): boolean {
+  return (
+    before.username !== after.username ||
+    before.displayName !== after.displayName ||
+    before.bio !== after.bio ||
+    before.location !== after.location ||
+    before.url !== after.url
+  );
+}
+
+/**
+ * Add a list to each user's listIds. Unknown user IDs are skipped.
+ */
+export async function addUsersToList(
+  listId: number,
+  userIds: string[],
+): Promise<void> {
+  await db.transaction("rw", db.users, async () => {
+    const users = await db.users.bulkGet(userIds);
+    for (const user of users) {
+      if (!user || user.listIds.includes(listId)) continue;
+      await db.users.update(user.userId, {
+        listIds: [...user.listIds, listId],
+      });
+    }
+  });
+}
+
+/**
+ * Remove a list from each user's listIds.
+ */
+export async function removeUsersFromList(
+  listId: number,
+  userIds: string[],
+): Promise<void> {
+  await db.transaction("rw", db.users, async () => {
+    const users = await db.users.bulkGet(userIds);
+    for (const user of users) {
+      if (!user || !user.listIds.includes(listId)) continue;
+      await db.users.update(user.userId, {
+        listIds: user.listIds.filter((id) => id !== listId),
+      });
+    }
+  });
+}
+
+/**
+ * Add X list members to a list. Members not in the DB yet get a stub
+ * profile: no counts or activity, and a scannedAt that any scan treats as
+ * stale, so the next one that sees them fills it in.
+ */
+export async function addListMembers(
+  listId: number,
+  members: XListMember[],
+): Promise<void> {
+  await db.transaction("rw", db.users, async () => {
+    const users = await db.users.bulkGet(members.map((m) => m.userId));
+    const created: UserProfile[] = [];
+    for (let i = 0; i < members.length; i++) {
+      const user = users[i];
+      if (!user) {
+        created.push(memberProfile(members[i], listId));
+      } else if (!user.listIds.includes(listId)) {
+        await db.users.update(user.userId, {
+          listIds: [...user.listIds, listId],
+        });
+      }
+    }
+    await db.users.bulkPut(created);
+  });
+}
+
+function memberProfile(member: XListMember, listId: number): UserProfile {
+  return {
+    userId: member.userId,
+    username: member.username,
+    displayName: member.displayName,
+    bio: "",
+    location: "",
+    url: "",
+    createdAt: "",
+    followerCount: 0,
+    followingCount: 0,
+    tweetCount: 0,
+    lastTweetDate: null,
+    daysSinceLastTweet: null,
+    status: "active",
+    isFollowing: false,
+    isFollower: false,
+    isMutual: false,
+    isVerified: false,
+    isBlueVerified: false,
+    listIds: [listId],
+    scannedAt: "",
+    profileImageUrl: member.profileImageUrl,
+    isStub: true,
+  };
+}
+
 export async function getUsersByListId(listId: number): Promise<UserProfile[]> {
   return db.users.where("listIds").equals(listId).toArray();
 }
 
+export async function countUsersByListId(listId: number): Promise<number> {
+  return db.users.where("listIds").equals(listId).count();
+}
+
 // ---- Smart List operations ----
 
 export async function createList(list: Omit<SmartList, "id">): Promise<number> {
@@ -171,10 +326,101 @@ export async function getUnfollowLog(): Promise<UnfollowEntry[]> {
   return db.unfollowLog.orderBy("date").reverse().toArray();
 }
 
+export async function markRefollowed(
+  ids: number[],
+  date: string = new Date().toISOString(),
+): Promise<void> {
+  await db.unfollowLog.where("id").anyOf(ids).modify({ refollowedAt: date });
+}
+
 export async function getUnfollowCount(): Promise<number> {
   return db.unfollowLog.count();
 }
 
+// ---- Cleanup policies ----
+
+export async function createPolicy(
+  policy: Omit<CleanupPolicy, "id">,
+): Promise<number> {
+  return db.policies.add(policy as CleanupPolicy) as Promise<number>;
+}
+
+export async function getAllPolicies(): Promise<CleanupPolicy[]> {
+  return db.policies.toArray();
+}
+
+export async function updatePolicy(
+  id: number,
+  updates: Partial<CleanupPolicy>,
+): Promise<void> {
+  await db.policies.update(id, updates);
+}
+
+export async function deletePolicy(id: number): Promise<void> {
+  await db.policies.delete(id);
+}
+
+// ---- AI classification cache ----
+
+export async function getClassifications(
+  keys: string[],
+): Promise<ClassificationCacheEntry[]> {
+  const entries = await db.classifications.bulkGet(keys);
+  return entries.filter((e): e is ClassificationCacheEntry => e !== undefined);
+}
+
+export async function putClassifications(
+  entries: ClassificationCacheEntry[],
+): Promise<void> {
+  await db.classifications.bulkPut(entries);
+}
+
+export const classificationCache: ClassificationCache = {
+  get: getClassifications,
+  put: putClassifications,
+};
+
+// ---- AI review sessions ----
+
+// Earlier versions kept a single session in chrome.storage.local
+const LEGACY_REVIEW_SESSION_KEY = "xsweep_review_session";
+
+export async function saveReviewSession(session: ReviewSession): Promise<void> {
+  await db.reviewSessions.put(session);
+}
+
+export async function getReviewSession(
+  id: string,
+): Promise<ReviewSession | undefined> {
+  return db.reviewSessions.get(id);
+}
+
+/** Newest first. */
+export async function getAllReviewSessions(): Promise<ReviewSession[]> {
+  return db.reviewSessions.orderBy("createdAt").reverse().toArray();
+}
+
+export async function deleteReviewSession(id: string): Promise<void> {
+  await db.reviewSessions.delete(id);
+}
+
+/**
+ * Move a session saved by an earlier version into the sessions table.
+ */
+export async function importLegacyReviewSession(): Promise<void> {
+  const data = await chrome.storage.local.get(LEGACY_REVIEW_SESSION_KEY);
+  const legacy = data[LEGACY_REVIEW_SESSION_KEY] as ReviewSession | undefined;
+  if (!legacy) return;
+  if (!(await db.reviewSessions.get(legacy.id))) {
+    await db.reviewSessions.put(legacy);
+  }
+  await chrome.storage.local.remove(LEGACY_REVIEW_SESSION_KEY);
+}
+
+export const reviewSessionStore: ReviewSessionStore = {
+  save: saveReviewSession,
+};
+
 // ---- Bulk operations ----
 
 export async function clearAllData(): Promise<void> {
@@ -182,6 +428,9 @@ export async function clearAllData(): Promise<void> {
   await db.snapshots.clear();
   await db.lists.clear();
   await db.unfollowLog.clear();
+  await db.policies.clear();
+  await db.classifications.clear();
+  await db.reviewSessions.clear();
 }
 
 // ---- Test helpers ----
@@ -3,6 +3,7 @@
  */
 
 import type { UserProfile } from "../core/types";
+import type { SnapshotDiff } from "../core/snapshots";
 
 function sanitizeCSVField(value: string): string {
   let safe = value.replace(/"/g, '""').replace(/\n/g, " ");
@@ -86,3 +87,43 @@ export function exportUsersJSON(users: UserProfile[], filename?: string): void {
     "application/json",
   );
 }
+
+export function exportFollowChangesCSV(
+  diff: SnapshotDiff,
+  users: UserProfile[],
+  filename?: string,
+): void {
+  const byId = new Map(users.map((u) => [u.userId, u]));
+  const headers = [
+    "change",
+    "user_id",
+    "username",
+    "display_name",
+    "follower_count",
+    "is_following",
+  ];
+
+  const sections: Array<[string, string[]]> = [
+    ["unfollowed_you", diff.lostFollowers],
+    ["new_follower", diff.newFollowers],
+    ["you_followed", diff.newFollowing],
+  ];
+
+  const rows = sections.flatMap(([change, ids]) =>
+    ids.map((id) => {
+      const u = byId.get(id);
+      return [
+        change,
+        id,
+        sanitizeCSVField(u?.username || ""),
+        sanitizeCSVField(u?.displayName || ""),
+        u ? u.followerCount : "",
+        u ? (u.isFollowing ? "yes" : "no") : "",
+      ].join(",");
+    }),
+  );
+
+  const csv = [headers.join(","), ...rows].join("\n");
+  const date = diff.to.split("T")[0];
+  downloadFile(csv, filename || `xsweep_changes_${date}.csv`, "text/csv");
+}
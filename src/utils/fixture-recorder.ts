@@ -0,0 +1,206 @@
+/**
+ * Fixture recorder for X API responses (development builds only).
+ * Wraps fetch in the content script, captures i/api/1.1 responses and
+ * strips anything identifying so they can be committed as test fixtures
+ * and replayed by the mock X API in tests/helpers/mock-x-api.ts.
+ */
+
+import { endpointKey } from "./request-scheduler";
+
+export interface XApiFixture {
+  method: string;
+  endpoint: string; // e.g. "friends/ids.json"
+  params: Record<string, string>;
+  status: number;
+  headers: Record<string, string>; // only x-rate-limit-*
+  body: unknown;
+}
+
+const API_PREFIX = "https://x.com/i/api/1.1/";
+const FAKE_ID_BASE = 1_000_000;
+const DEFAULT_IMAGE =
+  "https://abs.twimg.com/sticky/default_profile_images/default_profile_normal.png";
+
+// Keys whose values are user/list/tweet IDs (string or number)
+const ID_KEYS = new Set(["id", "id_str", "user_id", "list_id"]);
+// Keys holding arrays of IDs
+const ID_LIST_KEYS = new Set(["ids"]);
+// Free text that can identify a person
+const TEXT_KEYS: Record<string, (n: number) => string> = {
+  screen_name: (n) => `user_${n}`,
+  name: (n) => `Name ${n}`,
+  description: (n) => `Description ${n}`,
+  text: () => "Sample tweet",
+  full_text: () => "Sample tweet",
+  location: () => "",
+};
+const URL_KEYS = new Set(["url", "expanded_url", "display_url"]);
+const IMAGE_KEYS = new Set([
+  "profile_image_url",
+  "profile_image_url_https",
+  "profile_banner_url",
+]);
+// Dropped entirely: nested entities carry original URLs and mentions
+const DROP_KEYS = new Set(["entities", "email", "phone"]);
+
+export interface FixtureSanitizer {
+  sanitize<T>(value: T): T;
+  sanitizeParams(params: URLSearchParams): Record<string, string>;
+}
+
+/**
+ * Create a sanitizer with a shared ID map, so one account keeps the same
+ * fake ID across every fixture in a recording and relationships still line up.
+ */
+export function createFixtureSanitizer(): FixtureSanitizer {
+  const idMap = new Map<string, string>();
+  let counter = 0;
+
+  const fakeId = (real: string): string => {
+    let fake = idMap.get(real);
+    if (!fake) {
+      fake = String(FAKE_ID_BASE + idMap.size + 1);
+      idMap.set(real, fake);
+    }
+    return fake;
+  };
+
+  const walk = (value: unknown, key?: string): unknown => {
+    if (Array.isArray(value)) {
+      if (key && ID_LIST_KEYS.has(key)) {
+        return value.map((v) =>
+          typeof v === "number" ? Number(fakeId(String(v))) : fakeId(String(v)),
+        );
+      }
+      return value.map((v) => walk(v));
+    }
+    if (value && typeof value === "object") {
+      const out: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(value)) {
+        if (DROP_KEYS.has(k)) continue;
+        out[k] = walk(v, k);
+      }
+      return out;
+    }
+    if (!key || value === null || value === undefined) return value;
+
+    if (ID_KEYS.has(key)) {
+      return typeof value === "number"
+        ? Number(fakeId(String(value)))
+        : fakeId(String(value));
+    }
+    if (typeof value !== "string") return value;
+    if (key in TEXT_KEYS) return value ? TEXT_KEYS[key](++counter) : value;
+    if (URL_KEYS.has(key)) return value ? "https://example.com" : value;
+    if (IMAGE_KEYS.has(key)) return value ? DEFAULT_IMAGE : value;
+    return value;
+  };
+
+  return {
+    sanitize: <T>(value: T) => walk(value) as T,
+    sanitizeParams(params) {
+      const out: Record<string, string> = {};
+      for (const [k, v] of params) {
+        out[k] = ID_KEYS.has(k)
+          ? v.split(",").map(fakeId).join(",")
+          : k === "screen_name"
+            ? "user"
+            : v;
+      }
+      return out;
+    },
+  };
+}
+
+/**
+ * Build a sanitized fixture from a request and its response.
+ */
+export async function toFixture(
+  sanitizer: FixtureSanitizer,
+  url: string,
+  init: RequestInit,
+  resp: Response,
+): Promise<XApiFixture> {
+  const parsed = new URL(url);
+  const params = new URLSearchParams(parsed.search);
+  if (init.body instanceof URLSearchParams || typeof init.body === "string") {
+    for (const [k, v] of new URLSearchParams(init.body)) params.set(k, v);
+  }
+
+  const headers: Record<string, string> = {};
+  resp.headers?.forEach((value, name) => {
+    if (name.startsWith("x-rate-limit-")) headers[name] = value;
+  });
+
+  const text = await resp.text();
+  let body: unknown = text;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Keep non-JSON bodies as raw text
+  }
+
+  return {
+    method: (init.method || "GET").toUpperCase(),
+    endpoint: endpointKey(url),
+    params: sanitizer.sanitizeParams(params),
+    status: resp.status,
+    headers,
+    body: sanitizer.sanitize(body),
+  };
+}
+
+export interface FixtureRecorder {
+  fixtures: XApiFixture[];
+  download(filename?: string): void;
+  clear(): void;
+  stop(): void;
+}
+
+/**
+ * Wrap globalThis.fetch and record every X API response.
+ * Exposed as `xsweepFixtures` in the content script's DevTools console.
+ */
+export function installFixtureRecorder(): FixtureRecorder {
+  const originalFetch = globalThis.fetch;
+  const sanitizer = createFixtureSanitizer();
+  const fixtures: XApiFixture[] = [];
+
+  globalThis.fetch = async (input, init = {}) => {
+    const resp = await originalFetch(input, init);
+    const url = typeof input === "string" ? input : String(input);
+    if (url.startsWith(API_PREFIX)) {
+      try {
+        fixtures.push(await toFixture(sanitizer, url, init, resp.clone()));
+      } catch (e) {
+        console.error("[XSweep] Fixture recording failed:", e);
+      }
+    }
+    return resp;
+  };
+
+  const recorder: FixtureRecorder = {
+    fixtures,
+    download(filename = "x-api-fixtures.json") {
+      const blob = new Blob([JSON.stringify(fixtures, null, 2)], {
+        type: "application/json",
+      });
+      const a = document.createElement("a");
+      a.href = URL.createObjectURL(blob);
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(a.href);
+    },
+    clear() {
+      fixtures.length = 0;
+    },
+    stop() {
+      globalThis.fetch = originalFetch;
+    },
+  };
+
+  console.log(
+    "[XSweep] Recording X API fixtures. Run xsweepFixtures.download() when done.",
+  );
+  return recorder;
+}
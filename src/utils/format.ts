@@ -33,3 +33,28 @@ export function formatCount(n: number): string {
   }
   return n.toString();
 }
+
+/**
+ * Format a duration for countdowns: 252000 → "4m12s", 45000 → "45s",
+ * 3900000 → "1h5m". Negative durations read as "0s".
+ */
+export function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}h${m}m`;
+  if (m > 0) return `${m}m${s}s`;
+  return `${s}s`;
+}
+
+/**
+ * Format an estimated USD cost: 0 → "free", 0.004 → "<$0.01",
+ * 0.1234 → "$0.12", 12.5 → "$12.50". null (unknown price) → "unknown cost".
+ */
+export function formatCost(usd: number | null): string {
+  if (usd === null) return "unknown cost";
+  if (usd === 0) return "free";
+  if (usd < 0.01) return "<$0.01";
+  return `$${usd.toFixed(2)}`;
+}
@@ -0,0 +1,16 @@
+/**
+ * Hashing utilities.
+ */
+
+/**
+ * 32-bit FNV-1a hash as 8 hex chars. Not cryptographic — used to notice
+ * when cached inputs (profiles, prompts) have changed.
+ */
+export function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
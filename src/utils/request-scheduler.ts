@@ -0,0 +1,229 @@
+/**
+ * Request scheduler for X API calls.
+ * Tracks each endpoint's rate-limit budget from the x-rate-limit-* response
+ * headers, runs requests to the same endpoint one at a time, and sleeps
+ * until the window resets instead of guessing with fixed back-offs.
+ */
+
+import { delay } from "./rate-limiter";
+
+export interface EndpointBudget {
+  endpoint: string;
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number | null; // epoch ms
+}
+
+export interface RateLimitWait {
+  endpoint: string;
+  resumeAt: number; // epoch ms
+}
+
+export interface SchedulerState {
+  budgets: EndpointBudget[];
+  waiting: RateLimitWait[];
+}
+
+export interface ScheduleOptions {
+  endpoint?: string; // budget key, defaults to the API path
+  fallbackWait?: [number, number]; // seconds, when a 429 has no usable reset
+  maxRetries?: number; // 429 retries before handing the response back
+}
+
+type SchedulerListener = (state: SchedulerState) => void;
+
+const DEFAULT_FALLBACK_WAIT: [number, number] = [60, 90];
+const DEFAULT_MAX_RETRIES = 5;
+// X resets on whole seconds; a small margin avoids an immediate second 429
+const RESET_MARGIN_SEC = 1;
+
+const budgets = new Map<string, EndpointBudget>();
+const waits = new Map<string, number>();
+const queues = new Map<string, Promise<unknown>>();
+const listeners = new Set<SchedulerListener>();
+
+/**
+ * Budget key for a URL: the path after /i/api/1.1/ for REST calls,
+ * the operation name for GraphQL calls.
+ */
+export function endpointKey(url: string): string {
+  const path = new URL(url).pathname;
+  if (path.includes("/graphql/")) return path.split("/").pop() || path;
+  return path.replace(/^\/i\/api\/1\.1\//, "");
+}
+
+export function getSchedulerState(): SchedulerState {
+  return {
+    budgets: [...budgets.values()],
+    waiting: [...waits.entries()].map(([endpoint, resumeAt]) => ({
+      endpoint,
+      resumeAt,
+    })),
+  };
+}
+
+/**
+ * Subscribe to budget and wait changes. Returns an unsubscribe function.
+ */
+export function onSchedulerChange(listener: SchedulerListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function resetScheduler(): void {
+  budgets.clear();
+  waits.clear();
+  queues.clear();
+  notify();
+}
+
+function notify(): void {
+  const state = getSchedulerState();
+  for (const listener of listeners) listener(state);
+}
+
+function readHeader(resp: Response, name: string): number | null {
+  const value = resp.headers?.get(name);
+  if (!value) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function updateBudget(endpoint: string, resp: Response): void {
+  const limit = readHeader(resp, "x-rate-limit-limit");
+  const remaining = readHeader(resp, "x-rate-limit-remaining");
+  const reset = readHeader(resp, "x-rate-limit-reset");
+  if (limit === null && remaining === null && reset === null) return;
+
+  budgets.set(endpoint, {
+    endpoint,
+    limit,
+    remaining,
+    resetAt: reset !== null ? reset * 1000 : null,
+  });
+  notify();
+}
+
+/**
+ * Settle with `promise`, or reject with an AbortError as soon as the signal
+ * fires, so a stopped scan doesn't sit out a long rate-limit wait.
+ */
+function abortable(
+  promise: Promise<void>,
+  signal?: AbortSignal | null,
+): Promise<void> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    const onAbort = () =>
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+async function waitUntil(
+  endpoint: string,
+  resumeAt: number,
+  wait: () => Promise<void>,
+  signal?: AbortSignal | null,
+): Promise<void> {
+  waits.set(endpoint, resumeAt);
+  notify();
+  try {
+    await abortable(wait(), signal);
+  } finally {
+    waits.delete(endpoint);
+    const budget = budgets.get(endpoint);
+    if (budget) budgets.set(endpoint, { ...budget, remaining: null });
+    notify();
+  }
+}
+
+/**
+ * Sleep until the endpoint's window resets if its budget is spent.
+ */
+async function waitForBudget(
+  endpoint: string,
+  signal?: AbortSignal | null,
+): Promise<void> {
+  const budget = budgets.get(endpoint);
+  if (!budget || budget.remaining !== 0 || budget.resetAt === null) return;
+
+  const seconds = (budget.resetAt - Date.now()) / 1000 + RESET_MARGIN_SEC;
+  if (seconds <= 0) return;
+  console.log(
+    `[XSweep] ${endpoint}: rate limit budget spent, waiting ${Math.ceil(seconds)}s for reset`,
+  );
+  await waitUntil(
+    endpoint,
+    budget.resetAt,
+    () => delay(seconds, seconds),
+    signal,
+  );
+}
+
+/**
+ * fetch() through the scheduler. Requests to the same endpoint are queued,
+ * spent budgets wait for their reset, and 429s are retried after the reset
+ * time from the headers (or fallbackWait when the reset is missing or
+ * already past). Once maxRetries is exhausted the 429 response is returned
+ * to the caller. Waits end early with an AbortError when init.signal fires.
+ */
+export function scheduledFetch(
+  url: string,
+  init: RequestInit = {},
+  options: ScheduleOptions = {},
+): Promise<Response> {
+  const endpoint = options.endpoint ?? endpointKey(url);
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const [fallbackMin, fallbackMax] =
+    options.fallbackWait ?? DEFAULT_FALLBACK_WAIT;
+
+  const run = async (): Promise<Response> => {
+    let retries = 0;
+    while (true) {
+      await waitForBudget(endpoint, init.signal);
+      const resp = await fetch(url, init);
+      updateBudget(endpoint, resp);
+
+      if (resp.status !== 429 || retries >= maxRetries) return resp;
+      retries++;
+
+      // A reset already past (clock skew, stale header) would retry at once
+      const reset = readHeader(resp, "x-rate-limit-reset");
+      if (reset !== null && reset * 1000 > Date.now()) {
+        budgets.set(endpoint, {
+          endpoint,
+          limit: readHeader(resp, "x-rate-limit-limit"),
+          remaining: 0,
+          resetAt: reset * 1000,
+        });
+        continue; // waitForBudget sleeps until the reset
+      }
+
+      console.log(
+        `[XSweep] ${endpoint}: rate limited without a usable reset. Waiting ${fallbackMin}s+...`,
+      );
+      await waitUntil(
+        endpoint,
+        Date.now() + fallbackMin * 1000,
+        () => delay(fallbackMin, fallbackMax),
+        init.signal,
+      );
+    }
+  };
+
+  const previous = queues.get(endpoint) ?? Promise.resolve();
+  const next = previous.then(run, run);
+  queues.set(
+    endpoint,
+    next.catch(() => undefined),
+  );
+  return next;
+}
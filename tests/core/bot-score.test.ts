@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  LIKELY_BOT_THRESHOLD,
+  isLikelyBot,
+  scoreBotLikelihood,
+} from "@/core/bot-score";
+import { makeUser } from "../helpers/fixtures";
+
+const NOW = new Date("2026-03-01T00:00:00.000Z").getTime();
+const DEFAULT_AVATAR =
+  "https://abs.twimg.com/sticky/default_profile_images/default_profile_normal.png";
+
+describe("scoreBotLikelihood", () => {
+  it("scores an ordinary account low", () => {
+    expect(scoreBotLikelihood(makeUser(), NOW)).toEqual({
+      score: 0,
+      signals: [],
+    });
+  });
+
+  it("adds up the profile signals", () => {
+    const { score, signals } = scoreBotLikelihood(
+      makeUser({
+        username: "jenny48213907",
+        bio: "",
+        profileImageUrl: DEFAULT_AVATAR,
+        followerCount: 3,
+        followingCount: 1800,
+      }),
+      NOW,
+    );
+    expect(signals).toEqual([
+      "Default avatar",
+      "No bio",
+      "Username ends in digits",
+      "Follows 10x more accounts than follow it",
+    ]);
+    expect(score).toBe(75);
+  });
+
+  it("flags new accounts with heavy tweet volume", () => {
+    const { signals } = scoreBotLikelihood(
+      makeUser({
+        createdAt: "2026-02-21T00:00:00.000Z",
+        tweetCount: 4000,
+      }),
+      NOW,
+    );
+    expect(signals).toEqual(["Account under a month old", "500 tweets a day"]);
+  });
+
+  it("parses X's created_at format", () => {
+    const { signals } = scoreBotLikelihood(
+      makeUser({
+        createdAt: "Sat Feb 21 10:00:00 +0000 2026",
+        tweetCount: 0,
+      }),
+      NOW,
+    );
+    expect(signals).toContain("Account under a month old");
+  });
+
+  it("caps the score at 100", () => {
+    const { score } = scoreBotLikelihood(
+      makeUser({
+        username: "spam9999999",
+        bio: "",
+        profileImageUrl: DEFAULT_AVATAR,
+        followerCount: 0,
+        followingCount: 2000,
+        createdAt: "2026-02-27T00:00:00.000Z",
+        tweetCount: 5000,
+      }),
+      NOW,
+    );
+    expect(score).toBe(100);
+  });
+
+  it("never flags legacy-verified or unavailable accounts", () => {
+    const empty = { bio: "", profileImageUrl: DEFAULT_AVATAR };
+    expect(
+      scoreBotLikelihood(makeUser({ ...empty, isVerified: true }), NOW).score,
+    ).toBe(0);
+    expect(
+      scoreBotLikelihood(
+        makeUser({
+          ...empty,
+          username: "[unavailable]",
+          status: "deactivated",
+        }),
+        NOW,
+      ).score,
+    ).toBe(0);
+  });
+});
+
+describe("isLikelyBot", () => {
+  it("compares the score with the threshold", () => {
+    const user = makeUser({ bio: "", profileImageUrl: DEFAULT_AVATAR });
+    expect(scoreBotLikelihood(user, NOW).score).toBe(35);
+    expect(isLikelyBot(user, LIKELY_BOT_THRESHOLD, NOW)).toBe(false);
+    expect(isLikelyBot(user, 30, NOW)).toBe(true);
+  });
+});
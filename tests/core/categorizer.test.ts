@@ -1,9 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/utils/rate-limiter", () => ({
+  delay: vi.fn(() => Promise.resolve()),
+}));
+
 import {
   categorizeByKeywords,
   batchCategorizeByKeywords,
+  cachedAICategorization,
   categorizeWithAI,
 } from "@/core/categorizer";
+import type { ClassificationCache } from "@/core/classification";
+import { defaultLLMConfig } from "@/core/llm";
+import { delay } from "@/utils/rate-limiter";
+import type { ClassificationCacheEntry } from "@/core/types";
 import { makeUser, makeList } from "../helpers/fixtures";
 
 describe("categorizeByKeywords", () => {
@@ -55,6 +65,22 @@ describe("categorizeByKeywords", () => {
     expect(result).toEqual([]);
   });
 
+  it("matches whole words only", () => {
+    const user = makeUser({ bio: "She said Maine is lovely" });
+    const lists = [makeList({ id: 1, keywords: ["ai"] })];
+
+    expect(categorizeByKeywords(user, lists)).toEqual([]);
+  });
+
+  it("matches when any keyword query does", () => {
+    const user = makeUser({ bio: "Building agents", location: "Berlin" });
+    const lists = [
+      makeList({ id: 1, keywords: ["crypto", "agents AND location:berlin"] }),
+    ];
+
+    expect(categorizeByKeywords(user, lists)).toEqual([1]);
+  });
+
   it("matches multiple lists", () => {
     const user = makeUser({ bio: "Developer who loves crypto and AI" });
     const lists = [
@@ -102,24 +128,44 @@ describe("batchCategorizeByKeywords", () => {
 });
 
 describe("categorizeWithAI", () => {
-  beforeEach(() => {
-    vi.restoreAllMocks();
-  });
+  const llm = defaultLLMConfig("anthropic", "key");
 
-  it("sends correct request to Claude API", async () => {
-    const mockFetch = vi.fn().mockResolvedValue({
+  function toolUse(assignments: Array<{ userId: string; ids: number[] }>) {
+    return {
       ok: true,
       json: () =>
         Promise.resolve({
-          content: [{ text: '{"100": [1]}' }],
+          content: [
+            {
+              type: "tool_use",
+              name: "record_assignments",
+              input: { assignments },
+            },
+          ],
         }),
-    });
+    };
+  }
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(delay).mockReset();
+    vi.mocked(delay).mockResolvedValue(undefined);
+  });
+
+  it("sends a tool-use request to Claude API", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(toolUse([{ userId: "100", ids: [1] }]));
     globalThis.fetch = mockFetch;
 
     const users = [makeUser({ userId: "100", bio: "Developer" })];
     const lists = [makeList({ id: 1, type: "ai", description: "Tech folks" })];
 
-    await categorizeWithAI(users, lists, "sk-test-key");
+    await categorizeWithAI(
+      users,
+      lists,
+      defaultLLMConfig("anthropic", "sk-test-key"),
+    );
 
     expect(mockFetch).toHaveBeenCalledOnce();
     const [url, opts] = mockFetch.mock.calls[0];
@@ -130,66 +176,128 @@ describe("categorizeWithAI", () => {
     const body = JSON.parse(opts.body);
     expect(body.model).toBe("claude-haiku-4-5-20251001");
     expect(body.messages[0].content).toContain("@testuser");
+    expect(body.tool_choice).toEqual({
+      type: "tool",
+      name: "record_assignments",
+    });
+    expect(
+      body.tools[0].input_schema.properties.assignments.items.properties.ids
+        .items.enum,
+    ).toEqual([1]);
   });
 
-  it("parses JSON response and returns mapping", async () => {
-    globalThis.fetch = vi.fn().mockResolvedValue({
-      ok: true,
-      json: () =>
-        Promise.resolve({
-          content: [{ text: '{"100": [1, 2], "200": [3]}' }],
-        }),
-    });
+  it("returns the mapping for matched users", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(
+      toolUse([
+        { userId: "100", ids: [1, 2] },
+        { userId: "200", ids: [3] },
+        { userId: "300", ids: [] },
+      ]),
+    );
 
-    const users = [makeUser({ userId: "100" }), makeUser({ userId: "200" })];
+    const users = [
+      makeUser({ userId: "100" }),
+      makeUser({ userId: "200" }),
+      makeUser({ userId: "300" }),
+    ];
     const lists = [
       makeList({ id: 1, type: "ai" }),
       makeList({ id: 2, type: "ai" }),
       makeList({ id: 3, type: "ai" }),
     ];
 
-    const result = await categorizeWithAI(users, lists, "key");
+    const { mapping, failed } = await categorizeWithAI(users, lists, llm);
 
-    expect(result.get("100")).toEqual([1, 2]);
-    expect(result.get("200")).toEqual([3]);
+    expect(mapping.get("100")).toEqual([1, 2]);
+    expect(mapping.get("200")).toEqual([3]);
+    expect(mapping.has("300")).toBe(false);
+    expect(failed).toEqual([]);
   });
 
-  it("handles API error gracefully (continues)", async () => {
-    globalThis.fetch = vi.fn().mockResolvedValue({
+  it("drops user IDs outside the batch and unknown list IDs", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(
+      toolUse([
+        { userId: "100", ids: [1, 99] },
+        { userId: "999", ids: [1] },
+      ]),
+    );
+
+    const users = [makeUser({ userId: "100" })];
+    const lists = [makeList({ id: 1, type: "ai" })];
+
+    const { mapping } = await categorizeWithAI(users, lists, llm);
+    expect([...mapping]).toEqual([["100", [1]]]);
+  });
+
+  it("retries failed batches and reports users that never classified", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
       ok: false,
       status: 500,
+      text: () => Promise.resolve("Internal error"),
     });
+    globalThis.fetch = mockFetch;
 
-    const users = [makeUser({ userId: "100" })];
+    const users = [makeUser({ userId: "100", username: "alice" })];
+    const lists = [makeList({ id: 1, type: "ai" })];
+
+    const { mapping, failed } = await categorizeWithAI(users, lists, llm);
+    expect(mapping.size).toBe(0);
+    expect(mockFetch).toHaveBeenCalledTimes(3); // first try + 2 retries
+    expect(delay).toHaveBeenCalledTimes(2);
+    expect(failed).toEqual([
+      {
+        userId: "100",
+        username: "alice",
+        error: expect.stringContaining("API error 500"),
+      },
+    ]);
+  });
+
+  it("retries only the users missing from a response", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(toolUse([{ userId: "100", ids: [1] }]))
+      .mockResolvedValueOnce(toolUse([{ userId: "200", ids: [] }]));
+    globalThis.fetch = mockFetch;
+
+    const users = [makeUser({ userId: "100" }), makeUser({ userId: "200" })];
     const lists = [makeList({ id: 1, type: "ai" })];
 
-    const result = await categorizeWithAI(users, lists, "key");
-    expect(result.size).toBe(0);
+    const { mapping, failed } = await categorizeWithAI(users, lists, llm);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const retryPrompt = JSON.parse(mockFetch.mock.calls[1][1].body).messages[0]
+      .content;
+    expect(retryPrompt).toContain("id: 200");
+    expect(retryPrompt).not.toContain("id: 100");
+    expect(mapping.get("100")).toEqual([1]);
+    expect(failed).toEqual([]);
   });
 
-  it("handles malformed JSON in response", async () => {
+  it("treats a reply without structured output as a failure", async () => {
     globalThis.fetch = vi.fn().mockResolvedValue({
       ok: true,
       json: () =>
         Promise.resolve({
-          content: [{ text: "This is not valid JSON at all" }],
+          content: [{ type: "text", text: "This is not valid JSON at all" }],
         }),
     });
 
     const users = [makeUser({ userId: "100" })];
     const lists = [makeList({ id: 1, type: "ai" })];
 
-    const result = await categorizeWithAI(users, lists, "key");
-    expect(result.size).toBe(0);
+    const { mapping, failed } = await categorizeWithAI(users, lists, llm);
+    expect(mapping.size).toBe(0);
+    expect(failed).toHaveLength(1);
   });
 
   it("batches users in groups of 50", async () => {
-    const mockFetch = vi.fn().mockResolvedValue({
-      ok: true,
-      json: () =>
-        Promise.resolve({
-          content: [{ text: "{}" }],
-        }),
+    const mockFetch = vi.fn().mockImplementation((_url, opts) => {
+      // Answer for every user in the prompt so no batch is retried
+      const prompt: string = JSON.parse(opts.body).messages[0].content;
+      const ids = [...prompt.matchAll(/\(id: (\d+)\)/g)].map((m) => m[1]);
+      return Promise.resolve(
+        toolUse(ids.map((userId) => ({ userId, ids: [] }))),
+      );
     });
     globalThis.fetch = mockFetch;
 
@@ -199,7 +307,119 @@ describe("categorizeWithAI", () => {
     );
     const lists = [makeList({ id: 1, type: "ai" })];
 
-    await categorizeWithAI(users, lists, "key");
+    await categorizeWithAI(users, lists, llm);
     expect(mockFetch).toHaveBeenCalledTimes(3);
   });
+
+  it("totals billed usage and reports each request", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          content: [
+            {
+              type: "tool_use",
+              input: { assignments: [{ userId: "100", ids: [1] }] },
+            },
+          ],
+          usage: { input_tokens: 400, output_tokens: 40 },
+        }),
+    });
+    const onUsage = vi.fn();
+
+    const { usage } = await categorizeWithAI(
+      [makeUser({ userId: "100" })],
+      [makeList({ id: 1, type: "ai" })],
+      llm,
+      { onUsage },
+    );
+
+    expect(onUsage).toHaveBeenCalledOnce();
+    expect(usage[llm.models.fast]).toMatchObject({
+      requests: 1,
+      inputTokens: 400,
+      outputTokens: 40,
+    });
+  });
+});
+
+describe("cachedAICategorization", () => {
+  it("answers from the cache without sending requests", async () => {
+    const llm = defaultLLMConfig("anthropic", "key");
+    const lists = [makeList({ id: 1, type: "ai" })];
+    const store = new Map<string, ClassificationCacheEntry>();
+    const cache: ClassificationCache = {
+      get: async (keys) =>
+        keys.flatMap((k) => (store.has(k) ? [store.get(k)!] : [])),
+      put: async (entries) => {
+        for (const e of entries) store.set(e.key, e);
+      },
+    };
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          content: [
+            {
+              type: "tool_use",
+              input: { assignments: [{ userId: "100", ids: [1] }] },
+            },
+          ],
+        }),
+    });
+    await categorizeWithAI([makeUser({ userId: "100" })], lists, llm, {
+      cache,
+    });
+    vi.mocked(globalThis.fetch).mockClear();
+
+    const mapping = await cachedAICategorization(
+      [makeUser({ userId: "100" }), makeUser({ userId: "200" })],
+      lists,
+      llm,
+      cache,
+    );
+
+    expect(mapping).toEqual(new Map([["100", [1]]]));
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("finds answers cached by single-list runs across several AI lists", async () => {
+    const llm = defaultLLMConfig("anthropic", "key");
+    const lists = [
+      makeList({ id: 1, type: "ai", name: "Founders" }),
+      makeList({ id: 2, type: "ai", name: "Investors" }),
+    ];
+    const store = new Map<string, ClassificationCacheEntry>();
+    const cache: ClassificationCache = {
+      get: async (keys) =>
+        keys.flatMap((k) => (store.has(k) ? [store.get(k)!] : [])),
+      put: async (entries) => {
+        for (const e of entries) store.set(e.key, e);
+      },
+    };
+    const answer = (ids: number[]) => ({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          content: [
+            {
+              type: "tool_use",
+              input: { assignments: [{ userId: "100", ids }] },
+            },
+          ],
+        }),
+    });
+    const user = makeUser({ userId: "100" });
+    // CATEGORIZE_AI runs against one list at a time
+    globalThis.fetch = vi.fn().mockResolvedValue(answer([1]));
+    await categorizeWithAI([user], [lists[0]], llm, { cache });
+    globalThis.fetch = vi.fn().mockResolvedValue(answer([2]));
+    await categorizeWithAI([user], [lists[1]], llm, { cache });
+    vi.mocked(globalThis.fetch).mockClear();
+
+    const mapping = await cachedAICategorization([user], lists, llm, cache);
+
+    expect(mapping).toEqual(new Map([["100", [1, 2]]]));
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
 });
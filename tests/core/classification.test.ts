@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/utils/rate-limiter", () => ({
+  delay: vi.fn(() => Promise.resolve()),
+}));
+
+import {
+  assignmentSchema,
+  classifyUsers,
+  planClassification,
+  validateAssignments,
+  type ClassificationCache,
+  type ClassifyOptions,
+} from "@/core/classification";
+import { defaultLLMConfig } from "@/core/llm";
+import type { ClassificationCacheEntry, UserProfile } from "@/core/types";
+import { makeUser } from "../helpers/fixtures";
+
+describe("assignmentSchema", () => {
+  it("constrains target IDs to an enum of the right type", () => {
+    const numeric = assignmentSchema([1, 2]).schema as any;
+    const ids = numeric.properties.assignments.items.properties.ids.items;
+    expect(ids).toEqual({ type: "integer", enum: [1, 2] });
+
+    const strings = assignmentSchema(["ai-ml", "uncategorized"]).schema as any;
+    expect(strings.properties.assignments.items.properties.ids.items.type).toBe(
+      "string",
+    );
+  });
+});
+
+describe("validateAssignments", () => {
+  const batch = new Set(["100", "200"]);
+
+  it("keeps known users and known target IDs", () => {
+    const result = validateAssignments(
+      {
+        assignments: [
+          { userId: "100", ids: [1, 7] },
+          { userId: "200", ids: [] },
+          { userId: "300", ids: [1] },
+        ],
+      },
+      batch,
+      [1, 2],
+    );
+    expect([...result]).toEqual([
+      ["100", [1]],
+      ["200", []],
+    ]);
+  });
+
+  it("accepts numeric IDs echoed as strings and merges duplicates", () => {
+    const result = validateAssignments(
+      {
+        assignments: [
+          { userId: 100, ids: ["1"] },
+          { userId: "100", ids: [2, 1] },
+        ],
+      },
+      batch,
+      [1, 2],
+    );
+    expect(result.get("100")).toEqual([1, 2]);
+  });
+
+  it("throws when the output isn't shaped like the schema", () => {
+    expect(() => validateAssignments({ "100": [1] }, batch, [1])).toThrow(
+      /assignments/,
+    );
+    expect(() => validateAssignments(null, batch, [1])).toThrow();
+  });
+});
+
+describe("classification cache", () => {
+  const llm = defaultLLMConfig("anthropic", "key");
+  let store: Map<string, ClassificationCacheEntry>;
+  let cache: ClassificationCache;
+
+  function options(context = "lists v1"): ClassifyOptions<number> {
+    return {
+      targetIds: [1, 2],
+      batchSize: 50,
+      maxTokens: 1000,
+      context,
+      cache,
+      buildPrompt: (batch: UserProfile[]) =>
+        batch.map((u) => `${u.userId}: ${u.bio}`).join("\n"),
+    };
+  }
+
+  // Answers list 1 for everyone in the prompt
+  function answerAll() {
+    return vi.fn().mockImplementation((_url, opts) => {
+      const prompt: string = JSON.parse(opts.body).messages[0].content;
+      const assignments = [...prompt.matchAll(/^(\d+):/gm)].map((m) => ({
+        userId: m[1],
+        ids: [1],
+      }));
+      return Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            content: [{ type: "tool_use", input: { assignments } }],
+          }),
+      });
+    });
+  }
+
+  beforeEach(() => {
+    store = new Map();
+    cache = {
+      get: async (keys) =>
+        keys.map((k) => store.get(k)).filter((e) => e !== undefined),
+      put: async (entries) => {
+        for (const e of entries) store.set(e.key, e);
+      },
+    };
+  });
+
+  it("stores answers and skips unchanged profiles on the next run", async () => {
+    const users = [
+      makeUser({ userId: "1", bio: "dev" }),
+      makeUser({ userId: "2", bio: "chef" }),
+    ];
+    const mockFetch = answerAll();
+    globalThis.fetch = mockFetch;
+
+    await classifyUsers(users, llm, options());
+    expect(store.size).toBe(2);
+
+    const second = await classifyUsers(users, llm, options());
+    expect(mockFetch).toHaveBeenCalledOnce();
+    expect(second.cached).toBe(2);
+    expect(second.usage).toEqual({});
+    expect(second.assignments.get("2")).toEqual([1]);
+  });
+
+  it("re-classifies only profiles whose bio changed", async () => {
+    const mockFetch = answerAll();
+    globalThis.fetch = mockFetch;
+    await classifyUsers(
+      [makeUser({ userId: "1", bio: "dev" }), makeUser({ userId: "2" })],
+      llm,
+      options(),
+    );
+
+    const result = await classifyUsers(
+      [makeUser({ userId: "1", bio: "now a chef" }), makeUser({ userId: "2" })],
+      llm,
+      options(),
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const prompt = JSON.parse(mockFetch.mock.calls[1][1].body).messages[0]
+      .content;
+    expect(prompt).toBe("1: now a chef");
+    expect(result.cached).toBe(1);
+  });
+
+  it("misses when the list definition or model changes", async () => {
+    const users = [makeUser({ userId: "1" })];
+    globalThis.fetch = answerAll();
+    await classifyUsers(users, llm, options("lists v1"));
+
+    const newLists = await planClassification(users, llm, options("lists v2"));
+    expect(newLists.estimate.cached).toBe(0);
+
+    const newModel = await planClassification(
+      users,
+      { ...llm, models: { ...llm.models, fast: "other-model" } },
+      options("lists v1"),
+    );
+    expect(newModel.estimate.cached).toBe(0);
+  });
+
+  it("does not cache users that failed", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 500,
+      text: () => Promise.resolve("down"),
+    });
+
+    const result = await classifyUsers(
+      [makeUser({ userId: "1" })],
+      llm,
+      options(),
+    );
+    expect(result.failed).toHaveLength(1);
+    expect(store.size).toBe(0);
+  });
+});
+
+describe("planClassification", () => {
+  it("estimates requests, tokens and cost for uncached users", async () => {
+    const users = Array.from({ length: 120 }, (_, i) =>
+      makeUser({ userId: String(i) }),
+    );
+    const { estimate, pending } = await planClassification(
+      users,
+      defaultLLMConfig("anthropic", "key"),
+      {
+        targetIds: [1],
+        batchSize: 50,
+        maxTokens: 1000,
+        context: "",
+        buildPrompt: (batch) => "x".repeat(400 * batch.length),
+      },
+    );
+
+    expect(pending).toHaveLength(120);
+    expect(estimate.requests).toBe(3);
+    expect(estimate.inputTokens).toBeGreaterThan(120 * 100);
+    expect(estimate.outputTokens).toBeGreaterThan(0);
+    expect(estimate.cost).toBeGreaterThan(0);
+  });
+
+  it("is free on a local server", async () => {
+    const { estimate } = await planClassification(
+      [makeUser()],
+      defaultLLMConfig("local"),
+      {
+        targetIds: [1],
+        batchSize: 50,
+        maxTokens: 1000,
+        context: "",
+        buildPrompt: () => "prompt",
+      },
+    );
+    expect(estimate.cost).toBe(0);
+  });
+});
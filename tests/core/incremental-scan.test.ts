@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  planIncrementalScan,
+  getRescanMaxAgeDays,
+  setRescanMaxAgeDays,
+  DEFAULT_RESCAN_MAX_AGE_DAYS,
+} from "@/core/incremental-scan";
+import { UNAVAILABLE_USERNAME } from "@/core/scanner";
+import { makeUser } from "../helpers/fixtures";
+import { chromeStorageData } from "../setup";
+
+const NOW = new Date("2026-03-01T00:00:00.000Z").getTime();
+const daysAgo = (days: number) => new Date(NOW - days * 86400000).toISOString();
+
+describe("planIncrementalScan", () => {
+  it("finds new IDs that are not stored", () => {
+    const stored = [makeUser({ userId: "1", scannedAt: daysAgo(1) })];
+    const plan = planIncrementalScan(stored, ["1", "2"], ["3"], 30, NOW);
+
+    expect(plan.newIds).toEqual(["2", "3"]);
+    expect(plan.staleIds).toEqual([]);
+  });
+
+  it("marks profiles older than the max age as stale", () => {
+    const stored = [
+      makeUser({ userId: "1", scannedAt: daysAgo(5) }),
+      makeUser({ userId: "2", scannedAt: daysAgo(45) }),
+    ];
+    const plan = planIncrementalScan(stored, ["1", "2"], [], 30, NOW);
+
+    expect(plan.staleIds).toEqual(["2"]);
+    expect(plan.newIds).toEqual([]);
+  });
+
+  it("always rehydrates accounts recorded as unavailable", () => {
+    const stored = [
+      makeUser({
+        userId: "1",
+        username: UNAVAILABLE_USERNAME,
+        scannedAt: daysAgo(0),
+      }),
+    ];
+    const plan = planIncrementalScan(stored, ["1"], [], 30, NOW);
+
+    expect(plan.staleIds).toEqual(["1"]);
+  });
+
+  it("always hydrates stubs from imported lists", () => {
+    const stored = [
+      makeUser({
+        userId: "1",
+        scannedAt: "",
+        isStub: true,
+        isFollowing: false,
+      }),
+    ];
+    const plan = planIncrementalScan(stored, ["1"], [], 30, NOW);
+
+    expect(plan.staleIds).toEqual(["1"]);
+    expect(plan.newIds).toEqual([]);
+  });
+
+  it("rehydrates profiles marked stale after a follow", () => {
+    const stored = [makeUser({ userId: "1", scannedAt: "" })];
+    const plan = planIncrementalScan(stored, ["1"], [], 30, NOW);
+
+    expect(plan.staleIds).toEqual(["1"]);
+  });
+
+  it("lists stored relationships that disappeared as removed", () => {
+    const stored = [
+      makeUser({ userId: "1", isFollowing: true }),
+      makeUser({ userId: "2", isFollowing: false, isFollower: true }),
+      makeUser({ userId: "3", isFollowing: false, isFollower: false }),
+    ];
+    const plan = planIncrementalScan(stored, [], [], 30, NOW);
+
+    expect(plan.removedIds).toEqual(["1", "2"]);
+  });
+});
+
+describe("rescan max age setting", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(chromeStorageData)) {
+      delete chromeStorageData[key];
+    }
+  });
+
+  it("defaults and persists", async () => {
+    expect(await getRescanMaxAgeDays()).toBe(DEFAULT_RESCAN_MAX_AGE_DAYS);
+    await setRescanMaxAgeDays(7);
+    expect(await getRescanMaxAgeDays()).toBe(7);
+  });
+});
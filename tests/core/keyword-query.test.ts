@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  compileKeywords,
+  matchesQuery,
+  parseQuery,
+  splitKeywords,
+} from "@/core/keyword-query";
+import { makeUser } from "../helpers/fixtures";
+
+const user = makeUser({
+  username: "ada_dev",
+  displayName: "Ada | AI Engineer",
+  bio: "Machine   learning at a startup. Ex-crypto. C++ and #rustlang.",
+  location: "London, UK",
+  url: "https://github.com/ada",
+});
+
+function matches(query: string): boolean {
+  return matchesQuery(parseQuery(query), user);
+}
+
+describe("parseQuery / matchesQuery", () => {
+  it("matches bare terms on word boundaries", () => {
+    expect(matches("ai")).toBe(true);
+    expect(matches("learn")).toBe(false);
+    expect(matches("AI")).toBe(true);
+  });
+
+  it("handles terms with symbols", () => {
+    expect(matches("c++")).toBe(true);
+    expect(matches("#rustlang")).toBe(true);
+  });
+
+  it("matches word prefixes with *", () => {
+    expect(matches("learn*")).toBe(true);
+    expect(matches("start*")).toBe(true);
+  });
+
+  it("matches phrases across any whitespace", () => {
+    expect(matches('"machine learning"')).toBe(true);
+    expect(matches('"learning machine"')).toBe(false);
+  });
+
+  it("matches regexes, case-insensitive by default", () => {
+    expect(matches("/ex-\\w+/")).toBe(true);
+    expect(matches("/MACHINE/")).toBe(true);
+    expect(matches("/MACHINE/s")).toBe(false);
+  });
+
+  it("scopes terms to a field", () => {
+    expect(matches("location:london")).toBe(true);
+    expect(matches("bio:london")).toBe(false);
+    expect(matches("url:/github\\.com/")).toBe(true);
+    expect(matches("name:engineer")).toBe(true);
+    expect(matches("username:ada_dev")).toBe(true);
+  });
+
+  it("searches bio, name and username when unscoped", () => {
+    expect(matches("ada_dev")).toBe(true);
+    expect(matches("london")).toBe(false);
+  });
+
+  it("combines terms with AND, OR, NOT and parentheses", () => {
+    expect(matches("ai AND startup")).toBe(true);
+    expect(matches("ai startup")).toBe(true);
+    expect(matches("ai AND paris")).toBe(false);
+    expect(matches("paris OR startup")).toBe(true);
+    expect(matches("ai NOT crypto")).toBe(false);
+    expect(matches("ai -bio:paris")).toBe(true);
+    expect(matches("(paris OR startup) AND NOT location:uk")).toBe(false);
+  });
+
+  it("binds AND tighter than OR", () => {
+    // paris OR (startup AND crypto)
+    expect(matches("paris OR startup crypto")).toBe(true);
+    expect(matches("paris startup OR tokyo")).toBe(false);
+  });
+
+  it("treats lowercase operators as words", () => {
+    expect(matches("ai or paris")).toBe(false);
+  });
+
+  it("reports syntax errors", () => {
+    expect(() => parseQuery('"machine')).toThrow("Unclosed quote");
+    expect(() => parseQuery("/gpt")).toThrow("Unclosed regex");
+    expect(() => parseQuery("/(/")).toThrow("Invalid regex");
+    expect(() => parseQuery("(ai OR ml")).toThrow("Missing )");
+    expect(() => parseQuery("ai OR")).toThrow();
+    expect(() => parseQuery("bio:")).toThrow('Missing value after "bio:"');
+    expect(() => parseQuery("ai NOT")).toThrow("Missing term after NOT");
+  });
+});
+
+describe("compileKeywords", () => {
+  it("matches when any entry matches and reports invalid ones", () => {
+    const matcher = compileKeywords(["paris", "(ai", "startup"]);
+
+    expect(matcher.matches(user)).toBe(true);
+    expect(matcher.errors).toEqual([{ keyword: "(ai", error: "Missing )" }]);
+  });
+});
+
+describe("splitKeywords", () => {
+  it("splits on commas outside quotes, regexes and parentheses", () => {
+    expect(
+      splitKeywords('ai, "data, science", /a,b/, (ml OR dl), bio:/x,y/ ,'),
+    ).toEqual(["ai", '"data, science"', "/a,b/", "(ml OR dl)", "bio:/x,y/"]);
+  });
+
+  it("doesn't treat a slash inside a word as a regex", () => {
+    expect(splitKeywords("ai/ml, web3")).toEqual(["ai/ml", "web3"]);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi } from "vitest";
+
+// Mock delay to resolve immediately
+vi.mock("@/utils/rate-limiter", () => ({
+  delay: vi.fn(() => Promise.resolve()),
+}));
+
+import { stopListWrites } from "@/core/list-writer";
+import {
+  isInSync,
+  nextSyncState,
+  planListSync,
+  pushToX,
+  resolveConflicts,
+} from "@/core/list-sync";
+import type { ListSyncState } from "@/core/types";
+
+function synced(memberIds: string[]): ListSyncState {
+  return { syncedAt: "2026-01-01T00:00:00.000Z", memberIds };
+}
+
+const known = (...ids: string[]) => new Set(ids);
+
+describe("planListSync", () => {
+  it("is in sync when both sides match the last sync", () => {
+    const plan = planListSync(
+      ["1", "2"],
+      ["2", "1"],
+      synced(["1", "2"]),
+      known("1", "2"),
+    );
+    expect(isInSync(plan)).toBe(true);
+  });
+
+  it("pushes local additions and removals to X", () => {
+    // 3 added here; 2 removed here
+    const plan = planListSync(
+      ["1", "3"],
+      ["1", "2"],
+      synced(["1", "2"]),
+      known("1", "2", "3"),
+    );
+    expect(plan.addToX).toEqual(["3"]);
+    expect(plan.removeFromX).toEqual(["2"]);
+    expect(plan.addLocally).toEqual([]);
+    expect(plan.removeLocally).toEqual([]);
+  });
+
+  it("pulls additions and removals made on X", () => {
+    // 3 added on X; 2 removed on X
+    const plan = planListSync(
+      ["1", "2"],
+      ["1", "3"],
+      synced(["1", "2"]),
+      known("1", "2"),
+    );
+    expect(plan.addLocally).toEqual(["3"]);
+    expect(plan.removeLocally).toEqual(["2"]);
+    expect(plan.addToX).toEqual([]);
+    expect(plan.removeFromX).toEqual([]);
+  });
+
+  it("doesn't remove members from X that were deleted from the DB", () => {
+    const plan = planListSync(
+      ["1"],
+      ["1", "2"],
+      synced(["1", "2"]),
+      known("1"),
+    );
+    expect(isInSync(plan)).toBe(true);
+  });
+
+  it("reports every difference as a conflict without a last sync", () => {
+    const plan = planListSync(["1", "2"], ["2", "3"], undefined, known("1"));
+    expect(plan.conflicts).toEqual([
+      { userId: "1", onX: false },
+      { userId: "3", onX: true },
+    ]);
+    expect(plan.addToX).toEqual([]);
+    expect(plan.addLocally).toEqual([]);
+  });
+});
+
+describe("resolveConflicts", () => {
+  const plan = planListSync(["1", "2"], ["2", "3"], undefined, known("1"));
+
+  it("merge keeps members from both sides", () => {
+    const resolved = resolveConflicts(plan, "merge");
+    expect(resolved.addToX).toEqual(["1"]);
+    expect(resolved.addLocally).toEqual(["3"]);
+    expect(resolved.removeFromX).toEqual([]);
+    expect(resolved.removeLocally).toEqual([]);
+    expect(resolved.conflicts).toEqual([]);
+  });
+
+  it("prefer-local makes X match this list", () => {
+    const resolved = resolveConflicts(plan, "prefer-local");
+    expect(resolved.addToX).toEqual(["1"]);
+    expect(resolved.removeFromX).toEqual(["3"]);
+    expect(resolved.addLocally).toEqual([]);
+  });
+
+  it("prefer-x makes this list match X", () => {
+    const resolved = resolveConflicts(plan, "prefer-x");
+    expect(resolved.addLocally).toEqual(["3"]);
+    expect(resolved.removeLocally).toEqual(["1"]);
+    expect(resolved.addToX).toEqual([]);
+  });
+});
+
+describe("pushToX", () => {
+  it("applies additions then removals and collects failures", async () => {
+    const calls: string[] = [];
+    const ops = {
+      add: vi.fn(async (id: string) => {
+        calls.push(`add:${id}`);
+        if (id === "4") throw new Error("lists/members/create.json error: 403");
+      }),
+      remove: vi.fn(async (id: string) => {
+        calls.push(`remove:${id}`);
+      }),
+    };
+    const onProgress = vi.fn();
+
+    const result = await pushToX(
+      {
+        addToX: ["3", "4"],
+        removeFromX: ["2"],
+        addLocally: [],
+        removeLocally: [],
+        conflicts: [],
+      },
+      ops,
+      onProgress,
+    );
+
+    expect(calls).toEqual(["add:3", "add:4", "remove:2"]);
+    expect(result.added).toEqual(["3"]);
+    expect(result.removed).toEqual(["2"]);
+    expect(result.failed).toEqual([
+      { userId: "4", error: "lists/members/create.json error: 403" },
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+  });
+
+  it("leaves writes after a stop for the next sync", async () => {
+    const ops = {
+      add: vi.fn(async () => stopListWrites()),
+      remove: vi.fn(async () => {}),
+    };
+
+    const result = await pushToX(
+      {
+        addToX: ["3", "4"],
+        removeFromX: ["2"],
+        addLocally: [],
+        removeLocally: [],
+        conflicts: [],
+      },
+      ops,
+    );
+
+    expect(result).toEqual({ added: ["3"], removed: [], failed: [] });
+    expect(nextSyncState(["1", "2"], result).memberIds).toEqual([
+      "1",
+      "2",
+      "3",
+    ]);
+  });
+});
+
+describe("nextSyncState", () => {
+  it("records X membership after the pushed changes", () => {
+    const state = nextSyncState(["1", "2"], {
+      added: ["3"],
+      removed: ["2"],
+      failed: [{ userId: "4", error: "403" }],
+    });
+    // 4 failed, so the next sync sees it as a local addition again
+    expect(state.memberIds.sort()).toEqual(["1", "3"]);
+    expect(state.syncedAt).toBeTruthy();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock delay to resolve immediately
+vi.mock("@/utils/rate-limiter", () => ({
+  delay: vi.fn(() => Promise.resolve()),
+}));
+
+import { delay } from "@/utils/rate-limiter";
+import { bulkWriteListMembers, stopListWrites } from "@/core/list-writer";
+
+describe("bulkWriteListMembers", () => {
+  const writes = [
+    { userId: "1", op: "add" as const },
+    { userId: "2", op: "add" as const },
+    { userId: "3", op: "remove" as const },
+  ];
+
+  beforeEach(() => {
+    vi.mocked(delay).mockReset();
+    vi.mocked(delay).mockResolvedValue(undefined);
+  });
+
+  it("writes one at a time with a delay between requests", async () => {
+    const write = vi.fn(async ({ userId }: { userId: string }) => {
+      if (userId === "2")
+        throw new Error("lists/members/create.json error: 403");
+    });
+    const onProgress = vi.fn();
+
+    const results = await bulkWriteListMembers(writes, write, {}, onProgress);
+
+    expect(write).toHaveBeenCalledTimes(3);
+    expect(delay).toHaveBeenCalledTimes(2);
+    expect(results).toEqual([
+      { userId: "1", op: "add", success: true },
+      {
+        userId: "2",
+        op: "add",
+        success: false,
+        error: "lists/members/create.json error: 403",
+      },
+      { userId: "3", op: "remove", success: true },
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+  });
+
+  it("stops partway on request", async () => {
+    const write = vi.fn(async () => {
+      stopListWrites();
+    });
+
+    const results = await bulkWriteListMembers(writes, write);
+
+    expect(results).toEqual([{ userId: "1", op: "add", success: true }]);
+    expect(delay).not.toHaveBeenCalled();
+  });
+});
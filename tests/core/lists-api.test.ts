@@ -18,11 +18,19 @@ vi.mock("@/utils/rate-limiter", () => ({
 
 import {
   fetchMyLists,
+  fetchSubscribedLists,
+  fetchListById,
+  parseListId,
   fetchListMembers,
+  streamListMembers,
   createXList,
   addListMember,
+  removeListMember,
+  type ListMembersPage,
 } from "@/core/lists-api";
 
+type OnPage = (page: ListMembersPage, fetched: number) => Promise<void>;
+
 describe("lists-api", () => {
   const fetchSpy = vi.fn();
 
@@ -77,6 +85,88 @@ describe("lists-api", () => {
     });
   });
 
+  describe("fetchSubscribedLists", () => {
+    it("returns lists owned by others with their owner", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              id_str: "111",
+              name: "My List",
+              description: "",
+              member_count: 5,
+              mode: "private",
+              user: { id_str: "12345", screen_name: "me" },
+            },
+            {
+              id_str: "222",
+              name: "Curated",
+              description: "Good follows",
+              member_count: 10,
+              mode: "public",
+              user: { id_str: "99999", screen_name: "curator" },
+            },
+          ]),
+      });
+
+      const lists = await fetchSubscribedLists();
+      expect(lists).toEqual([
+        {
+          id: "222",
+          name: "Curated",
+          description: "Good follows",
+          memberCount: 10,
+          mode: "public",
+          owner: "curator",
+        },
+      ]);
+    });
+  });
+
+  describe("fetchListById", () => {
+    it("maps a public list of another user", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () =>
+          Promise.resolve({
+            id_str: "333",
+            name: "Public",
+            description: "",
+            member_count: 3,
+            mode: "public",
+            user: { id_str: "777", screen_name: "someone" },
+          }),
+      });
+
+      const list = await fetchListById("333");
+      expect(list.owner).toBe("someone");
+      const [url] = fetchSpy.mock.calls[0];
+      expect(url).toContain("lists/show.json?list_id=333");
+    });
+
+    it("explains a 404 as missing or private", async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: false, status: 404 });
+      await expect(fetchListById("333")).rejects.toThrow(
+        "List not found, or it's private",
+      );
+    });
+  });
+
+  describe("parseListId", () => {
+    it("accepts list URLs and bare IDs", () => {
+      expect(parseListId("https://x.com/i/lists/1234")).toBe("1234");
+      expect(parseListId("twitter.com/i/lists/1234/members")).toBe("1234");
+      expect(parseListId(" 1234 ")).toBe("1234");
+    });
+
+    it("rejects anything else", () => {
+      expect(parseListId("https://x.com/someone")).toBeNull();
+      expect(parseListId("my list")).toBeNull();
+    });
+  });
+
   describe("fetchListMembers", () => {
     it("paginates and returns all members", async () => {
       fetchSpy.mockResolvedValueOnce({
@@ -143,6 +233,69 @@ describe("lists-api", () => {
     });
   });
 
+  describe("streamListMembers", () => {
+    const page = (ids: string[], next: string) => ({
+      ok: true,
+      status: 200,
+      json: () =>
+        Promise.resolve({
+          users: ids.map((id) => ({ id_str: id, screen_name: `u${id}` })),
+          next_cursor_str: next,
+        }),
+    });
+
+    it("hands each page to onPage with the cursor to resume from", async () => {
+      fetchSpy.mockResolvedValueOnce(page(["1", "2"], "c2"));
+      fetchSpy.mockResolvedValueOnce(page(["3"], "0"));
+      const onPage = vi.fn<OnPage>(() => Promise.resolve());
+
+      const fetched = await streamListMembers("list1", onPage);
+
+      expect(fetched).toBe(3);
+      expect(onPage).toHaveBeenCalledTimes(2);
+      expect(onPage.mock.calls[0][0].nextCursor).toBe("c2");
+      expect(onPage.mock.calls[0][1]).toBe(2);
+      expect(onPage.mock.calls[1][0].nextCursor).toBeNull();
+    });
+
+    it("resumes from a saved cursor", async () => {
+      fetchSpy.mockResolvedValueOnce(page(["3"], "0"));
+
+      await streamListMembers("list1", () => Promise.resolve(), "c2");
+      const [url] = fetchSpy.mock.calls[0];
+      expect(new URL(url).searchParams.get("cursor")).toBe("c2");
+    });
+
+    it("throws when the API repeats a cursor, keeping the last one", async () => {
+      fetchSpy.mockResolvedValueOnce(page(["1"], "c2"));
+      fetchSpy.mockResolvedValueOnce(page(["2"], "c2"));
+      const onPage = vi.fn<OnPage>(() => Promise.resolve());
+
+      await expect(streamListMembers("list1", onPage)).rejects.toThrow(
+        "lists/members.json repeated cursor c2",
+      );
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      // Only the first page was handed over; resuming starts from c2
+      expect(onPage).toHaveBeenCalledTimes(1);
+      expect(onPage.mock.calls[0][0].nextCursor).toBe("c2");
+    });
+
+    it("throws on an unreadable page instead of stopping early", async () => {
+      fetchSpy.mockResolvedValueOnce(page(["1"], "c2"));
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.reject(new SyntaxError("Unexpected end of JSON")),
+      });
+      const onPage = vi.fn<OnPage>(() => Promise.resolve());
+
+      await expect(streamListMembers("list1", onPage)).rejects.toThrow(
+        "lists/members.json returned an empty response",
+      );
+      expect(onPage).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("createXList", () => {
     it("sends correct POST params and maps response", async () => {
       fetchSpy.mockResolvedValueOnce({
@@ -170,6 +323,18 @@ describe("lists-api", () => {
       expect(url).toBe("https://x.com/i/api/1.1/lists/create.json");
       expect(opts.method).toBe("POST");
     });
+
+    it("cuts the name and description to X's limits", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ id_str: "newlist1" }),
+      });
+
+      await createXList("A".repeat(40), "d".repeat(300));
+      const [, opts] = fetchSpy.mock.calls[0];
+      expect(opts.body.get("name")).toHaveLength(25);
+      expect(opts.body.get("description")).toHaveLength(100);
+    });
   });
 
   describe("addListMember", () => {
@@ -200,4 +365,26 @@ describe("lists-api", () => {
       );
     });
   });
+
+  describe("removeListMember", () => {
+    it("sends POST to members/destroy with list_id and user_id", async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: true });
+
+      await removeListMember("list1", "user1");
+      const [url, opts] = fetchSpy.mock.calls[0];
+      expect(url).toContain("lists/members/destroy.json");
+      expect(opts.method).toBe("POST");
+      expect(opts.body.get("list_id")).toBe("list1");
+      expect(opts.body.get("user_id")).toBe("user1");
+    });
+
+    it("throws if retry also fails", async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: false, status: 429 });
+      fetchSpy.mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await expect(removeListMember("list1", "user1")).rejects.toThrow(
+        "lists/members/destroy.json error: 500",
+      );
+    });
+  });
 });
@@ -0,0 +1,353 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  complete,
+  completeJSON,
+  defaultLLMConfig,
+  estimateCost,
+  extractJSON,
+  isLLMConfigured,
+  loadLLMConfig,
+  saveLLMConfig,
+} from "@/core/llm";
+import { chromeStorageData } from "../setup";
+
+function mockResponse(body: unknown, ok = true, status = 200) {
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  };
+}
+
+describe("complete", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("calls the Anthropic Messages API with the tier's model", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(mockResponse({ content: [{ text: "hello" }] }));
+    globalThis.fetch = mockFetch;
+
+    const text = await complete(defaultLLMConfig("anthropic", "sk-ant"), {
+      tier: "smart",
+      maxTokens: 100,
+      prompt: "Hi",
+    });
+
+    expect(text).toBe("hello");
+    const [url, opts] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect(opts.headers["x-api-key"]).toBe("sk-ant");
+    const body = JSON.parse(opts.body);
+    expect(body.model).toBe("claude-sonnet-4-5-20250929");
+    expect(body.max_tokens).toBe(100);
+    expect(body.messages).toEqual([{ role: "user", content: "Hi" }]);
+  });
+
+  it("calls OpenAI-compatible chat completions with a bearer token", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(
+        mockResponse({ choices: [{ message: { content: "hi there" } }] }),
+      );
+    globalThis.fetch = mockFetch;
+
+    const config = {
+      ...defaultLLMConfig("openai", "sk-oa"),
+      baseUrl: "https://llm.example.com/v1/",
+    };
+    const text = await complete(config, {
+      tier: "fast",
+      maxTokens: 50,
+      prompt: "Hi",
+    });
+
+    expect(text).toBe("hi there");
+    const [url, opts] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://llm.example.com/v1/chat/completions");
+    expect(opts.headers.authorization).toBe("Bearer sk-oa");
+    expect(JSON.parse(opts.body).model).toBe("gpt-4o-mini");
+  });
+
+  it("talks to a local server without an API key", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(
+        mockResponse({ choices: [{ message: { content: "{}" } }] }),
+      );
+    globalThis.fetch = mockFetch;
+
+    await complete(defaultLLMConfig("local"), {
+      tier: "fast",
+      maxTokens: 50,
+      prompt: "Hi",
+    });
+
+    const [url, opts] = mockFetch.mock.calls[0];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(opts.headers.authorization).toBeUndefined();
+  });
+
+  it("throws with status and body on API errors", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(mockResponse({ error: "overloaded" }, false, 529));
+
+    await expect(
+      complete(defaultLLMConfig("anthropic", "key"), {
+        tier: "fast",
+        maxTokens: 10,
+        prompt: "Hi",
+      }),
+    ).rejects.toThrow(/API error 529: .*overloaded/);
+  });
+});
+
+describe("isLLMConfigured", () => {
+  it("requires a key for hosted providers only", () => {
+    expect(isLLMConfigured(defaultLLMConfig("anthropic"))).toBe(false);
+    expect(isLLMConfigured(defaultLLMConfig("anthropic", "k"))).toBe(true);
+    expect(isLLMConfigured(defaultLLMConfig("openai"))).toBe(false);
+    expect(isLLMConfigured(defaultLLMConfig("local"))).toBe(true);
+  });
+
+  it("requires a base URL and both models", () => {
+    const config = defaultLLMConfig("local");
+    expect(isLLMConfigured({ ...config, baseUrl: "" })).toBe(false);
+    expect(
+      isLLMConfigured({ ...config, models: { ...config.models, smart: "" } }),
+    ).toBe(false);
+  });
+});
+
+describe("loadLLMConfig", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(chromeStorageData)) {
+      delete chromeStorageData[key];
+    }
+  });
+
+  it("defaults to Anthropic without a key", async () => {
+    expect(await loadLLMConfig()).toEqual(defaultLLMConfig("anthropic"));
+  });
+
+  it("picks up a Claude API key saved by earlier versions", async () => {
+    chromeStorageData.xsweep_claude_api_key = "sk-ant-old";
+    const config = await loadLLMConfig();
+    expect(config.provider).toBe("anthropic");
+    expect(config.apiKey).toBe("sk-ant-old");
+  });
+
+  it("round-trips a saved config", async () => {
+    const config = {
+      ...defaultLLMConfig("local"),
+      baseUrl: "http://127.0.0.1:8080/v1",
+    };
+    await saveLLMConfig(config);
+    expect(await loadLLMConfig()).toEqual(config);
+  });
+});
+
+describe("completeJSON", () => {
+  const schema = {
+    name: "record",
+    description: "Record it",
+    schema: { type: "object", properties: {} },
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("forces tool use on Anthropic and returns the tool input", async () => {
+    const mockFetch = vi.fn().mockResolvedValue(
+      mockResponse({
+        content: [{ type: "tool_use", name: "record", input: { a: 1 } }],
+      }),
+    );
+    globalThis.fetch = mockFetch;
+
+    const output = await completeJSON(defaultLLMConfig("anthropic", "k"), {
+      tier: "fast",
+      maxTokens: 10,
+      prompt: "Hi",
+      schema,
+    });
+
+    expect(output).toEqual({ a: 1 });
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.tools[0]).toMatchObject({
+      name: "record",
+      input_schema: schema.schema,
+    });
+    expect(body.tool_choice).toEqual({ type: "tool", name: "record" });
+  });
+
+  it("sends a JSON schema response_format to OpenAI-compatible servers", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(
+        mockResponse({ choices: [{ message: { content: '{"a": 2}' } }] }),
+      );
+    globalThis.fetch = mockFetch;
+
+    const output = await completeJSON(defaultLLMConfig("local"), {
+      tier: "fast",
+      maxTokens: 10,
+      prompt: "Hi",
+      schema,
+    });
+
+    expect(output).toEqual({ a: 2 });
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.response_format).toEqual({
+      type: "json_schema",
+      json_schema: {
+        name: "record",
+        description: "Record it",
+        schema: schema.schema,
+        strict: true,
+      },
+    });
+  });
+
+  it("throws when the reply has no JSON", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(
+        mockResponse({ choices: [{ message: { content: "Sorry!" } }] }),
+      );
+
+    await expect(
+      completeJSON(defaultLLMConfig("local"), {
+        tier: "fast",
+        maxTokens: 10,
+        prompt: "Hi",
+        schema,
+      }),
+    ).rejects.toThrow(/no structured output/);
+  });
+});
+
+describe("extractJSON", () => {
+  it("takes the first balanced object, ignoring surrounding prose", () => {
+    expect(
+      extractJSON(
+        'Here you go:\n```json\n{"a": {"b": "}"}}\n```\nAlso {"c": 1}',
+      ),
+    ).toEqual({ a: { b: "}" } });
+  });
+
+  it("returns undefined for text without a complete object", () => {
+    expect(extractJSON("nothing here")).toBeUndefined();
+    expect(extractJSON('{"a": 1')).toBeUndefined();
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices known models per million tokens", () => {
+    const config = defaultLLMConfig("anthropic", "k");
+    // Haiku: $1 in / $5 out
+    expect(estimateCost(config, "fast", 1_000_000, 100_000)).toBeCloseTo(1.5);
+  });
+
+  it("is free locally and unknown for unpriced models", () => {
+    expect(estimateCost(defaultLLMConfig("local"), "fast", 1000, 1000)).toBe(0);
+    const custom = {
+      ...defaultLLMConfig("openai", "k"),
+      models: { fast: "my-model", smart: "my-model" },
+    };
+    expect(estimateCost(custom, "fast", 1000, 1000)).toBeNull();
+  });
+});
+
+describe("usage reporting", () => {
+  it("reports Anthropic usage from the response", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(
+      mockResponse({
+        content: [{ text: "ok" }],
+        usage: { input_tokens: 120, output_tokens: 30 },
+      }),
+    );
+    const onUsage = vi.fn();
+
+    await complete(defaultLLMConfig("anthropic", "k"), {
+      tier: "fast",
+      maxTokens: 100,
+      prompt: "Hi",
+      onUsage,
+    });
+
+    expect(onUsage).toHaveBeenCalledWith({
+      model: "claude-haiku-4-5-20251001",
+      tier: "fast",
+      inputTokens: 120,
+      outputTokens: 30,
+    });
+  });
+
+  it("reports OpenAI-style usage", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(
+      mockResponse({
+        choices: [{ message: { content: "ok" } }],
+        usage: { prompt_tokens: 50, completion_tokens: 5 },
+      }),
+    );
+    const onUsage = vi.fn();
+
+    await complete(defaultLLMConfig("openai", "k"), {
+      tier: "smart",
+      maxTokens: 100,
+      prompt: "Hi",
+      onUsage,
+    });
+
+    expect(onUsage).toHaveBeenCalledWith({
+      model: "gpt-4o",
+      tier: "smart",
+      inputTokens: 50,
+      outputTokens: 5,
+    });
+  });
+
+  it("estimates usage when the server doesn't report it", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(
+        mockResponse({ choices: [{ message: { content: "ok" } }] }),
+      );
+    const onUsage = vi.fn();
+
+    await complete(defaultLLMConfig("local"), {
+      tier: "fast",
+      maxTokens: 100,
+      prompt: "x".repeat(400),
+      onUsage,
+    });
+
+    expect(onUsage.mock.calls[0][0].inputTokens).toBe(100);
+    expect(onUsage.mock.calls[0][0].outputTokens).toBeGreaterThan(0);
+  });
+
+  it("estimates output from the generated text, not the whole response", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(
+      mockResponse({
+        id: "chatcmpl-" + "x".repeat(400),
+        choices: [{ message: { content: "x".repeat(40) } }],
+      }),
+    );
+    const onUsage = vi.fn();
+
+    await complete(defaultLLMConfig("local"), {
+      tier: "fast",
+      maxTokens: 100,
+      prompt: "Hi",
+      onUsage,
+    });
+
+    expect(onUsage.mock.calls[0][0].outputTokens).toBe(10);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/core/auth", () => ({
+  getHeaders: () => ({ authorization: "Bearer mock-token" }),
+}));
+
+// Mock delay to resolve immediately
+vi.mock("@/utils/rate-limiter", () => ({
+  delay: vi.fn(() => Promise.resolve()),
+}));
+
+import { delay } from "@/utils/rate-limiter";
+import {
+  blockUser,
+  bulkModerate,
+  removeFollower,
+  stopModeration,
+} from "@/core/moderation";
+import { resetScheduler } from "@/utils/request-scheduler";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+describe("moderation API", () => {
+  const fetchSpy = vi.fn();
+
+  beforeEach(() => {
+    resetScheduler();
+    fetchSpy.mockReset();
+    globalThis.fetch = fetchSpy;
+  });
+
+  it("blocks through blocks/create.json", async () => {
+    fetchSpy.mockResolvedValue(jsonResponse({ id_str: "42" }));
+
+    await blockUser("42");
+
+    const [url, opts] = fetchSpy.mock.calls[0];
+    expect(url).toBe("https://x.com/i/api/1.1/blocks/create.json");
+    expect(opts.method).toBe("POST");
+    expect(String(opts.body)).toBe("user_id=42");
+  });
+
+  it("throws when a block fails", async () => {
+    fetchSpy.mockResolvedValue(jsonResponse({}, 403));
+    await expect(blockUser("42")).rejects.toThrow(
+      "blocks/create.json error: 403",
+    );
+  });
+
+  it("removes a follower with the RemoveFollower mutation", async () => {
+    fetchSpy.mockResolvedValue(
+      jsonResponse({
+        data: { remove_follower: { unfollow_success_reason: "Unfollowed" } },
+      }),
+    );
+
+    await removeFollower("42");
+
+    const [url, opts] = fetchSpy.mock.calls[0];
+    expect(url).toMatch(/\/i\/api\/graphql\/[\w-]+\/RemoveFollower$/);
+    expect(JSON.parse(opts.body).variables).toEqual({ target_user_id: "42" });
+  });
+
+  it("treats GraphQL errors in a 200 as failures", async () => {
+    fetchSpy.mockResolvedValue(
+      jsonResponse({ errors: [{ message: "Authorization: Denied" }] }),
+    );
+    await expect(removeFollower("42")).rejects.toThrow(
+      "RemoveFollower error: Authorization: Denied",
+    );
+  });
+
+  it("reports remove follower as unavailable when X drops the query ID", async () => {
+    fetchSpy.mockResolvedValue(jsonResponse({}, 404));
+    await expect(removeFollower("42")).rejects.toThrow(
+      "Remove follower is unavailable",
+    );
+  });
+});
+
+describe("bulkModerate", () => {
+  const users = [
+    { userId: "1", username: "a" },
+    { userId: "2", username: "b" },
+    { userId: "3", username: "c" },
+  ];
+
+  beforeEach(() => {
+    vi.mocked(delay).mockReset();
+    vi.mocked(delay).mockResolvedValue(undefined);
+  });
+
+  it("acts on each account with a delay between requests", async () => {
+    const act = vi.fn(async (userId: string) =>
+      userId === "2" ? { success: false, error: "403" } : { success: true },
+    );
+    const onProgress = vi.fn();
+
+    const results = await bulkModerate(users, act, {}, onProgress);
+
+    expect(act).toHaveBeenCalledTimes(3);
+    expect(delay).toHaveBeenCalledTimes(2);
+    expect(results.map((r) => r.success)).toEqual([true, false, true]);
+    expect(results[1].error).toBe("403");
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3, "done");
+  });
+
+  it("reports thrown errors and stops on request", async () => {
+    const act = vi.fn(async (userId: string) => {
+      if (userId === "1") throw new Error("boom");
+      stopModeration();
+      return { success: true };
+    });
+
+    const results = await bulkModerate(users, act);
+
+    expect(results).toEqual([
+      { userId: "1", username: "a", success: false, error: "boom" },
+      { userId: "2", username: "b", success: true },
+    ]);
+  });
+});
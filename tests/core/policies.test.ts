@@ -0,0 +1,253 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PROTECTIONS,
+  INACTIVE_RULES,
+  describeRules,
+  evaluatePolicy,
+  matchesRules,
+  rulesFromAdvancedFilters,
+} from "@/core/policies";
+import type { PolicyRule } from "@/core/types";
+import { makeUser } from "../helpers/fixtures";
+
+const noProtections = {
+  whitelist: false,
+  mutuals: false,
+  verified: false,
+  minFollowers: 0,
+};
+
+describe("matchesRules", () => {
+  it("requires every rule to hold", () => {
+    const rules: PolicyRule[] = [
+      { field: "daysSinceLastTweet", op: "gt", value: 365 },
+      { field: "isMutual", op: "eq", value: false },
+      { field: "followerCount", op: "lt", value: 500 },
+    ];
+    const stale = makeUser({
+      daysSinceLastTweet: 400,
+      isMutual: false,
+      followerCount: 100,
+    });
+
+    expect(matchesRules(stale, rules)).toBe(true);
+    expect(matchesRules({ ...stale, isMutual: true }, rules)).toBe(false);
+    expect(matchesRules({ ...stale, followerCount: 500 }, rules)).toBe(false);
+  });
+
+  it("matches everyone with no rules", () => {
+    expect(matchesRules(makeUser(), [])).toBe(true);
+  });
+
+  it("treats accounts that never tweeted as infinitely inactive", () => {
+    const user = makeUser({ daysSinceLastTweet: null });
+    expect(
+      matchesRules(user, [
+        { field: "daysSinceLastTweet", op: "gt", value: 9999 },
+      ]),
+    ).toBe(true);
+  });
+
+  it("gives accounts without followers an infinite follow ratio", () => {
+    const rule: PolicyRule = { field: "followRatio", op: "gte", value: 10 };
+    expect(
+      matchesRules(makeUser({ followerCount: 0, followingCount: 5 }), [rule]),
+    ).toBe(true);
+    expect(
+      matchesRules(makeUser({ followerCount: 100, followingCount: 500 }), [
+        rule,
+      ]),
+    ).toBe(false);
+  });
+
+  it("checks status with in / not_in", () => {
+    const suspended = makeUser({ status: "suspended" });
+    expect(matchesRules(suspended, INACTIVE_RULES)).toBe(true);
+    expect(matchesRules(makeUser({ status: "active" }), INACTIVE_RULES)).toBe(
+      false,
+    );
+    expect(
+      matchesRules(suspended, [
+        { field: "status", op: "not_in", value: ["suspended"] },
+      ]),
+    ).toBe(false);
+  });
+
+  it("checks smart list membership with contains / not_contains", () => {
+    const user = makeUser({ listIds: [2, 3] });
+    expect(
+      matchesRules(user, [{ field: "listIds", op: "contains", value: [3] }]),
+    ).toBe(true);
+    expect(
+      matchesRules(user, [
+        { field: "listIds", op: "not_contains", value: [3] },
+      ]),
+    ).toBe(false);
+    expect(
+      matchesRules(user, [
+        { field: "listIds", op: "not_contains", value: [7] },
+      ]),
+    ).toBe(true);
+  });
+});
+
+describe("rulesFromAdvancedFilters", () => {
+  const none = {
+    followerMin: null,
+    followerMax: null,
+    followingMin: null,
+    followingMax: null,
+    followRatioMin: null,
+    verifiedOnly: false,
+    lowEngagement: false,
+    likelyBots: false,
+  };
+
+  it("returns no rules when no filter is set", () => {
+    expect(rulesFromAdvancedFilters(none)).toEqual([]);
+  });
+
+  it("expresses follower ranges and verified-only", () => {
+    const rules = rulesFromAdvancedFilters({
+      ...none,
+      followerMin: 100,
+      followerMax: 1000,
+      verifiedOnly: true,
+    });
+    expect(
+      matchesRules(makeUser({ followerCount: 500, isVerified: true }), rules),
+    ).toBe(true);
+    expect(
+      matchesRules(makeUser({ followerCount: 50, isVerified: true }), rules),
+    ).toBe(false);
+    expect(
+      matchesRules(makeUser({ followerCount: 500, isVerified: false }), rules),
+    ).toBe(false);
+  });
+
+  it("expresses low engagement as few followers and a quiet 90 days", () => {
+    const rules = rulesFromAdvancedFilters({ ...none, lowEngagement: true });
+    expect(
+      matchesRules(
+        makeUser({ followerCount: 10, daysSinceLastTweet: 120 }),
+        rules,
+      ),
+    ).toBe(true);
+    expect(
+      matchesRules(
+        makeUser({ followerCount: 10, daysSinceLastTweet: 30 }),
+        rules,
+      ),
+    ).toBe(false);
+  });
+
+  it("expresses likely bots as a bot score threshold", () => {
+    const rules = rulesFromAdvancedFilters({ ...none, likelyBots: true });
+    const bot = makeUser({
+      username: "crypto84920173",
+      bio: "",
+      followerCount: 0,
+      followingCount: 900,
+      profileImageUrl:
+        "https://abs.twimg.com/sticky/default_profile_images/default_profile_normal.png",
+    });
+    expect(matchesRules(bot, rules)).toBe(true);
+    expect(matchesRules(makeUser(), rules)).toBe(false);
+  });
+});
+
+describe("evaluatePolicy", () => {
+  const policy = { rules: INACTIVE_RULES, protections: DEFAULT_PROTECTIONS };
+
+  it("returns matching accounts we follow", () => {
+    const users = [
+      makeUser({ userId: "1", status: "inactive", isMutual: false }),
+      makeUser({ userId: "2", status: "active", isMutual: false }),
+      makeUser({
+        userId: "3",
+        status: "inactive",
+        isMutual: false,
+        isFollowing: false,
+      }),
+    ];
+    const { matches, protectedCount } = evaluatePolicy(users, policy);
+    expect(matches.map((u) => u.userId)).toEqual(["1"]);
+    expect(protectedCount).toBe(0);
+  });
+
+  it("skips stubs that have no profile data yet", () => {
+    const users = [
+      makeUser({
+        userId: "1",
+        status: "active",
+        tweetCount: 0,
+        daysSinceLastTweet: null,
+        isMutual: false,
+        isStub: true,
+      }),
+    ];
+    const { matches } = evaluatePolicy(users, {
+      rules: [{ field: "daysSinceLastTweet", op: "gt", value: 365 }],
+      protections: DEFAULT_PROTECTIONS,
+    });
+    expect(matches).toEqual([]);
+  });
+
+  it("counts matches excluded by protections", () => {
+    const users = [
+      makeUser({ userId: "1", status: "inactive", isMutual: true }),
+      makeUser({
+        userId: "2",
+        status: "inactive",
+        isMutual: false,
+        isVerified: true,
+      }),
+      makeUser({
+        userId: "3",
+        status: "inactive",
+        isMutual: false,
+        username: "Friend",
+      }),
+      makeUser({ userId: "4", status: "inactive", isMutual: false }),
+    ];
+    const { matches, protectedCount } = evaluatePolicy(
+      users,
+      policy,
+      new Set(["friend"]),
+    );
+    expect(matches.map((u) => u.userId)).toEqual(["4"]);
+    expect(protectedCount).toBe(3);
+  });
+
+  it("protects big accounts with minFollowers", () => {
+    const users = [
+      makeUser({ userId: "1", status: "inactive", followerCount: 10_000 }),
+    ];
+    const result = evaluatePolicy(users, {
+      rules: INACTIVE_RULES,
+      protections: { ...noProtections, minFollowers: 5000 },
+    });
+    expect(result.matches).toHaveLength(0);
+    expect(result.protectedCount).toBe(1);
+  });
+});
+
+describe("describeRules", () => {
+  it("joins rules with AND and names lists", () => {
+    const text = describeRules(
+      [
+        { field: "daysSinceLastTweet", op: "gt", value: 365 },
+        { field: "isMutual", op: "eq", value: false },
+        { field: "listIds", op: "not_contains", value: [4] },
+      ],
+      new Map([[4, "Friends"]]),
+    );
+    expect(text).toBe(
+      "Days since last tweet > 365 AND Mutual = no AND not on Friends",
+    );
+  });
+
+  it("describes an empty rule set", () => {
+    expect(describeRules([])).toBe("Everyone you follow");
+  });
+});
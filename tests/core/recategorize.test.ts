@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  addPendingRecategorization,
+  formatRecategorizeSummary,
+  planRecategorization,
+  takePendingRecategorization,
+} from "@/core/recategorize";
+import { makeUser, makeList } from "../helpers/fixtures";
+import { chromeStorageData } from "../setup";
+
+describe("planRecategorization", () => {
+  const lists = [
+    makeList({ id: 1, keywords: ["engineer"] }),
+    makeList({ id: 2, keywords: ["rust"] }),
+    makeList({ id: 3, type: "ai", keywords: [] }),
+  ];
+
+  it("adds keyword and AI matches the users aren't in yet", () => {
+    const users = [
+      makeUser({ userId: "a", bio: "Rust engineer", listIds: [1] }),
+      makeUser({ userId: "b", bio: "Engineer", listIds: [] }),
+      makeUser({ userId: "c", bio: "Gardener", listIds: [] }),
+    ];
+
+    const plan = planRecategorization(users, lists, new Map([["c", [3]]]));
+
+    expect(plan.updates).toEqual(
+      new Map([
+        ["a", [1, 2]],
+        ["b", [1]],
+        ["c", [3]],
+      ]),
+    );
+    expect(plan.summary).toEqual({ members: 3, lists: 3 });
+  });
+
+  it("never removes memberships", () => {
+    const users = [makeUser({ userId: "a", bio: "Gardener", listIds: [1] })];
+
+    const plan = planRecategorization(users, lists);
+
+    expect(plan.updates.size).toBe(0);
+    expect(plan.summary).toEqual({ members: 0, lists: 0 });
+  });
+});
+
+describe("formatRecategorizeSummary", () => {
+  it("pluralizes members and lists", () => {
+    expect(formatRecategorizeSummary({ members: 12, lists: 3 })).toBe(
+      "12 new members added to 3 lists",
+    );
+    expect(formatRecategorizeSummary({ members: 1, lists: 1 })).toBe(
+      "1 new member added to 1 list",
+    );
+  });
+});
+
+describe("pending recategorization", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(chromeStorageData)) {
+      delete chromeStorageData[key];
+    }
+  });
+
+  it("collects IDs across batches until taken", async () => {
+    await addPendingRecategorization("me", ["1", "2"]);
+    await addPendingRecategorization("me", ["2", "3"]);
+
+    expect(await takePendingRecategorization("me")).toEqual(["1", "2", "3"]);
+    expect(await takePendingRecategorization("me")).toEqual([]);
+  });
+
+  it("keeps each account's IDs apart", async () => {
+    await addPendingRecategorization("me", ["1"]);
+    await addPendingRecategorization("other", ["2"]);
+
+    expect(await takePendingRecategorization("other")).toEqual(["2"]);
+    expect(await takePendingRecategorization("someone-else")).toEqual([]);
+    expect(await takePendingRecategorization("me")).toEqual(["1"]);
+  });
+});
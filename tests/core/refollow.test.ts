@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock delay to resolve immediately
+vi.mock("@/utils/rate-limiter", () => ({
+  delay: vi.fn(() => Promise.resolve()),
+}));
+
+import { delay } from "@/utils/rate-limiter";
+import {
+  bulkRefollow,
+  getRecentUnfollows,
+  getTodayRefollowCount,
+  stopRefollow,
+} from "@/core/refollow";
+import type { UnfollowEntry } from "@/core/types";
+import { chromeStorageData } from "../setup";
+
+const NOW = new Date("2026-03-01T00:00:00.000Z").getTime();
+
+function entry(overrides: Partial<UnfollowEntry> = {}): UnfollowEntry {
+  return {
+    id: 1,
+    userId: "1",
+    username: "alice",
+    date: "2026-02-25T00:00:00.000Z",
+    reason: "inactive",
+    ...overrides,
+  };
+}
+
+describe("getRecentUnfollows", () => {
+  it("keeps real unfollows inside the window", () => {
+    const recent = getRecentUnfollows(
+      [
+        entry({ id: 1, userId: "1" }),
+        entry({ id: 2, userId: "2", reason: "dry_run" }),
+        entry({ id: 3, userId: "3", date: "2026-01-01T00:00:00.000Z" }),
+        entry({ id: 4, userId: "4", refollowedAt: "2026-02-26T00:00:00Z" }),
+      ],
+      30,
+      NOW,
+    );
+
+    expect(recent.map((e) => e.id)).toEqual([1]);
+  });
+
+  it("returns one entry per account, newest first", () => {
+    const recent = getRecentUnfollows(
+      [
+        entry({ id: 1, userId: "1", date: "2026-02-20T00:00:00.000Z" }),
+        entry({ id: 2, userId: "2", date: "2026-02-28T00:00:00.000Z" }),
+        entry({ id: 3, userId: "1", date: "2026-02-27T00:00:00.000Z" }),
+      ],
+      30,
+      NOW,
+    );
+
+    expect(recent.map((e) => e.id)).toEqual([2, 3]);
+  });
+
+  it("hides an account whose latest unfollow was already undone", () => {
+    const recent = getRecentUnfollows(
+      [
+        entry({ id: 1, date: "2026-02-20T00:00:00.000Z" }),
+        entry({
+          id: 2,
+          date: "2026-02-27T00:00:00.000Z",
+          refollowedAt: "2026-02-28T00:00:00.000Z",
+        }),
+      ],
+      30,
+      NOW,
+    );
+
+    expect(recent).toEqual([]);
+  });
+});
+
+describe("bulkRefollow", () => {
+  const users = [
+    { userId: "1", username: "alice" },
+    { userId: "2", username: "bob" },
+    { userId: "3", username: "carol" },
+  ];
+
+  beforeEach(() => {
+    vi.mocked(delay).mockReset();
+    vi.mocked(delay).mockResolvedValue(undefined);
+    for (const key of Object.keys(chromeStorageData)) {
+      delete chromeStorageData[key];
+    }
+  });
+
+  it("follows each account with a delay between requests", async () => {
+    const follow = vi.fn().mockResolvedValue({ success: true });
+
+    const results = await bulkRefollow(users, follow);
+
+    expect(follow.mock.calls.map(([id]) => id)).toEqual(["1", "2", "3"]);
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(delay).toHaveBeenCalledTimes(2);
+    expect(delay).toHaveBeenCalledWith(30, 60);
+    expect(await getTodayRefollowCount()).toBe(3);
+  });
+
+  it("records failures without counting them", async () => {
+    const follow = vi
+      .fn()
+      .mockResolvedValueOnce({ success: true })
+      .mockResolvedValueOnce({ success: false, error: "403" })
+      .mockRejectedValueOnce(new Error("No response"));
+
+    const results = await bulkRefollow(users, follow);
+
+    expect(results.map((r) => r.success)).toEqual([true, false, false]);
+    expect(results[1].error).toBe("403");
+    expect(results[2].error).toBe("No response");
+    expect(await getTodayRefollowCount()).toBe(1);
+  });
+
+  it("stops at the daily limit", async () => {
+    const today = new Date().toISOString().split("T")[0];
+    chromeStorageData[`xsweep_refollow_${today}`] = "99";
+    const follow = vi.fn().mockResolvedValue({ success: true });
+
+    const results = await bulkRefollow(users, follow);
+
+    expect(results).toHaveLength(1);
+    expect(await bulkRefollow(users, follow)).toEqual([]);
+  });
+
+  it("stopRefollow halts the remaining follows", async () => {
+    const follow = vi.fn().mockImplementation(async () => {
+      stopRefollow();
+      return { success: true };
+    });
+
+    const results = await bulkRefollow(users, follow);
+
+    expect(results).toHaveLength(1);
+    expect(delay).not.toHaveBeenCalled();
+  });
+});
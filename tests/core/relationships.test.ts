@@ -48,6 +48,19 @@ describe("computeAuditCounts", () => {
     expect(counts.followersOnly).toBe(0);
   });
 
+  it("leaves out stubs from imported lists", () => {
+    const users = [
+      makeUser({ userId: "1" }),
+      makeUser({ userId: "2", isFollowing: false, isStub: true }),
+      makeUser({ userId: "3", isFollowing: true, isStub: true }),
+    ];
+
+    const counts = computeAuditCounts(users, new Set());
+    expect(counts.total).toBe(1);
+    expect(counts.followersOnly).toBe(0);
+    expect(counts.notFollowedBack).toBe(0);
+  });
+
   it("counts follower-only users (isFollowing === false)", () => {
     const users = [
       makeUser({ userId: "1", isFollowing: true }),
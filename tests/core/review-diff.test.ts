@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import type { ReviewCategory, ReviewSession } from "@/core/reviewer";
+import { compareSessions } from "@/core/review-diff";
+
+function category(id: string, userIds: string[]): ReviewCategory {
+  return {
+    id,
+    name: id.toUpperCase(),
+    description: "",
+    suggestion: "review",
+    reason: "",
+    userIds,
+  };
+}
+
+function session(
+  categories: ReviewCategory[],
+  uncategorized: string[] = [],
+): ReviewSession {
+  return {
+    id: "review-1",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    status: "complete",
+    progress: { done: 0, total: 0 },
+    taxonomy: categories.map((c) => c.id),
+    categories,
+    uncategorized,
+  };
+}
+
+describe("compareSessions", () => {
+  it("reports nothing for identical sessions", () => {
+    const s = session([category("tech", ["1", "2"])], ["3"]);
+    expect(compareSessions(s, s)).toEqual({ categories: [], moved: [] });
+  });
+
+  it("tracks accounts moving between categories", () => {
+    const before = session([
+      category("tech", ["1", "2"]),
+      category("news", []),
+    ]);
+    const after = session([category("tech", ["1"]), category("news", ["2"])]);
+
+    const diff = compareSessions(before, after);
+
+    expect(diff.categories).toEqual([
+      {
+        id: "tech",
+        name: "TECH",
+        before: 2,
+        after: 1,
+        added: [],
+        removed: ["2"],
+      },
+      {
+        id: "news",
+        name: "NEWS",
+        before: 0,
+        after: 1,
+        added: ["2"],
+        removed: [],
+      },
+    ]);
+    expect(diff.moved).toEqual([{ userId: "2", from: ["tech"], to: ["news"] }]);
+  });
+
+  it("lists new and removed categories", () => {
+    const before = session([category("crypto", ["1"])]);
+    const after = session([category("finance", ["1"])]);
+
+    const diff = compareSessions(before, after);
+
+    expect(diff.categories.map((c) => [c.id, c.before, c.after])).toEqual([
+      ["finance", null, 1],
+      ["crypto", 1, null],
+    ]);
+  });
+
+  it("counts uncategorized and newly reviewed accounts", () => {
+    const before = session([category("tech", ["1"])], ["2"]);
+    const after = session([category("tech", ["1", "2"])], ["3"]);
+
+    const diff = compareSessions(before, after);
+
+    expect(diff.moved).toEqual([
+      { userId: "2", from: ["uncategorized"], to: ["tech"] },
+      { userId: "3", from: [], to: ["uncategorized"] },
+    ]);
+    expect(diff.categories.find((c) => c.id === "uncategorized")).toMatchObject(
+      { name: "Uncategorized", added: ["3"], removed: ["2"] },
+    );
+  });
+});
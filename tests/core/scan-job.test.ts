@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  advanceScanJob,
+  clearScanJob,
+  createScanJob,
+  isPhaseDone,
+  loadScanJob,
+  saveScanJob,
+} from "@/core/scan-job";
+import { chromeStorageData } from "../setup";
+
+describe("scan job persistence", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(chromeStorageData)) {
+      delete chromeStorageData[key];
+    }
+  });
+
+  it("round-trips a job through chrome.storage.local", async () => {
+    const job = { ...createScanJob("12345"), cursor: "abc", page: 3 };
+    await saveScanJob(job);
+
+    const loaded = await loadScanJob("12345");
+    expect(loaded?.cursor).toBe("abc");
+    expect(loaded?.page).toBe(3);
+  });
+
+  it("ignores a job belonging to another account", async () => {
+    await saveScanJob(createScanJob("12345"));
+    expect(await loadScanJob("99999")).toBeNull();
+    expect(await loadScanJob()).not.toBeNull();
+  });
+
+  it("clearScanJob removes the job", async () => {
+    await saveScanJob(createScanJob("12345"));
+    await clearScanJob();
+    expect(await loadScanJob()).toBeNull();
+  });
+});
+
+describe("advanceScanJob", () => {
+  it("resets the cursor and switches endpoint", () => {
+    const job = {
+      ...createScanJob("12345"),
+      cursor: "abc",
+      page: 4,
+      seenIds: ["1"],
+      missingIds: ["1"],
+    };
+    const next = advanceScanJob(job, "hydrate-following");
+
+    expect(next.phase).toBe("hydrate-following");
+    expect(next.endpoint).toBe("users/lookup.json");
+    expect(next.cursor).toBe("-1");
+    expect(next.page).toBe(0);
+    expect(next.seenIds).toEqual([]);
+    expect(next.missingIds).toEqual([]);
+    expect(isPhaseDone(next, "follower-ids")).toBe(true);
+    expect(isPhaseDone(next, "hydrate-following")).toBe(false);
+  });
+});
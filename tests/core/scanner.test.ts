@@ -18,7 +18,15 @@ vi.mock("@/utils/rate-limiter", () => ({
   delay: vi.fn(() => Promise.resolve()),
 }));
 
-import { collectIds, hydrateUsers, fullScan, stopScan } from "@/core/scanner";
+import {
+  collectIds,
+  lookupUsers,
+  fullScan,
+  incrementalScan,
+  stopScan,
+  UNAVAILABLE_USERNAME,
+} from "@/core/scanner";
+import { advanceScanJob, createScanJob, type ScanJob } from "@/core/scan-job";
 
 /** Create a mock Response with both .json() and .text() */
 function mockResponse(body: unknown, status = 200, ok = true) {
@@ -129,7 +137,7 @@ describe("collectIds", () => {
   });
 });
 
-describe("hydrateUsers", () => {
+describe("lookupUsers", () => {
   beforeEach(() => {
     vi.mocked(getHeaders).mockReturnValue({
       authorization: "Bearer mock-token",
@@ -144,26 +152,23 @@ describe("hydrateUsers", () => {
   it("processes users and creates UserProfile objects", async () => {
     const recentDate = new Date(Date.now() - 86400000 * 5).toUTCString(); // 5 days ago
     globalThis.fetch = vi.fn().mockResolvedValue(
-      mockResponse({
-        users: [
-          {
-            id_str: "1",
-            screen_name: "alice",
-            name: "Alice",
-            description: "Hello world",
-            followers_count: 100,
-            friends_count: 50,
-            statuses_count: 500,
-            status: { created_at: recentDate },
-            verified: false,
-            profile_image_url_https: "https://img.com/alice.jpg",
-          },
-        ],
-        next_cursor_str: "0",
-      }),
+      mockResponse([
+        {
+          id_str: "1",
+          screen_name: "alice",
+          name: "Alice",
+          description: "Hello world",
+          followers_count: 100,
+          friends_count: 50,
+          statuses_count: 500,
+          status: { created_at: recentDate },
+          verified: false,
+          profile_image_url_https: "https://img.com/alice.jpg",
+        },
+      ]),
     );
 
-    const users = await hydrateUsers("friends/list.json", new Set(["1"]));
+    const users = await lookupUsers(["1"]);
 
     expect(users).toHaveLength(1);
     expect(users[0].userId).toBe("1");
@@ -172,146 +177,55 @@ describe("hydrateUsers", () => {
     expect(users[0].followerCount).toBe(100);
   });
 
-  it("detects loop (3 consecutive all-dupe pages) and stops", async () => {
-    let callCount = 0;
-    globalThis.fetch = vi.fn(() => {
-      callCount++;
-      return Promise.resolve(
-        mockResponse({
-          users: [
-            {
-              id_str: "1",
-              screen_name: "same",
-              name: "Same User",
-              description: "",
-              followers_count: 0,
-              friends_count: 0,
-              statuses_count: 0,
-            },
-          ],
-          next_cursor_str: String(callCount + 1),
-        }),
-      );
-    });
-
-    await hydrateUsers("friends/list.json", new Set(["1"]));
-
-    // First page: new user. Pages 2, 3, 4: all dupes => stops at page 4
-    expect(globalThis.fetch).toHaveBeenCalledTimes(4);
-  });
-
-  it("respects MAX_PAGES limit (50)", async () => {
-    let callCount = 0;
-    globalThis.fetch = vi.fn(() => {
-      callCount++;
-      return Promise.resolve(
-        mockResponse({
-          users: [
-            {
-              id_str: String(callCount * 100),
-              screen_name: `user${callCount}`,
-              name: `User ${callCount}`,
-              description: "",
-              followers_count: 0,
-              friends_count: 0,
-              statuses_count: 0,
-            },
-          ],
-          next_cursor_str: String(callCount + 1),
-        }),
-      );
-    });
-
-    await hydrateUsers("friends/list.json", new Set());
-
-    expect(globalThis.fetch).toHaveBeenCalledTimes(50);
-  });
-
-  it("creates placeholder profiles for IDs not returned by API", async () => {
-    globalThis.fetch = vi.fn().mockResolvedValue(
-      mockResponse({
-        users: [
-          {
-            id_str: "1",
-            screen_name: "alice",
-            name: "Alice",
-            description: "",
-            followers_count: 0,
-            friends_count: 0,
-            statuses_count: 0,
-          },
-        ],
-        next_cursor_str: "0",
-      }),
-    );
-
-    const users = await hydrateUsers(
-      "friends/list.json",
-      new Set(["1", "999"]),
-    );
-
-    expect(users).toHaveLength(2);
-    const placeholder = users.find((u) => u.userId === "999");
-    expect(placeholder).toBeDefined();
-    expect(placeholder!.username).toBe("[not_returned]");
-    expect(placeholder!.status).toBe("no_tweets");
-  });
-
   it("correctly determines user status", async () => {
     const oldDate = new Date(Date.now() - 86400000 * 400).toUTCString();
     const recentDate = new Date(Date.now() - 86400000 * 5).toUTCString();
 
     globalThis.fetch = vi.fn().mockResolvedValue(
-      mockResponse({
-        users: [
-          {
-            id_str: "1",
-            screen_name: "active_user",
-            name: "Active",
-            description: "",
-            followers_count: 0,
-            friends_count: 0,
-            statuses_count: 100,
-            status: { created_at: recentDate },
-          },
-          {
-            id_str: "2",
-            screen_name: "inactive_user",
-            name: "Inactive",
-            description: "",
-            followers_count: 0,
-            friends_count: 0,
-            statuses_count: 100,
-            status: { created_at: oldDate },
-          },
-          {
-            id_str: "3",
-            screen_name: "suspended_user",
-            name: "Suspended",
-            description: "",
-            followers_count: 0,
-            friends_count: 0,
-            statuses_count: 0,
-            suspended: true,
-          },
-          {
-            id_str: "4",
-            screen_name: "no_tweets_user",
-            name: "NoTweets",
-            description: "",
-            followers_count: 0,
-            friends_count: 0,
-            statuses_count: 0,
-          },
-        ],
-        next_cursor_str: "0",
-      }),
+      mockResponse([
+        {
+          id_str: "1",
+          screen_name: "active_user",
+          name: "Active",
+          description: "",
+          followers_count: 0,
+          friends_count: 0,
+          statuses_count: 100,
+          status: { created_at: recentDate },
+        },
+        {
+          id_str: "2",
+          screen_name: "inactive_user",
+          name: "Inactive",
+          description: "",
+          followers_count: 0,
+          friends_count: 0,
+          statuses_count: 100,
+          status: { created_at: oldDate },
+        },
+        {
+          id_str: "3",
+          screen_name: "suspended_user",
+          name: "Suspended",
+          description: "",
+          followers_count: 0,
+          friends_count: 0,
+          statuses_count: 0,
+          suspended: true,
+        },
+        {
+          id_str: "4",
+          screen_name: "no_tweets_user",
+          name: "NoTweets",
+          description: "",
+          followers_count: 0,
+          friends_count: 0,
+          statuses_count: 0,
+        },
+      ]),
     );
 
-    const users = await hydrateUsers(
-      "friends/list.json",
-      new Set(["1", "2", "3", "4"]),
-    );
+    const users = await lookupUsers(["1", "2", "3", "4"]);
 
     expect(users.find((u) => u.userId === "1")!.status).toBe("active");
     expect(users.find((u) => u.userId === "2")!.status).toBe("inactive");
@@ -321,29 +235,88 @@ describe("hydrateUsers", () => {
 
   it("calls onBatch callback with each batch", async () => {
     globalThis.fetch = vi.fn().mockResolvedValue(
-      mockResponse({
-        users: [
-          {
-            id_str: "1",
-            screen_name: "alice",
-            name: "Alice",
-            description: "",
-            followers_count: 0,
-            friends_count: 0,
-            statuses_count: 0,
-          },
-        ],
-        next_cursor_str: "0",
-      }),
+      mockResponse([
+        {
+          id_str: "1",
+          screen_name: "alice",
+          name: "Alice",
+          description: "",
+          followers_count: 0,
+          friends_count: 0,
+          statuses_count: 0,
+        },
+      ]),
     );
 
     const onBatch = vi.fn();
-    await hydrateUsers("friends/list.json", new Set(["1"]), undefined, onBatch);
+    await lookupUsers(["1"], undefined, onBatch);
 
     expect(onBatch).toHaveBeenCalledWith(
       expect.arrayContaining([expect.objectContaining({ userId: "1" })]),
     );
   });
+
+  it("fetches IDs in chunks of 100", async () => {
+    const ids = Array.from({ length: 250 }, (_, i) => String(i + 1));
+    const fetchMock = vi.fn((url: string) => {
+      const requested = new URL(url).searchParams.get("user_id")!.split(",");
+      return Promise.resolve(
+        mockResponse(
+          requested.map((id) => ({ id_str: id, screen_name: `u${id}` })),
+        ),
+      );
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const users = await lookupUsers(ids);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[0][0]).toContain("users/lookup.json");
+    expect(users).toHaveLength(250);
+  });
+
+  it("retries after 429 and skips chunks that return 404", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(mockResponse({}, 429, false))
+      .mockResolvedValueOnce(mockResponse({ errors: [] }, 404, false));
+
+    const users = await lookupUsers(["1", "2"]);
+
+    expect(users).toEqual([]);
+    expect(delay).toHaveBeenCalledWith(60, 90);
+  });
+
+  it("has no page cap for accounts over 10,000 following", async () => {
+    const ids = Array.from({ length: 10050 }, (_, i) => String(i + 1));
+    globalThis.fetch = vi.fn((url: string) => {
+      const requested = new URL(url).searchParams.get("user_id")!.split(",");
+      return Promise.resolve(
+        mockResponse(requested.map((id) => ({ id_str: id }))),
+      );
+    }) as unknown as typeof fetch;
+
+    const users = await lookupUsers(ids);
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(101);
+    expect(users).toHaveLength(10050);
+  });
+
+  it("skips IDs already looked up before resuming", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(mockResponse([]));
+    globalThis.fetch = fetchMock;
+
+    await lookupUsers(["1", "2", "3"], undefined, undefined, {
+      cursor: "2",
+      page: 1,
+      ids: ["1", "2"],
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(
+      new URL(fetchMock.mock.calls[0][0]).searchParams.get("user_id"),
+    ).toBe("3");
+  });
 });
 
 describe("fullScan", () => {
@@ -358,7 +331,7 @@ describe("fullScan", () => {
     vi.mocked(delay).mockResolvedValue(undefined);
   });
 
-  it("orchestrates collectIds + hydrateUsers + relationship computation", async () => {
+  it("orchestrates collectIds + lookupUsers + relationship computation", async () => {
     let callCount = 0;
     globalThis.fetch = vi.fn(() => {
       callCount++;
@@ -368,31 +341,28 @@ describe("fullScan", () => {
         );
       }
       return Promise.resolve(
-        mockResponse({
-          users: [
-            {
-              id_str: "1",
-              screen_name: "alice",
-              name: "Alice",
-              description: "",
-              followers_count: 10,
-              friends_count: 5,
-              statuses_count: 100,
-              status: { created_at: new Date().toUTCString() },
-            },
-            {
-              id_str: "2",
-              screen_name: "bob",
-              name: "Bob",
-              description: "",
-              followers_count: 20,
-              friends_count: 10,
-              statuses_count: 200,
-              status: { created_at: new Date().toUTCString() },
-            },
-          ],
-          next_cursor_str: "0",
-        }),
+        mockResponse([
+          {
+            id_str: "1",
+            screen_name: "alice",
+            name: "Alice",
+            description: "",
+            followers_count: 10,
+            friends_count: 5,
+            statuses_count: 100,
+            status: { created_at: new Date().toUTCString() },
+          },
+          {
+            id_str: "2",
+            screen_name: "bob",
+            name: "Bob",
+            description: "",
+            followers_count: 20,
+            friends_count: 10,
+            statuses_count: 200,
+            status: { created_at: new Date().toUTCString() },
+          },
+        ]),
       );
     });
 
@@ -418,31 +388,28 @@ describe("fullScan", () => {
         );
       }
       return Promise.resolve(
-        mockResponse({
-          users: [
-            {
-              id_str: "1",
-              screen_name: "alice",
-              name: "Alice",
-              description: "",
-              followers_count: 0,
-              friends_count: 0,
-              statuses_count: 10,
-              status: { created_at: new Date().toUTCString() },
-            },
-            {
-              id_str: "2",
-              screen_name: "bob",
-              name: "Bob",
-              description: "",
-              followers_count: 0,
-              friends_count: 0,
-              statuses_count: 10,
-              status: { created_at: new Date().toUTCString() },
-            },
-          ],
-          next_cursor_str: "0",
-        }),
+        mockResponse([
+          {
+            id_str: "1",
+            screen_name: "alice",
+            name: "Alice",
+            description: "",
+            followers_count: 0,
+            friends_count: 0,
+            statuses_count: 10,
+            status: { created_at: new Date().toUTCString() },
+          },
+          {
+            id_str: "2",
+            screen_name: "bob",
+            name: "Bob",
+            description: "",
+            followers_count: 0,
+            friends_count: 0,
+            statuses_count: 10,
+            status: { created_at: new Date().toUTCString() },
+          },
+        ]),
       );
     });
 
@@ -552,40 +519,10 @@ describe("fullScan follower-only filtering", () => {
           mockResponse({ ids: ["1", "3"], next_cursor_str: "0" }),
         );
       }
-      // Call 3: friends/list — hydrate following
+      // Call 3: users/lookup — hydrate following [1, 2]
       if (callCount === 3) {
         return Promise.resolve(
-          mockResponse({
-            users: [
-              {
-                id_str: "1",
-                screen_name: "mutual",
-                name: "Mutual",
-                description: "",
-                followers_count: 100,
-                friends_count: 50,
-                statuses_count: 10,
-                status: { created_at: new Date().toUTCString() },
-              },
-              {
-                id_str: "2",
-                screen_name: "following_only",
-                name: "Following Only",
-                description: "",
-                followers_count: 50,
-                friends_count: 25,
-                statuses_count: 5,
-                status: { created_at: new Date().toUTCString() },
-              },
-            ],
-            next_cursor_str: "0",
-          }),
-        );
-      }
-      // Call 4: followers/list — returns ALL followers (1 + 3), but only 3 should be kept
-      return Promise.resolve(
-        mockResponse({
-          users: [
+          mockResponse([
             {
               id_str: "1",
               screen_name: "mutual",
@@ -597,18 +534,32 @@ describe("fullScan follower-only filtering", () => {
               status: { created_at: new Date().toUTCString() },
             },
             {
-              id_str: "3",
-              screen_name: "follower_only",
-              name: "Follower Only",
+              id_str: "2",
+              screen_name: "following_only",
+              name: "Following Only",
               description: "",
-              followers_count: 200,
-              friends_count: 75,
-              statuses_count: 20,
+              followers_count: 50,
+              friends_count: 25,
+              statuses_count: 5,
               status: { created_at: new Date().toUTCString() },
             },
-          ],
-          next_cursor_str: "0",
-        }),
+          ]),
+        );
+      }
+      // Call 4: users/lookup — only the follower-only ID (3) is requested
+      return Promise.resolve(
+        mockResponse([
+          {
+            id_str: "3",
+            screen_name: "follower_only",
+            name: "Follower Only",
+            description: "",
+            followers_count: 200,
+            friends_count: 75,
+            statuses_count: 20,
+            status: { created_at: new Date().toUTCString() },
+          },
+        ]),
       );
     });
 
@@ -653,27 +604,7 @@ describe("fullScan follower-only filtering", () => {
       }
       if (callCount === 3) {
         return Promise.resolve(
-          mockResponse({
-            users: [
-              {
-                id_str: "1",
-                screen_name: "mutual",
-                name: "Mutual",
-                description: "",
-                followers_count: 0,
-                friends_count: 0,
-                statuses_count: 10,
-                status: { created_at: new Date().toUTCString() },
-              },
-            ],
-            next_cursor_str: "0",
-          }),
-        );
-      }
-      // followers/list returns both mutual (1) and follower-only (3)
-      return Promise.resolve(
-        mockResponse({
-          users: [
+          mockResponse([
             {
               id_str: "1",
               screen_name: "mutual",
@@ -684,19 +615,23 @@ describe("fullScan follower-only filtering", () => {
               statuses_count: 10,
               status: { created_at: new Date().toUTCString() },
             },
-            {
-              id_str: "3",
-              screen_name: "follower_only",
-              name: "Follower Only",
-              description: "",
-              followers_count: 0,
-              friends_count: 0,
-              statuses_count: 10,
-              status: { created_at: new Date().toUTCString() },
-            },
-          ],
-          next_cursor_str: "0",
-        }),
+          ]),
+        );
+      }
+      // users/lookup for the follower-only ID (3)
+      return Promise.resolve(
+        mockResponse([
+          {
+            id_str: "3",
+            screen_name: "follower_only",
+            name: "Follower Only",
+            description: "",
+            followers_count: 0,
+            friends_count: 0,
+            statuses_count: 10,
+            status: { created_at: new Date().toUTCString() },
+          },
+        ]),
       );
     });
 
@@ -717,3 +652,214 @@ describe("fullScan follower-only filtering", () => {
     expect(countUser3).toBe(1); // From step 3.5
   });
 });
+
+describe("fullScan resume", () => {
+  beforeEach(() => {
+    vi.mocked(getHeaders).mockReturnValue({
+      authorization: "Bearer mock-token",
+      "x-csrf-token": "mock-csrf",
+      "x-twitter-auth-type": "OAuth2Session",
+      "x-twitter-active-user": "yes",
+    });
+    vi.mocked(getMyUserId).mockReturnValue("12345");
+    vi.mocked(delay).mockResolvedValue(undefined);
+  });
+
+  it("checkpoints the cursor after each page and reports aborted on stop", async () => {
+    vi.mocked(delay).mockImplementation(() => {
+      stopScan();
+      return Promise.resolve();
+    });
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(
+        mockResponse({ ids: ["1", "2"], next_cursor_str: "cursor_2" }),
+      );
+
+    const checkpoints: ScanJob[] = [];
+    const result = await fullScan(undefined, undefined, {
+      onCheckpoint: async (job) => {
+        checkpoints.push(job);
+      },
+    });
+
+    expect(result.aborted).toBe(true);
+    const last = checkpoints[checkpoints.length - 1];
+    expect(last.phase).toBe("following-ids");
+    expect(last.cursor).toBe("cursor_2");
+    expect(last.followingIds).toEqual(["1", "2"]);
+  });
+
+  it("resumes from the persisted phase and cursor", async () => {
+    const fetchMock = vi.fn((url: string) => {
+      if (url.includes("followers/ids.json")) {
+        return Promise.resolve(
+          mockResponse({ ids: ["3"], next_cursor_str: "0" }),
+        );
+      }
+      return Promise.resolve(mockResponse([]));
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const resumeJob: ScanJob = {
+      ...advanceScanJob(createScanJob("12345"), "follower-ids"),
+      cursor: "cursor_5",
+      page: 1,
+      followingIds: ["1", "2"],
+      followerIds: ["1"],
+    };
+
+    const result = await fullScan(undefined, undefined, { resumeJob });
+
+    const urls = fetchMock.mock.calls.map(([url]) => url);
+    expect(urls.some((u) => u.includes("friends/ids.json"))).toBe(false);
+    expect(urls[0]).toContain("cursor=cursor_5");
+    expect(result.followingIds).toEqual(["1", "2"]);
+    expect(result.followerIds).toEqual(["1", "3"]);
+    expect(result.aborted).toBe(false);
+  });
+
+  it("records IDs missing from lookup as unavailable, not placeholders", async () => {
+    globalThis.fetch = vi.fn((url: string) => {
+      if (url.includes("friends/ids.json")) {
+        return Promise.resolve(
+          mockResponse({ ids: ["1", "2"], next_cursor_str: "0" }),
+        );
+      }
+      if (url.includes("followers/ids.json")) {
+        return Promise.resolve(mockResponse({ ids: [], next_cursor_str: "0" }));
+      }
+      return Promise.resolve(mockResponse([{ id_str: "1", screen_name: "a" }]));
+    }) as unknown as typeof fetch;
+
+    const result = await fullScan();
+
+    const missing = result.users.find((u) => u.userId === "2")!;
+    expect(missing.status).toBe("deactivated");
+    expect(missing.username).toBe(UNAVAILABLE_USERNAME);
+  });
+
+  it("does not record unavailable accounts when hydration is stopped", async () => {
+    const resumeJob = {
+      ...advanceScanJob(createScanJob("12345"), "hydrate-following"),
+      followingIds: Array.from({ length: 150 }, (_, i) => String(i + 1)),
+    };
+    vi.mocked(delay).mockImplementation(() => {
+      stopScan();
+      return Promise.resolve();
+    });
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(mockResponse([{ id_str: "1", screen_name: "a" }]));
+
+    const checkpoints: ScanJob[] = [];
+    const result = await fullScan(undefined, undefined, {
+      resumeJob,
+      onCheckpoint: async (job) => {
+        checkpoints.push(job);
+      },
+    });
+
+    expect(result.aborted).toBe(true);
+    expect(result.users.map((u) => u.userId)).toEqual(["1"]);
+    expect(checkpoints[checkpoints.length - 1].seenIds).toHaveLength(100);
+    // The rest of the first chunk is kept for the resumed run
+    expect(checkpoints[checkpoints.length - 1].missingIds).toHaveLength(99);
+  });
+
+  it("records IDs missing before a resume as unavailable", async () => {
+    const resumeJob = {
+      ...advanceScanJob(createScanJob("12345"), "hydrate-following"),
+      followingIds: ["1", "2", "3"],
+      seenIds: ["1", "2"],
+      missingIds: ["2"],
+    };
+    globalThis.fetch = vi.fn((url: string) =>
+      Promise.resolve(
+        url.includes("followers/ids.json")
+          ? mockResponse({ ids: [], next_cursor_str: "0" })
+          : mockResponse([{ id_str: "3", screen_name: "c" }]),
+      ),
+    ) as unknown as typeof fetch;
+
+    const result = await fullScan(undefined, undefined, { resumeJob });
+
+    const byId = new Map(result.users.map((u) => [u.userId, u]));
+    expect(byId.get("2")?.username).toBe(UNAVAILABLE_USERNAME);
+    expect(byId.get("3")?.username).toBe("c");
+    expect(byId.has("1")).toBe(false);
+  });
+});
+
+describe("incrementalScan", () => {
+  beforeEach(() => {
+    vi.mocked(getHeaders).mockReturnValue({
+      authorization: "Bearer mock-token",
+      "x-csrf-token": "mock-csrf",
+      "x-twitter-auth-type": "OAuth2Session",
+      "x-twitter-active-user": "yes",
+    });
+    vi.mocked(getMyUserId).mockReturnValue("12345");
+    vi.mocked(delay).mockResolvedValue(undefined);
+  });
+
+  it("hydrates only planned IDs and sets relationships", async () => {
+    const fetchMock = vi.fn((url: string) => {
+      if (url.includes("friends/ids.json")) {
+        return Promise.resolve(
+          mockResponse({ ids: ["1", "2", "3"], next_cursor_str: "0" }),
+        );
+      }
+      if (url.includes("followers/ids.json")) {
+        return Promise.resolve(
+          mockResponse({ ids: ["2", "4"], next_cursor_str: "0" }),
+        );
+      }
+      return Promise.resolve(
+        mockResponse([
+          { id_str: "2", screen_name: "bob" },
+          { id_str: "4", screen_name: "dan" },
+        ]),
+      );
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const plan = vi.fn().mockResolvedValue({
+      newIds: ["4"],
+      staleIds: ["2"],
+      removedIds: ["9"],
+    });
+    const result = await incrementalScan(plan);
+
+    expect(plan).toHaveBeenCalledWith(["1", "2", "3"], ["2", "4"]);
+    const lookupUrl = fetchMock.mock.calls[2][0];
+    expect(new URL(lookupUrl).searchParams.get("user_id")).toBe("4,2");
+
+    const bob = result.users.find((u) => u.userId === "2")!;
+    const dan = result.users.find((u) => u.userId === "4")!;
+    expect(bob.isMutual).toBe(true);
+    expect(dan.isFollowing).toBe(false);
+    expect(dan.isFollower).toBe(true);
+    expect(result.aborted).toBe(false);
+  });
+
+  it("records only new IDs the lookup did not return as unavailable", async () => {
+    globalThis.fetch = vi.fn((url: string) => {
+      if (url.includes("ids.json")) {
+        return Promise.resolve(
+          mockResponse({ ids: ["1", "2"], next_cursor_str: "0" }),
+        );
+      }
+      return Promise.resolve(mockResponse([]));
+    }) as unknown as typeof fetch;
+
+    const result = await incrementalScan(async () => ({
+      newIds: ["1"],
+      staleIds: ["2"],
+      removedIds: [],
+    }));
+
+    expect(result.users.map((u) => u.userId)).toEqual(["1"]);
+    expect(result.users[0].status).toBe("deactivated");
+  });
+});
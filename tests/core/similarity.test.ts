@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { findSimilarAccounts, followerTier } from "@/core/similarity";
+import { makeUser } from "../helpers/fixtures";
+
+describe("findSimilarAccounts", () => {
+  const target = makeUser({
+    userId: "1",
+    username: "BBCBreaking",
+    displayName: "BBC Breaking News",
+    bio: "Breaking news alerts and updates from the BBC",
+    followerCount: 50000000,
+    listIds: [7],
+  });
+  const users = [
+    target,
+    makeUser({
+      userId: "2",
+      username: "BBCWorld",
+      displayName: "BBC News (World)",
+      bio: "News, features and analysis from the BBC World Service",
+      followerCount: 40000000,
+      listIds: [7],
+    }),
+    makeUser({
+      userId: "3",
+      username: "newsbot123",
+      displayName: "Headlines",
+      bio: "Breaking news alerts every hour",
+      followerCount: 120,
+    }),
+    makeUser({
+      userId: "4",
+      username: "gardener",
+      displayName: "Green Thumb",
+      bio: "Tomatoes, herbs and compost",
+      followerCount: 60000000,
+    }),
+    makeUser({
+      userId: "5",
+      username: "tomatofan",
+      displayName: "Tomato Fan",
+      bio: "Tomatoes all summer",
+    }),
+  ];
+
+  it("ranks by bio, name, list and tier overlap", () => {
+    const similar = findSimilarAccounts(target, users);
+
+    expect(similar.map((s) => s.user.userId)).toEqual(["2", "3"]);
+    expect(similar[0]).toMatchObject({
+      sharedNameWords: ["bbc", "news"],
+      sharedLists: 1,
+      sameTier: true,
+    });
+    expect(similar[1].sharedTerms).toEqual(
+      expect.arrayContaining(["breaking", "alerts"]),
+    );
+    expect(similar[0].score).toBeGreaterThan(similar[1].score);
+  });
+
+  it("leaves out the account itself and accounts with only a tier in common", () => {
+    const ids = findSimilarAccounts(target, users).map((s) => s.user.userId);
+    expect(ids).not.toContain("1");
+    expect(ids).not.toContain("4");
+  });
+
+  it("respects the limit", () => {
+    expect(findSimilarAccounts(target, users, 1)).toHaveLength(1);
+  });
+});
+
+describe("followerTier", () => {
+  it("uses the Quick Stats buckets", () => {
+    expect([50, 100, 5000, 10000, 100000].map(followerTier)).toEqual([
+      0, 1, 2, 3, 4,
+    ]);
+  });
+});
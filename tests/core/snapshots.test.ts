@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSnapshot,
+  getTimeline,
+  getTimelineDelta,
+  diffSnapshots,
+} from "@/core/snapshots";
+import { makeUser, makeSnapshot } from "../helpers/fixtures";
+
+describe("buildSnapshot", () => {
+  it("records counts and both ID sets", () => {
+    const users = [
+      makeUser({ userId: "1", status: "active" }),
+      makeUser({ userId: "2", status: "inactive" }),
+      makeUser({ userId: "3", status: "suspended" }),
+      makeUser({ userId: "4", isFollowing: false, isFollower: true }),
+    ];
+
+    const snapshot = buildSnapshot(
+      users,
+      ["1", "2", "3"],
+      ["1", "4"],
+      "2026-03-01T00:00:00.000Z",
+    );
+
+    expect(snapshot).toEqual({
+      date: "2026-03-01T00:00:00.000Z",
+      totalFollowing: 3,
+      totalFollowers: 2,
+      mutualCount: 1,
+      inactiveCount: 1,
+      suspendedCount: 1,
+      userIds: ["1", "2", "3"],
+      followerIds: ["1", "4"],
+    });
+  });
+
+  it("defaults date to now", () => {
+    const before = Date.now();
+    const snapshot = buildSnapshot([], [], []);
+    expect(new Date(snapshot.date).getTime()).toBeGreaterThanOrEqual(before);
+  });
+});
+
+describe("getTimeline", () => {
+  it("sorts by date and maps counts", () => {
+    const timeline = getTimeline([
+      makeSnapshot({ date: "2026-02-01", totalFollowers: 320 }),
+      makeSnapshot({ date: "2026-01-01", totalFollowers: 300 }),
+    ]);
+
+    expect(timeline.map((p) => p.date)).toEqual(["2026-01-01", "2026-02-01"]);
+    expect(timeline[0]).toEqual({
+      date: "2026-01-01",
+      following: 500,
+      followers: 300,
+      mutual: 200,
+      inactive: 50,
+    });
+  });
+});
+
+describe("getTimelineDelta", () => {
+  it("returns null with fewer than two points", () => {
+    expect(getTimelineDelta([])).toBeNull();
+    expect(getTimelineDelta(getTimeline([makeSnapshot()]))).toBeNull();
+  });
+
+  it("computes last minus first", () => {
+    const timeline = getTimeline([
+      makeSnapshot({
+        date: "2026-01-01",
+        totalFollowing: 500,
+        inactiveCount: 50,
+      }),
+      makeSnapshot({
+        date: "2026-01-15",
+        totalFollowing: 480,
+        inactiveCount: 40,
+      }),
+      makeSnapshot({
+        date: "2026-02-01",
+        totalFollowing: 450,
+        inactiveCount: 10,
+      }),
+    ]);
+
+    expect(getTimelineDelta(timeline)).toEqual({
+      following: -50,
+      followers: 0,
+      mutual: 0,
+      inactive: -40,
+    });
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("finds lost followers, new followers and new following", () => {
+    const prev = makeSnapshot({
+      date: "2026-01-01",
+      userIds: ["1", "2"],
+      followerIds: ["1", "3", "4"],
+    });
+    const curr = makeSnapshot({
+      date: "2026-02-01",
+      userIds: ["1", "2", "5"],
+      followerIds: ["1", "4", "6"],
+    });
+
+    const diff = diffSnapshots(prev, curr);
+
+    expect(diff.from).toBe("2026-01-01");
+    expect(diff.to).toBe("2026-02-01");
+    expect(diff.lostFollowers).toEqual(["3"]);
+    expect(diff.newFollowers).toEqual(["6"]);
+    expect(diff.newFollowing).toEqual(["5"]);
+  });
+
+  it("returns empty arrays when nothing changed", () => {
+    const snapshot = makeSnapshot();
+    const diff = diffSnapshots(snapshot, { ...snapshot });
+
+    expect(diff.lostFollowers).toEqual([]);
+    expect(diff.newFollowers).toEqual([]);
+    expect(diff.newFollowing).toEqual([]);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/utils/rate-limiter", () => ({
+  delay: vi.fn(() => Promise.resolve()),
+}));
+
+import { defaultLLMConfig } from "@/core/llm";
+import {
+  reclassifyStale,
+  type ReviewCategory,
+  type ReviewSession,
+} from "@/core/reviewer";
+import { applyTaxonomyEdit, categoryId } from "@/core/taxonomy";
+import { makeUser } from "../helpers/fixtures";
+import { chromeStorageData } from "../setup";
+
+function category(
+  id: string,
+  userIds: string[],
+  overrides: Partial<ReviewCategory> = {},
+): ReviewCategory {
+  return {
+    id,
+    name: id.toUpperCase(),
+    description: `${id} accounts`,
+    suggestion: "review",
+    reason: "",
+    userIds,
+    ...overrides,
+  };
+}
+
+function makeSession(overrides: Partial<ReviewSession> = {}): ReviewSession {
+  const categories = [category("tech", ["1", "2"]), category("news", ["3"])];
+  return {
+    id: "review-1",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    status: "complete",
+    progress: { done: 4, total: 4 },
+    taxonomy: categories.map((c) => c.id),
+    categories,
+    uncategorized: ["4"],
+    failed: [],
+    ...overrides,
+  };
+}
+
+describe("categoryId", () => {
+  it("slugifies names and avoids taken IDs", () => {
+    expect(categoryId("AI & ML", [])).toBe("ai-ml");
+    expect(categoryId("AI & ML", ["ai-ml"])).toBe("ai-ml-2");
+    expect(categoryId("Uncategorized", [])).toBe("uncategorized-2");
+    expect(categoryId("!!!", [])).toBe("category");
+  });
+});
+
+describe("applyTaxonomyEdit", () => {
+  it("renames and re-labels without re-classifying anyone", () => {
+    let session = applyTaxonomyEdit(makeSession(), {
+      kind: "rename",
+      categoryId: "tech",
+      name: "Builders",
+    });
+    session = applyTaxonomyEdit(session, {
+      kind: "suggestion",
+      categoryId: "news",
+      suggestion: "unfollow",
+    });
+
+    expect(session.categories[0].name).toBe("Builders");
+    expect(session.categories[1].suggestion).toBe("unfollow");
+    expect(session.stale).toEqual([]);
+    expect(session.history!.map((h) => h.summary)).toEqual([
+      'Renamed "TECH" to "Builders"',
+      'Marked "NEWS" as unfollow',
+    ]);
+  });
+
+  it("merges members into the target category", () => {
+    const session = applyTaxonomyEdit(makeSession(), {
+      kind: "merge",
+      sourceId: "news",
+      targetId: "tech",
+    });
+
+    expect(session.taxonomy).toEqual(["tech"]);
+    expect(session.categories[0].userIds).toEqual(["1", "2", "3"]);
+    expect(session.stale).toEqual([]);
+  });
+
+  it("splits a category and marks its members stale", () => {
+    const session = applyTaxonomyEdit(makeSession(), {
+      kind: "split",
+      categoryId: "tech",
+      into: [
+        { name: "AI", description: "", suggestion: "keep" },
+        { name: "Web", description: "", suggestion: "keep" },
+      ],
+    });
+
+    expect(session.taxonomy).toEqual(["ai", "web", "news"]);
+    expect(session.stale).toEqual(["1", "2"]);
+    expect(session.history![0].affected).toBe(2);
+  });
+
+  it("rejects a split into fewer than two categories", () => {
+    expect(() =>
+      applyTaxonomyEdit(makeSession(), {
+        kind: "split",
+        categoryId: "tech",
+        into: [{ name: "AI", description: "", suggestion: "keep" }],
+      }),
+    ).toThrow("at least two");
+  });
+
+  it("only marks deleted members without another category as stale", () => {
+    const session = makeSession();
+    session.categories[1].userIds.push("1");
+
+    const updated = applyTaxonomyEdit(session, {
+      kind: "delete",
+      categoryId: "tech",
+    });
+
+    expect(updated.taxonomy).toEqual(["news"]);
+    expect(updated.stale).toEqual(["2"]);
+  });
+
+  it("marks uncategorized accounts stale when a category is added", () => {
+    const session = applyTaxonomyEdit(makeSession(), {
+      kind: "add",
+      category: { name: "Sports", description: "", suggestion: "review" },
+    });
+
+    expect(session.taxonomy).toEqual(["tech", "news", "sports"]);
+    expect(session.stale).toEqual(["4"]);
+  });
+
+  it("does not modify the original session", () => {
+    const original = makeSession();
+    applyTaxonomyEdit(original, {
+      kind: "merge",
+      sourceId: "news",
+      targetId: "tech",
+    });
+    expect(original.categories[0].userIds).toEqual(["1", "2"]);
+  });
+});
+
+describe("reclassifyStale", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(chromeStorageData)) {
+      delete chromeStorageData[key];
+    }
+  });
+
+  it("sends only stale accounts and places them in the edited taxonomy", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          content: [
+            {
+              type: "tool_use",
+              input: {
+                assignments: [
+                  { userId: "1", ids: ["ai"] },
+                  { userId: "2", ids: ["web"] },
+                ],
+              },
+            },
+          ],
+        }),
+    });
+    globalThis.fetch = mockFetch;
+
+    const edited = applyTaxonomyEdit(makeSession(), {
+      kind: "split",
+      categoryId: "tech",
+      into: [
+        { name: "AI", description: "", suggestion: "keep" },
+        { name: "Web", description: "", suggestion: "keep" },
+      ],
+    });
+    const users = ["1", "2", "3", "4"].map((userId) => makeUser({ userId }));
+
+    const result = await reclassifyStale(
+      users,
+      edited,
+      defaultLLMConfig("anthropic", "k"),
+      () => {},
+    );
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+    const prompt = JSON.parse(mockFetch.mock.calls[0][1].body).messages[0]
+      .content;
+    expect(prompt).toContain("1: @testuser");
+    expect(prompt).not.toContain("3: @testuser");
+
+    const byId = Object.fromEntries(
+      result.categories.map((c) => [c.id, c.userIds]),
+    );
+    expect(byId).toEqual({ ai: ["1"], web: ["2"], news: ["3"] });
+    expect(result.uncategorized).toEqual(["4"]);
+    expect(result.stale).toEqual([]);
+    expect(result.status).toBe("complete");
+    expect(result.history).toHaveLength(1);
+  });
+
+  it("reports accounts the provider could not classify", async () => {
+    globalThis.fetch = vi.fn().mockRejectedValue(new Error("offline"));
+
+    const edited = applyTaxonomyEdit(makeSession(), {
+      kind: "delete",
+      categoryId: "tech",
+    });
+    const users = ["1", "2", "3", "4"].map((userId) => makeUser({ userId }));
+
+    const result = await reclassifyStale(
+      users,
+      edited,
+      defaultLLMConfig("anthropic", "k"),
+      () => {},
+    );
+
+    // classifyUsers reports the failures instead of throwing
+    expect(result.failed!.map((f) => f.userId)).toEqual(["1", "2"]);
+    expect(result.status).toBe("complete");
+    expect(result.categories.map((c) => c.id)).toEqual(["news"]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { bioTerms, findTopics, topicToList } from "@/core/topics";
+import { makeUser } from "../helpers/fixtures";
+
+function usersWith(prefix: string, bios: string[]) {
+  return bios.map((bio, i) => makeUser({ userId: `${prefix}${i}`, bio }));
+}
+
+const rust = usersWith("r", [
+  "Rust engineer. Compilers and systems programming.",
+  "Systems programming in Rust, ex-compiler engineer",
+  "Rust and WebAssembly. Writing a compiler for fun.",
+  "Engineer at a database company. Rust, systems.",
+  "Compiler nerd. Rust systems programming.",
+]);
+const garden = usersWith("g", [
+  "Gardener growing heirloom tomatoes and herbs",
+  "Organic garden, tomatoes, compost and bees",
+  "Herbs, compost, organic gardening tips",
+  "Allotment gardener. Tomatoes and bees.",
+  "Organic herbs and heirloom seeds for your garden",
+]);
+const crypto = usersWith("c", [
+  "Bitcoin maximalist. Stacking sats.",
+  "DeFi trader, bitcoin and ethereum",
+  "Ethereum validator. DeFi and staking.",
+  "Bitcoin miner, sats and stacking",
+  "Trading ethereum and bitcoin, DeFi degen",
+]);
+
+describe("bioTerms", () => {
+  it("drops links, mentions and stopwords but keeps c++ and c#", () => {
+    expect(
+      bioTerms("I write C++ and C# at @acme. Blog: https://x.dev/a"),
+    ).toEqual(["write", "c++", "c#", "blog"]);
+  });
+});
+
+describe("findTopics", () => {
+  it("groups bios by shared words", () => {
+    const summary = findTopics([...rust, ...garden, ...crypto], { k: 3 });
+
+    expect(summary.analyzed).toBe(15);
+    expect(summary.topics).toHaveLength(3);
+    const groups = summary.topics.map((t) => t.userIds.map((id) => id[0]));
+    for (const group of groups) {
+      expect(new Set(group).size).toBe(1);
+    }
+    const rustTopic = summary.topics.find((t) => t.userIds[0].startsWith("r"));
+    expect(rustTopic!.terms).toContain("rust");
+  });
+
+  it("gives the same topics for the same users", () => {
+    const users = [...rust, ...garden, ...crypto];
+    expect(findTopics(users, { k: 3 })).toEqual(findTopics(users, { k: 3 }));
+  });
+
+  it("skips users without a bio and drops tiny clusters", () => {
+    const users = [
+      ...rust,
+      ...garden,
+      makeUser({ userId: "empty", bio: "" }),
+      makeUser({ userId: "odd", bio: "Rust tomatoes" }),
+    ];
+
+    const summary = findTopics(users, { k: 2, minSize: 3 });
+
+    expect(summary.analyzed).toBe(11);
+    expect(summary.topics.flatMap((t) => t.userIds)).not.toContain("empty");
+    expect(
+      summary.topics.reduce((n, t) => n + t.userIds.length, 0) +
+        summary.unclustered,
+    ).toBe(11);
+  });
+
+  it("returns no topics when there are fewer bios than clusters", () => {
+    expect(findTopics(rust.slice(0, 2), { k: 3 }).topics).toEqual([]);
+  });
+});
+
+describe("topicToList", () => {
+  it("uses the top terms as keywords", () => {
+    const list = topicToList({
+      terms: ["rust", "compiler", "systems", "engineer"],
+      userIds: ["1", "2", "3"],
+    });
+    expect(list).toMatchObject({
+      name: "Rust / Compiler / Systems",
+      type: "keyword",
+      keywords: ["rust", "compiler", "systems"],
+    });
+  });
+});
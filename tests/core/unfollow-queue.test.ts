@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  QUEUE_BATCH_SIZE,
+  applyQueueResults,
+  clearUnfollowQueue,
+  createUnfollowQueue,
+  enqueueUnfollows,
+  loadUnfollowQueue,
+  nextQueueBatch,
+  projectQueueFinish,
+  recordQueueResult,
+  saveUnfollowQueue,
+  type QueuedUnfollow,
+} from "@/core/unfollow-queue";
+import { chromeStorageData } from "../setup";
+
+function queued(...ids: string[]): QueuedUnfollow[] {
+  return ids.map((id) => ({
+    userId: id,
+    username: `user${id}`,
+    reason: "inactive",
+  }));
+}
+
+describe("enqueueUnfollows", () => {
+  it("appends new users and skips ones already queued", () => {
+    let queue = enqueueUnfollows(createUnfollowQueue("me"), queued("1", "2"));
+    queue = enqueueUnfollows(queue, queued("2", "3", "3"));
+
+    expect(queue.entries.map((e) => e.userId)).toEqual(["1", "2", "3"]);
+  });
+});
+
+describe("nextQueueBatch", () => {
+  const queue = enqueueUnfollows(
+    createUnfollowQueue("me"),
+    queued(...Array.from({ length: 50 }, (_, i) => String(i))),
+  );
+
+  it("caps the batch by today's remaining limit and the batch size", () => {
+    expect(nextQueueBatch(queue, 2)).toHaveLength(2);
+    expect(nextQueueBatch(queue, 200)).toHaveLength(QUEUE_BATCH_SIZE);
+  });
+
+  it("returns nothing when paused or at the daily limit", () => {
+    expect(nextQueueBatch({ ...queue, paused: true }, 200)).toEqual([]);
+    expect(nextQueueBatch(queue, 0)).toEqual([]);
+  });
+});
+
+describe("applyQueueResults", () => {
+  it("removes processed entries and counts successes and failures", () => {
+    const queue = enqueueUnfollows(
+      createUnfollowQueue("me"),
+      queued("1", "2", "3"),
+    );
+
+    const next = applyQueueResults(queue, [
+      { userId: "1", success: true },
+      { userId: "2", success: false },
+    ]);
+
+    expect(next.entries.map((e) => e.userId)).toEqual(["3"]);
+    expect(next.done).toBe(1);
+    expect(next.failed).toBe(1);
+    expect(next.lastRunAt).not.toBeNull();
+  });
+});
+
+describe("projectQueueFinish", () => {
+  const now = new Date(2026, 2, 1, 12);
+
+  it("finishes today when the rest fits in today's limit", () => {
+    const finish = projectQueueFinish(50, 200, 100, now);
+    expect(finish.toDateString()).toBe(now.toDateString());
+  });
+
+  it("adds a day per full daily limit beyond today", () => {
+    // 150 left today, then 200/day: 500 needs 2 more days
+    expect(projectQueueFinish(500, 200, 50, now).getDate()).toBe(3);
+    // Limit already spent today
+    expect(projectQueueFinish(150, 200, 200, now).getDate()).toBe(2);
+  });
+
+  it("drains no faster than the scheduled runs allow", () => {
+    // 4 every 30 minutes is 192/day, below the 200 limit
+    expect(projectQueueFinish(192, 200, 0, now).getDate()).toBe(1);
+    expect(projectQueueFinish(200, 200, 0, now).getDate()).toBe(2);
+    expect(projectQueueFinish(400, 200, 200, now).getDate()).toBe(4);
+  });
+});
+
+describe("queue persistence", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(chromeStorageData)) {
+      delete chromeStorageData[key];
+    }
+  });
+
+  it("round-trips and ignores another account's queue", async () => {
+    const queue = enqueueUnfollows(createUnfollowQueue("me"), queued("1"));
+    await saveUnfollowQueue(queue);
+
+    expect(await loadUnfollowQueue("me")).toEqual(queue);
+    expect(await loadUnfollowQueue("someone-else")).toBeNull();
+
+    await clearUnfollowQueue();
+    expect(await loadUnfollowQueue()).toBeNull();
+  });
+
+  it("keeps the progress of a run that is cut short", async () => {
+    await saveUnfollowQueue(
+      enqueueUnfollows(createUnfollowQueue("me"), queued("1", "2", "3", "4")),
+    );
+    const batch = nextQueueBatch((await loadUnfollowQueue("me"))!, 200);
+
+    // The run stops after two of its results were reported
+    await recordQueueResult("me", { userId: batch[0].userId, success: true });
+    await recordQueueResult("me", { userId: batch[1].userId, success: false });
+
+    const queue = (await loadUnfollowQueue("me"))!;
+    expect(queue.entries.map((e) => e.userId)).toEqual(["3", "4"]);
+    expect(queue.done).toBe(1);
+    expect(queue.failed).toBe(1);
+    expect(nextQueueBatch(queue, 200).map((e) => e.userId)).toEqual(["3", "4"]);
+  });
+
+  it("ignores results for entries that are no longer queued", async () => {
+    await saveUnfollowQueue(
+      enqueueUnfollows(createUnfollowQueue("me"), queued("1")),
+    );
+
+    expect(
+      await recordQueueResult("me", { userId: "9", success: true }),
+    ).toBeNull();
+    expect(
+      await recordQueueResult("someone-else", { userId: "1", success: true }),
+    ).toBeNull();
+    expect((await loadUnfollowQueue("me"))!.done).toBe(0);
+  });
+});
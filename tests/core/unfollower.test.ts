@@ -175,6 +175,26 @@ describe("bulkUnfollow", () => {
     expect(onProgress).toHaveBeenCalledWith(1, 1, "done");
   });
 
+  it("reports each live result through onResult", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, status: 200 } as Response)
+      .mockResolvedValueOnce({ ok: false, status: 403 } as Response);
+
+    const onResult = vi.fn();
+    const users = [
+      { userId: "1", username: "alice" },
+      { userId: "2", username: "bob" },
+    ];
+
+    await bulkUnfollow(users, { dryRun: false }, undefined, onResult);
+
+    expect(onResult.mock.calls).toEqual([
+      [{ userId: "1", username: "alice", success: true }],
+      [{ userId: "2", username: "bob", success: false }],
+    ]);
+  });
+
   it("respects abort signal via stopUnfollow()", async () => {
     const { delay: delayMock } = await import("@/utils/rate-limiter");
     vi.mocked(delayMock).mockImplementation(() => {
@@ -197,6 +217,28 @@ describe("bulkUnfollow", () => {
     // Should stop after first user (stopUnfollow called during first delay)
     expect(results.length).toBeLessThan(5);
   });
+
+  it("rejects a second run while one is in progress", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+    } as Response);
+    const users = [
+      { userId: "1", username: "alice" },
+      { userId: "2", username: "bob" },
+    ];
+
+    const first = bulkUnfollow(users, { dryRun: false });
+    await expect(
+      bulkUnfollow([{ userId: "3", username: "carol" }], { dryRun: false }),
+    ).rejects.toThrow("already in progress");
+    expect(await first).toHaveLength(2);
+
+    // Free again once the first run is done
+    await expect(
+      bulkUnfollow([{ userId: "3", username: "carol" }], { dryRun: false }),
+    ).resolves.toHaveLength(1);
+  });
 });
 
 describe("getDailyLimit", () => {
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { defaultLLMConfig, type TokenUsage } from "@/core/llm";
+import {
+  addUsage,
+  assertWithinBudget,
+  checkBudget,
+  loadUsageLedger,
+  monthKey,
+  recordUsage,
+  setMonthlyBudget,
+  totalUsage,
+} from "@/core/usage";
+import { chromeStorageData } from "../setup";
+
+const anthropic = defaultLLMConfig("anthropic", "k");
+
+function haiku(inputTokens: number, outputTokens: number): TokenUsage {
+  return {
+    model: "claude-haiku-4-5-20251001",
+    tier: "fast",
+    inputTokens,
+    outputTokens,
+  };
+}
+
+describe("addUsage", () => {
+  it("accumulates tokens and cost per model", () => {
+    let usage = addUsage({}, anthropic, haiku(1_000_000, 0));
+    usage = addUsage(usage, anthropic, haiku(0, 200_000));
+
+    expect(usage["claude-haiku-4-5-20251001"]).toEqual({
+      requests: 2,
+      inputTokens: 1_000_000,
+      outputTokens: 200_000,
+      cost: 2, // $1 in + $1 out
+      priced: true,
+    });
+  });
+
+  it("marks models without a price", () => {
+    const custom = {
+      ...defaultLLMConfig("openai", "k"),
+      models: { fast: "my-model", smart: "my-model" },
+    };
+    const usage = addUsage({}, custom, {
+      model: "my-model",
+      tier: "fast",
+      inputTokens: 10,
+      outputTokens: 10,
+    });
+
+    expect(usage["my-model"].priced).toBe(false);
+    expect(totalUsage(usage).priced).toBe(false);
+  });
+});
+
+describe("totalUsage", () => {
+  it("sums across models and records", () => {
+    const a = addUsage({}, anthropic, haiku(100, 10));
+    const b = addUsage({}, anthropic, {
+      model: "claude-sonnet-4-5-20250929",
+      tier: "smart",
+      inputTokens: 50,
+      outputTokens: 5,
+    });
+
+    expect(totalUsage(a, b)).toMatchObject({
+      requests: 2,
+      inputTokens: 150,
+      outputTokens: 15,
+    });
+  });
+});
+
+describe("ledger and budget", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(chromeStorageData)) {
+      delete chromeStorageData[key];
+    }
+  });
+
+  it("records usage under the current month", async () => {
+    await recordUsage(anthropic, haiku(100, 10));
+    await recordUsage(anthropic, haiku(100, 10));
+
+    const ledger = await loadUsageLedger();
+    expect(ledger[monthKey()]["claude-haiku-4-5-20251001"].requests).toBe(2);
+  });
+
+  it("allows everything without a budget", async () => {
+    await recordUsage(anthropic, haiku(10_000_000, 0));
+    expect((await checkBudget(100)).allowed).toBe(true);
+  });
+
+  it("blocks runs that would exceed the budget", async () => {
+    await setMonthlyBudget(5);
+    await recordUsage(anthropic, haiku(4_000_000, 0)); // $4
+
+    expect((await checkBudget(0.5)).allowed).toBe(true);
+    const over = await checkBudget(2);
+    expect(over).toMatchObject({ limit: 5, spent: 4, allowed: false });
+    await expect(assertWithinBudget(2)).rejects.toThrow("monthly AI budget");
+  });
+
+  it("blocks unpriced runs once the budget is used up", async () => {
+    await setMonthlyBudget(1);
+    expect((await checkBudget(null)).allowed).toBe(true);
+
+    await recordUsage(anthropic, haiku(1_000_000, 0)); // $1
+    expect((await checkBudget(null)).allowed).toBe(false);
+  });
+
+  it("ignores spending from previous months", async () => {
+    await setMonthlyBudget(1);
+    chromeStorageData.xsweep_llm_usage = {
+      "2000-01": addUsage({}, anthropic, haiku(50_000_000, 0)),
+    };
+
+    expect((await checkBudget(0.5)).allowed).toBe(true);
+  });
+});
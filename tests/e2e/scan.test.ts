@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { delay } from "@/utils/rate-limiter";
+
+vi.mock("@/core/auth", () => ({
+  getHeaders: () => ({ authorization: "Bearer mock-token" }),
+  getMyUserId: () => "12345",
+}));
+
+// Mock delay to resolve immediately
+vi.mock("@/utils/rate-limiter", () => ({
+  delay: vi.fn(() => Promise.resolve()),
+}));
+
+import { collectIds, fullScan } from "@/core/scanner";
+import { resetScheduler } from "@/utils/request-scheduler";
+import {
+  createFixtureSanitizer,
+  toFixture,
+  type XApiFixture,
+} from "@/utils/fixture-recorder";
+import { createMockXApi, makeRawUser } from "../helpers/mock-x-api";
+
+function ids(from: number, to: number): string[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => String(from + i));
+}
+
+describe("scan against the mock X API", () => {
+  beforeEach(() => {
+    resetScheduler();
+    vi.mocked(delay).mockResolvedValue(undefined);
+  });
+
+  it("runs a full scan across paginated IDs and lookup chunks", async () => {
+    const following = ids(1, 250);
+    const followers = ids(200, 300);
+    const api = createMockXApi({
+      users: ids(1, 300).map((id) => makeRawUser(id)),
+      following,
+      followers,
+      pageSize: 100,
+    });
+    globalThis.fetch = api.fetch;
+
+    const result = await fullScan();
+
+    expect(result.aborted).toBe(false);
+    expect(result.followingIds).toEqual(following);
+    expect(result.followerIds).toEqual(followers);
+    expect(api.callsTo("friends/ids.json")).toHaveLength(3);
+    expect(api.callsTo("followers/ids.json")).toHaveLength(2);
+    // 250 following + 50 follower-only, 100 per lookup
+    expect(api.callsTo("users/lookup.json")).toHaveLength(4);
+
+    const byId = new Map(result.users.map((u) => [u.userId, u]));
+    expect(byId.size).toBe(300);
+    expect(byId.get("1")).toMatchObject({ isFollowing: true, isMutual: false });
+    expect(byId.get("220")).toMatchObject({ isMutual: true });
+    expect(byId.get("300")).toMatchObject({
+      isFollowing: false,
+      isFollower: true,
+    });
+  });
+
+  it("records IDs that users/lookup does not return as unavailable", async () => {
+    const api = createMockXApi({
+      users: [makeRawUser("1"), makeRawUser("2", { suspended: true })],
+      following: ["1", "2", "3"],
+    });
+    globalThis.fetch = api.fetch;
+
+    const result = await fullScan();
+    const byId = new Map(result.users.map((u) => [u.userId, u]));
+
+    expect(byId.get("1")?.username).toBe("user1");
+    expect(byId.get("2")?.username).toBe("[unavailable]");
+    expect(byId.get("3")?.status).toBe("deactivated");
+  });
+
+  it("waits out a 429 and resumes from the same cursor", async () => {
+    const api = createMockXApi({ following: ids(1, 30), pageSize: 10 });
+    api.fail("friends/ids.json", { type: "rate-limit", resetInSec: 120 });
+    globalThis.fetch = api.fetch;
+
+    const collected = await collectIds("friends/ids.json");
+
+    expect(collected).toEqual(ids(1, 30));
+    const cursors = api.callsTo("friends/ids.json").map((c) => c.params.cursor);
+    expect(cursors).toEqual(["-1", "-1", "10", "20"]);
+    const waited = vi
+      .mocked(delay)
+      .mock.calls.some(([min]) => min > 100 && min <= 122);
+    expect(waited).toBe(true);
+  });
+
+  it("uses the fallback wait when a 429 has no rate-limit headers", async () => {
+    const api = createMockXApi({ following: ids(1, 5) });
+    api.fail("friends/ids.json", { type: "rate-limit", withHeaders: false });
+    globalThis.fetch = api.fetch;
+
+    expect(await collectIds("friends/ids.json")).toEqual(ids(1, 5));
+    expect(delay).toHaveBeenCalledWith(60, 90);
+  });
+
+  it("stops on an empty body and keeps the IDs collected so far", async () => {
+    const api = createMockXApi({ following: ids(1, 30), pageSize: 10 });
+    api.fail("friends/ids.json", { type: "empty-body" }, { after: 1 });
+    globalThis.fetch = api.fetch;
+
+    const collected = await collectIds("friends/ids.json");
+
+    expect(collected).toEqual(ids(1, 10));
+    expect(api.callsTo("friends/ids.json")).toHaveLength(2);
+  });
+
+  it("stops when the API hands back a cursor it already served", async () => {
+    const api = createMockXApi({ following: ids(1, 30), pageSize: 10 });
+    api.fail("friends/ids.json", { type: "loop-cursor" });
+    globalThis.fetch = api.fetch;
+
+    const collected = await collectIds("friends/ids.json");
+
+    expect(collected).toEqual(ids(1, 10));
+    expect(api.callsTo("friends/ids.json")).toHaveLength(1);
+  });
+
+  it("fails the scan on a non-retryable error status", async () => {
+    const api = createMockXApi({ following: ids(1, 5) });
+    api.fail("friends/ids.json", { type: "status", status: 401 });
+    globalThis.fetch = api.fetch;
+
+    await expect(collectIds("friends/ids.json")).rejects.toThrow(
+      "friends/ids.json error: 401",
+    );
+  });
+
+  it("replays recorded fixtures ahead of the in-memory state", async () => {
+    const recorded = createMockXApi({
+      users: ids(1, 3).map((id) => makeRawUser(id)),
+      following: ids(1, 3),
+    });
+    const sanitizer = createFixtureSanitizer();
+    const fixtures: XApiFixture[] = [];
+    for (const url of [
+      "https://x.com/i/api/1.1/friends/ids.json?user_id=12345&cursor=-1",
+      "https://x.com/i/api/1.1/users/lookup.json?user_id=1,2,3",
+    ]) {
+      const resp = await recorded.fetch(url, {});
+      fixtures.push(await toFixture(sanitizer, url, {}, resp));
+    }
+
+    // The recorded session user's ID was sanitized too, so match on endpoint only
+    const api = createMockXApi();
+    api.replay(fixtures.map((f) => ({ ...f, params: {} })));
+    globalThis.fetch = api.fetch;
+
+    const result = await fullScan();
+
+    expect(result.followingIds).toEqual(["1000002", "1000003", "1000004"]);
+    expect(result.users.map((u) => u.userId).sort()).toEqual(
+      result.followingIds,
+    );
+    expect(result.users.every((u) => u.username.startsWith("user_"))).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { delay } from "@/utils/rate-limiter";
+import { chromeStorageData } from "../setup";
+
+vi.mock("@/core/auth", () => ({
+  getHeaders: () => ({ authorization: "Bearer mock-token" }),
+  getCSRFToken: () => "mock-csrf",
+  getMyUserId: () => "12345",
+}));
+
+// Mock delay to resolve immediately
+vi.mock("@/utils/rate-limiter", () => ({
+  delay: vi.fn(() => Promise.resolve()),
+}));
+
+import { bulkUnfollow } from "@/core/unfollower";
+import {
+  addListMember,
+  createXList,
+  fetchListById,
+  fetchListMembers,
+  fetchMyLists,
+  streamListMembers,
+} from "@/core/lists-api";
+import { resetScheduler } from "@/utils/request-scheduler";
+import { createMockXApi, makeRawUser } from "../helpers/mock-x-api";
+
+const users = ["1", "2", "3"].map((id) => makeRawUser(id));
+
+beforeEach(() => {
+  resetScheduler();
+  vi.mocked(delay).mockResolvedValue(undefined);
+  for (const key of Object.keys(chromeStorageData)) {
+    delete chromeStorageData[key];
+  }
+});
+
+describe("unfollow against the mock X API", () => {
+  it("removes unfollowed accounts from the following list", async () => {
+    const api = createMockXApi({ users, following: ["1", "2", "3"] });
+    globalThis.fetch = api.fetch;
+
+    const results = await bulkUnfollow(
+      [
+        { userId: "1", username: "user1" },
+        { userId: "3", username: "user3" },
+      ],
+      { dryRun: false },
+    );
+
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(api.following).toEqual(["2"]);
+  });
+
+  it("retries an unfollow after a 429", async () => {
+    const api = createMockXApi({ users, following: ["1"] });
+    api.fail("friendships/destroy.json", { type: "rate-limit" });
+    globalThis.fetch = api.fetch;
+
+    const results = await bulkUnfollow([{ userId: "1", username: "user1" }], {
+      dryRun: false,
+    });
+
+    expect(results[0].success).toBe(true);
+    expect(api.callsTo("friendships/destroy.json")).toHaveLength(2);
+    expect(api.following).toEqual([]);
+  });
+
+  it("reports failure for an account that no longer exists", async () => {
+    const api = createMockXApi({ users, following: ["1"] });
+    globalThis.fetch = api.fetch;
+
+    const results = await bulkUnfollow([{ userId: "99", username: "gone" }], {
+      dryRun: false,
+    });
+
+    expect(results[0].success).toBe(false);
+  });
+});
+
+describe("lists against the mock X API", () => {
+  it("creates a list, adds members and reads them back", async () => {
+    const api = createMockXApi({ users });
+    globalThis.fetch = api.fetch;
+
+    const list = await createXList("Builders", "People who ship");
+    await addListMember(list.id, "1");
+    await addListMember(list.id, "2");
+
+    const members = await fetchListMembers(list.id);
+    expect(members.map((m) => m.username)).toEqual(["user1", "user2"]);
+
+    const lists = await fetchMyLists();
+    expect(lists).toEqual([{ ...list, memberCount: 2 }]);
+  });
+
+  it("pages through large lists", async () => {
+    const api = createMockXApi({
+      users,
+      pageSize: 2,
+      lists: [
+        {
+          id: "50",
+          name: "Big",
+          description: "",
+          mode: "private",
+          ownerId: "12345",
+          memberIds: ["1", "2", "3", "4", "5"],
+        },
+      ],
+    });
+    globalThis.fetch = api.fetch;
+
+    const members = await fetchListMembers("50");
+
+    expect(members.map((m) => m.userId)).toEqual(["1", "2", "3", "4", "5"]);
+    expect(api.callsTo("lists/members.json")).toHaveLength(3);
+  });
+
+  it("resumes a large list from the page that failed", async () => {
+    const api = createMockXApi({
+      users,
+      pageSize: 2,
+      lists: [
+        {
+          id: "50",
+          name: "Big",
+          description: "",
+          mode: "private",
+          ownerId: "12345",
+          memberIds: ["1", "2", "3", "4", "5"],
+        },
+      ],
+    });
+    globalThis.fetch = api.fetch;
+    api.fail(
+      "lists/members.json",
+      { type: "status", status: 503 },
+      { after: 1 },
+    );
+
+    const stored: string[] = [];
+    let resumeFrom = "-1";
+    const onPage = async (page: {
+      members: { userId: string }[];
+      nextCursor: string | null;
+    }) => {
+      stored.push(...page.members.map((m) => m.userId));
+      if (page.nextCursor) resumeFrom = page.nextCursor;
+    };
+
+    await expect(streamListMembers("50", onPage)).rejects.toThrow(
+      "lists/members.json error: 503",
+    );
+    expect(stored).toEqual(["1", "2"]);
+
+    await streamListMembers("50", onPage, resumeFrom);
+    expect(stored).toEqual(["1", "2", "3", "4", "5"]);
+  });
+
+  it("waits out a 429 using the reset header and keeps paging", async () => {
+    const api = createMockXApi({
+      users,
+      pageSize: 2,
+      lists: [
+        {
+          id: "50",
+          name: "Big",
+          description: "",
+          mode: "private",
+          ownerId: "12345",
+          memberIds: ["1", "2", "3"],
+        },
+      ],
+    });
+    globalThis.fetch = api.fetch;
+    api.fail(
+      "lists/members.json",
+      { type: "rate-limit", resetInSec: 120 },
+      { after: 1 },
+    );
+
+    const members = await fetchListMembers("50");
+
+    expect(members.map((m) => m.userId)).toEqual(["1", "2", "3"]);
+    expect(api.callsTo("lists/members.json")).toHaveLength(3);
+    expect(vi.mocked(delay).mock.calls.some(([min]) => min >= 120)).toBe(true);
+  });
+
+  it("only returns lists the user owns", async () => {
+    const api = createMockXApi({
+      lists: [
+        {
+          id: "1",
+          name: "Mine",
+          description: "",
+          mode: "public",
+          ownerId: "12345",
+          memberIds: [],
+        },
+        {
+          id: "2",
+          name: "Subscribed",
+          description: "",
+          mode: "public",
+          ownerId: "999",
+          memberIds: [],
+        },
+      ],
+    });
+    globalThis.fetch = api.fetch;
+
+    expect((await fetchMyLists()).map((l) => l.name)).toEqual(["Mine"]);
+  });
+
+  it("looks up public lists of other users but not private ones", async () => {
+    const api = createMockXApi({
+      lists: [
+        {
+          id: "7",
+          name: "Open",
+          description: "",
+          mode: "public",
+          ownerId: "999",
+          memberIds: ["1"],
+        },
+        {
+          id: "8",
+          name: "Closed",
+          description: "",
+          mode: "private",
+          ownerId: "999",
+          memberIds: [],
+        },
+      ],
+    });
+    globalThis.fetch = api.fetch;
+
+    const open = await fetchListById("7");
+    expect(open).toMatchObject({ name: "Open", owner: "user999" });
+    await expect(fetchListById("8")).rejects.toThrow(
+      "List not found, or it's private",
+    );
+  });
+
+  it("gives up adding a member after one retry on 429", async () => {
+    const api = createMockXApi({ users });
+    globalThis.fetch = api.fetch;
+    const list = await createXList("Busy", "");
+    api.fail("lists/members/create.json", { type: "rate-limit" }, { times: 2 });
+
+    await expect(addListMember(list.id, "1")).rejects.toThrow(
+      "lists/members/create.json error: 429",
+    );
+    expect(api.callsTo("lists/members/create.json")).toHaveLength(2);
+  });
+});
@@ -49,6 +49,7 @@ export function makeSnapshot(overrides: Partial<Snapshot> = {}): Snapshot {
     inactiveCount: 50,
     suspendedCount: 10,
     userIds: ["100", "200", "300"],
+    followerIds: ["100", "200"],
     ...overrides,
   };
 }
@@ -0,0 +1,357 @@
+/**
+ * Mock X API: an in-memory stand-in for the x.com i/api/1.1 endpoints the
+ * extension calls. Assign `api.fetch` to globalThis.fetch and the real
+ * scanner, unfollower and lists code runs against it end to end.
+ *
+ * Faults (429s, empty bodies, looping cursors, error statuses) are queued
+ * per endpoint with `api.fail()`; recorded fixtures can be replayed with
+ * `api.replay()`.
+ */
+
+import { vi, type Mock } from "vitest";
+import type { XApiFixture } from "@/utils/fixture-recorder";
+
+export type RawXUser = Record<string, unknown> & { id_str: string };
+
+export interface MockXList {
+  id: string;
+  name: string;
+  description: string;
+  mode: "public" | "private";
+  ownerId: string;
+  memberIds: string[];
+}
+
+export type MockFault =
+  | { type: "rate-limit"; resetInSec?: number; withHeaders?: boolean }
+  | { type: "empty-body" }
+  | { type: "loop-cursor" }
+  | { type: "status"; status: number };
+
+export interface FaultOptions {
+  times?: number; // consecutive calls that fail (default 1)
+  after?: number; // calls to serve normally first (default 0)
+}
+
+export interface MockCall {
+  method: string;
+  endpoint: string;
+  params: Record<string, string>;
+}
+
+export interface MockXApiOptions {
+  myUserId?: string;
+  users?: RawXUser[];
+  following?: string[];
+  followers?: string[];
+  lists?: MockXList[];
+  pageSize?: number; // items per page for cursor endpoints
+}
+
+export interface MockXApi {
+  fetch: Mock<typeof fetch>;
+  calls: MockCall[];
+  users: Map<string, RawXUser>;
+  following: string[];
+  followers: string[];
+  lists: MockXList[];
+  fail(endpoint: string, fault: MockFault, options?: FaultOptions): void;
+  replay(fixtures: XApiFixture[]): void;
+  callsTo(endpoint: string): MockCall[];
+}
+
+const API_PREFIX = "https://x.com/i/api/1.1/";
+
+/**
+ * Raw v1.1 user object, active by default.
+ */
+export function makeRawUser(
+  id: string,
+  overrides: Record<string, unknown> = {},
+): RawXUser {
+  return {
+    id_str: id,
+    screen_name: `user${id}`,
+    name: `User ${id}`,
+    description: "",
+    followers_count: 100,
+    friends_count: 100,
+    statuses_count: 50,
+    verified: false,
+    is_blue_verified: false,
+    location: "",
+    url: null,
+    created_at: "Mon Jan 01 00:00:00 +0000 2024",
+    profile_image_url_https: `https://pbs.twimg.com/${id}.jpg`,
+    status: { created_at: new Date().toUTCString() },
+    ...overrides,
+  };
+}
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+function errorResponse(status: number, message: string): Response {
+  return jsonResponse({ errors: [{ code: status, message }] }, status);
+}
+
+export function createMockXApi(options: MockXApiOptions = {}): MockXApi {
+  const myUserId = options.myUserId ?? "12345";
+  const pageSize = options.pageSize ?? 5000;
+  const users = new Map((options.users ?? []).map((u) => [u.id_str, u]));
+  const following = [...(options.following ?? [])];
+  const followers = [...(options.followers ?? [])];
+  const lists = (options.lists ?? []).map((l) => ({
+    ...l,
+    memberIds: [...l.memberIds],
+  }));
+  const faults = new Map<string, Array<MockFault | null>>();
+  const fixtures: XApiFixture[] = [];
+  const calls: MockCall[] = [];
+  let nextListId = 9000;
+
+  /** Cursor pagination over an array; cursors are stringified offsets. */
+  const paginate = <T>(items: T[], cursor: string, count: number) => {
+    const start = cursor === "-1" ? 0 : Number(cursor);
+    const size = Math.min(count || pageSize, pageSize);
+    const end = start + size;
+    return {
+      page: items.slice(start, end),
+      next_cursor_str: end < items.length ? String(end) : "0",
+      previous_cursor_str: start > 0 ? String(Math.max(0, start - size)) : "0",
+    };
+  };
+
+  const listJson = (l: MockXList) => ({
+    id_str: l.id,
+    name: l.name,
+    description: l.description,
+    member_count: l.memberIds.length,
+    mode: l.mode,
+    user: { id_str: l.ownerId, screen_name: `user${l.ownerId}` },
+  });
+
+  const findList = (id: string) => lists.find((l) => l.id === id);
+
+  const handlers: Record<string, (p: Record<string, string>) => Response> = {
+    "GET friends/ids.json": (p) => idsPage(following, p),
+    "GET followers/ids.json": (p) => idsPage(followers, p),
+    "GET friends/list.json": (p) => usersPage(following, p),
+    "GET followers/list.json": (p) => usersPage(followers, p),
+
+    "GET users/lookup.json": (p) => {
+      const found = (p.user_id || "")
+        .split(",")
+        .map((id) => users.get(id))
+        .filter((u): u is RawXUser => !!u && !u.suspended);
+      // X answers 404 when none of the IDs resolve to a live account
+      if (found.length === 0) return errorResponse(404, "No user matches");
+      return jsonResponse(found);
+    },
+
+    "POST friendships/create.json": (p) => {
+      const user = users.get(p.user_id);
+      if (!user) return errorResponse(404, "User not found");
+      if (!following.includes(p.user_id)) following.unshift(p.user_id);
+      return jsonResponse(user);
+    },
+
+    "POST friendships/destroy.json": (p) => {
+      const user = users.get(p.user_id);
+      if (!user) return errorResponse(404, "User not found");
+      const i = following.indexOf(p.user_id);
+      if (i >= 0) following.splice(i, 1);
+      return jsonResponse(user);
+    },
+
+    "GET lists/list.json": () => jsonResponse(lists.map(listJson)),
+
+    "GET lists/show.json": (p) => {
+      const list = findList(p.list_id);
+      // Other users' private lists look the same as missing ones
+      if (!list || (list.mode === "private" && list.ownerId !== myUserId)) {
+        return errorResponse(404, "List not found");
+      }
+      return jsonResponse(listJson(list));
+    },
+
+    "GET lists/members.json": (p) => {
+      const list = findList(p.list_id);
+      if (!list) return errorResponse(404, "List not found");
+      const { page, ...cursors } = paginate(
+        list.memberIds,
+        p.cursor || "-1",
+        Number(p.count),
+      );
+      return jsonResponse({
+        users: page.map((id) => users.get(id) ?? makeRawUser(id)),
+        ...cursors,
+      });
+    },
+
+    "POST lists/create.json": (p) => {
+      const list: MockXList = {
+        id: String(nextListId++),
+        name: p.name,
+        description: p.description || "",
+        mode: p.mode === "public" ? "public" : "private",
+        ownerId: myUserId,
+        memberIds: [],
+      };
+      lists.push(list);
+      return jsonResponse(listJson(list));
+    },
+
+    "POST lists/destroy.json": (p) => {
+      const i = lists.findIndex((l) => l.id === p.list_id);
+      if (i < 0) return errorResponse(404, "List not found");
+      const [removed] = lists.splice(i, 1);
+      return jsonResponse(listJson(removed));
+    },
+
+    "POST lists/members/create.json": (p) => {
+      const list = findList(p.list_id);
+      if (!list) return errorResponse(404, "List not found");
+      if (!list.memberIds.includes(p.user_id)) list.memberIds.push(p.user_id);
+      return jsonResponse(listJson(list));
+    },
+
+    "POST lists/members/destroy.json": (p) => {
+      const list = findList(p.list_id);
+      if (!list) return errorResponse(404, "List not found");
+      list.memberIds = list.memberIds.filter((id) => id !== p.user_id);
+      return jsonResponse(listJson(list));
+    },
+  };
+
+  function idsPage(ids: string[], p: Record<string, string>): Response {
+    const { page, ...cursors } = paginate(
+      ids,
+      p.cursor || "-1",
+      Number(p.count),
+    );
+    return jsonResponse({ ids: page, ...cursors });
+  }
+
+  function usersPage(ids: string[], p: Record<string, string>): Response {
+    const { page, ...cursors } = paginate(
+      ids,
+      p.cursor || "-1",
+      Number(p.count),
+    );
+    return jsonResponse({
+      users: page.map((id) => users.get(id)).filter(Boolean),
+      ...cursors,
+    });
+  }
+
+  async function applyFault(
+    fault: MockFault,
+    handle: () => Response,
+    cursor: string,
+  ): Promise<Response> {
+    switch (fault.type) {
+      case "rate-limit": {
+        const reset = Math.floor(Date.now() / 1000) + (fault.resetInSec ?? 60);
+        return jsonResponse(
+          { errors: [{ code: 88, message: "Rate limit exceeded" }] },
+          429,
+          fault.withHeaders === false
+            ? {}
+            : {
+                "x-rate-limit-limit": "15",
+                "x-rate-limit-remaining": "0",
+                "x-rate-limit-reset": String(reset),
+              },
+        );
+      }
+      case "empty-body":
+        return new Response("", { status: 200 });
+      case "status":
+        return errorResponse(fault.status, `Mock error ${fault.status}`);
+      case "loop-cursor": {
+        // Serve the real page but hand back the cursor we were called with
+        const body = await handle().json();
+        return jsonResponse({ ...body, next_cursor_str: cursor });
+      }
+    }
+  }
+
+  const fetchImpl = vi.fn<typeof fetch>(
+    async (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const url = new URL(String(input));
+      if (!url.href.startsWith(API_PREFIX)) {
+        return errorResponse(404, `Not an X API URL: ${url.href}`);
+      }
+
+      const method = (init.method || "GET").toUpperCase();
+      const endpoint = url.pathname.replace(/^\/i\/api\/1\.1\//, "");
+      const params = Object.fromEntries(url.searchParams);
+      if (
+        init.body instanceof URLSearchParams ||
+        typeof init.body === "string"
+      ) {
+        Object.assign(
+          params,
+          Object.fromEntries(new URLSearchParams(init.body)),
+        );
+      }
+      calls.push({ method, endpoint, params });
+
+      const fixture = fixtures.find(
+        (f) =>
+          f.method === method &&
+          f.endpoint === endpoint &&
+          Object.entries(f.params).every(([k, v]) => params[k] === v),
+      );
+      if (fixture) {
+        const body =
+          typeof fixture.body === "string"
+            ? fixture.body
+            : JSON.stringify(fixture.body);
+        return new Response(body, {
+          status: fixture.status,
+          headers: fixture.headers,
+        });
+      }
+
+      const handler = handlers[`${method} ${endpoint}`];
+      if (!handler)
+        return errorResponse(404, `No mock for ${method} ${endpoint}`);
+      const handle = () => handler(params);
+
+      const fault = faults.get(endpoint)?.shift();
+      if (fault) return applyFault(fault, handle, params.cursor || "-1");
+      return handle();
+    },
+  );
+
+  return {
+    fetch: fetchImpl,
+    calls,
+    users,
+    following,
+    followers,
+    lists,
+    fail(endpoint, fault, { times = 1, after = 0 } = {}) {
+      const queue = faults.get(endpoint) ?? [];
+      for (let i = 0; i < after; i++) queue.push(null);
+      for (let i = 0; i < times; i++) queue.push(fault);
+      faults.set(endpoint, queue);
+    },
+    replay(recorded) {
+      fixtures.push(...recorded);
+    },
+    callsTo(endpoint) {
+      return calls.filter((c) => c.endpoint === endpoint);
+    },
+  };
+}
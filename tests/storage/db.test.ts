@@ -3,11 +3,17 @@ import {
   resetTestDb,
   upsertUsers,
   getAllUsers,
+  getScannedUsers,
   getUsersByStatus,
   getUserCount,
   clearUsers,
   updateUserListIds,
+  addUsersToList,
+  removeUsersFromList,
+  addListMembers,
+  storeScannedUsers,
   getUsersByListId,
+  countUsersByListId,
   createList,
   getAllLists,
   updateList,
@@ -19,9 +25,36 @@ import {
   logUnfollow,
   getUnfollowLog,
   getUnfollowCount,
+  markRefollowed,
+  createPolicy,
+  getAllPolicies,
+  updatePolicy,
+  deletePolicy,
+  getClassifications,
+  putClassifications,
+  saveReviewSession,
+  getReviewSession,
+  getAllReviewSessions,
+  deleteReviewSession,
+  importLegacyReviewSession,
   clearAllData,
 } from "@/storage/db";
+import type { ReviewSession } from "@/core/reviewer";
 import { makeUser, makeList, makeSnapshot } from "../helpers/fixtures";
+import { chromeStorageData } from "../setup";
+
+function makeSession(overrides: Partial<ReviewSession> = {}): ReviewSession {
+  return {
+    id: "review-1",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    status: "complete",
+    progress: { done: 0, total: 0 },
+    taxonomy: [],
+    categories: [],
+    uncategorized: [],
+    ...overrides,
+  };
+}
 
 describe("db", () => {
   beforeEach(async () => {
@@ -109,6 +142,111 @@ describe("db", () => {
       const list10 = await getUsersByListId(10);
       expect(list10).toHaveLength(1);
       expect(list10[0].userId).toBe("1");
+      expect(await countUsersByListId(20)).toBe(2);
+    });
+  });
+
+  describe("addUsersToList", () => {
+    it("adds the list once and skips unknown users", async () => {
+      await upsertUsers([
+        makeUser({ userId: "1", listIds: [5] }),
+        makeUser({ userId: "2", listIds: [7] }),
+      ]);
+
+      await addUsersToList(7, ["1", "2", "missing"]);
+
+      const users = await getAllUsers();
+      expect(users.find((u) => u.userId === "1")?.listIds).toEqual([5, 7]);
+      expect(users.find((u) => u.userId === "2")?.listIds).toEqual([7]);
+    });
+  });
+
+  describe("removeUsersFromList", () => {
+    it("removes only that list and skips unknown users", async () => {
+      await upsertUsers([
+        makeUser({ userId: "1", listIds: [5, 7] }),
+        makeUser({ userId: "2", listIds: [5] }),
+      ]);
+
+      await removeUsersFromList(7, ["1", "2", "missing"]);
+
+      const users = await getAllUsers();
+      expect(users.find((u) => u.userId === "1")?.listIds).toEqual([5]);
+      expect(users.find((u) => u.userId === "2")?.listIds).toEqual([5]);
+    });
+  });
+
+  describe("storeScannedUsers", () => {
+    it("keeps list memberships and reports new or changed profiles", async () => {
+      await upsertUsers([
+        makeUser({ userId: "1", bio: "Engineer", listIds: [3] }),
+        makeUser({ userId: "2", bio: "Designer", listIds: [4] }),
+      ]);
+
+      const changed = await storeScannedUsers([
+        makeUser({ userId: "1", bio: "Engineer", followerCount: 9 }),
+        makeUser({ userId: "2", bio: "Rust engineer" }),
+        makeUser({ userId: "3", bio: "New here" }),
+      ]);
+
+      expect(changed).toEqual(["2", "3"]);
+      const users = await getAllUsers();
+      const byId = new Map(users.map((u) => [u.userId, u]));
+      expect(byId.get("1")).toMatchObject({ listIds: [3], followerCount: 9 });
+      expect(byId.get("2")).toMatchObject({
+        listIds: [4],
+        bio: "Rust engineer",
+      });
+      expect(byId.get("3")!.listIds).toEqual([]);
+    });
+  });
+
+  describe("addListMembers", () => {
+    it("assigns known users and creates profiles for new members", async () => {
+      await upsertUsers([makeUser({ userId: "1", listIds: [5] })]);
+
+      await addListMembers(7, [
+        {
+          userId: "1",
+          username: "known",
+          displayName: "Known",
+          profileImageUrl: "",
+        },
+        {
+          userId: "2",
+          username: "newbie",
+          displayName: "Newbie",
+          profileImageUrl: "https://img/2.jpg",
+        },
+      ]);
+
+      const members = await getUsersByListId(7);
+      expect(members.map((u) => u.userId).sort()).toEqual(["1", "2"]);
+      const known = members.find((u) => u.userId === "1")!;
+      expect(known.listIds).toEqual([5, 7]);
+      const created = members.find((u) => u.userId === "2")!;
+      expect(created.username).toBe("newbie");
+      expect(created.listIds).toEqual([7]);
+      expect(created.isStub).toBe(true);
+      expect(created.scannedAt).toBe("");
+    });
+
+    it("keeps stubs out of scanned users until a scan stores them", async () => {
+      await addListMembers(7, [
+        {
+          userId: "2",
+          username: "newbie",
+          displayName: "Newbie",
+          profileImageUrl: "",
+        },
+      ]);
+      expect(await getScannedUsers()).toEqual([]);
+
+      await storeScannedUsers([makeUser({ userId: "2", username: "newbie" })]);
+
+      const [user] = await getScannedUsers();
+      expect(user.isStub).toBeUndefined();
+      expect(user.listIds).toEqual([7]);
     });
   });
 
@@ -256,6 +394,22 @@ describe("db", () => {
     });
   });
 
+  describe("markRefollowed", () => {
+    it("stamps only the given entries", async () => {
+      await logUnfollow({ userId: "1", username: "a", date: "", reason: "" });
+      await logUnfollow({ userId: "2", username: "b", date: "", reason: "" });
+      const [first] = await getUnfollowLog();
+
+      await markRefollowed([first.id!], "2026-03-01T00:00:00.000Z");
+
+      const log = await getUnfollowLog();
+      const stamped = log.filter((e) => e.refollowedAt);
+      expect(stamped).toHaveLength(1);
+      expect(stamped[0].id).toBe(first.id);
+      expect(stamped[0].refollowedAt).toBe("2026-03-01T00:00:00.000Z");
+    });
+  });
+
   describe("getUnfollowCount", () => {
     it("returns correct count", async () => {
       await logUnfollow({ userId: "1", username: "a", date: "", reason: "" });
@@ -267,6 +421,95 @@ describe("db", () => {
     });
   });
 
+  // ---- Cleanup policies ----
+
+  describe("createPolicy + updatePolicy + deletePolicy", () => {
+    const policy = {
+      name: "Stale",
+      rules: [
+        { field: "daysSinceLastTweet" as const, op: "gt" as const, value: 365 },
+      ],
+      protections: {
+        whitelist: true,
+        mutuals: true,
+        verified: true,
+        minFollowers: 0,
+      },
+      createdAt: "",
+      updatedAt: "",
+    };
+
+    it("stores, updates and removes a policy", async () => {
+      const id = await createPolicy(policy);
+      expect((await getAllPolicies())[0]).toMatchObject({ id, name: "Stale" });
+
+      await updatePolicy(id, { name: "Very stale" });
+      expect((await getAllPolicies())[0].name).toBe("Very stale");
+
+      await deletePolicy(id);
+      expect(await getAllPolicies()).toHaveLength(0);
+    });
+  });
+
+  // ---- AI classification cache ----
+
+  describe("putClassifications + getClassifications", () => {
+    it("returns entries for known keys only", async () => {
+      await putClassifications([
+        {
+          key: "ctx:1",
+          userId: "1",
+          profileHash: "abc",
+          ids: [1],
+          classifiedAt: "",
+        },
+      ]);
+
+      const entries = await getClassifications(["ctx:1", "ctx:2"]);
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ userId: "1", ids: [1] });
+    });
+  });
+
+  // ---- AI review sessions ----
+
+  describe("review sessions", () => {
+    it("keeps every session, newest first", async () => {
+      await saveReviewSession(makeSession({ id: "review-1" }));
+      await saveReviewSession(
+        makeSession({ id: "review-2", createdAt: "2026-02-01T00:00:00.000Z" }),
+      );
+
+      const sessions = await getAllReviewSessions();
+      expect(sessions.map((s) => s.id)).toEqual(["review-2", "review-1"]);
+    });
+
+    it("overwrites a session saved again under the same ID", async () => {
+      await saveReviewSession(makeSession({ status: "classifying" }));
+      await saveReviewSession(makeSession({ status: "complete" }));
+
+      expect((await getReviewSession("review-1"))?.status).toBe("complete");
+      expect(await getAllReviewSessions()).toHaveLength(1);
+    });
+
+    it("deletes a session", async () => {
+      await saveReviewSession(makeSession());
+      await deleteReviewSession("review-1");
+      expect(await getReviewSession("review-1")).toBeUndefined();
+    });
+
+    it("imports the session saved by earlier versions", async () => {
+      chromeStorageData.xsweep_review_session = makeSession({
+        id: "review-legacy",
+      });
+
+      await importLegacyReviewSession();
+
+      expect(await getReviewSession("review-legacy")).toBeDefined();
+      expect(chromeStorageData.xsweep_review_session).toBeUndefined();
+    });
+  });
+
   // ---- Bulk operations ----
 
   describe("clearAllData", () => {
@@ -291,5 +534,13 @@ describe("db", () => {
       const snapshots = await getAllSnapshots();
       expect(snapshots).toHaveLength(0);
     });
+
+    it("empties the AI review history", async () => {
+      await saveReviewSession(makeSession({ id: "review-1" }));
+
+      await clearAllData();
+
+      expect(await getAllReviewSessions()).toHaveLength(0);
+    });
   });
 });
@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { exportUsersCSV, exportUsersJSON } from "@/utils/export";
+import {
+  exportUsersCSV,
+  exportUsersJSON,
+  exportFollowChangesCSV,
+} from "@/utils/export";
 import { makeUser } from "../helpers/fixtures";
 
 // We need to intercept Blob and the download mechanism.
@@ -161,3 +165,51 @@ describe("exportUsersJSON", () => {
     expect(downloadAttr).toBe("my-export.json");
   });
 });
+
+describe("exportFollowChangesCSV", () => {
+  let restore: () => void;
+
+  beforeEach(() => {
+    restore = setupDownloadMock();
+  });
+
+  afterEach(() => {
+    restore();
+    vi.restoreAllMocks();
+  });
+
+  const diff = {
+    from: "2026-01-01T00:00:00.000Z",
+    to: "2026-02-01T00:00:00.000Z",
+    lostFollowers: ["1"],
+    newFollowers: ["2"],
+    newFollowing: ["999"],
+  };
+
+  it("writes one row per change with resolved profiles", () => {
+    exportFollowChangesCSV(diff, [
+      makeUser({ userId: "1", username: "alice", isFollowing: true }),
+      makeUser({ userId: "2", username: "bob", isFollowing: false }),
+    ]);
+
+    const lines = blobContent.split("\n");
+    expect(lines[0]).toBe(
+      "change,user_id,username,display_name,follower_count,is_following",
+    );
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toMatch(/^unfollowed_you,1,"alice",/);
+    expect(lines[1]).toMatch(/,yes$/);
+    expect(lines[2]).toMatch(/^new_follower,2,"bob",/);
+  });
+
+  it("leaves profile columns empty for unknown IDs", () => {
+    exportFollowChangesCSV(diff, []);
+    const lines = blobContent.split("\n");
+    expect(lines[3]).toBe('you_followed,999,"","",,');
+  });
+
+  it("names the file after the newer scan date", () => {
+    exportFollowChangesCSV(diff, []);
+    expect(downloadAttr).toBe("xsweep_changes_2026-02-01.csv");
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { createFixtureSanitizer, toFixture } from "@/utils/fixture-recorder";
+
+describe("createFixtureSanitizer", () => {
+  it("replaces IDs consistently across responses", () => {
+    const sanitizer = createFixtureSanitizer();
+
+    const ids = sanitizer.sanitize({
+      ids: ["555", "777"],
+      next_cursor_str: "0",
+    });
+    const users = sanitizer.sanitize([{ id_str: "777", id: 777 }]);
+
+    expect(ids).toEqual({ ids: ["1000001", "1000002"], next_cursor_str: "0" });
+    expect(users).toEqual([{ id_str: "1000002", id: 1000002 }]);
+  });
+
+  it("strips names, bios, URLs and entities but keeps counts", () => {
+    const sanitizer = createFixtureSanitizer();
+
+    const [user] = sanitizer.sanitize([
+      {
+        id_str: "555",
+        screen_name: "realperson",
+        name: "Real Person",
+        description: "I live at 1 Main St",
+        location: "Springfield",
+        url: "https://t.co/abc",
+        profile_image_url_https: "https://pbs.twimg.com/real.jpg",
+        entities: { url: { urls: [{ expanded_url: "https://me.com" }] } },
+        followers_count: 1234,
+        status: { created_at: "Mon Jan 01 00:00:00 +0000 2024", text: "hi" },
+      },
+    ]);
+
+    expect(JSON.stringify(user)).not.toMatch(/realperson|Real Person|Main St/);
+    expect(user.location).toBe("");
+    expect(user.url).toBe("https://example.com");
+    expect(user.entities).toBeUndefined();
+    expect(user.followers_count).toBe(1234);
+    expect(user.status).toEqual({
+      created_at: "Mon Jan 01 00:00:00 +0000 2024",
+      text: "Sample tweet",
+    });
+  });
+});
+
+describe("toFixture", () => {
+  it("captures method, endpoint, sanitized params and rate-limit headers", async () => {
+    const sanitizer = createFixtureSanitizer();
+    const resp = new Response(JSON.stringify({ id_str: "555" }), {
+      status: 200,
+      headers: {
+        "x-rate-limit-remaining": "14",
+        "set-cookie": "auth_token=secret",
+      },
+    });
+
+    const fixture = await toFixture(
+      sanitizer,
+      "https://x.com/i/api/1.1/friendships/destroy.json",
+      { method: "POST", body: new URLSearchParams({ user_id: "555" }) },
+      resp,
+    );
+
+    expect(fixture).toEqual({
+      method: "POST",
+      endpoint: "friendships/destroy.json",
+      params: { user_id: "1000001" },
+      status: 200,
+      headers: { "x-rate-limit-remaining": "14" },
+      body: { id_str: "1000001" },
+    });
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { formatTimeAgo, formatCount } from "@/utils/format";
+import {
+  formatTimeAgo,
+  formatCount,
+  formatCountdown,
+  formatCost,
+} from "@/utils/format";
 
 describe("formatTimeAgo", () => {
   it("returns 'No tweets' for null", () => {
@@ -71,3 +76,29 @@ describe("formatCount", () => {
     expect(formatCount(50000000)).toBe("50M");
   });
 });
+
+describe("formatCountdown", () => {
+  it("formats seconds, minutes and hours", () => {
+    expect(formatCountdown(45000)).toBe("45s");
+    expect(formatCountdown(252000)).toBe("4m12s");
+    expect(formatCountdown(3900000)).toBe("1h5m");
+  });
+
+  it("rounds up partial seconds and clamps negatives", () => {
+    expect(formatCountdown(1500)).toBe("2s");
+    expect(formatCountdown(-1000)).toBe("0s");
+  });
+});
+
+describe("formatCost", () => {
+  it("formats dollars with cents", () => {
+    expect(formatCost(0.1234)).toBe("$0.12");
+    expect(formatCost(12.5)).toBe("$12.50");
+  });
+
+  it("handles free, tiny and unknown costs", () => {
+    expect(formatCost(0)).toBe("free");
+    expect(formatCost(0.004)).toBe("<$0.01");
+    expect(formatCost(null)).toBe("unknown cost");
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { hashString } from "@/utils/hash";
+
+describe("hashString", () => {
+  it("returns 8 hex chars and is stable", () => {
+    expect(hashString("hello")).toMatch(/^[0-9a-f]{8}$/);
+    expect(hashString("hello")).toBe(hashString("hello"));
+  });
+
+  it("matches the FNV-1a reference value", () => {
+    expect(hashString("")).toBe("811c9dc5");
+    expect(hashString("a")).toBe("e40c292c");
+  });
+
+  it("changes when the input changes", () => {
+    expect(hashString("Developer")).not.toBe(hashString("Developer."));
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { delay } from "@/utils/rate-limiter";
+
+// Mock delay to resolve immediately
+vi.mock("@/utils/rate-limiter", () => ({
+  delay: vi.fn(() => Promise.resolve()),
+}));
+
+import {
+  endpointKey,
+  getSchedulerState,
+  onSchedulerChange,
+  resetScheduler,
+  scheduledFetch,
+  type SchedulerState,
+} from "@/utils/request-scheduler";
+
+const IDS_URL = "https://x.com/i/api/1.1/friends/ids.json?cursor=-1";
+
+function mockResponse(status: number, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+  } as Response;
+}
+
+describe("endpointKey", () => {
+  it("uses the REST path or GraphQL operation name", () => {
+    expect(endpointKey(IDS_URL)).toBe("friends/ids.json");
+    expect(
+      endpointKey("https://x.com/i/api/graphql/abc123/ListMembers?variables="),
+    ).toBe("ListMembers");
+  });
+});
+
+describe("scheduledFetch", () => {
+  beforeEach(() => {
+    resetScheduler();
+    vi.mocked(delay).mockReset();
+    vi.mocked(delay).mockResolvedValue(undefined);
+  });
+
+  it("tracks the endpoint budget from rate-limit headers", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 900;
+    globalThis.fetch = vi.fn().mockResolvedValue(
+      mockResponse(200, {
+        "x-rate-limit-limit": "15",
+        "x-rate-limit-remaining": "14",
+        "x-rate-limit-reset": String(reset),
+      }),
+    );
+
+    await scheduledFetch(IDS_URL);
+
+    expect(getSchedulerState().budgets).toEqual([
+      {
+        endpoint: "friends/ids.json",
+        limit: 15,
+        remaining: 14,
+        resetAt: reset * 1000,
+      },
+    ]);
+    expect(delay).not.toHaveBeenCalled();
+  });
+
+  it("waits until reset before spending an exhausted budget", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 120;
+    globalThis.fetch = vi.fn().mockResolvedValue(
+      mockResponse(200, {
+        "x-rate-limit-remaining": "0",
+        "x-rate-limit-reset": String(reset),
+      }),
+    );
+
+    await scheduledFetch(IDS_URL);
+    await scheduledFetch(IDS_URL);
+
+    expect(delay).toHaveBeenCalledTimes(1);
+    const [min, max] = vi.mocked(delay).mock.calls[0];
+    expect(min).toBe(max);
+    expect(min).toBeGreaterThan(118);
+    expect(min).toBeLessThanOrEqual(122);
+  });
+
+  it("retries a 429 after the reset from its headers and reports the wait", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 60;
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        mockResponse(429, {
+          "x-rate-limit-remaining": "0",
+          "x-rate-limit-reset": String(reset),
+        }),
+      )
+      .mockResolvedValueOnce(mockResponse(200));
+
+    const states: SchedulerState[] = [];
+    const unsubscribe = onSchedulerChange((state) => states.push(state));
+    const resp = await scheduledFetch(IDS_URL);
+    unsubscribe();
+
+    expect(resp.status).toBe(200);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    expect(
+      states.some((s) =>
+        s.waiting.some(
+          (w) =>
+            w.endpoint === "friends/ids.json" && w.resumeAt === reset * 1000,
+        ),
+      ),
+    ).toBe(true);
+    expect(getSchedulerState().waiting).toEqual([]);
+  });
+
+  it("falls back to fallbackWait when a 429 has no reset header", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(mockResponse(429))
+      .mockResolvedValueOnce(mockResponse(200));
+
+    await scheduledFetch(IDS_URL, {}, { fallbackWait: [300, 360] });
+
+    expect(delay).toHaveBeenCalledWith(300, 360);
+  });
+
+  it("falls back to fallbackWait when a 429's reset is already past", async () => {
+    const reset = Math.floor(Date.now() / 1000) - 30;
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        mockResponse(429, {
+          "x-rate-limit-remaining": "0",
+          "x-rate-limit-reset": String(reset),
+        }),
+      )
+      .mockResolvedValueOnce(mockResponse(200));
+
+    await scheduledFetch(IDS_URL, {}, { fallbackWait: [30, 60] });
+
+    expect(delay).toHaveBeenCalledTimes(1);
+    expect(delay).toHaveBeenCalledWith(30, 60);
+  });
+
+  it("gives up on repeated 429s by default", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(mockResponse(429));
+
+    const resp = await scheduledFetch(IDS_URL);
+
+    expect(resp.status).toBe(429);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(6);
+  });
+
+  it("rejects with AbortError when the signal fires during a wait", async () => {
+    vi.mocked(delay).mockImplementation(() => new Promise(() => {}));
+    globalThis.fetch = vi.fn().mockResolvedValue(mockResponse(429));
+    const controller = new AbortController();
+
+    const resp = scheduledFetch(IDS_URL, { signal: controller.signal });
+    await vi.waitFor(() => expect(delay).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(resp).rejects.toMatchObject({ name: "AbortError" });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    expect(getSchedulerState().waiting).toEqual([]);
+  });
+
+  it("returns the 429 once maxRetries is exhausted", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(mockResponse(429));
+
+    const resp = await scheduledFetch(IDS_URL, {}, { maxRetries: 1 });
+
+    expect(resp.status).toBe(429);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs requests to the same endpoint one at a time", async () => {
+    const order: string[] = [];
+    let release!: () => void;
+    globalThis.fetch = vi
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise<Response>((resolve) => {
+            order.push("first:start");
+            release = () => {
+              order.push("first:end");
+              resolve(mockResponse(200));
+            };
+          }),
+      )
+      .mockImplementationOnce(() => {
+        order.push("second:start");
+        return Promise.resolve(mockResponse(200));
+      });
+
+    const first = scheduledFetch(IDS_URL);
+    const second = scheduledFetch(IDS_URL);
+    await vi.waitFor(() => expect(order).toContain("first:start"));
+    release();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(["first:start", "first:end", "second:start"]);
+  });
+});
@@ -21,8 +21,14 @@ export default defineConfig({
     description:
       "Clean up your X. Organize who you follow with AI-powered smart lists.",
     version: "0.1.0",
-    permissions: ["sidePanel", "storage", "activeTab", "downloads"],
-    host_permissions: ["https://x.com/*", "https://api.anthropic.com/*"],
+    permissions: ["sidePanel", "storage", "activeTab", "downloads", "alarms"],
+    host_permissions: [
+      "https://x.com/*",
+      "https://api.anthropic.com/*",
+      "https://api.openai.com/*",
+    ],
+    // Custom OpenAI-compatible and local LLM servers, requested from Settings
+    optional_host_permissions: ["https://*/*", "http://*/*"],
     side_panel: {
       default_path: "sidepanel.html",
     },